@@ -8,6 +8,7 @@ import { Header } from "./components/Header";
 import { FloatingActions } from "./components/FloatingActions";
 import {
   DrawingStroke,
+  DrawingTool,
   GhostHighlight,
   Highlight,
   LeftPanel,
@@ -21,6 +22,7 @@ import {
   Tip,
   ViewportHighlight,
   exportPdf,
+  generateHighlightId,
 } from "./react-pdf-highlighter-extended";
 import "./style/App.css";
 import { testHighlights as _testHighlights } from "./test-highlights";
@@ -30,8 +32,6 @@ const TEST_HIGHLIGHTS = _testHighlights;
 const PRIMARY_PDF_URL = "https://arxiv.org/pdf/2203.11115";
 const SECONDARY_PDF_URL = "https://arxiv.org/pdf/1604.02480";
 
-const getNextId = () => String(Math.random()).slice(2);
-
 const parseIdFromHash = () => {
   return document.location.hash.slice("#highlight-".length);
 };
@@ -56,14 +56,18 @@ const App = () => {
   const [areaMode, setAreaMode] = useState<boolean>(false);
   const [isSignaturePadOpen, setIsSignaturePadOpen] = useState<boolean>(false);
   const [pendingImageData, setPendingImageData] = useState<string | null>(null);
+  const [pendingStrokes, setPendingStrokes] = useState<DrawingStroke[] | null>(null);
   // Drawing mode state
   const [drawingMode, setDrawingMode] = useState<boolean>(false);
   const [drawingStrokeColor, setDrawingStrokeColor] = useState<string>("#000000");
   const [drawingStrokeWidth, setDrawingStrokeWidth] = useState<number>(3);
+  const [drawingTool, setDrawingTool] = useState<DrawingTool>("pen");
   // Shape mode state
   const [shapeMode, setShapeMode] = useState<ShapeType | null>(null);
   const [shapeStrokeColor, setShapeStrokeColor] = useState<string>("#000000");
   const [shapeStrokeWidth, setShapeStrokeWidth] = useState<number>(2);
+  const [shapeDashed, setShapeDashed] = useState(false);
+  const [shapeMeasured, setShapeMeasured] = useState(false);
   // Sidebar state
   const [sidebarOpen, setSidebarOpen] = useState<boolean>(true);
   const [scrolledToHighlightId, setScrolledToHighlightId] = useState<string | null>(null);
@@ -153,7 +157,7 @@ const App = () => {
 
   const addHighlight = (highlight: GhostHighlight, comment: string) => {
     console.log("Saving highlight", highlight);
-    setHighlights([{ ...highlight, comment, id: getNextId() }, ...highlights]);
+    setHighlights([{ ...highlight, comment, id: generateHighlightId() }, ...highlights]);
   };
 
   const deleteHighlight = (highlight: ViewportHighlight | Highlight | CommentedHighlight) => {
@@ -176,7 +180,7 @@ const App = () => {
   const handleFreetextClick = (position: ScaledPosition) => {
     console.log("Creating freetext highlight", position);
     const newHighlight: CommentedHighlight = {
-      id: getNextId(),
+      id: generateHighlightId(),
       type: "freetext",
       position,
       content: { text: "New note" },
@@ -213,14 +217,17 @@ const App = () => {
         };
 
         const newHighlight: CommentedHighlight = {
-          id: getNextId(),
+          id: generateHighlightId(),
           type: "image",
           position: adjustedPosition,
-          content: { image: pendingImageData },
+          content: pendingStrokes
+            ? { image: pendingImageData, strokes: pendingStrokes }
+            : { image: pendingImageData },
           comment: "",
         };
         setHighlights([newHighlight, ...highlights]);
         setPendingImageData(null);
+        setPendingStrokes(null);
         setImageMode(false);
       };
       img.src = pendingImageData;
@@ -240,6 +247,7 @@ const App = () => {
         const dataUrl = e.target?.result as string;
         console.log("Image loaded, entering image mode");
         setPendingImageData(dataUrl);
+        setPendingStrokes(null);
         setImageMode(true);
       };
       reader.readAsDataURL(file);
@@ -252,9 +260,10 @@ const App = () => {
     setIsSignaturePadOpen(true);
   };
 
-  const handleSignatureComplete = (dataUrl: string) => {
+  const handleSignatureComplete = (dataUrl: string, strokes: DrawingStroke[]) => {
     console.log("Signature complete, entering image mode");
     setPendingImageData(dataUrl);
+    setPendingStrokes(strokes);
     setIsSignaturePadOpen(false);
     setImageMode(true);
   };
@@ -262,7 +271,7 @@ const App = () => {
   const handleDrawingComplete = (dataUrl: string, position: ScaledPosition, strokes: DrawingStroke[]) => {
     console.log("Drawing complete", position, "with", strokes.length, "strokes");
     const newHighlight: CommentedHighlight = {
-      id: getNextId(),
+      id: generateHighlightId(),
       type: "drawing",
       position,
       content: { image: dataUrl, strokes },
@@ -280,7 +289,7 @@ const App = () => {
   const handleShapeComplete = (position: ScaledPosition, shape: ShapeData) => {
     console.log("Shape complete", shape.shapeType, position);
     const newHighlight: CommentedHighlight = {
-      id: getNextId(),
+      id: generateHighlightId(),
       type: "shape",
       position,
       content: { shape },
@@ -476,11 +485,16 @@ const App = () => {
                     onDrawingCancel={handleDrawingCancel}
                     drawingStrokeColor={drawingStrokeColor}
                     drawingStrokeWidth={drawingStrokeWidth}
+                    drawingTool={drawingTool}
                     enableShapeMode={shapeMode}
                     onShapeComplete={handleShapeComplete}
                     onShapeCancel={handleShapeCancel}
                     shapeStrokeColor={shapeStrokeColor}
                     shapeStrokeWidth={shapeStrokeWidth}
+                    shapeDashPattern={shapeDashed ? [3, 2] : undefined}
+                    shapeMeasure={
+                      shapeMeasured ? { scale: 1 / 72, unit: "in" } : undefined
+                    }
                     style={{
                       height: "100%",
                     }}
@@ -512,12 +526,18 @@ const App = () => {
             onDrawingColorChange={setDrawingStrokeColor}
             drawingStrokeWidth={drawingStrokeWidth}
             onDrawingWidthChange={setDrawingStrokeWidth}
+            drawingTool={drawingTool}
+            onDrawingToolChange={setDrawingTool}
             shapeMode={shapeMode}
             onSetShapeMode={setShapeMode}
             shapeStrokeColor={shapeStrokeColor}
             onShapeColorChange={setShapeStrokeColor}
             shapeStrokeWidth={shapeStrokeWidth}
             onShapeWidthChange={setShapeStrokeWidth}
+            shapeDashed={shapeDashed}
+            onShapeDashedChange={setShapeDashed}
+            shapeMeasured={shapeMeasured}
+            onShapeMeasuredChange={setShapeMeasured}
           />
         </div>
       </div>
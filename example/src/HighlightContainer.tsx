@@ -6,6 +6,7 @@ import {
   FreetextHighlight,
   ImageHighlight,
   MonitoredHighlightContainer,
+  ShapeData,
   ShapeHighlight,
   TextHighlight,
   Tip,
@@ -149,16 +150,22 @@ const HighlightContainer = ({
       />
     );
   } else if (highlight.type === "shape") {
+    const shape: ShapeData = {
+      ...highlight.content?.shape,
+      shapeType:
+        highlight.shapeType || highlight.content?.shape?.shapeType || "rectangle",
+      strokeColor:
+        highlight.strokeColor || highlight.content?.shape?.strokeColor || "#000000",
+      strokeWidth:
+        highlight.strokeWidth || highlight.content?.shape?.strokeWidth || 2,
+    };
+
     component = (
       <ShapeHighlight
         highlight={highlight}
         isScrolledTo={isScrolledTo}
         bounds={highlightBindings.textLayer}
-        shapeType={highlight.shapeType || highlight.content?.shape?.shapeType || "rectangle"}
-        strokeColor={highlight.strokeColor || highlight.content?.shape?.strokeColor || "#000000"}
-        strokeWidth={highlight.strokeWidth || highlight.content?.shape?.strokeWidth || 2}
-        startPoint={highlight.content?.shape?.startPoint}
-        endPoint={highlight.content?.shape?.endPoint}
+        {...shape}
         onChange={(boundingRect) => {
           editHighlight(highlight.id, {
             position: {
@@ -167,20 +174,27 @@ const HighlightContainer = ({
             },
           });
         }}
-        onStyleChange={(style) => {
+        onStyleChange={({ fillColor, ...style }) => {
           console.log("Shape style changed:", style);
+          const nextShape: ShapeData = { ...shape, ...style };
+          if (fillColor !== undefined) {
+            nextShape.fillColor = fillColor ?? undefined;
+          }
           editHighlight(highlight.id, {
-            strokeColor: style.strokeColor,
-            strokeWidth: style.strokeWidth,
-            content: {
-              ...highlight.content,
-              shape: {
-                ...highlight.content?.shape,
-                shapeType: highlight.shapeType || highlight.content?.shape?.shapeType || "rectangle",
-                strokeColor: style.strokeColor || highlight.strokeColor || "#000000",
-                strokeWidth: style.strokeWidth || highlight.strokeWidth || 2,
+            strokeColor: nextShape.strokeColor,
+            strokeWidth: nextShape.strokeWidth,
+            content: { ...highlight.content, shape: nextShape },
+          });
+        }}
+        onShapeChange={(change, boundingRect) => {
+          editHighlight(highlight.id, {
+            content: { ...highlight.content, shape: { ...shape, ...change } },
+            ...(boundingRect && {
+              position: {
+                boundingRect: viewportToScaled(boundingRect),
+                rects: [],
               },
-            },
+            }),
           });
         }}
         onContextMenu={(event) =>
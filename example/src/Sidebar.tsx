@@ -1,11 +1,9 @@
-import React, { useMemo, useState } from "react";
-import type { Highlight, HighlightType } from "./react-pdf-highlighter-extended";
+import React from "react";
+import { AnnotationsPanel } from "./react-pdf-highlighter-extended";
+import type { Highlight } from "./react-pdf-highlighter-extended";
 import { CommentedHighlight } from "./types";
-import { HighlightFilters, SortOption } from "./components/HighlightFilters";
 import { HighlightCard } from "./components/HighlightCard";
-import { PageGroup } from "./components/PageGroup";
 import { Button } from "./components/ui/button";
-import { ScrollArea } from "./components/ui/scroll-area";
 import { FileText, RefreshCw, ArrowLeftRight } from "lucide-react";
 import { cn } from "./lib/utils";
 
@@ -34,74 +32,6 @@ const Sidebar = ({
   onDeleteHighlight,
   isOpen,
 }: SidebarProps) => {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [activeFilters, setActiveFilters] = useState<HighlightType[]>([]);
-  const [sortBy, setSortBy] = useState<SortOption>("page");
-
-  // Filter and sort highlights
-  const filteredHighlights = useMemo(() => {
-    let result = [...highlights];
-
-    // Apply search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(
-        (h) =>
-          h.content?.text?.toLowerCase().includes(query) ||
-          h.comment?.toLowerCase().includes(query)
-      );
-    }
-
-    // Apply type filters
-    if (activeFilters.length > 0) {
-      result = result.filter((h) => {
-        const type = h.type || "area";
-        return activeFilters.includes(type);
-      });
-    }
-
-    // Apply sorting
-    switch (sortBy) {
-      case "page":
-        result.sort(
-          (a, b) =>
-            a.position.boundingRect.pageNumber -
-            b.position.boundingRect.pageNumber
-        );
-        break;
-      case "newest":
-        // Reverse order (assuming highlights are added in order)
-        result.reverse();
-        break;
-      case "type":
-        result.sort((a, b) => {
-          const typeA = a.type || "area";
-          const typeB = b.type || "area";
-          return typeA.localeCompare(typeB);
-        });
-        break;
-    }
-
-    return result;
-  }, [highlights, searchQuery, activeFilters, sortBy]);
-
-  // Group highlights by page
-  const highlightsByPage = useMemo(() => {
-    const groups: Record<number, CommentedHighlight[]> = {};
-    filteredHighlights.forEach((highlight) => {
-      const page = highlight.position.boundingRect.pageNumber;
-      if (!groups[page]) {
-        groups[page] = [];
-      }
-      groups[page].push(highlight);
-    });
-    return groups;
-  }, [filteredHighlights]);
-
-  const pageNumbers = Object.keys(highlightsByPage)
-    .map(Number)
-    .sort((a, b) => a - b);
-
   return (
     <div
       className={cn(
@@ -124,72 +54,23 @@ const Sidebar = ({
         </div>
       </div>
 
-      {/* Filters */}
-      <div className="flex-shrink-0 border-b p-4">
-        <HighlightFilters
-          searchQuery={searchQuery}
-          onSearchChange={setSearchQuery}
-          activeFilters={activeFilters}
-          onFilterChange={setActiveFilters}
-          sortBy={sortBy}
-          onSortChange={setSortBy}
-        />
-      </div>
-
       {/* Highlights list */}
-      <ScrollArea className="flex-1">
-        <div className="p-2">
-          {pageNumbers.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-8 text-center">
-              <FileText className="mb-2 h-10 w-10 text-muted-foreground/50" />
-              <p className="text-sm text-muted-foreground">
-                {highlights.length === 0
-                  ? "No highlights yet"
-                  : "No matching highlights"}
-              </p>
-              <p className="mt-1 text-xs text-muted-foreground">
-                {highlights.length === 0
-                  ? "Select text or hold Alt to create area highlights"
-                  : "Try adjusting your filters"}
-              </p>
-            </div>
-          ) : sortBy === "page" ? (
-            // Grouped by page view
-            pageNumbers.map((pageNumber) => (
-              <PageGroup
-                key={pageNumber}
-                pageNumber={pageNumber}
-                highlightCount={highlightsByPage[pageNumber].length}
-              >
-                {highlightsByPage[pageNumber].map((highlight) => (
-                  <HighlightCard
-                    key={highlight.id}
-                    highlight={highlight}
-                    isScrolledTo={scrolledToHighlightId === highlight.id}
-                    onClick={() => updateHash(highlight)}
-                    onEdit={() => onEditHighlight(highlight)}
-                    onDelete={() => onDeleteHighlight(highlight)}
-                  />
-                ))}
-              </PageGroup>
-            ))
-          ) : (
-            // Flat list view
-            <div className="space-y-2 p-2">
-              {filteredHighlights.map((highlight) => (
-                <HighlightCard
-                  key={highlight.id}
-                  highlight={highlight}
-                  isScrolledTo={scrolledToHighlightId === highlight.id}
-                  onClick={() => updateHash(highlight)}
-                  onEdit={() => onEditHighlight(highlight)}
-                  onDelete={() => onDeleteHighlight(highlight)}
-                />
-              ))}
-            </div>
-          )}
-        </div>
-      </ScrollArea>
+      <AnnotationsPanel
+        className="min-h-0 flex-1"
+        highlights={highlights}
+        activeHighlightId={scrolledToHighlightId}
+        onHighlightClick={updateHash}
+        getComment={(highlight) => highlight.comment}
+        renderItem={(highlight) => (
+          <HighlightCard
+            highlight={highlight}
+            isScrolledTo={scrolledToHighlightId === highlight.id}
+            onClick={() => {}}
+            onEdit={() => onEditHighlight(highlight)}
+            onDelete={() => onDeleteHighlight(highlight)}
+          />
+        )}
+      />
 
       {/* Footer actions */}
       <div className="flex-shrink-0 border-t p-3">
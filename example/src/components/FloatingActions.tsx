@@ -11,7 +11,15 @@ import {
   Circle,
   ArrowRight,
   RectangleHorizontal,
+  Eraser,
+  Minus,
+  MoveHorizontal,
+  Spline,
+  Pentagon,
+  Cloud,
+  MessageSquare,
 } from "lucide-react";
+import type { DrawingTool, ShapeType } from "../react-pdf-highlighter-extended";
 import { Button } from "./ui/button";
 import { Slider } from "./ui/slider";
 import {
@@ -22,8 +30,6 @@ import {
 } from "./ui/tooltip";
 import { cn } from "../lib/utils";
 
-type ShapeType = "rectangle" | "circle" | "arrow";
-
 interface FloatingActionsProps {
   highlightPen: boolean;
   onToggleHighlightPen: () => void;
@@ -39,6 +45,8 @@ interface FloatingActionsProps {
   onDrawingColorChange: (color: string) => void;
   drawingStrokeWidth: number;
   onDrawingWidthChange: (width: number) => void;
+  drawingTool: DrawingTool;
+  onDrawingToolChange: (tool: DrawingTool) => void;
   // Shape mode props
   shapeMode: ShapeType | null;
   onSetShapeMode: (mode: ShapeType | null) => void;
@@ -46,6 +54,10 @@ interface FloatingActionsProps {
   onShapeColorChange: (color: string) => void;
   shapeStrokeWidth: number;
   onShapeWidthChange: (width: number) => void;
+  shapeDashed: boolean;
+  onShapeDashedChange: (dashed: boolean) => void;
+  shapeMeasured: boolean;
+  onShapeMeasuredChange: (measured: boolean) => void;
 }
 
 const colorOptions = [
@@ -58,6 +70,36 @@ const colorOptions = [
   "#8b5cf6",
 ];
 
+const drawingTools = [
+  { tool: "pen", label: "Pen", Icon: Pencil },
+  { tool: "highlighter", label: "Highlighter", Icon: Highlighter },
+  { tool: "eraser", label: "Eraser", Icon: Eraser },
+] as const;
+
+const shapeOptions: {
+  shapeType: ShapeType;
+  label: string;
+  Icon: typeof Circle;
+}[] = [
+  { shapeType: "rectangle", label: "Rectangle", Icon: RectangleHorizontal },
+  { shapeType: "circle", label: "Circle", Icon: Circle },
+  { shapeType: "line", label: "Line", Icon: Minus },
+  { shapeType: "arrow", label: "Arrow", Icon: ArrowRight },
+  { shapeType: "doubleArrow", label: "Double arrow", Icon: MoveHorizontal },
+  { shapeType: "polyline", label: "Polyline", Icon: Spline },
+  { shapeType: "polygon", label: "Polygon", Icon: Pentagon },
+  { shapeType: "cloud", label: "Cloud", Icon: Cloud },
+  { shapeType: "callout", label: "Callout", Icon: MessageSquare },
+];
+
+// Shapes that can show their length
+const measurableShapes: ShapeType[] = [
+  "line",
+  "arrow",
+  "doubleArrow",
+  "polyline",
+];
+
 export function FloatingActions({
   highlightPen,
   onToggleHighlightPen,
@@ -73,12 +115,18 @@ export function FloatingActions({
   onDrawingColorChange,
   drawingStrokeWidth,
   onDrawingWidthChange,
+  drawingTool,
+  onDrawingToolChange,
   shapeMode,
   onSetShapeMode,
   shapeStrokeColor,
   onShapeColorChange,
   shapeStrokeWidth,
   onShapeWidthChange,
+  shapeDashed,
+  onShapeDashedChange,
+  shapeMeasured,
+  onShapeMeasuredChange,
 }: FloatingActionsProps) {
   const [isOpen, setIsOpen] = useState(false);
 
@@ -91,6 +139,28 @@ export function FloatingActions({
         {drawingMode && (
           <div className="mb-2 rounded-lg border bg-background p-3 shadow-lg">
             <div className="space-y-3">
+              <div>
+                <p className="mb-2 text-xs font-medium text-muted-foreground">
+                  Tool
+                </p>
+                <div className="flex gap-1">
+                  {drawingTools.map(({ tool, label, Icon }) => (
+                    <button
+                      key={tool}
+                      title={label}
+                      className={cn(
+                        "h-8 w-8 rounded border-2 flex items-center justify-center transition-transform hover:scale-110",
+                        drawingTool === tool
+                          ? "border-primary bg-primary/10"
+                          : "border-transparent"
+                      )}
+                      onClick={() => onDrawingToolChange(tool)}
+                    >
+                      <Icon className="h-4 w-4" />
+                    </button>
+                  ))}
+                </div>
+              </div>
               <div>
                 <p className="mb-2 text-xs font-medium text-muted-foreground">
                   Color
@@ -134,42 +204,26 @@ export function FloatingActions({
             <div className="space-y-3">
               <div>
                 <p className="mb-2 text-xs font-medium text-muted-foreground">
-                  Shape: {shapeMode.charAt(0).toUpperCase() + shapeMode.slice(1)}
+                  Shape:{" "}
+                  {shapeOptions.find(({ shapeType }) => shapeType === shapeMode)
+                    ?.label}
                 </p>
-                <div className="flex gap-1">
-                  <button
-                    className={cn(
-                      "h-8 w-8 rounded border-2 flex items-center justify-center transition-transform hover:scale-110",
-                      shapeMode === "rectangle"
-                        ? "border-primary bg-primary/10"
-                        : "border-transparent"
-                    )}
-                    onClick={() => onSetShapeMode("rectangle")}
-                  >
-                    <RectangleHorizontal className="h-4 w-4" />
-                  </button>
-                  <button
-                    className={cn(
-                      "h-8 w-8 rounded border-2 flex items-center justify-center transition-transform hover:scale-110",
-                      shapeMode === "circle"
-                        ? "border-primary bg-primary/10"
-                        : "border-transparent"
-                    )}
-                    onClick={() => onSetShapeMode("circle")}
-                  >
-                    <Circle className="h-4 w-4" />
-                  </button>
-                  <button
-                    className={cn(
-                      "h-8 w-8 rounded border-2 flex items-center justify-center transition-transform hover:scale-110",
-                      shapeMode === "arrow"
-                        ? "border-primary bg-primary/10"
-                        : "border-transparent"
-                    )}
-                    onClick={() => onSetShapeMode("arrow")}
-                  >
-                    <ArrowRight className="h-4 w-4" />
-                  </button>
+                <div className="grid grid-cols-5 gap-1">
+                  {shapeOptions.map(({ shapeType, label, Icon }) => (
+                    <button
+                      key={shapeType}
+                      title={label}
+                      className={cn(
+                        "h-8 w-8 rounded border-2 flex items-center justify-center transition-transform hover:scale-110",
+                        shapeMode === shapeType
+                          ? "border-primary bg-primary/10"
+                          : "border-transparent"
+                      )}
+                      onClick={() => onSetShapeMode(shapeType)}
+                    >
+                      <Icon className="h-4 w-4" />
+                    </button>
+                  ))}
                 </div>
               </div>
               <div>
@@ -205,6 +259,26 @@ export function FloatingActions({
                   className="w-40"
                 />
               </div>
+              <div className="flex flex-col gap-1 text-xs">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={shapeDashed}
+                    onChange={(e) => onShapeDashedChange(e.target.checked)}
+                  />
+                  Dashed
+                </label>
+                {measurableShapes.includes(shapeMode) && (
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={shapeMeasured}
+                      onChange={(e) => onShapeMeasuredChange(e.target.checked)}
+                    />
+                    Show length (inches)
+                  </label>
+                )}
+              </div>
             </div>
           </div>
         )}
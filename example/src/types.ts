@@ -1,4 +1,4 @@
-import { Highlight, Content } from "./react-pdf-highlighter-extended";
+import { Highlight, Content, ShapeType } from "./react-pdf-highlighter-extended";
 
 export interface CommentedHighlight extends Highlight {
   content: Content;
@@ -12,7 +12,7 @@ export interface CommentedHighlight extends Highlight {
   highlightColor?: string;
   highlightStyle?: "highlight" | "underline" | "strikethrough";
   // Shape highlight style properties
-  shapeType?: "rectangle" | "circle" | "arrow";
+  shapeType?: ShapeType;
   strokeColor?: string;
   strokeWidth?: number;
 }
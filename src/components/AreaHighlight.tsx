@@ -9,6 +9,7 @@ import React, {
 
 import { getPageFromElement } from "../lib/pdfjs-dom";
 import { Rnd } from "react-rnd";
+import { getHighlightLabel } from "../lib/highlight-label";
 import type { LTWHP, ViewportHighlight } from "../types";
 
 /**
@@ -42,6 +43,18 @@ export interface AreaHighlightProps {
    */
   isScrolledTo?: boolean;
 
+  /**
+   * Is the highlight part of the current multi-selection? See
+   * {@link PdfHighlighterUtils.selectHighlights}.
+   */
+  isSelected?: boolean;
+
+  /**
+   * Accessible name announced by screen readers when the highlight is focused.
+   * Defaults to the highlight's type, page and text. See {@link getHighlightLabel}.
+   */
+  ariaLabel?: string;
+
   /**
    * react-rnd bounds on the highlight area. This is useful for preventing the user
    * moving the highlight off the viewer/page.  See [react-rnd docs](https://github.com/bokuweb/react-rnd).
@@ -129,6 +142,8 @@ export const AreaHighlight = ({
   highlight,
   onChange,
   isScrolledTo,
+  isSelected,
+  ariaLabel,
   bounds,
   onContextMenu,
   onEditStart,
@@ -169,6 +184,7 @@ export const AreaHighlight = ({
   }, [isStylePanelOpen]);
 
   const highlightClass = isScrolledTo ? "AreaHighlight--scrolledTo" : "";
+  const selectedClass = isSelected ? "AreaHighlight--selected" : "";
 
   // Generate key based on position. This forces a remount (and a defaultpos update)
   // whenever highlight position changes (e.g., when updated, scale changes, etc.)
@@ -184,8 +200,14 @@ export const AreaHighlight = ({
 
   return (
     <div
-      className={`AreaHighlight ${highlightClass}`}
+      className={`AreaHighlight ${highlightClass} ${selectedClass}`}
       onContextMenu={onContextMenu}
+      data-highlight-id={highlight.id}
+      tabIndex={0}
+      role="button"
+      aria-roledescription="highlight"
+      aria-label={ariaLabel ?? getHighlightLabel(highlight)}
+      aria-pressed={!!isSelected}
     >
       {/* Toolbar wrapper - extends down to overlap with highlight */}
       {(onStyleChange || onDelete) && (
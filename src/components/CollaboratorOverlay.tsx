@@ -0,0 +1,116 @@
+import { PDFViewer } from "pdfjs-dist/types/web/pdf_viewer";
+import React from "react";
+import { scaledPositionToViewport } from "../lib/coordinates";
+import { Collaborator, LTWHP } from "../types";
+
+/**
+ * The props type for {@link CollaboratorOverlay}.
+ *
+ * @category Component Properties
+ * @internal
+ */
+export interface CollaboratorOverlayProps {
+  /**
+   * Other users whose cursor or selection is on this page.
+   */
+  collaborators: Collaborator[];
+
+  /**
+   * The page number of the PDF document (1 indexed).
+   */
+  pageNumber: number;
+
+  /**
+   * The PDFViewer instance containing the page.
+   */
+  viewer: PDFViewer;
+}
+
+/**
+ * Shows the cursors and selections of other users on a single page, with
+ * their names. Its rendering should be controlled by a {@link HighlightLayer}.
+ *
+ * @category Component
+ * @internal
+ */
+export const CollaboratorOverlay = ({
+  collaborators,
+  pageNumber,
+  viewer,
+}: CollaboratorOverlayProps) => {
+  return (
+    <div className="CollaboratorOverlay">
+      {collaborators.map(({ id, name, color, cursor, selection }) => {
+        let selectionRects: LTWHP[] = [];
+        if (selection) {
+          const { boundingRect, rects } = scaledPositionToViewport(
+            selection,
+            viewer,
+          );
+          // Area selections have no rects of their own
+          selectionRects = (rects.length > 0 ? rects : [boundingRect]).filter(
+            (rect) => rect.pageNumber === pageNumber,
+          );
+        }
+
+        const cursorPoint =
+          cursor?.pageNumber === pageNumber
+            ? scaledPositionToViewport(
+                {
+                  boundingRect: {
+                    x1: cursor.x,
+                    y1: cursor.y,
+                    x2: cursor.x,
+                    y2: cursor.y,
+                    width: 1,
+                    height: 1,
+                    pageNumber,
+                  },
+                  rects: [],
+                },
+                viewer,
+              ).boundingRect
+            : null;
+
+        return (
+          <React.Fragment key={id}>
+            {selectionRects.map((rect, index) => (
+              <div
+                key={index}
+                className="CollaboratorOverlay__selection"
+                style={{
+                  left: rect.left,
+                  top: rect.top,
+                  width: rect.width,
+                  height: rect.height,
+                  backgroundColor: color,
+                }}
+              />
+            ))}
+            {cursorPoint && (
+              <div
+                className="CollaboratorOverlay__cursor"
+                style={{ left: cursorPoint.left, top: cursorPoint.top, color }}
+              >
+                <svg width="14" height="18" viewBox="0 0 14 18" aria-hidden>
+                  <path
+                    d="M1 1 L1 15 L5 11 L8 17 L10 16 L7 10 L13 10 Z"
+                    fill="currentColor"
+                    stroke="white"
+                    strokeWidth="1"
+                  />
+                </svg>
+                <span
+                  className="CollaboratorOverlay__label"
+                  style={{ backgroundColor: color }}
+                >
+                  {name}
+                </span>
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,372 @@
+import React, {
+  CSSProperties,
+  KeyboardEvent,
+  ReactNode,
+  useRef,
+  useState,
+} from "react";
+import { parseMentions, splitMentions } from "../lib/comment-threads";
+import type {
+  CommentAuthor,
+  CommentThreadData,
+  HighlightComment,
+} from "../types";
+
+/**
+ * The props type for {@link CommentThread}.
+ *
+ * @category Component Properties
+ */
+export interface CommentThreadProps {
+  /**
+   * The thread to show, or `null` to show a form that starts one.
+   */
+  thread: CommentThreadData | null;
+
+  /**
+   * The user writing comments.
+   */
+  currentUser: CommentAuthor;
+
+  /**
+   * Users that can be mentioned with `@name`. Typing `@` suggests them.
+   */
+  mentionableUsers?: CommentAuthor[];
+
+  /**
+   * Callback when the user adds a comment: the opening comment if `thread`
+   * is `null`, a reply otherwise.
+   *
+   * @param body - Text of the comment.
+   * @param mentions - IDs of the mentioned users.
+   */
+  onAddComment(body: string, mentions: string[]): void;
+
+  /**
+   * Callback when the user edits one of their comments. Editing is
+   * disabled without it.
+   */
+  onEditComment?(commentId: string, body: string, mentions: string[]): void;
+
+  /**
+   * Callback when the user deletes one of their comments. Deleting is
+   * disabled without it.
+   */
+  onDeleteComment?(commentId: string): void;
+
+  /**
+   * Callback when the user resolves or reopens the thread. Resolving is
+   * disabled without it.
+   */
+  onResolve?(resolved: boolean): void;
+
+  /**
+   * Whether the current user may edit and delete a comment.
+   * Default: only their own comments.
+   */
+  canModify?(comment: HighlightComment): boolean;
+
+  /**
+   * Format a comment's ISO 8601 timestamp.
+   * Default: the browser's locale format.
+   */
+  formatTimestamp?(timestamp: string): string;
+
+  /**
+   * Placeholder of the comment field.
+   * Default: "Add a comment…" or "Reply…"
+   */
+  placeholder?: string;
+
+  /**
+   * Class name of the root element.
+   */
+  className?: string;
+
+  /**
+   * Style of the root element.
+   */
+  style?: CSSProperties;
+}
+
+const defaultFormatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString();
+
+/** Render a comment body with its mentions emphasized. */
+const renderBody = (body: string, users: CommentAuthor[]): ReactNode =>
+  splitMentions(body, users).map((part, index) =>
+    index % 2 === 1 ? (
+      <span key={index} className="CommentThread__mention">
+        {part}
+      </span>
+    ) : (
+      part
+    ),
+  );
+
+interface CommentComposerProps {
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  mentionableUsers: CommentAuthor[];
+  onSubmit(body: string, mentions: string[]): void;
+  onCancel?(): void;
+}
+
+/**
+ * A comment field that suggests users after `@`. Submits on the button or
+ * Ctrl/Cmd+Enter.
+ */
+const CommentComposer = ({
+  initialBody = "",
+  placeholder,
+  submitLabel,
+  mentionableUsers,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) => {
+  const [body, setBody] = useState(initialBody);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // The word being typed, if it starts with "@"
+  const updateMentionQuery = (text: string, caret: number) => {
+    const match = /(?:^|\s)@([^\s@]*)$/u.exec(text.slice(0, caret));
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const suggestions =
+    mentionQuery === null
+      ? []
+      : mentionableUsers.filter(({ name }) =>
+          name.toLowerCase().startsWith(mentionQuery.toLowerCase()),
+        );
+
+  const insertMention = (user: CommentAuthor) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? body.length;
+    const start = body.slice(0, caret).lastIndexOf("@");
+    const next = `${body.slice(0, start)}@${user.name} ${body.slice(caret)}`;
+
+    setBody(next);
+    setMentionQuery(null);
+    textarea?.focus();
+  };
+
+  const submit = () => {
+    const trimmed = body.trim();
+    if (!trimmed) return;
+
+    onSubmit(trimmed, parseMentions(trimmed, mentionableUsers));
+    setBody("");
+    setMentionQuery(null);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      submit();
+    } else if (event.key === "Escape" && mentionQuery !== null) {
+      event.stopPropagation();
+      setMentionQuery(null);
+    } else if (event.key === "Escape" && onCancel) {
+      event.stopPropagation();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="CommentThread__composer">
+      <textarea
+        ref={textareaRef}
+        className="CommentThread__input"
+        value={body}
+        placeholder={placeholder}
+        rows={2}
+        autoFocus={Boolean(onCancel)}
+        onChange={(event) => {
+          setBody(event.target.value);
+          updateMentionQuery(event.target.value, event.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+      />
+      {suggestions.length > 0 && (
+        <ul className="CommentThread__suggestions" role="listbox">
+          {suggestions.map((user) => (
+            <li key={user.id} role="option" aria-selected={false}>
+              <button
+                type="button"
+                className="CommentThread__suggestion"
+                // Keep the focus in the field
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => insertMention(user)}
+              >
+                {user.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="CommentThread__buttons">
+        {onCancel && (
+          <button
+            type="button"
+            className="CommentThread__button"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          className="CommentThread__button CommentThread__button--primary"
+          disabled={!body.trim()}
+          onClick={submit}
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * A discussion about a highlight: comments with replies, mentions and a
+ * resolved state. It holds no data itself; apply the callbacks to your
+ * threads, e.g. with {@link addCommentReply} and {@link resolveCommentThread}.
+ * It fits in a highlight tip of a {@link MonitoredHighlightContainer} as well
+ * as in a side panel.
+ *
+ * @category Component
+ */
+export const CommentThread = ({
+  thread,
+  currentUser,
+  mentionableUsers = [],
+  onAddComment,
+  onEditComment,
+  onDeleteComment,
+  onResolve,
+  canModify = (comment) => comment.author.id === currentUser.id,
+  formatTimestamp = defaultFormatTimestamp,
+  placeholder,
+  className,
+  style,
+}: CommentThreadProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const comments = thread?.comments ?? [];
+  const resolved = Boolean(thread?.resolved);
+
+  let rootClassName = "CommentThread";
+  if (resolved) rootClassName += " CommentThread--resolved";
+  if (className) rootClassName += ` ${className}`;
+
+  return (
+    <div className={rootClassName} style={style}>
+      {thread && onResolve && (
+        <div className="CommentThread__header">
+          {resolved && (
+            <span className="CommentThread__status">
+              Resolved
+              {thread.resolvedBy ? ` by ${thread.resolvedBy.name}` : ""}
+            </span>
+          )}
+          <button
+            type="button"
+            className="CommentThread__button"
+            onClick={() => onResolve(!resolved)}
+          >
+            {resolved ? "Reopen" : "Resolve"}
+          </button>
+        </div>
+      )}
+
+      {comments.length > 0 && (
+        <ol className="CommentThread__comments">
+          {comments.map((comment) => {
+            const modifiable = canModify(comment);
+
+            return (
+              <li key={comment.id} className="CommentThread__comment">
+                <div className="CommentThread__meta">
+                  {comment.author.avatarUrl ? (
+                    <img
+                      className="CommentThread__avatar"
+                      src={comment.author.avatarUrl}
+                      alt=""
+                    />
+                  ) : (
+                    <span className="CommentThread__avatar" aria-hidden>
+                      {comment.author.name.charAt(0).toUpperCase()}
+                    </span>
+                  )}
+                  <span className="CommentThread__author">
+                    {comment.author.name}
+                  </span>
+                  <time
+                    className="CommentThread__time"
+                    dateTime={comment.createdAt}
+                  >
+                    {formatTimestamp(comment.createdAt)}
+                    {comment.updatedAt ? " (edited)" : ""}
+                  </time>
+                </div>
+
+                {editingId === comment.id && onEditComment ? (
+                  <CommentComposer
+                    initialBody={comment.body}
+                    placeholder=""
+                    submitLabel="Save"
+                    mentionableUsers={mentionableUsers}
+                    onSubmit={(body, mentions) => {
+                      onEditComment(comment.id, body, mentions);
+                      setEditingId(null);
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <p className="CommentThread__body">
+                    {renderBody(comment.body, mentionableUsers)}
+                  </p>
+                )}
+
+                {modifiable && editingId !== comment.id && (
+                  <div className="CommentThread__actions">
+                    {onEditComment && (
+                      <button
+                        type="button"
+                        className="CommentThread__link"
+                        onClick={() => setEditingId(comment.id)}
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {onDeleteComment && (
+                      <button
+                        type="button"
+                        className="CommentThread__link"
+                        onClick={() => onDeleteComment(comment.id)}
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {!resolved && (
+        <CommentComposer
+          placeholder={placeholder ?? (thread ? "Reply…" : "Add a comment…")}
+          submitLabel={thread ? "Reply" : "Comment"}
+          mentionableUsers={mentionableUsers}
+          onSubmit={onAddComment}
+        />
+      )}
+    </div>
+  );
+};
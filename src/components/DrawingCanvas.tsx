@@ -3,11 +3,27 @@ import React, {
   useEffect,
   useCallback,
   useState,
-  MouseEvent as ReactMouseEvent,
-  TouchEvent as ReactTouchEvent,
+  PointerEvent as ReactPointerEvent,
 } from "react";
-import { viewportPositionToScaled } from "../lib/coordinates";
-import { DrawingStroke, ScaledPosition, ViewportPosition } from "../types";
+import {
+  rotatePoint,
+  rotateSize,
+  viewportPositionToScaled,
+} from "../lib/coordinates";
+import { silentLogger } from "../lib/logger";
+import renderStrokesToImage, { drawStroke } from "../lib/render-strokes";
+import {
+  eraseStrokes,
+  HIGHLIGHTER_WIDTH_FACTOR,
+} from "../lib/stroke-geometry";
+import {
+  DrawingPoint,
+  DrawingStroke,
+  DrawingTool,
+  Logger,
+  ScaledPosition,
+  ViewportPosition,
+} from "../types";
 
 import type { PDFViewer as TPDFViewer } from "pdfjs-dist/web/pdf_viewer.mjs";
 
@@ -34,6 +50,20 @@ export interface DrawingCanvasProps {
    */
   strokeWidth?: number;
 
+  /**
+   * The tool to draw with. Pen strokes follow the pressure of a pen,
+   * highlighter strokes are four times as wide and translucent, and the
+   * eraser removes the parts of strokes it passes over.
+   * @default "pen"
+   */
+  tool?: DrawingTool;
+
+  /**
+   * Diameter of the eraser.
+   * @default 20
+   */
+  eraserSize?: number;
+
   /**
    * The PDF viewer instance.
    */
@@ -52,22 +82,35 @@ export interface DrawingCanvasProps {
    * Callback when drawing is cancelled.
    */
   onCancel: () => void;
-}
 
-interface Point {
-  x: number;
-  y: number;
+  /**
+   * Receives debug messages. Default: silent
+   */
+  logger?: Logger;
 }
 
-interface Stroke {
-  points: Point[];
-  color: string;
-  width: number;
-}
+/**
+ * The point of a pointer event relative to a page, with the pressure and tilt
+ * of pens.
+ */
+const getPoint = (event: PointerEvent, rect: DOMRect): DrawingPoint => {
+  // Stay on the page, which may have neighbours to its sides
+  const point: DrawingPoint = {
+    x: Math.min(Math.max(event.clientX - rect.left, 0), rect.width),
+    y: Math.min(Math.max(event.clientY - rect.top, 0), rect.height),
+  };
+  // Mice and most touch screens report a made-up pressure
+  if (event.pointerType === "pen") {
+    point.pressure = event.pressure;
+    point.tiltX = event.tiltX;
+    point.tiltY = event.tiltY;
+  }
+  return point;
+};
 
 /**
  * A transparent overlay canvas for freehand drawing on PDF pages.
- * Supports mouse and touch input.
+ * Uses pointer events, so pens, mice and touch all work.
  *
  * @category Component
  */
@@ -75,14 +118,21 @@ export const DrawingCanvas = ({
   isActive,
   strokeColor = "#000000",
   strokeWidth = 3,
+  tool = "pen",
+  eraserSize = 20,
   viewer,
   onComplete,
   onCancel,
+  logger = silentLogger,
 }: DrawingCanvasProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [strokes, setStrokes] = useState<Stroke[]>([]);
-  const [currentStroke, setCurrentStroke] = useState<Stroke | null>(null);
-  const isDrawingRef = useRef(false);
+  const [strokes, setStrokes] = useState<DrawingStroke[]>([]);
+  const [currentStroke, setCurrentStroke] = useState<DrawingStroke | null>(
+    null
+  );
+  // The pointer drawing or erasing, so other fingers are ignored
+  const pointerIdRef = useRef<number | null>(null);
+  const lastEraserPointRef = useRef<DrawingPoint | null>(null);
   const [pageNumber, setPageNumber] = useState<number | null>(null);
   const [pageElement, setPageElement] = useState<HTMLElement | null>(null);
 
@@ -122,37 +172,8 @@ export const DrawingCanvas = ({
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Draw all completed strokes with their own color/width
-    strokes.forEach((stroke) => {
-      if (stroke.points.length < 2) return;
-
-      ctx.strokeStyle = stroke.color;
-      ctx.lineWidth = stroke.width;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-
-      ctx.beginPath();
-      ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-      stroke.points.slice(1).forEach((point) => {
-        ctx.lineTo(point.x, point.y);
-      });
-      ctx.stroke();
-    });
-
-    // Draw current stroke with current color/width
-    if (currentStroke && currentStroke.points.length >= 2) {
-      ctx.strokeStyle = currentStroke.color;
-      ctx.lineWidth = currentStroke.width;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-
-      ctx.beginPath();
-      ctx.moveTo(currentStroke.points[0].x, currentStroke.points[0].y);
-      currentStroke.points.slice(1).forEach((point) => {
-        ctx.lineTo(point.x, point.y);
-      });
-      ctx.stroke();
-    }
+    strokes.forEach((stroke) => drawStroke(ctx, stroke));
+    if (currentStroke) drawStroke(ctx, currentStroke);
   }, [strokes, currentStroke]);
 
   // Redraw when strokes change
@@ -160,13 +181,20 @@ export const DrawingCanvas = ({
     redrawCanvas();
   }, [redrawCanvas]);
 
-  // Handle mouse/touch down
-  const handleStart = useCallback(
-    (clientX: number, clientY: number) => {
-      const pageInfo = findPageFromPoint(clientX, clientY);
+  const handlePointerDown = useCallback(
+    (e: ReactPointerEvent<HTMLCanvasElement>) => {
+      if (pointerIdRef.current !== null || e.button !== 0) return;
+      e.preventDefault();
+
+      const pageInfo = findPageFromPoint(e.clientX, e.clientY);
       if (!pageInfo) return;
 
-      console.log("DrawingCanvas: Started drawing on page", pageInfo.pageNumber);
+      logger.debug(
+        "[DrawingCanvas] Started",
+        tool,
+        "on page",
+        pageInfo.pageNumber
+      );
 
       // Set page context if not already set
       if (pageNumber === null) {
@@ -183,113 +211,109 @@ export const DrawingCanvas = ({
         }
       } else if (pageInfo.pageNumber !== pageNumber) {
         // User trying to draw on different page - ignore
-        console.log("DrawingCanvas: Ignoring - different page");
+        logger.debug("[DrawingCanvas] Ignoring - different page");
+        return;
+      }
+
+      // Keep receiving moves when the pointer leaves the canvas
+      e.currentTarget.setPointerCapture(e.pointerId);
+      pointerIdRef.current = e.pointerId;
+
+      const point = getPoint(e.nativeEvent, pageInfo.rect);
+      if (tool === "eraser") {
+        lastEraserPointRef.current = point;
+        setStrokes((prev) => eraseStrokes(prev, point, point, eraserSize / 2));
         return;
       }
 
-      isDrawingRef.current = true;
-      const pos = {
-        x: clientX - pageInfo.rect.left,
-        y: clientY - pageInfo.rect.top,
-      };
-      setCurrentStroke({ points: [pos], color: strokeColor, width: strokeWidth });
+      setCurrentStroke({
+        points: [point],
+        color: strokeColor,
+        ...(tool === "highlighter"
+          ? { width: strokeWidth * HIGHLIGHTER_WIDTH_FACTOR, tool }
+          : { width: strokeWidth }),
+      });
     },
-    [pageNumber, findPageFromPoint, strokeColor, strokeWidth]
+    [
+      pageNumber,
+      findPageFromPoint,
+      strokeColor,
+      strokeWidth,
+      tool,
+      eraserSize,
+      logger,
+    ]
   );
 
-  // Handle mouse/touch move
-  const handleMove = useCallback(
-    (clientX: number, clientY: number) => {
-      if (!isDrawingRef.current || !pageElement) return;
+  const handlePointerMove = useCallback(
+    (e: ReactPointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerId !== pointerIdRef.current || !pageElement) return;
 
+      // Pens report more moves than there are frames
+      const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
       const rect = pageElement.getBoundingClientRect();
-      const pos = {
-        x: clientX - rect.left,
-        y: clientY - rect.top,
-      };
+      const points = (events.length > 0 ? events : [e.nativeEvent]).map(
+        (event) => getPoint(event, rect)
+      );
+
+      const lastEraserPoint = lastEraserPointRef.current;
+      if (lastEraserPoint) {
+        lastEraserPointRef.current = points[points.length - 1];
+        setStrokes((prev) =>
+          points.reduce(
+            (remaining, point, index) =>
+              eraseStrokes(
+                remaining,
+                index === 0 ? lastEraserPoint : points[index - 1],
+                point,
+                eraserSize / 2
+              ),
+            prev
+          )
+        );
+        return;
+      }
 
       setCurrentStroke((prev) => {
         if (!prev) return null;
-        return { ...prev, points: [...prev.points, pos] };
+        return { ...prev, points: [...prev.points, ...points] };
       });
     },
-    [pageElement]
-  );
-
-  // Handle mouse/touch end
-  const handleEnd = useCallback(() => {
-    if (!isDrawingRef.current) return;
-    isDrawingRef.current = false;
-
-    if (currentStroke && currentStroke.points.length >= 2) {
-      setStrokes((prev) => [...prev, currentStroke]);
-    }
-    setCurrentStroke(null);
-  }, [currentStroke]);
-
-  // Mouse event handlers
-  const handleMouseDown = useCallback(
-    (e: ReactMouseEvent) => {
-      e.preventDefault();
-      handleStart(e.clientX, e.clientY);
-    },
-    [handleStart]
-  );
-
-  const handleMouseMove = useCallback(
-    (e: ReactMouseEvent) => {
-      handleMove(e.clientX, e.clientY);
-    },
-    [handleMove]
+    [pageElement, eraserSize]
   );
 
-  const handleMouseUp = useCallback(() => {
-    handleEnd();
-  }, [handleEnd]);
+  const handlePointerUp = useCallback(
+    (e: ReactPointerEvent<HTMLCanvasElement>) => {
+      if (e.pointerId !== pointerIdRef.current) return;
+      pointerIdRef.current = null;
+      lastEraserPointRef.current = null;
 
-  // Touch event handlers
-  const handleTouchStart = useCallback(
-    (e: ReactTouchEvent) => {
-      e.preventDefault();
-      if (e.touches.length > 0) {
-        handleStart(e.touches[0].clientX, e.touches[0].clientY);
+      if (currentStroke && currentStroke.points.length >= 2) {
+        setStrokes((prev) => [...prev, currentStroke]);
       }
+      setCurrentStroke(null);
     },
-    [handleStart]
+    [currentStroke]
   );
 
-  const handleTouchMove = useCallback(
-    (e: ReactTouchEvent) => {
-      e.preventDefault();
-      if (e.touches.length > 0) {
-        handleMove(e.touches[0].clientX, e.touches[0].clientY);
-      }
-    },
-    [handleMove]
-  );
-
-  const handleTouchEnd = useCallback(() => {
-    handleEnd();
-  }, [handleEnd]);
-
   // Handle keyboard events
   useEffect(() => {
     if (!isActive) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.code === "Escape") {
-        console.log("DrawingCanvas: Cancelled via Escape");
+        logger.debug("[DrawingCanvas] Cancelled via Escape");
         onCancel();
       }
     };
 
     document.addEventListener("keydown", handleKeyDown);
     return () => document.removeEventListener("keydown", handleKeyDown);
-  }, [isActive, onCancel]);
+  }, [isActive, onCancel, logger]);
 
   // Clear drawing
   const handleClear = () => {
-    console.log("DrawingCanvas: Cleared strokes");
+    logger.debug("[DrawingCanvas] Cleared strokes");
     setStrokes([]);
     setCurrentStroke(null);
     setPageNumber(null);
@@ -299,12 +323,12 @@ export const DrawingCanvas = ({
   // Complete drawing
   const handleDone = () => {
     if (strokes.length === 0 || pageNumber === null || !pageElement || !viewer) {
-      console.log("DrawingCanvas: No strokes to save");
+      logger.debug("[DrawingCanvas] No strokes to save");
       onCancel();
       return;
     }
 
-    console.log("DrawingCanvas: Completing drawing with", strokes.length, "strokes");
+    logger.debug("[DrawingCanvas] Completing drawing with", strokes.length, "strokes");
 
     // Calculate bounding box of all strokes
     let minX = Infinity,
@@ -339,27 +363,14 @@ export const DrawingCanvas = ({
     const outputCtx = outputCanvas.getContext("2d");
 
     if (!outputCtx) {
-      console.error("DrawingCanvas: Could not get output canvas context");
+      logger.error("[DrawingCanvas] Could not get output canvas context");
       onCancel();
       return;
     }
 
-    // Draw all strokes offset by bounding box origin, using per-stroke color/width
-    strokes.forEach((stroke) => {
-      if (stroke.points.length < 2) return;
-
-      outputCtx.strokeStyle = stroke.color;
-      outputCtx.lineWidth = stroke.width;
-      outputCtx.lineCap = "round";
-      outputCtx.lineJoin = "round";
-
-      outputCtx.beginPath();
-      outputCtx.moveTo(stroke.points[0].x - minX, stroke.points[0].y - minY);
-      stroke.points.slice(1).forEach((point) => {
-        outputCtx.lineTo(point.x - minX, point.y - minY);
-      });
-      outputCtx.stroke();
-    });
+    // Draw all strokes offset by bounding box origin
+    outputCtx.translate(-minX, -minY);
+    strokes.forEach((stroke) => drawStroke(outputCtx, stroke));
 
     const dataUrl = outputCanvas.toDataURL("image/png");
 
@@ -381,13 +392,32 @@ export const DrawingCanvas = ({
     const normalizedStrokes: DrawingStroke[] = strokes.map((stroke) => ({
       ...stroke,
       points: stroke.points.map((point) => ({
+        ...point,
         x: point.x - minX,
         y: point.y - minY,
       })),
     }));
 
-    console.log("DrawingCanvas: Created drawing at position", scaledPosition);
-    onComplete(dataUrl, scaledPosition, normalizedStrokes);
+    // Store the drawing relative to the unrotated page, like its position
+    const { rotation } = viewer.getPageView(pageNumber - 1);
+    const storedStrokes = normalizedStrokes.map((stroke) => ({
+      ...stroke,
+      points: stroke.points.map((point) =>
+        rotatePoint(point, width, height, -rotation)
+      ),
+    }));
+    const storedSize = rotateSize(width, height, -rotation);
+    const storedImage =
+      rotation % 360 === 0
+        ? dataUrl
+        : renderStrokesToImage(
+            storedStrokes,
+            storedSize.width,
+            storedSize.height
+          );
+
+    logger.debug("[DrawingCanvas] Created drawing at position", scaledPosition);
+    onComplete(storedImage, scaledPosition, storedStrokes);
 
     // Reset state
     setStrokes([]);
@@ -402,19 +432,18 @@ export const DrawingCanvas = ({
     <>
       <canvas
         ref={canvasRef}
-        className="DrawingCanvas"
+        className={`DrawingCanvas${
+          tool === "eraser" ? " DrawingCanvas--eraser" : ""
+        }`}
         style={{
           width: pageElement ? pageElement.getBoundingClientRect().width : "100%",
           height: pageElement ? pageElement.getBoundingClientRect().height : "100%",
           position: "fixed",
         }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
       />
       <div className="DrawingCanvas__controls">
         <button
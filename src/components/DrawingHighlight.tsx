@@ -1,6 +1,11 @@
-import React, { CSSProperties, MouseEvent, ReactNode, useState, useCallback, useEffect, useRef } from "react";
+import React, { CSSProperties, MouseEvent, ReactNode, useState, useCallback, useContext, useEffect, useRef } from "react";
 import { Rnd } from "react-rnd";
+import { PdfHighlighterContext } from "../contexts/PdfHighlighterContext";
+import { rotateSize } from "../lib/coordinates";
 import { getPageFromElement } from "../lib/pdfjs-dom";
+import renderStrokesToImage from "../lib/render-strokes";
+import { HIGHLIGHTER_WIDTH_FACTOR } from "../lib/stroke-geometry";
+import { getHighlightLabel } from "../lib/highlight-label";
 import type { DrawingStroke, LTWHP, ViewportHighlight } from "../types";
 
 // Drawing style presets (same as toolbar)
@@ -35,6 +40,18 @@ export interface DrawingHighlightProps {
    */
   isScrolledTo?: boolean;
 
+  /**
+   * Is the highlight part of the current multi-selection? See
+   * {@link PdfHighlighterUtils.selectHighlights}.
+   */
+  isSelected?: boolean;
+
+  /**
+   * Accessible name announced by screen readers when the highlight is focused.
+   * Defaults to the highlight's type, page and text. See {@link getHighlightLabel}.
+   */
+  ariaLabel?: string;
+
   /**
    * react-rnd bounds on the highlight area.
    */
@@ -103,40 +120,6 @@ const DefaultDeleteIcon = () => (
   </svg>
 );
 
-/**
- * Re-render strokes to a canvas and return as PNG data URL.
- */
-const renderStrokesToImage = (
-  strokes: DrawingStroke[],
-  width: number,
-  height: number
-): string => {
-  const canvas = document.createElement("canvas");
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext("2d");
-
-  if (!ctx) return "";
-
-  strokes.forEach((stroke) => {
-    if (stroke.points.length < 2) return;
-
-    ctx.strokeStyle = stroke.color;
-    ctx.lineWidth = stroke.width;
-    ctx.lineCap = "round";
-    ctx.lineJoin = "round";
-
-    ctx.beginPath();
-    ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-    stroke.points.slice(1).forEach((point) => {
-      ctx.lineTo(point.x, point.y);
-    });
-    ctx.stroke();
-  });
-
-  return canvas.toDataURL("image/png");
-};
-
 /**
  * Renders a draggable, resizable freehand drawing annotation.
  * Drawings are stored as PNG images with transparent backgrounds.
@@ -147,6 +130,8 @@ export const DrawingHighlight = ({
   highlight,
   onChange,
   isScrolledTo,
+  isSelected,
+  ariaLabel,
   bounds,
   onContextMenu,
   onEditStart,
@@ -158,6 +143,7 @@ export const DrawingHighlight = ({
   deleteIcon,
 }: DrawingHighlightProps) => {
   const highlightClass = isScrolledTo ? "DrawingHighlight--scrolledTo" : "";
+  const selectedClass = isSelected ? "DrawingHighlight--selected" : "";
   const [showStyleControls, setShowStyleControls] = useState(false);
   const styleControlsRef = useRef<HTMLDivElement>(null);
 
@@ -188,11 +174,24 @@ export const DrawingHighlight = ({
   const imageUrl = highlight.content?.image;
   const strokes = highlight.content?.strokes;
 
+  // The image and strokes are stored relative to the unrotated page, so they
+  // are turned like the page view
+  const pdfHighlighterUtils = useContext(PdfHighlighterContext);
+  const rotation =
+    pdfHighlighterUtils
+      ?.getViewer()
+      ?.getPageView(highlight.position.boundingRect.pageNumber - 1)?.rotation ??
+    0;
+  const storedSize = rotateSize(
+    highlight.position.boundingRect.width,
+    highlight.position.boundingRect.height,
+    -rotation
+  );
+
   // Apply new color to all strokes
   const handleColorChange = useCallback((newColor: string) => {
     if (!strokes || !onStyleChange) return;
 
-    console.log("DrawingHighlight: Changing color to", newColor);
     const newStrokes = strokes.map((stroke) => ({
       ...stroke,
       color: newColor,
@@ -200,40 +199,57 @@ export const DrawingHighlight = ({
 
     const newImage = renderStrokesToImage(
       newStrokes,
-      highlight.position.boundingRect.width,
-      highlight.position.boundingRect.height
+      storedSize.width,
+      storedSize.height
     );
 
     onStyleChange(newImage, newStrokes);
-  }, [strokes, onStyleChange, highlight.position.boundingRect.width, highlight.position.boundingRect.height]);
+  }, [strokes, onStyleChange, storedSize.width, storedSize.height]);
 
-  // Apply new width to all strokes
+  // Apply new width to all strokes. Pressure still varies it along pen
+  // strokes, and highlighters stay wider.
   const handleWidthChange = useCallback((newWidth: number) => {
     if (!strokes || !onStyleChange) return;
 
-    console.log("DrawingHighlight: Changing width to", newWidth);
     const newStrokes = strokes.map((stroke) => ({
       ...stroke,
-      width: newWidth,
+      width:
+        stroke.tool === "highlighter"
+          ? newWidth * HIGHLIGHTER_WIDTH_FACTOR
+          : newWidth,
     }));
 
     const newImage = renderStrokesToImage(
       newStrokes,
-      highlight.position.boundingRect.width,
-      highlight.position.boundingRect.height
+      storedSize.width,
+      storedSize.height
     );
 
     onStyleChange(newImage, newStrokes);
-  }, [strokes, onStyleChange, highlight.position.boundingRect.width, highlight.position.boundingRect.height]);
+  }, [strokes, onStyleChange, storedSize.width, storedSize.height]);
 
   // Get current color from first stroke (for showing active state)
   const currentColor = strokes?.[0]?.color || "#000000";
-  const currentWidth = strokes?.[0]?.width || 3;
+  const currentWidth = strokes?.[0]
+    ? strokes[0].tool === "highlighter"
+      ? strokes[0].width / HIGHLIGHTER_WIDTH_FACTOR
+      : strokes[0].width
+    : 3;
+  // Highlighters multiply with the page like when they were drawn
+  const hasHighlighter = strokes?.some(
+    (stroke) => stroke.tool === "highlighter"
+  );
 
   return (
     <div
-      className={`DrawingHighlight ${highlightClass}`}
+      className={`DrawingHighlight ${highlightClass} ${selectedClass}`}
       onContextMenu={onContextMenu}
+      data-highlight-id={highlight.id}
+      tabIndex={0}
+      role="button"
+      aria-roledescription="highlight"
+      aria-label={ariaLabel ?? getHighlightLabel(highlight)}
+      aria-pressed={!!isSelected}
     >
       <Rnd
         className="DrawingHighlight__rnd"
@@ -356,7 +372,18 @@ export const DrawingHighlight = ({
               <img
                 src={imageUrl}
                 alt="Drawing"
-                className="DrawingHighlight__image"
+                className={`DrawingHighlight__image${
+                  hasHighlighter ? " DrawingHighlight__image--multiply" : ""
+                }${rotation % 360 ? " DrawingHighlight__image--rotated" : ""}`}
+                style={
+                  rotation % 360
+                    ? {
+                        width: storedSize.width,
+                        height: storedSize.height,
+                        transform: `rotate(${rotation}deg)`,
+                      }
+                    : undefined
+                }
                 draggable={false}
               />
             ) : (
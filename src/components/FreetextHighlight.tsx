@@ -8,6 +8,7 @@ import React, {
 } from "react";
 import { Rnd } from "react-rnd";
 import { getPageFromElement } from "../lib/pdfjs-dom";
+import { getHighlightLabel } from "../lib/highlight-label";
 import type { LTWHP, ViewportHighlight } from "../types";
 
 /**
@@ -57,6 +58,18 @@ export interface FreetextHighlightProps {
    */
   isScrolledTo?: boolean;
 
+  /**
+   * Is the highlight part of the current multi-selection? See
+   * {@link PdfHighlighterUtils.selectHighlights}.
+   */
+  isSelected?: boolean;
+
+  /**
+   * Accessible name announced by screen readers when the highlight is focused.
+   * Defaults to the highlight's type, page and text. See {@link getHighlightLabel}.
+   */
+  ariaLabel?: string;
+
   /**
    * react-rnd bounds on the highlight area.
    */
@@ -185,6 +198,8 @@ export const FreetextHighlight = ({
   onTextChange,
   onStyleChange,
   isScrolledTo,
+  isSelected,
+  ariaLabel,
   bounds,
   onContextMenu,
   onEditStart,
@@ -243,6 +258,7 @@ export const FreetextHighlight = ({
   }, [isStylePanelOpen]);
 
   const highlightClass = isScrolledTo ? "FreetextHighlight--scrolledTo" : "";
+  const selectedClass = isSelected ? "FreetextHighlight--selected" : "";
   const editingClass = isEditing ? "FreetextHighlight--editing" : "";
 
   // Generate key based on position for Rnd remount on position changes
@@ -288,8 +304,14 @@ export const FreetextHighlight = ({
 
   return (
     <div
-      className={`FreetextHighlight ${highlightClass} ${editingClass}`}
+      className={`FreetextHighlight ${highlightClass} ${selectedClass} ${editingClass}`}
       onContextMenu={onContextMenu}
+      data-highlight-id={highlight.id}
+      tabIndex={0}
+      role="button"
+      aria-roledescription="highlight"
+      aria-label={ariaLabel ?? getHighlightLabel(highlight)}
+      aria-pressed={!!isSelected}
     >
       <Rnd
         className="FreetextHighlight__rnd"
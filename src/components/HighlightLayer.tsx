@@ -7,6 +7,7 @@ import {
 import { scaledPositionToViewport, viewportToScaled } from "../lib/coordinates";
 import screenshot from "../lib/screenshot";
 import {
+  Collaborator,
   GhostHighlight,
   Highlight,
   HighlightBindings,
@@ -14,6 +15,8 @@ import {
   LTWHP,
   ViewportHighlight,
 } from "../types";
+import { CollaboratorOverlay } from "./CollaboratorOverlay";
+import { SearchMatchOverlay } from "./SearchMatchOverlay";
 
 const EMPTY_ID = "empty-id";
 
@@ -25,9 +28,9 @@ const EMPTY_ID = "empty-id";
  */
 export interface HighlightLayerProps {
   /**
-   * Highlights and GhostHighlights organised by page number.
+   * Highlights and GhostHighlights on this page, with only the rects on this page.
    */
-  highlightsByPage: { [pageNumber: number]: Array<Highlight | GhostHighlight> };
+  highlights: Array<Highlight | GhostHighlight>;
 
   /**
    * The page number of the PDF document to highlight (1 indexed).
@@ -39,6 +42,11 @@ export interface HighlightLayerProps {
    */
   scrolledToHighlightId?: string | null;
 
+  /**
+   * IDs of the highlights in the current multi-selection.
+   */
+  selectedHighlightIds: Set<string>;
+
   /**
    * The PDFViewer instance containing the HighlightLayer
    */
@@ -49,6 +57,21 @@ export interface HighlightLayerProps {
    */
   highlightBindings: HighlightBindings;
 
+  /**
+   * Other users whose cursor or selection is on this page.
+   */
+  collaborators?: Collaborator[];
+
+  /**
+   * Matches on this page of a regular expression search.
+   */
+  searchMatches?: GhostHighlight[];
+
+  /**
+   * The selected search match, if it is on this page.
+   */
+  selectedSearchMatch?: GhostHighlight | null;
+
   /**
    * The Highlight container that should be used to render highlights for this layer.
    * It will be given appropriate context for a single highlight, allowing it to render
@@ -67,18 +90,28 @@ export interface HighlightLayerProps {
  * @internal
  */
 export const HighlightLayer = ({
-  highlightsByPage,
+  highlights,
   pageNumber,
   scrolledToHighlightId,
+  selectedHighlightIds,
   viewer,
   highlightBindings,
+  collaborators = [],
+  searchMatches = [],
+  selectedSearchMatch = null,
   children,
 }: HighlightLayerProps) => {
-  const currentHighlights = highlightsByPage[pageNumber] || [];
-
   return (
     <div>
-      {currentHighlights.map((highlight, index) => {
+      {searchMatches.length > 0 && (
+        <SearchMatchOverlay
+          matches={searchMatches}
+          selectedMatch={selectedSearchMatch}
+          pageNumber={pageNumber}
+          viewer={viewer}
+        />
+      )}
+      {highlights.map((highlight, index) => {
         const viewportHighlight: ViewportHighlight = {
           ...highlight,
           id: "id" in highlight ? highlight.id : EMPTY_ID, // Give Empty ID to GhostHighlight
@@ -92,15 +125,16 @@ export const HighlightLayer = ({
         const highlightUtils: HighlightContainerUtils = {
           highlight: viewportHighlight,
           viewportToScaled: (rect: LTWHP) => {
-            const viewport = viewer.getPageView(
+            const { viewport, rotation } = viewer.getPageView(
               (rect.pageNumber || pageNumber) - 1, // Convert to 0 index
-            ).viewport;
+            );
 
-            return viewportToScaled(rect, viewport);
+            return viewportToScaled(rect, viewport, rotation);
           },
           screenshot: (boundingRect: LTWH) =>
             screenshot(boundingRect, pageNumber, viewer),
           isScrolledTo: isScrolledTo,
+          isSelected: selectedHighlightIds.has(viewportHighlight.id),
           highlightBindings,
         };
 
@@ -110,6 +144,13 @@ export const HighlightLayer = ({
           </HighlightContext.Provider>
         );
       })}
+      {collaborators.length > 0 && (
+        <CollaboratorOverlay
+          collaborators={collaborators}
+          pageNumber={pageNumber}
+          viewer={viewer}
+        />
+      )}
     </div>
   );
 };
@@ -1,6 +1,7 @@
 import React, { CSSProperties, MouseEvent, ReactNode } from "react";
 import { Rnd } from "react-rnd";
 import { getPageFromElement } from "../lib/pdfjs-dom";
+import { getHighlightLabel } from "../lib/highlight-label";
 import type { LTWHP, ViewportHighlight } from "../types";
 
 /**
@@ -27,6 +28,18 @@ export interface ImageHighlightProps {
    */
   isScrolledTo?: boolean;
 
+  /**
+   * Is the highlight part of the current multi-selection? See
+   * {@link PdfHighlighterUtils.selectHighlights}.
+   */
+  isSelected?: boolean;
+
+  /**
+   * Accessible name announced by screen readers when the highlight is focused.
+   * Defaults to the highlight's type, page and text. See {@link getHighlightLabel}.
+   */
+  ariaLabel?: string;
+
   /**
    * react-rnd bounds on the highlight area.
    */
@@ -97,6 +110,8 @@ export const ImageHighlight = ({
   highlight,
   onChange,
   isScrolledTo,
+  isSelected,
+  ariaLabel,
   bounds,
   onContextMenu,
   onEditStart,
@@ -107,6 +122,7 @@ export const ImageHighlight = ({
   deleteIcon,
 }: ImageHighlightProps) => {
   const highlightClass = isScrolledTo ? "ImageHighlight--scrolledTo" : "";
+  const selectedClass = isSelected ? "ImageHighlight--selected" : "";
 
   // Generate key based on position for Rnd remount on position changes
   const key = `${highlight.position.boundingRect.width}${highlight.position.boundingRect.height}${highlight.position.boundingRect.left}${highlight.position.boundingRect.top}`;
@@ -115,8 +131,14 @@ export const ImageHighlight = ({
 
   return (
     <div
-      className={`ImageHighlight ${highlightClass}`}
+      className={`ImageHighlight ${highlightClass} ${selectedClass}`}
       onContextMenu={onContextMenu}
+      data-highlight-id={highlight.id}
+      tabIndex={0}
+      role="button"
+      aria-roledescription="highlight"
+      aria-label={ariaLabel ?? getHighlightLabel(highlight)}
+      aria-pressed={!!isSelected}
     >
       <Rnd
         className="ImageHighlight__rnd"
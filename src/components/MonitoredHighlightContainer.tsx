@@ -37,7 +37,8 @@ export interface MonitoredHighlightContainerProps {
  * A container for a highlight component that monitors whether a mouse is over a
  * highlight and over some secondary highlight tip. It will display the tip
  * whenever the mouse is over the highlight and it will hide the tip only when
- * the mouse has left the highlight AND the tip.
+ * the mouse has left the highlight AND the tip. The tip can also be opened by
+ * pressing Enter while the highlight has keyboard focus.
  *
  * @category Component
  */
@@ -51,6 +52,35 @@ export const MonitoredHighlightContainer = ({
 
   const { setTip, isEditingOrHighlighting } = usePdfHighlighterContext();
 
+  const showTip = () => {
+    if (!highlightTip) return;
+
+    // MouseMonitor the highlightTip to prevent it from disappearing if the mouse is over it and not the highlight.
+    const monitoredHighlightTip = (
+      <MouseMonitor
+        onMoveAway={() => {
+          // The event will keep triggering if the mouse is not on the highlightTip,
+          // but don't do anything if the mouse is over the highlight.
+          if (mouseInRef.current) {
+            return;
+          }
+
+          setTip(null);
+          onMouseLeave && onMouseLeave();
+        }}
+        paddingX={60}
+        paddingY={30}
+      >
+        {highlightTip.content}
+      </MouseMonitor>
+    );
+
+    setTip({
+      position: highlightTip.position,
+      content: monitoredHighlightTip,
+    });
+  };
+
   return (
     <div
       onMouseEnter={() => {
@@ -59,32 +89,20 @@ export const MonitoredHighlightContainer = ({
 
         if (isEditingOrHighlighting()) return;
 
-        if (highlightTip) {
-          // MouseMonitor the highlightTip to prevent it from disappearing if the mouse is over it and not the highlight.
-          const monitoredHighlightTip = (
-            <MouseMonitor
-              onMoveAway={() => {
-                // The event will keep triggering if the mouse is not on the highlightTip,
-                // but don't do anything if the mouse is over the highlight.
-                if (mouseInRef.current) {
-                  return;
-                }
-
-                setTip(null);
-                onMouseLeave && onMouseLeave();
-              }}
-              paddingX={60}
-              paddingY={30}
-            >
-              {highlightTip.content}
-            </MouseMonitor>
-          );
-
-          setTip({
-            position: highlightTip.position,
-            content: monitoredHighlightTip,
-          });
+        showTip();
+      }}
+      onKeyDown={(event) => {
+        // Open the tip with Enter on the focused highlight, not on its inputs or buttons
+        if (
+          event.key !== "Enter" ||
+          !(event.target as HTMLElement).hasAttribute("data-highlight-id") ||
+          isEditingOrHighlighting()
+        ) {
+          return;
         }
+
+        event.preventDefault();
+        showTip();
       }}
       onMouseLeave={() => {
         mouseInRef.current = false;
@@ -24,13 +24,25 @@ const getBoundingRect = (start: Coords, end: Coords): LTWH => {
 
 const getContainerCoords = (
   container: HTMLElement,
-  pageX: number,
-  pageY: number,
+  clientX: number,
+  clientY: number,
 ) => {
   const containerBoundingRect = container.getBoundingClientRect();
   return {
-    x: pageX - containerBoundingRect.left + container.scrollLeft,
-    y: pageY - containerBoundingRect.top + container.scrollTop - window.scrollY,
+    x: clientX - containerBoundingRect.left + container.scrollLeft,
+    y: clientY - containerBoundingRect.top + container.scrollTop,
+  };
+};
+
+/** Clip a rectangle to the page it starts on, in case it crosses other pages. */
+const clipToPage = (rect: LTWH, page: HTMLElement): LTWH => {
+  const left = Math.max(rect.left, 0);
+  const top = Math.max(rect.top, 0);
+  return {
+    left,
+    top,
+    width: Math.min(rect.left + rect.width, page.clientWidth) - left,
+    height: Math.min(rect.top + rect.height, page.clientHeight) - top,
   };
 };
 
@@ -160,9 +172,14 @@ export const MouseSelection = ({
       if (!page) return;
 
       const pageBoundingRect: LTWHP = {
-        ...boundingRect,
-        top: boundingRect.top - page.node.offsetTop,
-        left: boundingRect.left - page.node.offsetLeft,
+        ...clipToPage(
+          {
+            ...boundingRect,
+            top: boundingRect.top - page.node.offsetTop,
+            left: boundingRect.left - page.node.offsetLeft,
+          },
+          page.node,
+        ),
         pageNumber: page.number,
       };
 
@@ -185,7 +202,7 @@ export const MouseSelection = ({
 
     const handleMouseMove = (event: MouseEvent) => {
       if (!rootRef.current || !start || locked) return;
-      setEnd(getContainerCoords(container, event.pageX, event.pageY));
+      setEnd(getContainerCoords(container, event.clientX, event.clientY));
     };
 
     const handleMouseDown = (event: MouseEvent) => {
@@ -206,7 +223,7 @@ export const MouseSelection = ({
 
       startTargetRef.current = asElement(event.target);
       onDragStart && onDragStart(event);
-      setStart(getContainerCoords(container, event.pageX, event.pageY));
+      setStart(getContainerCoords(container, event.clientX, event.clientY));
       setEnd(null);
       setLocked(false);
     };
@@ -0,0 +1,332 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, waitFor } from "@testing-library/react";
+import React, { useEffect } from "react";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { useHighlightContainerContext } from "../contexts/HighlightContext";
+import { useCollaboration } from "../hooks/useCollaboration";
+import {
+  CollaborationSession,
+  createCollaborationSession,
+  createInProcessTransport,
+} from "../lib/collaboration";
+import { createFakePdfDocument } from "../lib/fake-pdf-document";
+import { Highlight, Scaled } from "../types";
+import { PdfHighlighter } from "./PdfHighlighter";
+
+vi.mock("pdfjs-dist", () => ({
+  AnnotationMode: { DISABLE: 0, ENABLE_FORMS: 2 },
+}));
+
+// PDF.js's viewer needs a canvas and layout, which jsdom doesn't have. This
+// one lays out every page at scale 1, with a text layer holding one line.
+vi.mock("pdfjs-dist/web/pdf_viewer.mjs", () => {
+  type Listener = (event: any) => void;
+
+  class EventBus {
+    listeners = new Map<string, Set<Listener>>();
+
+    on(name: string, listener: Listener) {
+      if (!this.listeners.has(name)) this.listeners.set(name, new Set());
+      this.listeners.get(name)!.add(listener);
+    }
+
+    off(name: string, listener: Listener) {
+      this.listeners.get(name)?.delete(listener);
+    }
+
+    dispatch(name: string, event: object) {
+      this.listeners.get(name)?.forEach((listener) => listener(event));
+    }
+  }
+
+  class PDFLinkService {
+    setDocument() {}
+    setViewer() {}
+  }
+
+  class PDFFindController {}
+
+  class PDFViewer {
+    container: HTMLElement;
+    viewer: HTMLElement;
+    eventBus: EventBus;
+    pdfDocument: any = null;
+    pageViews: any[] = [];
+    currentScaleValue = "auto";
+    currentScale = 1;
+    currentPageNumber = 1;
+    pagesRotation = 0;
+    scrollMode = 0;
+    spreadMode = 0;
+
+    constructor({ container, eventBus }: any) {
+      this.container = container;
+      this.viewer = container.querySelector(".pdfViewer");
+      this.eventBus = eventBus;
+    }
+
+    get pagesCount() {
+      return this.pageViews.length;
+    }
+
+    async setDocument(pdfDocument: any) {
+      this.pdfDocument = pdfDocument;
+      for (let number = 1; number <= pdfDocument.numPages; number++) {
+        const viewport = (await pdfDocument.getPage(number)).getViewport();
+        const div = document.createElement("div");
+        div.className = "page";
+        div.dataset.pageNumber = String(number);
+        div.getBoundingClientRect = () =>
+          ({
+            left: 0,
+            top: 0,
+            right: viewport.width,
+            bottom: viewport.height,
+            width: viewport.width,
+            height: viewport.height,
+          }) as DOMRect;
+
+        const textLayer = document.createElement("div");
+        textLayer.className = "textLayer";
+        textLayer.innerHTML = "<span>Hello world</span>";
+        div.append(textLayer);
+        this.viewer.append(div);
+
+        this.pageViews.push({
+          id: number,
+          div,
+          viewport,
+          rotation: 0,
+          textLayer: { div: textLayer },
+          update() {},
+        });
+      }
+
+      this.eventBus.dispatch("pagesinit", { source: this });
+      this.pageViews.forEach((pageView) =>
+        this.eventBus.dispatch("textlayerrendered", {
+          source: pageView,
+          pageNumber: pageView.id,
+        }),
+      );
+    }
+
+    getPageView(index: number) {
+      return this.pageViews[index];
+    }
+
+    _getVisiblePages() {
+      return { views: this.pageViews };
+    }
+
+    update() {}
+    scrollPageIntoView() {}
+  }
+
+  return { EventBus, PDFFindController, PDFLinkService, PDFViewer };
+});
+
+type TestHighlight = Highlight & { comment?: string };
+
+const rect: Scaled = {
+  x1: 100,
+  y1: 200,
+  x2: 300,
+  y2: 250,
+  width: 600,
+  height: 800,
+  pageNumber: 1,
+};
+
+const area: TestHighlight = {
+  id: "area",
+  type: "area",
+  content: { image: "data:image/png;base64," },
+  position: { boundingRect: rect, rects: [] },
+};
+
+const pdfDocument = createFakePdfDocument([{ width: 600, height: 800 }]);
+
+/** Shows a highlight's id and comment, to find what a viewer rendered. */
+const HighlightContainer = () => {
+  const { highlight } = useHighlightContainerContext<TestHighlight>();
+
+  return (
+    <div className="TestHighlight" data-id={highlight.id}>
+      {highlight.comment}
+    </div>
+  );
+};
+
+const Reviewer = ({
+  session,
+}: {
+  session: CollaborationSession<TestHighlight>;
+}) => {
+  useEffect(() => () => session.destroy(), [session]);
+  const { highlights, collaborators, setPresence } = useCollaboration(session);
+
+  return (
+    <PdfHighlighter
+      pdfDocument={pdfDocument}
+      highlights={highlights}
+      collaborators={collaborators}
+      onPresenceChange={setPresence}
+      utilsRef={() => {}}
+    >
+      <HighlightContainer />
+    </PdfHighlighter>
+  );
+};
+
+/** Mount a viewer for Alice and one for Bob, sharing one transport. */
+const renderReviewers = async () => {
+  const hub = createInProcessTransport();
+  const alice = createCollaborationSession<TestHighlight>({
+    transport: hub.connect(),
+    user: { name: "Alice", color: "red" },
+    clientId: "alice",
+  });
+  const bob = createCollaborationSession<TestHighlight>({
+    transport: hub.connect(),
+    user: { name: "Bob", color: "blue" },
+    clientId: "bob",
+  });
+
+  const { getByTestId } = render(
+    <>
+      <div data-testid="alice">
+        <Reviewer session={alice} />
+      </div>
+      <div data-testid="bob">
+        <Reviewer session={bob} />
+      </div>
+    </>,
+  );
+  const aliceView = getByTestId("alice");
+  const bobView = getByTestId("bob");
+
+  // Wait for both viewers to lay out their page
+  await waitFor(() => {
+    expect(
+      aliceView.querySelector(".PdfHighlighter__highlight-layer"),
+    ).not.toBeNull();
+    expect(
+      bobView.querySelector(".PdfHighlighter__highlight-layer"),
+    ).not.toBeNull();
+  });
+
+  return { alice, bob, aliceView, bobView };
+};
+
+beforeAll(async () => {
+  vi.stubGlobal(
+    "ResizeObserver",
+    class {
+      observe() {}
+      disconnect() {}
+    },
+  );
+  // jsdom has no pointer events, which carry the coordinates of mouse events
+  vi.stubGlobal("PointerEvent", window.PointerEvent ?? MouseEvent);
+  // PdfHighlighter loads the viewer classes when it's imported
+  await vi.dynamicImportSettled();
+});
+
+afterEach(() => {
+  cleanup();
+  document.getSelection()?.removeAllRanges();
+});
+
+describe("two PdfHighlighters on one collaboration transport", () => {
+  it("render the highlights added and updated by the other user", async () => {
+    const { alice, bob, aliceView, bobView } = await renderReviewers();
+
+    alice.add(area);
+    await waitFor(() => {
+      expect(
+        bobView.querySelector('.TestHighlight[data-id="area"]'),
+      ).not.toBeNull();
+    });
+    expect(
+      aliceView.querySelector('.TestHighlight[data-id="area"]'),
+    ).not.toBeNull();
+
+    bob.update("area", { comment: "Look here" });
+    await waitFor(() => {
+      expect(
+        aliceView.querySelector('.TestHighlight[data-id="area"]')?.textContent,
+      ).toBe("Look here");
+    });
+
+    alice.remove("area");
+    await waitFor(() => {
+      expect(bobView.querySelector(".TestHighlight")).toBeNull();
+    });
+  });
+
+  it("show the other user's cursor with their name", async () => {
+    const { aliceView, bobView } = await renderReviewers();
+
+    fireEvent.pointerMove(aliceView.querySelector(".textLayer span")!, {
+      clientX: 60,
+      clientY: 80,
+    });
+
+    await waitFor(() => {
+      expect(
+        bobView.querySelector(".CollaboratorOverlay__cursor"),
+      ).not.toBeNull();
+    });
+    const cursor = bobView.querySelector<HTMLElement>(
+      ".CollaboratorOverlay__cursor",
+    )!;
+    expect(cursor.textContent).toBe("Alice");
+    expect([cursor.style.left, cursor.style.top]).toEqual(["60px", "80px"]);
+    expect(aliceView.querySelector(".CollaboratorOverlay__cursor")).toBeNull();
+
+    fireEvent.pointerLeave(aliceView.querySelector(".PdfHighlighter")!);
+    await waitFor(() => {
+      expect(bobView.querySelector(".CollaboratorOverlay__cursor")).toBeNull();
+    });
+  });
+
+  it("show a text selection while the other user is still making it", async () => {
+    const { aliceView, bobView } = await renderReviewers();
+
+    // jsdom doesn't lay out text, so place the selected line by hand
+    Range.prototype.getClientRects = () =>
+      [
+        { left: 50, top: 90, right: 105, bottom: 100, width: 55, height: 10 },
+      ] as unknown as DOMRectList;
+
+    const range = document.createRange();
+    range.selectNodeContents(aliceView.querySelector(".textLayer span")!);
+    document.getSelection()!.addRange(range);
+    fireEvent(document, new Event("selectionchange"));
+
+    await waitFor(() => {
+      expect(
+        bobView.querySelector(".CollaboratorOverlay__selection"),
+      ).not.toBeNull();
+    });
+    const selection = bobView.querySelector<HTMLElement>(
+      ".CollaboratorOverlay__selection",
+    )!;
+    const { left, top, width, height } = selection.style;
+    expect([left, top, width, height]).toEqual([
+      "50px",
+      "90px",
+      "55px",
+      "10px",
+    ]);
+
+    document.getSelection()!.removeAllRanges();
+    fireEvent(document, new Event("selectionchange"));
+    await waitFor(() => {
+      expect(
+        bobView.querySelector(".CollaboratorOverlay__selection"),
+      ).toBeNull();
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import debounce from "lodash.debounce";
-import { PDFDocumentProxy } from "pdfjs-dist";
+import { AnnotationMode, PDFDocumentProxy } from "pdfjs-dist";
 import React, {
   CSSProperties,
   PointerEventHandler,
@@ -15,31 +15,63 @@ import {
   PdfHighlighterContext,
   PdfHighlighterUtils,
 } from "../contexts/PdfHighlighterContext";
-import { scaledToViewport, viewportPositionToScaled } from "../lib/coordinates";
+import {
+  scaledPositionToViewport,
+  scaledToViewport,
+  viewportPositionToScaled,
+  viewportToScaled,
+} from "../lib/coordinates";
 import getBoundingRect from "../lib/get-bounding-rect";
 import getClientRects from "../lib/get-client-rects";
+import { createEventEmitter } from "../lib/event-emitter";
+import { getHighlightLabel } from "../lib/highlight-label";
+import { createLogger } from "../lib/logger";
 import groupHighlightsByPage from "../lib/group-highlights-by-page";
+import {
+  isRenderedLayerUnchanged,
+  RenderedLayer,
+} from "../lib/rendered-layer";
+import { getPageText, PageText } from "../lib/text-content";
+import { buildPattern, matchPageText } from "../lib/find-text-highlights";
 import {
   asElement,
   findOrCreateContainerLayer,
   getPageFromElement,
   getPagesFromRange,
+  getViewerVisiblePageNumbers,
   getWindow,
   isHTMLElement,
 } from "../lib/pdfjs-dom";
 import {
+  Collaborator,
+  CollaboratorCursor,
+  CollaboratorPresence,
   Content,
   DrawingStroke,
+  DrawingTool,
+  EventEmitter,
   GhostHighlight,
   Highlight,
   HighlightBindings,
+  LeftPanelTab,
+  Logger,
+  LogLevel,
+  LTWHP,
+  PdfHighlighterEvents,
   PdfScaleValue,
+  PdfScrollMode,
   PdfSelection,
+  PdfSpreadMode,
+  PdfViewState,
   ScaledPosition,
+  SearchOptions,
+  SearchState,
   ShapeData,
+  ShapeMeasure,
   ShapeType,
   Tip,
   ViewportPosition,
+  ZoomOptions,
 } from "../types";
 import { DrawingCanvas } from "./DrawingCanvas";
 import { HighlightLayer } from "./HighlightLayer";
@@ -47,14 +79,15 @@ import { MouseSelection } from "./MouseSelection";
 import { ShapeCanvas } from "./ShapeCanvas";
 import { TipContainer } from "./TipContainer";
 
-import type { EventBus as TEventBus, PDFLinkService as TPDFLinkService, PDFViewer as TPDFViewer } from "pdfjs-dist/web/pdf_viewer.mjs";
+import type { EventBus as TEventBus, PDFFindController as TPDFFindController, PDFLinkService as TPDFLinkService, PDFViewer as TPDFViewer } from "pdfjs-dist/web/pdf_viewer.mjs";
 
-let EventBus: typeof TEventBus, PDFLinkService: typeof TPDFLinkService, PDFViewer: typeof TPDFViewer;
+let EventBus: typeof TEventBus, PDFFindController: typeof TPDFFindController, PDFLinkService: typeof TPDFLinkService, PDFViewer: typeof TPDFViewer;
 
 (async () => {
   // Due to breaking changes in PDF.js 4.0.189. See issue #17228
   const pdfjs = await import("pdfjs-dist/web/pdf_viewer.mjs");
   EventBus = pdfjs.EventBus;
+  PDFFindController = pdfjs.PDFFindController;
   PDFLinkService = pdfjs.PDFLinkService;
   PDFViewer = pdfjs.PDFViewer;
 })();
@@ -63,6 +96,71 @@ let EventBus: typeof TEventBus, PDFLinkService: typeof TPDFLinkService, PDFViewe
 const SCROLL_MARGIN = 10;
 const DEFAULT_SCALE_VALUE = "auto";
 const DEFAULT_TEXT_SELECTION_COLOR = "rgba(153,193,218,255)";
+const ARROW_KEY_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+const DEFAULT_MIN_ZOOM = 0.1;
+const DEFAULT_MAX_ZOOM = 10;
+const DEFAULT_ZOOM_STEP = 1.1;
+// Redraw pages only once a wheel or pinch zoom pauses, like PDF.js's viewer
+const GESTURE_ZOOM_DRAWING_DELAY = 400;
+// Values of PDF.js's ScrollMode and SpreadMode
+const SCROLL_MODES: Record<PdfScrollMode, number> = {
+  vertical: 0,
+  horizontal: 1,
+  wrapped: 2,
+  page: 3,
+};
+const SPREAD_MODES: Record<PdfSpreadMode, number> = {
+  none: 0,
+  odd: 1,
+  even: 2,
+};
+const MOVABLE_HIGHLIGHT_TYPES = ["area", "image", "shape", "drawing", "freetext"];
+const EMPTY_PAGE_HIGHLIGHTS: Array<Highlight | GhostHighlight> = [];
+const EMPTY_COLLABORATORS: Collaborator[] = [];
+const EMPTY_SEARCH_MATCHES: GhostHighlight[] = [];
+const PRESENCE_INTERVAL = 50;
+const EMPTY_SEARCH_STATE: SearchState = {
+  query: "",
+  pending: false,
+  matchCount: 0,
+  currentMatch: 0,
+  error: undefined,
+};
+
+// FindState values dispatched by PDF.js's PDFFindController
+const FIND_STATE_PENDING = 3;
+
+/** Safari's pinch gesture events, which TypeScript's DOM types don't cover. */
+type GestureEvent = UIEvent & { scale: number; clientX: number; clientY: number };
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const normalizeRotation = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+/** Scale a position in viewport coordinates, e.g. to follow a zoom change. */
+const scaleViewportPosition = (
+  position: ViewportPosition,
+  ratio: number,
+): ViewportPosition => {
+  const scaleRect = (rect: LTWHP): LTWHP => ({
+    ...rect,
+    left: rect.left * ratio,
+    top: rect.top * ratio,
+    width: rect.width * ratio,
+    height: rect.height * ratio,
+  });
+
+  return {
+    boundingRect: scaleRect(position.boundingRect),
+    rects: position.rects.map(scaleRect),
+  };
+};
 
 /**
  * Theme configuration for PdfHighlighter styling.
@@ -106,6 +204,18 @@ export interface PdfHighlighterTheme {
    * @default 0.9
    */
   darkModeInvertIntensity?: number;
+
+  /**
+   * Background color of search matches.
+   * @default "rgba(255, 170, 0, 0.4)"
+   */
+  searchMatchColor?: string;
+
+  /**
+   * Background color of the selected search match.
+   * @default "rgba(255, 110, 0, 0.6)"
+   */
+  searchSelectedMatchColor?: string;
 }
 
 const defaultLightTheme: Required<PdfHighlighterTheme> = {
@@ -114,6 +224,8 @@ const defaultLightTheme: Required<PdfHighlighterTheme> = {
   scrollbarThumbColor: "#9f9f9f",
   scrollbarTrackColor: "#d1d1d1",
   darkModeInvertIntensity: 0.9,
+  searchMatchColor: "rgba(255, 170, 0, 0.4)",
+  searchSelectedMatchColor: "rgba(255, 110, 0, 0.6)",
 };
 
 const defaultDarkTheme: Required<PdfHighlighterTheme> = {
@@ -122,6 +234,8 @@ const defaultDarkTheme: Required<PdfHighlighterTheme> = {
   scrollbarThumbColor: "#6b6b6b",
   scrollbarTrackColor: "#2c2c2c",
   darkModeInvertIntensity: 0.9,
+  searchMatchColor: "rgba(255, 170, 0, 0.4)",
+  searchSelectedMatchColor: "rgba(255, 110, 0, 0.6)",
 };
 
 const findOrCreateHighlightLayer = (textLayer: HTMLElement) => {
@@ -135,6 +249,15 @@ const disableTextSelection = (viewer: InstanceType<typeof PDFViewer>, flag: bool
   viewer.viewer?.classList.toggle("PdfHighlighter--disable-selection", flag);
 };
 
+/**
+ * Highlights grouped by page, together with the inputs they were grouped from.
+ */
+type GroupedHighlightsCache = {
+  highlights: Array<Highlight>;
+  ghostHighlight: GhostHighlight | null;
+  highlightsByPage: ReturnType<typeof groupHighlightsByPage>;
+};
+
 /**
  * The props type for {@link PdfHighlighter}.
  *
@@ -299,6 +422,12 @@ export interface PdfHighlighterProps {
    */
   drawingStrokeWidth?: number;
 
+  /**
+   * Tool for drawing mode: pen, highlighter or eraser.
+   * @default "pen"
+   */
+  drawingTool?: DrawingTool;
+
   /**
    * The type of shape to create, or null if shape mode is not active.
    */
@@ -329,6 +458,24 @@ export interface PdfHighlighterProps {
    */
   shapeStrokeWidth?: number;
 
+  /**
+   * Fill color of closed shapes and callout boxes in shape mode.
+   * Default: none
+   */
+  shapeFillColor?: string;
+
+  /**
+   * Dash pattern for shape mode, in multiples of the stroke width.
+   * Default: solid
+   */
+  shapeDashPattern?: number[];
+
+  /**
+   * Show the length of lines, arrows and polylines created in shape mode.
+   * E.g. `{ scale: 1 / 72, unit: "in" }`. Default: not shown
+   */
+  shapeMeasure?: ShapeMeasure;
+
   /**
    * Theme configuration for the PDF viewer.
    * Controls container background color and PDF page color inversion for dark mode.
@@ -336,6 +483,159 @@ export interface PdfHighlighterProps {
    * @default { mode: "light" }
    */
   theme?: PdfHighlighterTheme;
+
+  /**
+   * Don't draw the annotations embedded in the PDF document. Use this after
+   * converting them to editable highlights with {@link importPdfAnnotations},
+   * so they are not rendered twice. NOTE: this also disables PDF links.
+   */
+  hidePdfAnnotations?: boolean;
+
+  /**
+   * Callback triggered whenever the state of a search started with
+   * {@link PdfHighlighterUtils.find} changes, e.g. when more matches are
+   * found or another match is selected.
+   *
+   * @param searchState - Query, match count and selected match.
+   */
+  onSearchStateChange?(searchState: SearchState): void;
+
+  /**
+   * Callback triggered when the user presses Ctrl/Cmd+Z outside of a text
+   * field. See {@link useHighlightHistory}.
+   */
+  onUndo?(): void;
+
+  /**
+   * Callback triggered when the user presses Shift+Ctrl/Cmd+Z or Ctrl+Y
+   * outside of a text field. See {@link useHighlightHistory}.
+   */
+  onRedo?(): void;
+
+  /**
+   * Condition to check before a marquee selection of highlights starts.
+   * Highlights touched by the marquee are selected, or added to the
+   * selection when Shift is held.
+   *
+   * @param event - mouse event associated with the new selection.
+   * @returns - `True` if marquee selection should start.
+   */
+  enableMarqueeSelection?(event: MouseEvent): boolean;
+
+  /**
+   * Callback triggered whenever highlights are selected or deselected, by
+   * shift-click, marquee or {@link PdfHighlighterUtils.selectHighlights}.
+   *
+   * @param ids - IDs of the selected highlights.
+   */
+  onHighlightSelectionChange?(ids: string[]): void;
+
+  /**
+   * Callback triggered when the user presses Delete or Backspace on a focused
+   * highlight. Receives the selected highlights if the focused one is part of
+   * the selection, otherwise just the focused one. See {@link deleteHighlights}.
+   *
+   * @param ids - IDs of the highlights to delete.
+   */
+  onDeleteHighlights?(ids: string[]): void;
+
+  /**
+   * Callback triggered when the user presses an arrow key on a focused area,
+   * image, shape, drawing or freetext highlight. The highlights move by 1px,
+   * or 10px with Shift. Receives the selected highlights if the focused one is
+   * part of the selection, otherwise just the focused one. See
+   * {@link moveHighlights}.
+   *
+   * @param ids - IDs of the highlights to move.
+   * @param delta - Offset as a fraction of the page's width and height.
+   */
+  onMoveHighlights?(ids: string[], delta: { x: number; y: number }): void;
+
+  /**
+   * Smallest scale reachable by zooming. Default: 0.1
+   */
+  minZoom?: number;
+
+  /**
+   * Largest scale reachable by zooming. Default: 10
+   */
+  maxZoom?: number;
+
+  /**
+   * Factor the scale is multiplied (zoom in) or divided (zoom out) by for each
+   * zoom step, including Ctrl/Cmd+wheel notches. Default: 1.1
+   */
+  zoomStep?: number;
+
+  /**
+   * Whether Ctrl/Cmd+wheel and trackpad pinches zoom the document, keeping
+   * the point under the cursor in place. Default: `true`
+   */
+  enableGestureZoom?: boolean;
+
+  /**
+   * Callback triggered whenever the zoom level changes, whether by
+   * {@link PdfHighlighterUtils.setZoom}, a gesture, `pdfScaleValue` or a
+   * resize of the viewer with a preset scale.
+   *
+   * @param scale - The new numeric scale (1 = 100%).
+   * @param scaleValue - The requested scale value, e.g. `"page-width"`.
+   */
+  onZoomChange?(scale: number, scaleValue: PdfScaleValue): void;
+
+  /**
+   * How pages are laid out: in a vertical or horizontal strip, wrapped into
+   * rows, or one page (or spread) at a time. Default: `"vertical"`
+   */
+  scrollMode?: PdfScrollMode;
+
+  /**
+   * Whether pages are shown as two-page spreads, starting with an odd or an
+   * even page. Spreads are not shown in the "horizontal" scroll mode.
+   * Default: `"none"`
+   */
+  spreadMode?: PdfSpreadMode;
+
+  /**
+   * View state to open the document with, e.g. one stored from
+   * `onViewStateChange`. Applied once PDF.js has laid out the pages.
+   */
+  initialViewState?: PdfViewState;
+
+  /**
+   * Callback triggered whenever the view state changes: when scrolling,
+   * zooming, rotating or switching tabs in a connected {@link LeftPanel}.
+   * It fires often while scrolling, so debounce it before persisting.
+   *
+   * @param viewState - The new, serializable view state.
+   */
+  onViewStateChange?(viewState: PdfViewState): void;
+
+  /**
+   * Minimum severity of the viewer's log messages. Default: `"silent"`
+   */
+  logLevel?: LogLevel;
+
+  /**
+   * Where log messages go, e.g. an adapter for your logging library.
+   * Default: `console`
+   */
+  logger?: Logger;
+
+  /**
+   * Other users viewing the document. Their cursors and selections are shown
+   * on the pages with their names. See {@link useCollaboration}.
+   */
+  collaborators?: Collaborator[];
+
+  /**
+   * Callback triggered whenever the local user moves the pointer over the
+   * pages or changes their selection, to share with other users.
+   * Pointer moves and text selections still being made are throttled.
+   *
+   * @param presence - The pointer position and selection.
+   */
+  onPresenceChange?(presence: CollaboratorPresence): void;
 }
 
 /**
@@ -373,12 +673,37 @@ export const PdfHighlighter = ({
   onDrawingCancel,
   drawingStrokeColor = "#000000",
   drawingStrokeWidth = 3,
+  drawingTool = "pen",
   enableShapeMode,
   onShapeComplete,
   onShapeCancel,
   shapeStrokeColor = "#000000",
   shapeStrokeWidth = 2,
+  shapeFillColor,
+  shapeDashPattern,
+  shapeMeasure,
   theme: userTheme,
+  hidePdfAnnotations = false,
+  onSearchStateChange,
+  onUndo,
+  onRedo,
+  enableMarqueeSelection,
+  onHighlightSelectionChange,
+  onDeleteHighlights,
+  onMoveHighlights,
+  minZoom = DEFAULT_MIN_ZOOM,
+  maxZoom = DEFAULT_MAX_ZOOM,
+  zoomStep = DEFAULT_ZOOM_STEP,
+  enableGestureZoom = true,
+  onZoomChange,
+  scrollMode = "vertical",
+  spreadMode = "none",
+  initialViewState,
+  onViewStateChange,
+  logLevel = "silent",
+  logger,
+  collaborators = EMPTY_COLLABORATORS,
+  onPresenceChange,
 }: PdfHighlighterProps) => {
   // Resolve theme with defaults based on mode
   const resolvedTheme = useMemo(() => {
@@ -396,28 +721,109 @@ export const PdfHighlighter = ({
   const highlightBindingsRef = useRef<{ [page: number]: HighlightBindings }>(
     {},
   );
+  const groupedHighlightsRef = useRef<GroupedHighlightsCache | null>(null);
+  const renderedLayersRef = useRef<{ [page: number]: RenderedLayer }>({});
   const ghostHighlightRef = useRef<GhostHighlight | null>(null);
   const selectionRef = useRef<PdfSelection | null>(null);
   const scrolledToHighlightIdRef = useRef<string | null>(null);
   const isAreaSelectionInProgressRef = useRef(false);
   const isEditInProgressRef = useRef(false);
+  const selectedHighlightIdsRef = useRef<Set<string>>(new Set());
+  const liveRegionRef = useRef<HTMLDivElement | null>(null);
+
+  // Utils are handed out once, so they read the latest props through refs
+  const highlightsRef = useRef(highlights);
+  highlightsRef.current = highlights;
+  const onSearchStateChangeRef = useRef(onSearchStateChange);
+  onSearchStateChangeRef.current = onSearchStateChange;
+  const onHighlightSelectionChangeRef = useRef(onHighlightSelectionChange);
+  onHighlightSelectionChangeRef.current = onHighlightSelectionChange;
+  const onZoomChangeRef = useRef(onZoomChange);
+  onZoomChangeRef.current = onZoomChange;
+  const initialViewStateRef = useRef(initialViewState);
+  initialViewStateRef.current = initialViewState;
+  const onViewStateChangeRef = useRef(onViewStateChange);
+  onViewStateChangeRef.current = onViewStateChange;
+  const log = useMemo(() => createLogger(logLevel, logger), [logLevel, logger]);
+  const logRef = useRef(log);
+  logRef.current = log;
+  const collaboratorsRef = useRef(collaborators);
+  collaboratorsRef.current = collaborators;
+  const onPresenceChangeRef = useRef(onPresenceChange);
+  onPresenceChangeRef.current = onPresenceChange;
+  const presenceRef = useRef<CollaboratorPresence>({
+    cursor: null,
+    selection: null,
+  });
+  const zoomConfigRef = useRef({ minZoom, maxZoom, zoomStep, enableGestureZoom });
+  zoomConfigRef.current = { minZoom, maxZoom, zoomStep, enableGestureZoom };
   const updateTipPositionRef = useRef(() => { });
 
   const eventBusRef = useRef<InstanceType<typeof EventBus>>(new EventBus());
+  const eventsRef = useRef<EventEmitter<PdfHighlighterEvents>>(
+    createEventEmitter((error, event) =>
+      logRef.current.error(`[PdfHighlighter] ${String(event)} listener failed`, error),
+    ),
+  );
   const linkServiceRef = useRef<InstanceType<typeof PDFLinkService>>(
     new PDFLinkService({
       eventBus: eventBusRef.current,
       externalLinkTarget: 2,
     }),
   );
+  const findControllerRef = useRef<InstanceType<
+    typeof PDFFindController
+  > | null>(null);
   const resizeObserverRef = useRef<ResizeObserver | null>(null);
   const viewerRef = useRef<InstanceType<typeof PDFViewer> | null>(null);
 
+  // Search
+  const searchStateRef = useRef<SearchState>(EMPTY_SEARCH_STATE);
+  const findStateRef = useRef<{
+    query: string;
+    caseSensitive: boolean;
+    entireWord: boolean;
+  } | null>(null);
+  const searchIdRef = useRef(0);
+  // Matches of a regular expression search, which PDF.js can't search for
+  const searchMatchesRef = useRef<{
+    matches: GhostHighlight[];
+    matchesByPage: { [page: number]: GhostHighlight[] };
+    current: number;
+  } | null>(null);
+  const pageTextsRef = useRef<{ [page: number]: Promise<PageText> }>({});
+
+  // Zoom
+  const scaleValueRef = useRef<PdfScaleValue>(pdfScaleValue);
+  const previousScaleRef = useRef<number | null>(null);
+  const wheelZoomFactorRef = useRef(1);
+  const gestureStartScaleRef = useRef(1);
+
+  // Page layout
+  const scrollModeRef = useRef<PdfScrollMode>(scrollMode);
+  const spreadModeRef = useRef<PdfSpreadMode>(spreadMode);
+
+  // View state
+  const pendingViewStateRef = useRef<PdfViewState | null>(null);
+  const leftPanelTabRef = useRef<LeftPanelTab | undefined>(undefined);
+  const pendingLeftPanelTabRef = useRef<LeftPanelTab | null>(null);
+
+  // Rotation of single pages, on top of the view rotation
+  const pageRotationsRef = useRef<{ [pageNumber: number]: number }>({});
+
   // Initialise PDF Viewer
   useLayoutEffect(() => {
     if (!containerNodeRef.current) return;
 
     const debouncedDocumentInit = debounce(() => {
+      // Created once, as the controller subscribes to the event bus
+      findControllerRef.current =
+        findControllerRef.current ||
+        new PDFFindController({
+          eventBus: eventBusRef.current,
+          linkService: linkServiceRef.current,
+        });
+
       viewerRef.current =
         viewerRef.current ||
         new PDFViewer({
@@ -426,9 +832,15 @@ export const PdfHighlighter = ({
           textLayerMode: 2,
           removePageBorders: true,
           linkService: linkServiceRef.current,
+          findController: findControllerRef.current,
+          annotationMode: hidePdfAnnotations
+            ? AnnotationMode.DISABLE
+            : AnnotationMode.ENABLE_FORMS,
         });
 
       viewerRef.current.setDocument(pdfDocument);
+      pageTextsRef.current = {};
+      pageRotationsRef.current = {};
       linkServiceRef.current.setDocument(pdfDocument);
       linkServiceRef.current.setViewer(viewerRef.current);
       setIsViewerReady(true);
@@ -451,18 +863,368 @@ export const PdfHighlighter = ({
     const doc = containerNodeRef.current.ownerDocument;
 
     eventBusRef.current.on("textlayerrendered", renderHighlightLayers);
+    eventBusRef.current.on("updateviewarea", renderHighlightLayers);
     eventBusRef.current.on("pagesinit", handleScaleValue);
     doc.addEventListener("keydown", handleKeyDown);
+    doc.addEventListener("selectionchange", handleSelectionChange);
 
     renderHighlightLayers();
 
     return () => {
       eventBusRef.current.off("pagesinit", handleScaleValue);
       eventBusRef.current.off("textlayerrendered", renderHighlightLayers);
+      eventBusRef.current.off("updateviewarea", renderHighlightLayers);
       doc.removeEventListener("keydown", handleKeyDown);
+      doc.removeEventListener("selectionchange", handleSelectionChange);
       resizeObserverRef.current?.disconnect();
     };
-  }, [selectionTip, highlights, onSelectionFinished]);
+  }, [
+    selectionTip,
+    highlights,
+    onSelectionFinished,
+    onUndo,
+    onRedo,
+    onDeleteHighlights,
+    onMoveHighlights,
+  ]);
+
+  // Keep search state in sync with PDF.js's find controller
+  useLayoutEffect(() => {
+    const eventBus = eventBusRef.current;
+
+    const handleMatchesCount = ({
+      matchesCount,
+    }: {
+      matchesCount: { current: number; total: number };
+    }) => {
+      if (!findStateRef.current) return;
+      updateSearchState({
+        matchCount: matchesCount.total,
+        currentMatch: matchesCount.current,
+      });
+    };
+
+    const handleFindState = ({
+      state,
+      matchesCount,
+    }: {
+      state: number;
+      matchesCount: { current: number; total: number };
+    }) => {
+      if (!findStateRef.current) return;
+      updateSearchState({
+        pending: state === FIND_STATE_PENDING,
+        matchCount: matchesCount.total,
+        currentMatch: matchesCount.current,
+      });
+    };
+
+    eventBus.on("updatefindmatchescount", handleMatchesCount);
+    eventBus.on("updatefindcontrolstate", handleFindState);
+
+    return () => {
+      eventBus.off("updatefindmatchescount", handleMatchesCount);
+      eventBus.off("updatefindcontrolstate", handleFindState);
+    };
+  }, []);
+
+  // Follow zoom changes and handle zoom gestures
+  useLayoutEffect(() => {
+    const container = containerNodeRef.current;
+    const eventBus = eventBusRef.current;
+    if (!container) return;
+
+    const handleScaleChanging = ({
+      scale,
+      presetValue,
+    }: {
+      scale: number;
+      presetValue?: string;
+    }) => {
+      scaleValueRef.current = (presetValue as PdfScaleValue | undefined) ?? scale;
+
+      const previousScale = previousScaleRef.current;
+      previousScaleRef.current = scale;
+      if (previousScale === null || previousScale === scale) return;
+
+      // Tip positions are in viewport coordinates, so scale them along
+      setTip((currentTip) =>
+        currentTip && {
+          ...currentTip,
+          position: scaleViewportPosition(
+            currentTip.position,
+            scale / previousScale,
+          ),
+        },
+      );
+      onZoomChangeRef.current?.(scale, scaleValueRef.current);
+      eventsRef.current.emit("zoom:change", {
+        scale,
+        scaleValue: scaleValueRef.current,
+      });
+    };
+
+    const getAnchor = (event: { clientX: number; clientY: number }) => {
+      const { left, top } = container.getBoundingClientRect();
+      return { x: event.clientX - left, y: event.clientY - top };
+    };
+
+    const handleWheel = (event: WheelEvent) => {
+      const viewer = viewerRef.current;
+      if (!(event.ctrlKey || event.metaKey) || !viewer) return;
+      if (!zoomConfigRef.current.enableGestureZoom) return;
+      event.preventDefault();
+
+      const { minZoom, maxZoom, zoomStep } = zoomConfigRef.current;
+      // Trackpad pinches arrive as small pixel deltas with ctrlKey set
+      const isPinch =
+        event.deltaMode === WheelEvent.DOM_DELTA_PIXEL &&
+        Math.abs(event.deltaY) < 50;
+      const factor = isPinch
+        ? Math.exp(-event.deltaY / 100)
+        : event.deltaY < 0
+          ? zoomStep
+          : 1 / zoomStep;
+
+      // Collect small pinch steps until they add up to a visible change
+      wheelZoomFactorRef.current *= factor;
+      const previousScale = viewer.currentScale;
+      const scale = previousScale * wheelZoomFactorRef.current;
+      applyZoom(scale, { anchor: getAnchor(event) }, GESTURE_ZOOM_DRAWING_DELAY);
+      if (
+        viewer.currentScale !== previousScale ||
+        scale <= minZoom ||
+        scale >= maxZoom
+      ) {
+        wheelZoomFactorRef.current = 1;
+      }
+    };
+
+    const handleGestureStart = (event: Event) => {
+      if (!zoomConfigRef.current.enableGestureZoom) return;
+      event.preventDefault();
+      gestureStartScaleRef.current = viewerRef.current?.currentScale ?? 1;
+    };
+
+    const handleGestureChange = (event: Event) => {
+      if (!zoomConfigRef.current.enableGestureZoom) return;
+      event.preventDefault();
+
+      const gesture = event as GestureEvent;
+      applyZoom(
+        gestureStartScaleRef.current * gesture.scale,
+        { anchor: getAnchor(gesture) },
+        GESTURE_ZOOM_DRAWING_DELAY,
+      );
+    };
+
+    eventBus.on("scalechanging", handleScaleChanging);
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    container.addEventListener("gesturestart", handleGestureStart);
+    container.addEventListener("gesturechange", handleGestureChange);
+
+    return () => {
+      eventBus.off("scalechanging", handleScaleChanging);
+      container.removeEventListener("wheel", handleWheel);
+      container.removeEventListener("gesturestart", handleGestureStart);
+      container.removeEventListener("gesturechange", handleGestureChange);
+    };
+  }, []);
+
+  // Keep single page rotations when PDF.js rotates all pages
+  useLayoutEffect(() => {
+    const eventBus = eventBusRef.current;
+
+    const handlePagesInit = () => {
+      // Tip positions are in viewport coordinates of the old rotation
+      setTip(null);
+      applyPageRotations(Object.keys(pageRotationsRef.current).map(Number));
+    };
+
+    const handleRotationChanging = () => {
+      handlePagesInit();
+      emitRotationChange();
+    };
+
+    eventBus.on("rotationchanging", handleRotationChanging);
+    eventBus.on("pagesinit", handlePagesInit);
+
+    return () => {
+      eventBus.off("rotationchanging", handleRotationChanging);
+      eventBus.off("pagesinit", handlePagesInit);
+    };
+  }, []);
+
+  // Restore and report the view state
+  useLayoutEffect(() => {
+    const eventBus = eventBusRef.current;
+
+    const handlePagesInit = () => {
+      const viewState =
+        pendingViewStateRef.current ?? initialViewStateRef.current;
+      pendingViewStateRef.current = null;
+      if (viewState) restoreViewState(viewState);
+    };
+
+    const handleViewAreaUpdate = () => notifyViewStateChange();
+
+    const handlePageChanging = ({
+      pageNumber,
+      previous,
+    }: {
+      pageNumber: number;
+      previous: number;
+    }) => {
+      eventsRef.current.emit("page:change", {
+        pageNumber,
+        previousPageNumber: previous,
+      });
+    };
+
+    // A LeftPanel reports its tab through the event bus
+    const handleLeftPanelTabChanged = ({ tab }: { tab: LeftPanelTab }) => {
+      const pendingTab = pendingLeftPanelTabRef.current;
+      pendingLeftPanelTabRef.current = null;
+      leftPanelTabRef.current = tab;
+      notifyViewStateChange();
+
+      // A panel connected after a restore reports its default tab first
+      if (pendingTab && pendingTab !== tab) {
+        eventBus.dispatch("switchleftpaneltab", { source: null, tab: pendingTab });
+      }
+    };
+
+    eventBus.on("pagesinit", handlePagesInit);
+    eventBus.on("updateviewarea", handleViewAreaUpdate);
+    eventBus.on("pagechanging", handlePageChanging);
+    eventBus.on("leftpaneltabchanged", handleLeftPanelTabChanged);
+
+    return () => {
+      eventBus.off("pagesinit", handlePagesInit);
+      eventBus.off("updateviewarea", handleViewAreaUpdate);
+      eventBus.off("pagechanging", handlePageChanging);
+      eventBus.off("leftpaneltabchanged", handleLeftPanelTabChanged);
+    };
+  }, []);
+
+  // Apply the page layout, also after PDF.js resets it for a new document
+  useLayoutEffect(() => {
+    const eventBus = eventBusRef.current;
+    eventBus.on("pagesinit", applyPageLayout);
+
+    return () => {
+      eventBus.off("pagesinit", applyPageLayout);
+    };
+  }, []);
+
+  useEffect(() => {
+    scrollModeRef.current = scrollMode;
+    spreadModeRef.current = spreadMode;
+    applyPageLayout();
+  }, [scrollMode, spreadMode]);
+
+  // Apply changes to the pdfScaleValue prop
+  useEffect(() => {
+    scaleValueRef.current = pdfScaleValue;
+    handleScaleValue();
+  }, [pdfScaleValue]);
+
+  // Show the latest cursors and selections of other users
+  useEffect(() => {
+    renderHighlightLayers();
+  }, [collaborators]);
+
+  // Presence
+  const notifyPresence = (cursor = presenceRef.current.cursor) => {
+    const selection =
+      selectionRef.current?.position ??
+      ghostHighlightRef.current?.position ??
+      selectingPositionRef.current;
+    const previous = presenceRef.current;
+    if (
+      previous.selection === selection &&
+      previous.cursor?.pageNumber === cursor?.pageNumber &&
+      previous.cursor?.x === cursor?.x &&
+      previous.cursor?.y === cursor?.y
+    ) {
+      return;
+    }
+
+    presenceRef.current = { cursor, selection };
+    onPresenceChangeRef.current?.(presenceRef.current);
+  };
+
+  const pendingCursorRef = useRef<CollaboratorCursor | null>(null);
+  const notifyCursor = useMemo(
+    () =>
+      debounce(() => notifyPresence(pendingCursorRef.current), PRESENCE_INTERVAL, {
+        maxWait: PRESENCE_INTERVAL,
+      }),
+    [],
+  );
+  useEffect(() => () => notifyCursor.cancel(), [notifyCursor]);
+
+  // Position of the text selection the user is still making
+  const selectingPositionRef = useRef<ScaledPosition | null>(null);
+  const notifySelecting = useMemo(
+    () =>
+      debounce(
+        () => {
+          selectingPositionRef.current =
+            getTextSelection()?.scaledPosition ?? null;
+          notifyPresence();
+        },
+        PRESENCE_INTERVAL,
+        { maxWait: PRESENCE_INTERVAL },
+      ),
+    [],
+  );
+  useEffect(() => () => notifySelecting.cancel(), [notifySelecting]);
+
+  const getCursorAtPointer = (
+    event: React.PointerEvent,
+  ): CollaboratorCursor | null => {
+    if (!viewerRef.current || !isHTMLElement(event.target)) return null;
+
+    const page = getPageFromElement(asElement(event.target));
+    if (!page) return null;
+
+    const { viewport, rotation } = viewerRef.current.getPageView(
+      page.number - 1,
+    );
+    const pageRect = page.node.getBoundingClientRect();
+    const point = viewportToScaled(
+      {
+        left: event.clientX - pageRect.left,
+        top: event.clientY - pageRect.top,
+        width: 0,
+        height: 0,
+        pageNumber: page.number,
+      },
+      viewport,
+      rotation,
+    );
+
+    return {
+      pageNumber: page.number,
+      x: point.x1 / point.width,
+      y: point.y1 / point.height,
+    };
+  };
+
+  const handlePointerMove: PointerEventHandler = (event) => {
+    if (!onPresenceChangeRef.current) return;
+
+    pendingCursorRef.current = getCursorAtPointer(event);
+    notifyCursor();
+  };
+
+  const handlePointerLeave: PointerEventHandler = () => {
+    if (!onPresenceChangeRef.current) return;
+
+    pendingCursorRef.current = null;
+    notifyCursor();
+  };
 
   // Event listeners
   const handleScroll = () => {
@@ -471,33 +1233,54 @@ export const PdfHighlighter = ({
     renderHighlightLayers();
   };
 
-  const handleMouseUp: PointerEventHandler = () => {
+  /** The document's current text selection, if it's in the PDF. */
+  const getTextSelection = () => {
     const container = containerNodeRef.current;
     const selection = getWindow(container).getSelection();
 
     if (!container || !selection || selection.isCollapsed || !viewerRef.current)
-      return;
+      return null;
 
     const range = selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
 
     // Check the selected text is in the document, not the tip
-    if (!range || !container.contains(range.commonAncestorContainer)) return;
+    if (!range || !container.contains(range.commonAncestorContainer))
+      return null;
 
     const pages = getPagesFromRange(range);
-    if (!pages || pages.length === 0) return;
+    if (!pages || pages.length === 0) return null;
 
     const rects = getClientRects(range, pages);
-    if (rects.length === 0) return;
+    if (rects.length === 0) return null;
 
     const viewportPosition: ViewportPosition = {
       boundingRect: getBoundingRect(rects),
       rects,
     };
 
-    const scaledPosition = viewportPositionToScaled(
+    return {
+      selection,
       viewportPosition,
-      viewerRef.current,
-    );
+      scaledPosition: viewportPositionToScaled(
+        viewportPosition,
+        viewerRef.current,
+      ),
+    };
+  };
+
+  // Share text selections while they're being made, not only once finished
+  const handleSelectionChange = () => {
+    if (!onPresenceChangeRef.current) return;
+
+    notifySelecting();
+  };
+
+  const handleMouseUp: PointerEventHandler = () => {
+    const textSelection = getTextSelection();
+    if (!textSelection) return;
+
+    const { selection, viewportPosition, scaledPosition } = textSelection;
+    selectingPositionRef.current = null;
 
     const content: Content = {
       text: selection.toString().split("\n").join(" "), // Make all line breaks spaces
@@ -523,6 +1306,10 @@ export const PdfHighlighter = ({
     };
 
     onSelectionFinished && onSelectionFinished(selectionRef.current);
+    eventsRef.current.emit("selection:finished", {
+      selection: selectionRef.current,
+    });
+    notifyPresence();
 
     selectionTip &&
       setTip({ position: viewportPosition, content: selectionTip });
@@ -536,6 +1323,30 @@ export const PdfHighlighter = ({
       return;
     }
 
+    // Shift-click toggles the top-most highlight under the pointer
+    const clickedHighlight = getHighlightAtPointer(event);
+    if (clickedHighlight) {
+      eventsRef.current.emit("highlight:click", {
+        highlight: clickedHighlight,
+        event: event.nativeEvent,
+      });
+    }
+    if (event.shiftKey && clickedHighlight) {
+      const ids = new Set(selectedHighlightIdsRef.current);
+      if (!ids.delete(clickedHighlight.id)) ids.add(clickedHighlight.id);
+      setHighlightSelection(ids);
+      return;
+    }
+
+    // Keep the selection when grabbing one of the selected highlights
+    if (
+      !event.shiftKey &&
+      (!clickedHighlight ||
+        !selectedHighlightIdsRef.current.has(clickedHighlight.id))
+    ) {
+      clearHighlightSelection();
+    }
+
     // Check for freetext creation mode
     if (
       enableFreetextCreation?.(event.nativeEvent) &&
@@ -624,44 +1435,425 @@ export const PdfHighlighter = ({
     if (event.code === "Escape") {
       clearTextSelection();
       removeGhostHighlight();
+      clearHighlightSelection();
+      setTip(null);
+      return;
+    }
+
+    // Leave shortcuts inside text fields (e.g. freetext editing) to the browser
+    const target = isHTMLElement(event.target) ? asElement(event.target) : null;
+    if (target?.isContentEditable || target?.closest("input, textarea, select"))
+      return;
+    if (!(event.ctrlKey || event.metaKey || event.altKey)) {
+      handleHighlightKeyDown(event, target);
+      return;
+    }
+    if (event.altKey) return;
+
+    const key = event.key.toLowerCase();
+    if (key === "z" && !event.shiftKey && onUndo) {
+      event.preventDefault();
+      onUndo();
+    } else if (
+      ((key === "z" && event.shiftKey) || (key === "y" && event.ctrlKey)) &&
+      onRedo
+    ) {
+      event.preventDefault();
+      onRedo();
+    }
+  };
+
+  /**
+   * Keyboard navigation and editing of highlights: [ and ] (or Tab on a
+   * highlight) move focus in reading order, Space toggles selection, Delete
+   * removes and arrow keys nudge the focused highlight.
+   */
+  const handleHighlightKeyDown = (
+    event: KeyboardEvent,
+    target: HTMLElement | null,
+  ) => {
+    if (!target || !containerNodeRef.current?.contains(target)) return;
+
+    // Only act on the highlight itself, not on its toolbar buttons
+    const focusedId = target.getAttribute("data-highlight-id");
+    const focused = focusedId
+      ? highlightsRef.current.find((highlight) => highlight.id === focusedId)
+      : undefined;
+
+    if (event.key === "[" || event.key === "]") {
+      const next = getAdjacentHighlight(focused, event.key === "[");
+      if (next) {
+        event.preventDefault();
+        focusHighlight(next);
+      }
+      return;
+    }
+
+    if (!focused) return;
+
+    // Let Tab leave the viewer after the first or last highlight
+    if (event.key === "Tab") {
+      const next = getAdjacentHighlight(focused, event.shiftKey);
+      if (next) {
+        event.preventDefault();
+        focusHighlight(next);
+      }
+      return;
+    }
+
+    // Act on the whole selection if the focused highlight is part of it
+    const targetIds = selectedHighlightIdsRef.current.has(focused.id)
+      ? Array.from(selectedHighlightIdsRef.current)
+      : [focused.id];
+
+    if (event.key === " ") {
+      event.preventDefault();
+      const ids = new Set(selectedHighlightIdsRef.current);
+      ids.has(focused.id) ? ids.delete(focused.id) : ids.add(focused.id);
+      setHighlightSelection(ids);
+    } else if (
+      (event.key === "Delete" || event.key === "Backspace") &&
+      onDeleteHighlights
+    ) {
+      event.preventDefault();
+      const next =
+        getAdjacentHighlight(focused, false, targetIds) ||
+        getAdjacentHighlight(focused, true, targetIds);
+
       setTip(null);
+      if (targetIds.some((id) => selectedHighlightIdsRef.current.has(id))) {
+        const ids = new Set(selectedHighlightIdsRef.current);
+        targetIds.forEach((id) => ids.delete(id));
+        selectedHighlightIdsRef.current = ids;
+        onHighlightSelectionChangeRef.current?.(Array.from(ids));
+        eventsRef.current.emit("highlights:select", { ids: Array.from(ids) });
+      }
+      onDeleteHighlights(targetIds);
+      announce(
+        targetIds.length === 1
+          ? `${getAnnouncedLabel(focused)} deleted`
+          : `${targetIds.length} highlights deleted`,
+      );
+
+      // Keep focus in the viewer once the deleted highlights are unmounted
+      next && setTimeout(() => focusHighlight(next));
+    } else if (
+      event.key in ARROW_KEY_DIRECTIONS &&
+      onMoveHighlights &&
+      MOVABLE_HIGHLIGHT_TYPES.includes(focused.type || "")
+    ) {
+      const pageView = viewerRef.current?.getPageView(
+        focused.position.boundingRect.pageNumber - 1,
+      );
+      if (!pageView) return;
+
+      event.preventDefault();
+      const [dx, dy] = ARROW_KEY_DIRECTIONS[event.key];
+      const step = event.shiftKey ? 10 : 1;
+      const x = (dx * step) / pageView.viewport.width;
+      const y = (dy * step) / pageView.viewport.height;
+
+      // Highlights move relative to the unrotated page
+      const delta = {
+        90: { x: y, y: -x },
+        180: { x: -x, y: -y },
+        270: { x: -y, y: x },
+      }[normalizeRotation(pageView.rotation)] ?? { x, y };
+      onMoveHighlights(targetIds, delta);
     }
   };
 
   const handleScaleValue = () => {
     if (viewerRef.current) {
-      viewerRef.current.currentScaleValue = pdfScaleValue.toString();
+      viewerRef.current.currentScaleValue = scaleValueRef.current.toString();
+    }
+  };
+
+  // Zoom
+  const applyZoom = (
+    scale: PdfScaleValue,
+    { anchor }: ZoomOptions = {},
+    drawingDelay?: number,
+  ) => {
+    const viewer = viewerRef.current;
+    if (!viewer?.pdfDocument) return;
+
+    if (typeof scale !== "number") {
+      viewer.currentScaleValue = scale;
+      return;
+    }
+
+    const { minZoom, maxZoom } = zoomConfigRef.current;
+    const newScale = clamp(scale, minZoom, maxZoom);
+    if (newScale === viewer.currentScale) return;
+
+    // PDF.js keeps the origin in place, measured from the container's offset
+    const [top, left] = viewer.containerTopLeft;
+    const { x, y } = anchor ?? {
+      x: viewer.container.clientWidth / 2,
+      y: viewer.container.clientHeight / 2,
+    };
+    viewer.updateScale({
+      scaleFactor: newScale / viewer.currentScale,
+      origin: [left + x, top + y],
+      drawingDelay,
+    });
+  };
+
+  const zoomBy = (factor: number) => {
+    const viewer = viewerRef.current;
+    if (viewer) applyZoom(viewer.currentScale * factor);
+  };
+
+  // Page layout
+  const applyPageLayout = () => {
+    const viewer = viewerRef.current;
+    if (!viewer?.pdfDocument) return;
+
+    const newScrollMode = SCROLL_MODES[scrollModeRef.current];
+    const newSpreadMode = SPREAD_MODES[spreadModeRef.current];
+    if (
+      viewer.scrollMode === newScrollMode &&
+      viewer.spreadMode === newSpreadMode
+    ) {
+      return;
     }
+
+    // Tip positions are in coordinates of the old layout
+    setTip(null);
+    viewer.scrollMode = newScrollMode;
+    viewer.spreadMode = newSpreadMode;
+  };
+
+  const getModeName = <T extends string>(
+    modes: Record<T, number>,
+    value: number | undefined,
+    fallback: T,
+  ) =>
+    (Object.keys(modes) as T[]).find((mode) => modes[mode] === value) ??
+    fallback;
+
+  // View state
+  const getViewState = (): PdfViewState => {
+    const viewer = viewerRef.current;
+    const location = viewer?._location;
+    const pageRotations = { ...pageRotationsRef.current };
+
+    return {
+      pageNumber: location?.pageNumber ?? viewer?.currentPageNumber ?? 1,
+      destination: location ? { left: location.left, top: location.top } : null,
+      scaleValue: scaleValueRef.current,
+      rotation: viewer?.pagesRotation ?? 0,
+      ...(Object.keys(pageRotations).length > 0 && { pageRotations }),
+      ...(leftPanelTabRef.current && { leftPanelTab: leftPanelTabRef.current }),
+    };
+  };
+
+  const notifyViewStateChange = () => {
+    const viewState = getViewState();
+    onViewStateChangeRef.current?.(viewState);
+    eventsRef.current.emit("viewstate:change", viewState);
+  };
+
+  const restoreViewState = (viewState: PdfViewState) => {
+    const { pageNumber, destination, scaleValue, rotation, leftPanelTab } =
+      viewState;
+
+    if (leftPanelTab) {
+      leftPanelTabRef.current = leftPanelTab;
+      pendingLeftPanelTabRef.current = leftPanelTab;
+      eventBusRef.current.dispatch("switchleftpaneltab", {
+        source: null,
+        tab: leftPanelTab,
+      });
+    }
+
+    // Pages only exist once PDF.js has initialised them
+    const viewer = viewerRef.current;
+    if (!viewer?.getPageView(0)) {
+      pendingViewStateRef.current = viewState;
+      return;
+    }
+
+    setTip(null);
+    pageRotationsRef.current = { ...viewState.pageRotations };
+    if (viewer.pagesRotation === normalizeRotation(rotation)) {
+      applyPageRotations(
+        Array.from({ length: viewer.pagesCount }, (_, index) => index + 1),
+      );
+    } else {
+      viewer.pagesRotation = rotation; // Applies page rotations as well
+    }
+
+    scaleValueRef.current = scaleValue;
+    viewer.currentScaleValue = scaleValue.toString();
+
+    viewer.scrollPageIntoView({
+      pageNumber,
+      destArray: destination
+        ? [null, { name: "XYZ" }, destination.left, destination.top, null]
+        : undefined,
+    });
+  };
+
+  // Rotation
+  const applyPageRotations = (pageNumbers: number[]) => {
+    const viewer = viewerRef.current;
+    if (!viewer?.pdfDocument) return;
+
+    pageNumbers.forEach((pageNumber) => {
+      viewer.getPageView(pageNumber - 1)?.update({
+        rotation: normalizeRotation(
+          viewer.pagesRotation + (pageRotationsRef.current[pageNumber] || 0),
+        ),
+      });
+    });
+    viewer.update();
+  };
+
+  const rotatePages = (pageNumbers: number[], degrees: number) => {
+    if (degrees % 90 !== 0) {
+      throw new Error("Rotation must be a multiple of 90 degrees");
+    }
+
+    pageNumbers.forEach((pageNumber) => {
+      const rotation = normalizeRotation(
+        (pageRotationsRef.current[pageNumber] || 0) + degrees,
+      );
+      if (rotation) {
+        pageRotationsRef.current[pageNumber] = rotation;
+      } else {
+        delete pageRotationsRef.current[pageNumber];
+      }
+    });
+
+    setTip(null);
+    applyPageRotations(pageNumbers);
+    emitRotationChange();
+  };
+
+  const emitRotationChange = () => {
+    eventsRef.current.emit("rotation:change", {
+      rotation: viewerRef.current?.pagesRotation ?? 0,
+      pageRotations: getPageRotations(),
+    });
+  };
+
+  const getPageRotations = () => {
+    const viewer = viewerRef.current;
+    const rotations: { [pageNumber: number]: number } = {};
+    if (!viewer?.pdfDocument) return rotations;
+
+    for (let pageNumber = 1; pageNumber <= viewer.pagesCount; pageNumber++) {
+      const rotation = viewer.getPageView(pageNumber - 1)?.rotation;
+      if (rotation) rotations[pageNumber] = rotation;
+    }
+    return rotations;
   };
 
   // Render Highlight layers
+  const getHighlightsByPage = () => {
+    const cache = groupedHighlightsRef.current;
+    if (
+      cache?.highlights === highlightsRef.current &&
+      cache.ghostHighlight === ghostHighlightRef.current
+    ) {
+      return cache.highlightsByPage;
+    }
+
+    groupedHighlightsRef.current = {
+      highlights: highlightsRef.current,
+      ghostHighlight: ghostHighlightRef.current,
+      highlightsByPage: groupHighlightsByPage([
+        ...highlightsRef.current,
+        ghostHighlightRef.current,
+      ]),
+    };
+    return groupedHighlightsRef.current.highlightsByPage;
+  };
+
   const renderHighlightLayer = (
     highlightBindings: HighlightBindings,
     pageNumber: number,
   ) => {
     if (!viewerRef.current) return;
 
+    const pageHighlights =
+      getHighlightsByPage()[pageNumber] || EMPTY_PAGE_HIGHLIGHTS;
+    const viewport = viewerRef.current.getPageView(pageNumber - 1)?.viewport;
+
+    // Only the scroll target and selection of highlights on this page matter
+    let scrolledToHighlightId: string | null = null;
+    const selectedHighlightIds: string[] = [];
+    pageHighlights.forEach((highlight) => {
+      if (!("id" in highlight)) return;
+      if (highlight.id === scrolledToHighlightIdRef.current) {
+        scrolledToHighlightId = highlight.id;
+      }
+      if (selectedHighlightIdsRef.current.has(highlight.id)) {
+        selectedHighlightIds.push(highlight.id);
+      }
+    });
+
+    const pageCollaborators = collaboratorsRef.current.filter(
+      ({ cursor, selection }) =>
+        cursor?.pageNumber === pageNumber ||
+        selection?.boundingRect.pageNumber === pageNumber ||
+        selection?.rects.some((rect) => rect.pageNumber === pageNumber),
+    );
+
+    const searchMatches =
+      searchMatchesRef.current?.matchesByPage[pageNumber] ||
+      EMPTY_SEARCH_MATCHES;
+    const selectedMatch =
+      searchMatchesRef.current?.matches[searchMatchesRef.current.current];
+    const selectedSearchMatch =
+      selectedMatch && searchMatches.includes(selectedMatch)
+        ? selectedMatch
+        : null;
+
+    const layer: RenderedLayer = {
+      highlightBindings,
+      highlights: pageHighlights,
+      viewport,
+      scrolledToHighlightId,
+      selectedHighlightIds: selectedHighlightIds.join(","),
+      collaborators: pageCollaborators,
+      searchMatches,
+      selectedSearchMatch,
+      children,
+    };
+    const previous = renderedLayersRef.current[pageNumber];
+    if (isRenderedLayerUnchanged(previous, layer)) return;
+
+    renderedLayersRef.current[pageNumber] = layer;
+
     highlightBindings.reactRoot.render(
-      <PdfHighlighterContext.Provider value={pdfHighlighterUtils}>
+      <PdfHighlighterContext.Provider value={stableUtils}>
         <HighlightLayer
-          highlightsByPage={groupHighlightsByPage([
-            ...highlights,
-            ghostHighlightRef.current,
-          ])}
+          highlights={pageHighlights}
           pageNumber={pageNumber}
           scrolledToHighlightId={scrolledToHighlightIdRef.current}
+          selectedHighlightIds={selectedHighlightIdsRef.current}
           viewer={viewerRef.current}
           highlightBindings={highlightBindings}
+          collaborators={pageCollaborators}
+          searchMatches={searchMatches}
+          selectedSearchMatch={selectedSearchMatch}
           children={children}
         />
       </PdfHighlighterContext.Provider>,
     );
   };
 
+  /**
+   * Render the highlight layers of the visible pages. Pages scrolled out of
+   * view are brought up to date when they become visible again.
+   */
   const renderHighlightLayers = () => {
     if (!viewerRef.current) return;
 
-    for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+    for (const pageNumber of getViewerVisiblePageNumbers(viewerRef.current)) {
       const highlightBindings = highlightBindingsRef.current[pageNumber];
 
       // Need to check if container is still attached to the DOM as PDF.js can unload pages.
@@ -724,10 +1916,13 @@ export const PdfHighlighter = ({
       onRemoveGhostHighlight(ghostHighlightRef.current);
     ghostHighlightRef.current = null;
     renderHighlightLayers();
+    notifyPresence();
   };
 
   const clearTextSelection = () => {
     selectionRef.current = null;
+    selectingPositionRef.current = null;
+    notifyPresence();
 
     const container = containerNodeRef.current;
     const selection = getWindow(container).getSelection();
@@ -735,16 +1930,13 @@ export const PdfHighlighter = ({
     selection.removeAllRanges();
   };
 
-  const scrollToHighlight = (highlight: Highlight) => {
-    const { boundingRect, usePdfCoordinates } = highlight.position;
+  const scrollPositionIntoView = ({
+    boundingRect,
+    usePdfCoordinates,
+  }: ScaledPosition) => {
     const pageNumber = boundingRect.pageNumber;
-
-    // Remove scroll listener in case user auto-scrolls in succession.
-    viewerRef.current!.container.removeEventListener("scroll", handleScroll);
-
-    const pageViewport = viewerRef.current!.getPageView(
-      pageNumber - 1,
-    ).viewport;
+    const { viewport: pageViewport, rotation } =
+      viewerRef.current!.getPageView(pageNumber - 1);
 
     viewerRef.current!.scrollPageIntoView({
       pageNumber,
@@ -753,12 +1945,24 @@ export const PdfHighlighter = ({
         { name: "XYZ" },
         ...pageViewport.convertToPdfPoint(
           0, // Default x coord
-          scaledToViewport(boundingRect, pageViewport, usePdfCoordinates).top -
+          scaledToViewport(
+            boundingRect,
+            pageViewport,
+            usePdfCoordinates,
+            rotation,
+          ).top -
           SCROLL_MARGIN,
         ),
         0, // Default z coord
       ],
     });
+  };
+
+  const scrollToHighlight = (highlight: Highlight) => {
+    // Remove scroll listener in case user auto-scrolls in succession.
+    viewerRef.current!.container.removeEventListener("scroll", handleScroll);
+
+    scrollPositionIntoView(highlight.position);
 
     scrolledToHighlightIdRef.current = highlight.id;
     renderHighlightLayers();
@@ -771,6 +1975,322 @@ export const PdfHighlighter = ({
     }, 100);
   };
 
+  // Search
+  const updateSearchState = (update: Partial<SearchState>) => {
+    searchStateRef.current = { ...searchStateRef.current, ...update };
+    onSearchStateChangeRef.current?.(searchStateRef.current);
+    eventsRef.current.emit("search:change", searchStateRef.current);
+  };
+
+  const getCachedPageText = (pageNumber: number) => {
+    if (!pageTextsRef.current[pageNumber]) {
+      pageTextsRef.current[pageNumber] = pdfDocument
+        .getPage(pageNumber)
+        .then(getPageText);
+    }
+    return pageTextsRef.current[pageNumber];
+  };
+
+  const dispatchFind = (type: "" | "again", findPrevious = false) => {
+    if (!findStateRef.current) return;
+
+    eventBusRef.current.dispatch("find", {
+      source: null,
+      type,
+      ...findStateRef.current,
+      highlightAll: true,
+      findPrevious,
+      matchDiacritics: false,
+    });
+  };
+
+  const clearSearchMatches = () => {
+    if (!searchMatchesRef.current) return;
+    searchMatchesRef.current = null;
+    renderHighlightLayers();
+  };
+
+  const closeFindController = () => {
+    if (!findStateRef.current) return;
+    findStateRef.current = null;
+    eventBusRef.current.dispatch("findbarclose", { source: null });
+  };
+
+  const clearSearch = () => {
+    searchIdRef.current++;
+    closeFindController();
+    clearSearchMatches();
+    updateSearchState(EMPTY_SEARCH_STATE);
+  };
+
+  const selectSearchMatch = (index: number) => {
+    const searchMatches = searchMatchesRef.current;
+    if (!searchMatches || searchMatches.matches.length === 0) return;
+
+    const { length } = searchMatches.matches;
+    searchMatches.current = (index + length) % length; // Wrap around the document
+    updateSearchState({ currentMatch: searchMatches.current + 1 });
+    scrollPositionIntoView(searchMatches.matches[searchMatches.current].position);
+    renderHighlightLayers();
+  };
+
+  const findNext = () => {
+    if (searchMatchesRef.current) {
+      selectSearchMatch(searchMatchesRef.current.current + 1);
+    } else {
+      dispatchFind("again");
+    }
+  };
+
+  const findPrevious = () => {
+    if (searchMatchesRef.current) {
+      selectSearchMatch(searchMatchesRef.current.current - 1);
+    } else {
+      dispatchFind("again", true);
+    }
+  };
+
+  /**
+   * Search for a regular expression. PDF.js's find controller only searches
+   * for plain terms, so the matches are found in each page's text and marked
+   * by the highlight layers instead of the text layer.
+   */
+  const findRegex = async (query: string, pattern: RegExp, searchId: number) => {
+    const searchMatches = {
+      matches: [] as GhostHighlight[],
+      matchesByPage: {} as { [page: number]: GhostHighlight[] },
+      current: -1,
+    };
+    searchMatchesRef.current = searchMatches;
+    updateSearchState({ ...EMPTY_SEARCH_STATE, query, pending: true });
+
+    for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      const pageText = await getCachedPageText(pageNumber);
+      if (searchId !== searchIdRef.current) return; // Superseded by another search
+
+      const pageMatches = Array.from(matchPageText(pageText, pattern));
+      if (pageMatches.length === 0) continue;
+
+      searchMatches.matches.push(...pageMatches);
+      searchMatches.matchesByPage[pageNumber] = pageMatches;
+      updateSearchState({ matchCount: searchMatches.matches.length });
+      renderHighlightLayers();
+    }
+
+    updateSearchState({ pending: false });
+
+    // Like PDF.js, start with the first match from the current page on
+    const currentPage = viewerRef.current?.currentPageNumber ?? 1;
+    const first = searchMatches.matches.findIndex(
+      ({ position }) => position.boundingRect.pageNumber >= currentPage,
+    );
+    selectSearchMatch(Math.max(first, 0));
+  };
+
+  const find = async (query: string, options: SearchOptions = {}) => {
+    const { caseSensitive = false, wholeWord = false, regex = false } = options;
+
+    if (!query) {
+      clearSearch();
+      return;
+    }
+
+    let pattern: RegExp | null = null;
+    if (regex) {
+      try {
+        pattern = buildPattern(query, { caseSensitive, wholeWord, regex });
+      } catch (error) {
+        // E.g. an expression that is still being typed
+        clearSearch();
+        updateSearchState({
+          query,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return;
+      }
+    }
+
+    const searchId = ++searchIdRef.current;
+    clearSearchMatches();
+
+    if (pattern) {
+      closeFindController();
+      await findRegex(query, pattern, searchId);
+      return;
+    }
+
+    findStateRef.current = { query, caseSensitive, entireWord: wholeWord };
+    updateSearchState({ ...EMPTY_SEARCH_STATE, query, pending: true });
+    dispatchFind("");
+  };
+
+  // Highlight selection
+  const setHighlightSelection = (ids: Set<string>) => {
+    selectedHighlightIdsRef.current = ids;
+    onHighlightSelectionChangeRef.current?.(Array.from(ids));
+    eventsRef.current.emit("highlights:select", { ids: Array.from(ids) });
+    renderHighlightLayers();
+
+    const [firstId] = ids;
+    const first = highlightsRef.current.find(({ id }) => id === firstId);
+    if (ids.size === 0) {
+      announce("Selection cleared");
+    } else if (ids.size === 1 && first) {
+      announce(`${getAnnouncedLabel(first)} selected`);
+    } else {
+      announce(`${ids.size} highlights selected`);
+    }
+  };
+
+  const selectHighlights = (ids: string[], append = false) => {
+    const selected = new Set(append ? selectedHighlightIdsRef.current : []);
+    ids.forEach((id) => selected.add(id));
+    setHighlightSelection(selected);
+  };
+
+  const clearHighlightSelection = () => {
+    if (selectedHighlightIdsRef.current.size === 0) return;
+    setHighlightSelection(new Set());
+  };
+
+  /**
+   * Find the highlights on a page touching a viewport rectangle, in render
+   * order (top-most last).
+   */
+  const getHighlightsInRect = (rect: LTWHP) => {
+    if (!viewerRef.current) return [];
+
+    return highlightsRef.current.filter((highlight) => {
+      if (highlight.position.boundingRect.pageNumber !== rect.pageNumber) {
+        return false;
+      }
+
+      const { boundingRect, rects } = scaledPositionToViewport(
+        highlight.position,
+        viewerRef.current!,
+      );
+      return (rects.length > 0 ? rects : [boundingRect]).some(
+        (part) =>
+          part.left <= rect.left + rect.width &&
+          rect.left <= part.left + part.width &&
+          part.top <= rect.top + rect.height &&
+          rect.top <= part.top + part.height,
+      );
+    });
+  };
+
+  const getHighlightAtPointer = (event: React.PointerEvent) => {
+    const page = getPageFromElement(asElement(event.target));
+    if (!page) return null;
+
+    const pageRect = page.node.getBoundingClientRect();
+    const hits = getHighlightsInRect({
+      left: event.clientX - pageRect.left,
+      top: event.clientY - pageRect.top,
+      width: 0,
+      height: 0,
+      pageNumber: page.number,
+    });
+    return hits[hits.length - 1] ?? null;
+  };
+
+  // Keyboard navigation
+  const getHighlightElement = (id: string) =>
+    containerNodeRef.current?.querySelector<HTMLElement>(
+      `[data-highlight-id="${CSS.escape(id)}"]`,
+    ) ?? null;
+
+  /** Top-left corner of a highlight as a fraction of its page, for sorting. */
+  const getReadingPosition = (highlight: Highlight) => {
+    const { boundingRect, usePdfCoordinates } = highlight.position;
+    const top = usePdfCoordinates
+      ? boundingRect.height - boundingRect.y2
+      : boundingRect.y1;
+    return [
+      boundingRect.pageNumber,
+      top / boundingRect.height,
+      boundingRect.x1 / boundingRect.width,
+    ];
+  };
+
+  const compareReadingOrder = (a: Highlight, b: Highlight) => {
+    const positionA = getReadingPosition(a);
+    const positionB = getReadingPosition(b);
+    const index = positionA.findIndex((value, i) => value !== positionB[i]);
+    return index === -1 ? 0 : positionA[index] - positionB[index];
+  };
+
+  /**
+   * The highlight after (or before) `current` in reading order. Without a
+   * current highlight, start from the page in view.
+   */
+  const getAdjacentHighlight = (
+    current: Highlight | undefined,
+    previous: boolean,
+    excludedIds: string[] = [],
+  ) => {
+    const sorted = highlightsRef.current
+      .filter(({ id }) => id === current?.id || !excludedIds.includes(id))
+      .sort(compareReadingOrder);
+
+    if (!current) {
+      const pageNumber = viewerRef.current?.currentPageNumber ?? 1;
+      return previous
+        ? [...sorted].reverse().find(
+          (highlight) => highlight.position.boundingRect.pageNumber <= pageNumber,
+        ) ?? sorted[sorted.length - 1]
+        : sorted.find(
+          (highlight) => highlight.position.boundingRect.pageNumber >= pageNumber,
+        ) ?? sorted[0];
+    }
+
+    const index = sorted.findIndex(({ id }) => id === current.id);
+    return sorted[previous ? index - 1 : index + 1];
+  };
+
+  /**
+   * Focus a highlight and scroll it into view. Highlights are only rendered
+   * for pages PDF.js has rendered, so scroll to the page first if needed.
+   */
+  const focusHighlight = (highlight: Highlight, attempts = 20) => {
+    const element = getHighlightElement(highlight.id);
+
+    if (!element) {
+      if (!viewerRef.current || attempts === 0) return;
+      if (attempts === 20) {
+        viewerRef.current.scrollPageIntoView({
+          pageNumber: highlight.position.boundingRect.pageNumber,
+        });
+      }
+      setTimeout(() => focusHighlight(highlight, attempts - 1), 50);
+      return;
+    }
+
+    // The root element has no size, so scroll its visible parts into view
+    element.focus({ preventScroll: true });
+    const part = Array.from(element.querySelectorAll("*")).find((child) => {
+      const { width, height } = child.getBoundingClientRect();
+      return width > 0 && height > 0;
+    });
+    part?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  };
+
+  // Screen reader announcements
+  const getAnnouncedLabel = (highlight: Highlight) =>
+    getHighlightElement(highlight.id)?.getAttribute("aria-label") ||
+    getHighlightLabel(highlight);
+
+  const announce = (message: string) => {
+    const liveRegion = liveRegionRef.current;
+    if (!liveRegion) return;
+
+    // Clear first, so repeating the same message is announced again
+    liveRegion.textContent = "";
+    setTimeout(() => {
+      liveRegion.textContent = message;
+    }, 50);
+  };
+
   const pdfHighlighterUtils: PdfHighlighterUtils = {
     isEditingOrHighlighting,
     getCurrentSelection: () => selectionRef.current,
@@ -787,37 +2307,84 @@ export const PdfHighlighter = ({
     updateTipPosition: updateTipPositionRef.current,
     getLinkService: () => linkServiceRef.current,
     getEventBus: () => eventBusRef.current,
+    find,
+    findNext,
+    findPrevious,
+    clearSearch,
+    getSearchState: () => searchStateRef.current,
+    getSelectedHighlightIds: () =>
+      highlightsRef.current
+        .map((highlight) => highlight.id)
+        .filter((id) => selectedHighlightIdsRef.current.has(id)),
+    selectHighlights,
+    clearHighlightSelection,
+    zoomIn: () => zoomBy(zoomConfigRef.current.zoomStep),
+    zoomOut: () => zoomBy(1 / zoomConfigRef.current.zoomStep),
+    setZoom: (scale: PdfScaleValue, options?: ZoomOptions) =>
+      applyZoom(scale, options),
+    getZoom: () => viewerRef.current?.currentScale ?? 1,
+    rotatePages,
+    setViewRotation: (degrees: number) => {
+      if (viewerRef.current) viewerRef.current.pagesRotation = degrees;
+    },
+    getViewRotation: () => viewerRef.current?.pagesRotation ?? 0,
+    getPageRotations,
+    setScrollMode: (newScrollMode: PdfScrollMode) => {
+      scrollModeRef.current = newScrollMode;
+      applyPageLayout();
+    },
+    getScrollMode: () =>
+      getModeName(
+        SCROLL_MODES,
+        viewerRef.current?.scrollMode,
+        scrollModeRef.current,
+      ),
+    setSpreadMode: (newSpreadMode: PdfSpreadMode) => {
+      spreadModeRef.current = newSpreadMode;
+      applyPageLayout();
+    },
+    getSpreadMode: () =>
+      getModeName(
+        SPREAD_MODES,
+        viewerRef.current?.spreadMode,
+        spreadModeRef.current,
+      ),
+    getViewState,
+    restoreViewState,
+    on: (event, listener) => eventsRef.current.on(event, listener),
+    off: (event, listener) => eventsRef.current.off(event, listener),
+    emit: (event, payload) => eventsRef.current.emit(event, payload),
     goToPage: (pageNumber: number) => {
-      console.log('[PdfHighlighter] goToPage called with page:', pageNumber);
+      logRef.current.debug('[PdfHighlighter] goToPage called with page:', pageNumber);
       const viewer = viewerRef.current;
       if (!viewer) {
-        console.log('[PdfHighlighter] goToPage: viewer not available');
+        logRef.current.debug('[PdfHighlighter] goToPage: viewer not available');
         return;
       }
 
       // Check if viewer container has a valid offsetParent (required by PDF.js)
       const container = viewer.container;
-      console.log('[PdfHighlighter] goToPage: container:', !!container, 'offsetParent:', !!container?.offsetParent);
+      logRef.current.debug('[PdfHighlighter] goToPage: container:', !!container, 'offsetParent:', !!container?.offsetParent);
       if (container && container.offsetParent) {
         try {
-          console.log('[PdfHighlighter] goToPage: using viewer.scrollPageIntoView');
+          logRef.current.debug('[PdfHighlighter] goToPage: using viewer.scrollPageIntoView');
           viewer.scrollPageIntoView({ pageNumber });
           return;
         } catch (e) {
-          console.log('[PdfHighlighter] goToPage: scrollPageIntoView threw error:', e);
+          logRef.current.debug('[PdfHighlighter] goToPage: scrollPageIntoView threw error:', e);
           // Fall through to DOM-based scrolling
         }
       }
 
       // Fallback: Use DOM-based scrolling when PDF.js scrollPageIntoView fails
       const pageElement = container?.querySelector(`.page[data-page-number="${pageNumber}"]`) as HTMLElement | null;
-      console.log('[PdfHighlighter] goToPage: DOM fallback, pageElement found:', !!pageElement);
+      logRef.current.debug('[PdfHighlighter] goToPage: DOM fallback, pageElement found:', !!pageElement);
       if (pageElement && container) {
         // PDF.js pages use position:absolute with inline style.top set to their position
         // Parse the inline style.top value to get the scroll target
         const styleTop = pageElement.style.top;
         const scrollTarget = styleTop ? parseInt(styleTop, 10) : 0;
-        console.log('[PdfHighlighter] goToPage: style.top =', styleTop, 'scrollTarget =', scrollTarget);
+        logRef.current.debug('[PdfHighlighter] goToPage: style.top =', styleTop, 'scrollTarget =', scrollTarget);
 
         if (scrollTarget > 0) {
           container.scrollTo({
@@ -829,16 +2396,18 @@ export const PdfHighlighter = ({
           const containerRect = container.getBoundingClientRect();
           const pageRect = pageElement.getBoundingClientRect();
           const scrollTop = container.scrollTop + (pageRect.top - containerRect.top);
-          console.log('[PdfHighlighter] goToPage: using getBoundingClientRect, scrollTop =', scrollTop);
+          const scrollLeft = container.scrollLeft + (pageRect.left - containerRect.left);
+          logRef.current.debug('[PdfHighlighter] goToPage: using getBoundingClientRect, scrollTop =', scrollTop);
           container.scrollTo({
             top: scrollTop,
+            left: scrollLeft,
             behavior: 'smooth'
           });
         }
       } else {
         // Try document-wide search as last resort
         const docPageElement = document.querySelector(`.page[data-page-number="${pageNumber}"]`) as HTMLElement | null;
-        console.log('[PdfHighlighter] goToPage: document-wide search, found:', !!docPageElement);
+        logRef.current.debug('[PdfHighlighter] goToPage: document-wide search, found:', !!docPageElement);
         if (docPageElement) {
           // Parse inline style.top
           const styleTop = docPageElement.style.top;
@@ -846,14 +2415,14 @@ export const PdfHighlighter = ({
           const scrollContainer = docPageElement.closest('.pdfViewer')?.parentElement as HTMLElement | null;
 
           if (scrollContainer && scrollTarget > 0) {
-            console.log('[PdfHighlighter] goToPage: document search, scrolling to style.top =', scrollTarget);
+            logRef.current.debug('[PdfHighlighter] goToPage: document search, scrolling to style.top =', scrollTarget);
             scrollContainer.scrollTo({
               top: scrollTarget,
               behavior: 'smooth'
             });
           } else {
             // Last resort: use scrollIntoView
-            console.log('[PdfHighlighter] goToPage: using scrollIntoView fallback');
+            logRef.current.debug('[PdfHighlighter] goToPage: using scrollIntoView fallback');
             docPageElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
           }
         }
@@ -861,14 +2430,35 @@ export const PdfHighlighter = ({
     },
   };
 
+  // Highlight layers skipped when re-rendering and the `utilsRef` callback
+  // keep the utils they were given, so they get utils that call the latest
+  // of each function.
+  const latestUtilsRef = useRef(pdfHighlighterUtils);
+  latestUtilsRef.current = pdfHighlighterUtils;
+  const stableUtils = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.keys(latestUtilsRef.current).map((key) => [
+          key,
+          (...args: unknown[]) =>
+            (
+              latestUtilsRef.current[
+                key as keyof PdfHighlighterUtils
+              ] as (...args: unknown[]) => unknown
+            )(...args),
+        ]),
+      ) as PdfHighlighterUtils,
+    [],
+  );
+
   // Only call utilsRef once when viewer is ready to prevent infinite re-render loop
   const utilsRefCalledRef = useRef(false);
   useEffect(() => {
     if (viewerRef.current && !utilsRefCalledRef.current) {
       utilsRefCalledRef.current = true;
-      utilsRef(pdfHighlighterUtils);
+      utilsRef(stableUtils);
     }
-  }, [pdfHighlighterUtils, utilsRef]);
+  }, [stableUtils, utilsRef]);
 
   // Check if freetext or image mode is active for cursor styling
   const isFreetextMode = enableFreetextCreation?.({} as MouseEvent) ?? false;
@@ -896,14 +2486,30 @@ export const PdfHighlighter = ({
         className={containerClassName}
         onPointerDown={handleMouseDown}
         onPointerUp={handleMouseUp}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={handlePointerLeave}
         style={containerStyle}
       >
         <div className="pdfViewer" />
+        <div
+          ref={liveRegionRef}
+          className="PdfHighlighter__live-region"
+          role="status"
+          aria-live="polite"
+        />
         <style>
           {`
           .textLayer ::selection {
             background: ${textSelectionColor};
           }
+          .PdfHighlighter .textLayer .highlight,
+          .PdfHighlighter .SearchMatchOverlay__match {
+            background-color: ${resolvedTheme.searchMatchColor};
+          }
+          .PdfHighlighter .textLayer .highlight.selected,
+          .PdfHighlighter .SearchMatchOverlay__match--selected {
+            background-color: ${resolvedTheme.searchSelectedMatchColor};
+          }
           .PdfHighlighter::-webkit-scrollbar-thumb {
             background-color: ${resolvedTheme.scrollbarThumbColor};
           }
@@ -939,6 +2545,7 @@ export const PdfHighlighter = ({
             onReset={() => {
               selectionRef.current = null;
               disableTextSelection(viewerRef.current!, false);
+              notifyPresence();
             }}
             onSelection={(
               viewportPosition,
@@ -965,23 +2572,48 @@ export const PdfHighlighter = ({
               };
 
               onSelectionFinished && onSelectionFinished(selectionRef.current);
+              eventsRef.current.emit("selection:finished", {
+                selection: selectionRef.current,
+              });
+              notifyPresence();
               selectionTip &&
                 setTip({ position: viewportPosition, content: selectionTip });
             }}
           />
         )}
+        {isViewerReady && enableMarqueeSelection && (
+          <MouseSelection
+            viewer={viewerRef.current!}
+            enableAreaSelection={enableMarqueeSelection}
+            style={{
+              border: "1px dashed #4a90d9",
+              background: "rgba(74, 144, 217, 0.1)",
+            }}
+            onDragStart={() => disableTextSelection(viewerRef.current!, true)}
+            onReset={() => disableTextSelection(viewerRef.current!, false)}
+            onSelection={(viewportPosition, _scaledPosition, _image, resetSelection, event) => {
+              const ids = getHighlightsInRect(viewportPosition.boundingRect).map(
+                (highlight) => highlight.id,
+              );
+              selectHighlights(ids, event.shiftKey);
+              resetSelection();
+            }}
+          />
+        )}
         {isViewerReady && enableDrawingMode && (
           <DrawingCanvas
             isActive={enableDrawingMode}
             strokeColor={drawingStrokeColor}
             strokeWidth={drawingStrokeWidth}
+            tool={drawingTool}
             viewer={viewerRef.current!}
+            logger={log}
             onComplete={(dataUrl, position, strokes) => {
-              console.log("PdfHighlighter: Drawing complete");
+              log.debug("[PdfHighlighter] Drawing complete");
               onDrawingComplete?.(dataUrl, position, strokes);
             }}
             onCancel={() => {
-              console.log("PdfHighlighter: Drawing cancelled");
+              log.debug("[PdfHighlighter] Drawing cancelled");
               onDrawingCancel?.();
             }}
           />
@@ -992,13 +2624,17 @@ export const PdfHighlighter = ({
             shapeType={enableShapeMode}
             strokeColor={shapeStrokeColor}
             strokeWidth={shapeStrokeWidth}
+            fillColor={shapeFillColor}
+            dashPattern={shapeDashPattern}
+            measure={shapeMeasure}
             viewer={viewerRef.current!}
+            logger={log}
             onComplete={(position, shape) => {
-              console.log("PdfHighlighter: Shape complete", shape.shapeType);
+              log.debug("[PdfHighlighter] Shape complete", shape.shapeType);
               onShapeComplete?.(position, shape);
             }}
             onCancel={() => {
-              console.log("PdfHighlighter: Shape cancelled");
+              log.debug("[PdfHighlighter] Shape cancelled");
               onShapeCancel?.();
             }}
           />
@@ -1,6 +1,6 @@
-import React, { ReactNode, useEffect, useRef, useState } from "react";
+import React, { FormEvent, Fragment, ReactNode, useEffect, useRef, useState } from "react";
 
-import { GlobalWorkerOptions, OnProgressParameters, getDocument, type PDFDocumentLoadingTask, type PDFDocumentProxy } from "pdfjs-dist";
+import { GlobalWorkerOptions, OnProgressParameters, PasswordResponses, getDocument, type PDFDocumentLoadingTask, type PDFDocumentProxy } from "pdfjs-dist";
 import { DocumentInitParameters, TypedArray } from "pdfjs-dist/types/src/display/api";
 
 const DEFAULT_BEFORE_LOAD = (progress: OnProgressParameters) => (
@@ -17,6 +17,52 @@ const DEFAULT_ON_ERROR = (error: Error) => {
   throw new Error(`Error loading PDF document: ${error.message}!`);
 };
 
+const DEFAULT_PASSWORD_PROMPT = (
+  submit: (password: string) => void,
+  reason: PdfPasswordReason,
+) => (
+  <form
+    style={{ color: "black" }}
+    onSubmit={(event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const input = event.currentTarget.elements.namedItem("password");
+      submit((input as HTMLInputElement).value);
+    }}
+  >
+    <p>
+      {reason === "incorrectPassword"
+        ? "Incorrect password. Please try again."
+        : "This document is password protected."}
+    </p>
+    <input name="password" type="password" autoFocus aria-label="Password" />
+    <button type="submit">Open</button>
+  </form>
+);
+
+/**
+ * Add a password to the parameters passed to PDF.js. A password in the
+ * document parameters takes precedence.
+ */
+const withPassword = (
+  document: PdfLoaderProps["document"],
+  password?: string,
+): PdfLoaderProps["document"] => {
+  if (password === undefined) return document;
+  if (typeof document === "string" || document instanceof URL) {
+    return { url: document, password };
+  }
+  if (ArrayBuffer.isView(document)) return { data: document, password };
+  return { password, ...document };
+};
+
+/**
+ * Why PDF.js asks for a password: the document is encrypted, or the last
+ * password was wrong.
+ *
+ * @category Type
+ */
+export type PdfPasswordReason = "needPassword" | "incorrectPassword";
+
 // Default worker source - uses version 4.4.168
 // Users should provide their own workerSrc matching their pdfjs-dist version for best compatibility
 const DEFAULT_WORKER_SRC =
@@ -51,6 +97,26 @@ export interface PdfLoaderProps {
    */
   errorMessage?(error: Error): ReactNode;
 
+  /**
+   * Password of an encrypted document. If it is missing or wrong, the
+   * password prompt is shown. Setting it while the prompt is shown submits it.
+   */
+  password?: string;
+
+  /**
+   * Component to render when the document is encrypted. The prompt is shown
+   * again, with the reason `"incorrectPassword"`, until the right password is
+   * submitted.
+   *
+   * @param submit - Retry opening the document with a password.
+   * @param reason - Whether a password is needed or the last one was wrong.
+   * @returns - Component to be rendered in space of the PDF document.
+   */
+  renderPasswordPrompt?(
+    submit: (password: string) => void,
+    reason: PdfPasswordReason,
+  ): ReactNode;
+
   /**
    * Child components to use/render the loaded PDF document.
    *
@@ -86,22 +152,54 @@ export const PdfLoader = ({
   children,
   onError = DEFAULT_ON_ERROR,
   workerSrc = DEFAULT_WORKER_SRC,
+  password,
+  renderPasswordPrompt = DEFAULT_PASSWORD_PROMPT,
 }: PdfLoaderProps) => {
   const pdfLoadingTaskRef = useRef<PDFDocumentLoadingTask | null>(null);
   const pdfDocumentRef = useRef<PDFDocumentProxy | null>(null);
+  const passwordRef = useRef(password);
+  passwordRef.current = password;
 
   const [error, setError] = useState<Error | null>(null);
   const [loadingProgress, setLoadingProgress] =
     useState<OnProgressParameters | null>(null);
+  const [passwordRequest, setPasswordRequest] = useState<{
+    submit: (password: string) => void;
+    reason: PdfPasswordReason;
+    attempt: number;
+  } | null>(null);
 
   // Intitialise document
   useEffect(() => {
     GlobalWorkerOptions.workerSrc = workerSrc;
-    pdfLoadingTaskRef.current = getDocument(document);
+    setPasswordRequest(null);
+    pdfLoadingTaskRef.current = getDocument(
+      withPassword(document, passwordRef.current),
+    );
     pdfLoadingTaskRef.current.onProgress = (progress: OnProgressParameters) => {
       setLoadingProgress(progress.loaded > progress.total ? null : progress);
     };
 
+    // PDF.js calls this again with INCORRECT_PASSWORD until the password fits
+    let attempt = 0;
+    pdfLoadingTaskRef.current.onPassword = (
+      updatePassword: (password: string) => void,
+      reason: number,
+    ) => {
+      attempt += 1;
+      setPasswordRequest({
+        submit: (password: string) => {
+          setPasswordRequest(null);
+          updatePassword(password);
+        },
+        reason:
+          reason === PasswordResponses.INCORRECT_PASSWORD
+            ? "incorrectPassword"
+            : "needPassword",
+        attempt,
+      });
+    };
+
     pdfLoadingTaskRef.current.promise
       .then((pdfDocument: PDFDocumentProxy) => {
         pdfDocumentRef.current = pdfDocument;
@@ -127,9 +225,21 @@ export const PdfLoader = ({
     };
   }, [document]);
 
+  // Submit a password set while the prompt is shown
+  useEffect(() => {
+    if (password !== undefined) passwordRequest?.submit(password);
+  }, [password]);
+
   return error
     ? errorMessage(error)
-    : loadingProgress
+    : passwordRequest
+      ? (
+        // Remount the prompt on each attempt to clear its input
+        <Fragment key={passwordRequest.attempt}>
+          {renderPasswordPrompt(passwordRequest.submit, passwordRequest.reason)}
+        </Fragment>
+      )
+      : loadingProgress
       ? beforeLoad(loadingProgress)
       : pdfDocumentRef.current && children(pdfDocumentRef.current);
 };
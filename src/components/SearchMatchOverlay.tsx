@@ -0,0 +1,71 @@
+import { PDFViewer } from "pdfjs-dist/types/web/pdf_viewer";
+import React from "react";
+import { scaledPositionToViewport } from "../lib/coordinates";
+import { GhostHighlight } from "../types";
+
+/**
+ * The props type for {@link SearchMatchOverlay}.
+ *
+ * @category Component Properties
+ * @internal
+ */
+export interface SearchMatchOverlayProps {
+  /**
+   * Matches of the current search on this page.
+   */
+  matches: GhostHighlight[];
+
+  /**
+   * The selected match, if it is on this page.
+   */
+  selectedMatch: GhostHighlight | null;
+
+  /**
+   * The page number of the PDF document (1 indexed).
+   */
+  pageNumber: number;
+
+  /**
+   * The PDFViewer instance containing the page.
+   */
+  viewer: PDFViewer;
+}
+
+/**
+ * Marks the matches of a regular expression search on a single page. Its
+ * rendering should be controlled by a {@link HighlightLayer}.
+ *
+ * @category Component
+ * @internal
+ */
+export const SearchMatchOverlay = ({
+  matches,
+  selectedMatch,
+  pageNumber,
+  viewer,
+}: SearchMatchOverlayProps) => {
+  return (
+    <div className="SearchMatchOverlay">
+      {matches.map((match, matchIndex) =>
+        scaledPositionToViewport(match.position, viewer)
+          .rects.filter((rect) => rect.pageNumber === pageNumber)
+          .map((rect, index) => (
+            <div
+              key={`${matchIndex}-${index}`}
+              className={`SearchMatchOverlay__match${
+                match === selectedMatch
+                  ? " SearchMatchOverlay__match--selected"
+                  : ""
+              }`}
+              style={{
+                left: rect.left,
+                top: rect.top,
+                width: rect.width,
+                height: rect.height,
+              }}
+            />
+          )),
+      )}
+    </div>
+  );
+};
@@ -3,11 +3,27 @@ import React, {
   useEffect,
   useCallback,
   useState,
-  MouseEvent as ReactMouseEvent,
-  TouchEvent as ReactTouchEvent,
+  PointerEvent as ReactPointerEvent,
 } from "react";
 import { viewportPositionToScaled } from "../lib/coordinates";
-import { ShapeType, ShapeData, ScaledPosition, ViewportPosition } from "../types";
+import { silentLogger } from "../lib/logger";
+import {
+  fitShapeBox,
+  getCalloutAnchor,
+  isClosedShape,
+  isLineShape,
+  isMeasurableShape,
+  rotateShape,
+} from "../lib/shape-geometry";
+import { ShapeSvg } from "./ShapeSvg";
+import {
+  Logger,
+  ShapeType,
+  ShapeData,
+  ShapeMeasure,
+  ScaledPosition,
+  ViewportPosition,
+} from "../types";
 
 import type { PDFViewer as TPDFViewer } from "pdfjs-dist/web/pdf_viewer.mjs";
 
@@ -39,6 +55,22 @@ export interface ShapeCanvasProps {
    */
   strokeWidth?: number;
 
+  /**
+   * Fill of closed shapes and callout boxes. Default: none
+   */
+  fillColor?: string;
+
+  /**
+   * Dash and gap lengths in multiples of the stroke width. Default: solid
+   */
+  dashPattern?: number[];
+
+  /**
+   * Scale and unit to show the length of lines, arrows and polylines in.
+   * Default: not shown
+   */
+  measure?: ShapeMeasure;
+
   /**
    * The PDF viewer instance.
    */
@@ -56,6 +88,11 @@ export interface ShapeCanvasProps {
    * Callback when shape creation is cancelled.
    */
   onCancel: () => void;
+
+  /**
+   * Receives debug messages. Default: silent
+   */
+  logger?: Logger;
 }
 
 interface Point {
@@ -63,9 +100,33 @@ interface Point {
   y: number;
 }
 
+type Box = { left: number; top: number; width: number; height: number };
+
+// Shapes drawn click by click
+const VERTEX_SHAPES: ShapeType[] = ["polyline", "polygon", "cloud"];
+
+// Clicking this close to the first vertex closes a polygon or cloud
+const CLOSE_DISTANCE = 8;
+
+const SHAPE_NAMES: Record<ShapeType, string> = {
+  rectangle: "rectangle",
+  circle: "circle",
+  arrow: "arrow",
+  line: "line",
+  doubleArrow: "double arrow",
+  polyline: "polyline",
+  polygon: "polygon",
+  cloud: "cloud",
+  callout: "callout",
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
 /**
  * A transparent overlay for creating shape annotations on PDF pages.
- * Supports mouse and touch input with click-and-drag to define shape bounds.
+ * Rectangles, circles, lines and arrows are dragged. Polylines, polygons and
+ * clouds are drawn click by click and finished with a double-click or Enter.
+ * Callouts are a click on what they point at, then a dragged text box.
  *
  * @category Component
  */
@@ -74,17 +135,25 @@ export const ShapeCanvas = ({
   shapeType,
   strokeColor = "#000000",
   strokeWidth = 2,
+  fillColor,
+  dashPattern,
+  measure,
   viewer,
   onComplete,
   onCancel,
+  logger = silentLogger,
 }: ShapeCanvasProps) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [startPoint, setStartPoint] = useState<Point | null>(null);
   const [currentPoint, setCurrentPoint] = useState<Point | null>(null);
+  // Vertices of click-by-click shapes, or the tip of a callout
+  const [vertices, setVertices] = useState<Point[]>([]);
   const [pageNumber, setPageNumber] = useState<number | null>(null);
   const [pageRect, setPageRect] = useState<DOMRect | null>(null);
   const isDrawingRef = useRef(false);
 
+  const isVertexShape = VERTEX_SHAPES.includes(shapeType);
+
   // Find which page the user is drawing on
   const findPageFromPoint = useCallback(
     (clientX: number, clientY: number) => {
@@ -113,160 +182,231 @@ export const ShapeCanvas = ({
     [viewer]
   );
 
-  // Handle mouse/touch down
-  const handleStart = useCallback(
-    (clientX: number, clientY: number) => {
-      const pageInfo = findPageFromPoint(clientX, clientY);
-      if (!pageInfo) return;
-
-      console.log("ShapeCanvas: Started drawing on page", pageInfo.pageNumber);
+  const reset = useCallback(() => {
+    isDrawingRef.current = false;
+    setStartPoint(null);
+    setCurrentPoint(null);
+    setVertices([]);
+    setPageNumber(null);
+    setPageRect(null);
+  }, []);
 
-      setPageNumber(pageInfo.pageNumber);
-      setPageRect(pageInfo.rect);
+  // Start over when switching shapes
+  useEffect(reset, [shapeType, reset]);
 
-      isDrawingRef.current = true;
-      const pos = {
-        x: clientX - pageInfo.rect.left,
-        y: clientY - pageInfo.rect.top,
-      };
-      setStartPoint(pos);
-      setCurrentPoint(pos);
-    },
-    [findPageFromPoint]
+  const baseShape = useCallback(
+    (): ShapeData => ({
+      shapeType,
+      strokeColor,
+      strokeWidth,
+      ...(fillColor && isClosedShape(shapeType) ? { fillColor } : {}),
+      ...(dashPattern ? { dashPattern } : {}),
+      ...(measure && isMeasurableShape(shapeType) ? { measure } : {}),
+    }),
+    [shapeType, strokeColor, strokeWidth, fillColor, dashPattern, measure]
   );
 
-  // Handle mouse/touch move
-  const handleMove = useCallback(
-    (clientX: number, clientY: number) => {
-      if (!isDrawingRef.current || !pageRect) return;
+  const complete = useCallback(
+    (box: Box, shapeData: ShapeData) => {
+      if (pageNumber === null || !viewer) return;
 
-      const pos = {
-        x: clientX - pageRect.left,
-        y: clientY - pageRect.top,
+      // Create viewport position
+      const viewportPosition: ViewportPosition = {
+        boundingRect: { ...box, pageNumber },
+        rects: [],
       };
-      setCurrentPoint(pos);
+
+      const scaledPosition = viewportPositionToScaled(viewportPosition, viewer);
+
+      // Store the shape relative to the unrotated page, like its position
+      const { rotation } = viewer.getPageView(pageNumber - 1);
+
+      logger.debug("[ShapeCanvas] Created shape at position", scaledPosition);
+      onComplete(scaledPosition, rotateShape(shapeData, -rotation));
+      reset();
     },
-    [pageRect]
+    [pageNumber, viewer, onComplete, logger, reset]
   );
 
-  // Handle mouse/touch end
-  const handleEnd = useCallback(() => {
-    if (!isDrawingRef.current || !startPoint || !currentPoint || pageNumber === null || !viewer) {
-      isDrawingRef.current = false;
-      setStartPoint(null);
-      setCurrentPoint(null);
-      return;
+  // The shape being drawn, in page pixels
+  const getDraft = useCallback((): { box: Box; shape: ShapeData } | null => {
+    const shape = baseShape();
+
+    if (isVertexShape) {
+      const points = currentPoint ? [...vertices, currentPoint] : vertices;
+      if (points.length < 2) return null;
+      const { fractions, ...box } = fitShapeBox(points);
+      return { box, shape: { ...shape, vertices: fractions } };
     }
 
-    isDrawingRef.current = false;
+    if (!startPoint || !currentPoint) return null;
 
-    // Calculate bounding box
-    const minX = Math.min(startPoint.x, currentPoint.x);
-    const minY = Math.min(startPoint.y, currentPoint.y);
-    const maxX = Math.max(startPoint.x, currentPoint.x);
-    const maxY = Math.max(startPoint.y, currentPoint.y);
+    if (isLineShape(shapeType)) {
+      const { fractions, ...box } = fitShapeBox([startPoint, currentPoint]);
+      return {
+        box,
+        shape: { ...shape, startPoint: fractions[0], endPoint: fractions[1] },
+      };
+    }
 
-    const width = maxX - minX;
-    const height = maxY - minY;
+    const left = Math.min(startPoint.x, currentPoint.x);
+    const top = Math.min(startPoint.y, currentPoint.y);
+    const width = Math.abs(currentPoint.x - startPoint.x);
+    const height = Math.abs(currentPoint.y - startPoint.y);
 
-    // Minimum size check
-    if (width < 10 || height < 10) {
-      console.log("ShapeCanvas: Shape too small, ignoring");
-      setStartPoint(null);
-      setCurrentPoint(null);
-      return;
+    if (shapeType === "callout" && vertices.length > 0) {
+      const tip = vertices[0];
+      const anchor = getCalloutAnchor({ x: left, y: top, width, height }, tip);
+      const { fractions, ...box } = fitShapeBox([
+        tip,
+        anchor,
+        { x: left, y: top },
+        { x: left + width, y: top + height },
+      ]);
+      const [tipFraction, anchorFraction, topLeft, bottomRight] = fractions;
+      return {
+        box,
+        shape: {
+          ...shape,
+          vertices: [tipFraction, anchorFraction],
+          textBox: {
+            x: topLeft.x,
+            y: topLeft.y,
+            width: bottomRight.x - topLeft.x,
+            height: bottomRight.y - topLeft.y,
+          },
+        },
+      };
     }
 
-    console.log("ShapeCanvas: Creating shape", shapeType, "at", { minX, minY, width, height });
-
-    // Create viewport position
-    const viewportPosition: ViewportPosition = {
-      boundingRect: {
-        left: minX,
-        top: minY,
-        width: width,
-        height: height,
-        pageNumber: pageNumber,
-      },
-      rects: [],
-    };
+    return { box: { left, top, width, height }, shape };
+  }, [baseShape, isVertexShape, vertices, currentPoint, startPoint, shapeType]);
 
-    const scaledPosition = viewportPositionToScaled(viewportPosition, viewer);
+  // Finish a click-by-click shape
+  const finishVertices = useCallback(() => {
+    // A double-click adds the last point twice
+    const points = vertices.filter(
+      (point, index) => index === 0 || distance(point, vertices[index - 1]) > 3
+    );
+    const minimum = shapeType === "polyline" ? 2 : 3;
+    if (points.length < minimum) {
+      logger.debug("[ShapeCanvas] Not enough points, ignoring");
+      return;
+    }
 
-    // For arrows, calculate start/end points as percentages within the bounding box
-    let shapeData: ShapeData = {
+    logger.debug(
+      "[ShapeCanvas] Creating",
       shapeType,
-      strokeColor,
-      strokeWidth,
-    };
+      "with",
+      points.length,
+      "points"
+    );
+    const { fractions, ...box } = fitShapeBox(points);
+    complete(box, { ...baseShape(), vertices: fractions });
+  }, [vertices, shapeType, baseShape, complete, logger]);
 
-    if (shapeType === "arrow") {
-      // Calculate start and end points relative to bounding box (0-1 range)
-      shapeData.startPoint = {
-        x: (startPoint.x - minX) / width,
-        y: (startPoint.y - minY) / height,
-      };
-      shapeData.endPoint = {
-        x: (currentPoint.x - minX) / width,
-        y: (currentPoint.y - minY) / height,
-      };
-      console.log("ShapeCanvas: Arrow points", shapeData.startPoint, "->", shapeData.endPoint);
+  // Finish a dragged shape
+  const finishDrag = useCallback(() => {
+    isDrawingRef.current = false;
+    const draft = getDraft();
+
+    const tooSmall =
+      !draft ||
+      !startPoint ||
+      !currentPoint ||
+      (isLineShape(shapeType)
+        ? distance(startPoint, currentPoint) < 10
+        : Math.abs(currentPoint.x - startPoint.x) < 10 ||
+          Math.abs(currentPoint.y - startPoint.y) < 10);
+
+    if (tooSmall) {
+      logger.debug("[ShapeCanvas] Shape too small, ignoring");
+      setStartPoint(null);
+      setCurrentPoint(null);
+      return;
     }
 
-    console.log("ShapeCanvas: Created shape at position", scaledPosition);
-    onComplete(scaledPosition, shapeData);
+    logger.debug("[ShapeCanvas] Creating shape", shapeType, "at", draft.box);
+    complete(draft.box, draft.shape);
+  }, [getDraft, startPoint, currentPoint, shapeType, complete, logger]);
 
-    // Reset state
-    setStartPoint(null);
-    setCurrentPoint(null);
-    setPageNumber(null);
-    setPageRect(null);
-  }, [startPoint, currentPoint, pageNumber, viewer, shapeType, strokeColor, strokeWidth, onComplete]);
-
-  // Mouse event handlers
-  const handleMouseDown = useCallback(
-    (e: ReactMouseEvent) => {
+  const handlePointerDown = useCallback(
+    (e: ReactPointerEvent<HTMLDivElement>) => {
       e.preventDefault();
-      handleStart(e.clientX, e.clientY);
-    },
-    [handleStart]
-  );
 
-  const handleMouseMove = useCallback(
-    (e: ReactMouseEvent) => {
-      handleMove(e.clientX, e.clientY);
-    },
-    [handleMove]
-  );
+      // The first point picks the page, the others stay on it
+      let rect: DOMRect;
+      if (pageRect && vertices.length > 0) {
+        rect = pageRect;
+      } else {
+        const pageInfo = findPageFromPoint(e.clientX, e.clientY);
+        if (!pageInfo) return;
+
+        logger.debug("[ShapeCanvas] Started drawing on page", pageInfo.pageNumber);
+        rect = pageInfo.rect;
+        setPageNumber(pageInfo.pageNumber);
+        setPageRect(pageInfo.rect);
+      }
 
-  const handleMouseUp = useCallback(() => {
-    handleEnd();
-  }, [handleEnd]);
+      // Stay on the page, which may have neighbours to its sides
+      const pos = {
+        x: Math.min(Math.max(e.clientX - rect.left, 0), rect.width),
+        y: Math.min(Math.max(e.clientY - rect.top, 0), rect.height),
+      };
 
-  // Touch event handlers
-  const handleTouchStart = useCallback(
-    (e: ReactTouchEvent) => {
-      e.preventDefault();
-      if (e.touches.length > 0) {
-        handleStart(e.touches[0].clientX, e.touches[0].clientY);
+      if (isVertexShape) {
+        if (
+          shapeType !== "polyline" &&
+          vertices.length >= 3 &&
+          distance(pos, vertices[0]) < CLOSE_DISTANCE
+        ) {
+          finishVertices();
+          return;
+        }
+        setVertices((prev) => [...prev, pos]);
+        setCurrentPoint(pos);
+        return;
       }
+
+      // A callout starts with what it points at
+      if (shapeType === "callout" && vertices.length === 0) {
+        setVertices([pos]);
+        setCurrentPoint(pos);
+        return;
+      }
+
+      e.currentTarget.setPointerCapture(e.pointerId);
+      isDrawingRef.current = true;
+      setStartPoint(pos);
+      setCurrentPoint(pos);
     },
-    [handleStart]
+    [
+      pageRect,
+      isVertexShape,
+      vertices,
+      shapeType,
+      findPageFromPoint,
+      finishVertices,
+      logger,
+    ]
   );
 
-  const handleTouchMove = useCallback(
-    (e: ReactTouchEvent) => {
-      e.preventDefault();
-      if (e.touches.length > 0) {
-        handleMove(e.touches[0].clientX, e.touches[0].clientY);
-      }
+  const handlePointerMove = useCallback(
+    (e: ReactPointerEvent<HTMLDivElement>) => {
+      if (!pageRect || (!isDrawingRef.current && vertices.length === 0)) return;
+
+      // Stay on the page, which may have neighbours to its sides
+      setCurrentPoint({
+        x: Math.min(Math.max(e.clientX - pageRect.left, 0), pageRect.width),
+        y: Math.min(Math.max(e.clientY - pageRect.top, 0), pageRect.height),
+      });
     },
-    [handleMove]
+    [pageRect, vertices]
   );
 
-  const handleTouchEnd = useCallback(() => {
-    handleEnd();
-  }, [handleEnd]);
+  const handlePointerUp = useCallback(() => {
+    if (isDrawingRef.current) finishDrag();
+  }, [finishDrag]);
 
   // Handle keyboard events
   useEffect(() => {
@@ -274,87 +414,59 @@ export const ShapeCanvas = ({
 
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.code === "Escape") {
-        console.log("ShapeCanvas: Cancelled via Escape");
+        logger.debug("[ShapeCanvas] Cancelled via Escape");
         onCancel();
+      } else if (isVertexShape && e.code === "Enter") {
+        finishVertices();
+      } else if (isVertexShape && e.code === "Backspace") {
+        setVertices((prev) => prev.slice(0, -1));
       }
     };
 
     document.addEventListener("keydown", handleKeyDown);
     return () => document.removeEventListener("keydown", handleKeyDown);
-  }, [isActive, onCancel]);
+  }, [isActive, onCancel, isVertexShape, finishVertices, logger]);
 
   // Render shape preview
   const renderShapePreview = () => {
-    if (!startPoint || !currentPoint || !pageRect) return null;
-
-    const minX = Math.min(startPoint.x, currentPoint.x);
-    const minY = Math.min(startPoint.y, currentPoint.y);
-    const width = Math.abs(currentPoint.x - startPoint.x);
-    const height = Math.abs(currentPoint.y - startPoint.y);
+    const draft = getDraft();
+    if (!draft || !pageRect) return null;
 
-    const svgStyle: React.CSSProperties = {
-      position: "fixed",
-      left: pageRect.left,
-      top: pageRect.top,
-      width: pageRect.width,
-      height: pageRect.height,
-      pointerEvents: "none",
-      zIndex: 1001,
-    };
+    const { box, shape } = draft;
+    const pageView = viewer?.getPageView(pageNumber! - 1);
 
     return (
-      <svg style={svgStyle}>
-        {shapeType === "rectangle" && (
-          <rect
-            x={minX}
-            y={minY}
-            width={width}
-            height={height}
-            stroke={strokeColor}
-            strokeWidth={strokeWidth}
-            fill="none"
-          />
-        )}
-        {shapeType === "circle" && (
-          <ellipse
-            cx={minX + width / 2}
-            cy={minY + height / 2}
-            rx={width / 2}
-            ry={height / 2}
-            stroke={strokeColor}
-            strokeWidth={strokeWidth}
-            fill="none"
-          />
-        )}
-        {shapeType === "arrow" && (
-          <>
-            <defs>
-              <marker
-                id="shape-canvas-arrowhead"
-                markerWidth="10"
-                markerHeight="7"
-                refX="9"
-                refY="3.5"
-                orient="auto"
-              >
-                <polygon points="0 0, 10 3.5, 0 7" fill={strokeColor} />
-              </marker>
-            </defs>
-            <line
-              x1={startPoint.x}
-              y1={startPoint.y}
-              x2={currentPoint.x}
-              y2={currentPoint.y}
-              stroke={strokeColor}
-              strokeWidth={strokeWidth}
-              markerEnd="url(#shape-canvas-arrowhead)"
-            />
-          </>
-        )}
-      </svg>
+      <ShapeSvg
+        shape={shape}
+        width={box.width}
+        height={box.height}
+        pointsPerPixel={pageView ? 1 / pageView.viewport.scale : undefined}
+        style={{
+          position: "fixed",
+          left: pageRect.left + box.left,
+          top: pageRect.top + box.top,
+          overflow: "visible",
+          pointerEvents: "none",
+          zIndex: 1001,
+        }}
+      />
     );
   };
 
+  const getHint = () => {
+    if (isVertexShape) {
+      return vertices.length === 0
+        ? `Click to place the points of a ${SHAPE_NAMES[shapeType]}.`
+        : "Double-click or press Enter to finish, Backspace removes a point.";
+    }
+    if (shapeType === "callout") {
+      return vertices.length === 0
+        ? "Click what the callout points at."
+        : "Click and drag to draw its text box.";
+    }
+    return `Click and drag to draw a ${SHAPE_NAMES[shapeType]}.`;
+  };
+
   if (!isActive) return null;
 
   return (
@@ -362,18 +474,16 @@ export const ShapeCanvas = ({
       <div
         ref={containerRef}
         className="ShapeCanvas"
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={isVertexShape ? finishVertices : undefined}
       />
       {renderShapePreview()}
       <div className="ShapeCanvas__controls">
         <div className="ShapeCanvas__hint">
-          Click and drag to draw a {shapeType}. Press Escape to cancel.
+          {getHint()} Press Escape to cancel.
         </div>
         <button
           type="button"
@@ -1,14 +1,36 @@
 import React, {
   CSSProperties,
   MouseEvent,
+  PointerEvent as ReactPointerEvent,
   ReactNode,
+  useContext,
   useState,
   useRef,
   useEffect,
 } from "react";
 import { Rnd } from "react-rnd";
+import { PdfHighlighterContext } from "../contexts/PdfHighlighterContext";
 import { getPageFromElement } from "../lib/pdfjs-dom";
-import type { LTWHP, ShapeType, ViewportHighlight } from "../types";
+import { getHighlightLabel } from "../lib/highlight-label";
+import {
+  fitShapeBox,
+  getCalloutAnchor,
+  getCalloutBox,
+  getShapePoints,
+  isClosedShape,
+  isLineShape,
+  isPointShape,
+  rotateShape,
+} from "../lib/shape-geometry";
+import { ShapeSvg } from "./ShapeSvg";
+import type {
+  LineEnding,
+  LTWHP,
+  ShapeData,
+  ShapeMeasure,
+  ShapeType,
+  ViewportHighlight,
+} from "../types";
 
 /**
  * Style options for shape highlight appearance.
@@ -16,6 +38,10 @@ import type { LTWHP, ShapeType, ViewportHighlight } from "../types";
 export interface ShapeStyle {
   strokeColor?: string;
   strokeWidth?: number;
+  /** `null` removes the fill. */
+  fillColor?: string | null;
+  /** Empty for a solid stroke. */
+  dashPattern?: number[];
 }
 
 /**
@@ -41,6 +67,18 @@ export interface ShapeHighlightProps {
    */
   isScrolledTo?: boolean;
 
+  /**
+   * Is the highlight part of the current multi-selection? See
+   * {@link PdfHighlighterUtils.selectHighlights}.
+   */
+  isSelected?: boolean;
+
+  /**
+   * Accessible name announced by screen readers when the highlight is focused.
+   * Defaults to the highlight's type, page and text. See {@link getHighlightLabel}.
+   */
+  ariaLabel?: string;
+
   /**
    * react-rnd bounds on the highlight area.
    */
@@ -118,8 +156,60 @@ export interface ShapeHighlightProps {
    * For arrows: end point as percentage of bounding box (0-1).
    */
   endPoint?: { x: number; y: number };
+
+  /**
+   * For polylines, polygons and clouds: their vertices. For callouts: the
+   * leader line from its tip to the text box. See {@link ShapeData}.
+   */
+  vertices?: { x: number; y: number }[];
+
+  /**
+   * Ending at the first point. Defaults to the shape type's.
+   */
+  startEnding?: LineEnding;
+
+  /**
+   * Ending at the last point. Defaults to the shape type's.
+   */
+  endEnding?: LineEnding;
+
+  /**
+   * Fill of closed shapes and callout boxes.
+   */
+  fillColor?: string;
+
+  /**
+   * Dash and gap lengths in multiples of the stroke width.
+   */
+  dashPattern?: number[];
+
+  /**
+   * For lines, arrows and polylines: show their length.
+   */
+  measure?: ShapeMeasure;
+
+  /**
+   * For callouts: the text box as fractions of the bounding box.
+   */
+  textBox?: { x: number; y: number; width: number; height: number };
+
+  /**
+   * For callouts: the text in the box.
+   */
+  text?: string;
+
+  /**
+   * Callback triggered when points are dragged by their handles or callout
+   * text is edited (double-click). Without it, neither can be edited.
+   *
+   * @param change - The changed shape data.
+   * @param boundingRect - The refitted highlight area after dragging points.
+   */
+  onShapeChange?(change: Partial<ShapeData>, boundingRect?: LTWHP): void;
 }
 
+type Vector = { x: number; y: number };
+
 // Default icons
 const DefaultStyleIcon = () => (
   <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
@@ -149,9 +239,17 @@ const STROKE_WIDTHS = [
   { label: "Thick", value: 4 },
 ];
 
+// Dash pattern options
+const DASH_PATTERNS = [
+  { label: "Solid", value: [] },
+  { label: "Dashed", value: [3, 2] },
+  { label: "Dotted", value: [1, 2] },
+];
+
 /**
  * Renders a draggable, resizable shape annotation.
- * Supports rectangle, circle/ellipse, and arrow shapes.
+ * The points of lines, polylines, polygons, clouds and callout leaders can
+ * be dragged by their handles, and callout text is edited on double-click.
  *
  * @category Component
  */
@@ -159,6 +257,8 @@ export const ShapeHighlight = ({
   highlight,
   onChange,
   isScrolledTo,
+  isSelected,
+  ariaLabel,
   bounds,
   onContextMenu,
   onEditStart,
@@ -174,10 +274,25 @@ export const ShapeHighlight = ({
   colorPresets = DEFAULT_COLOR_PRESETS,
   startPoint,
   endPoint,
+  vertices,
+  startEnding,
+  endEnding,
+  fillColor,
+  dashPattern,
+  measure,
+  textBox,
+  text,
+  onShapeChange,
 }: ShapeHighlightProps) => {
   const [isStylePanelOpen, setIsStylePanelOpen] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
+  // Points being dragged by their handles, in pixels of the shape's box
+  const [dragPoints, setDragPoints] = useState<Vector[] | null>(null);
+  const [isEditingText, setIsEditingText] = useState(false);
   const stylePanelRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+  const pdfHighlighterUtils = useContext(PdfHighlighterContext);
 
   // Close style panel when clicking outside
   useEffect(() => {
@@ -204,101 +319,204 @@ export const ShapeHighlight = ({
   }, [isStylePanelOpen]);
 
   const highlightClass = isScrolledTo ? "ShapeHighlight--scrolledTo" : "";
+  const selectedClass = isSelected ? "ShapeHighlight--selected" : "";
 
   // Generate key based on position for Rnd remount on position changes
   const key = `${highlight.position.boundingRect.width}${highlight.position.boundingRect.height}${highlight.position.boundingRect.left}${highlight.position.boundingRect.top}`;
+  const { boundingRect } = highlight.position;
+  const width = boundingRect.width || 100;
+  const height = boundingRect.height || 100;
+
+  const storedShape: ShapeData = {
+    shapeType,
+    strokeColor,
+    strokeWidth,
+    startPoint,
+    endPoint,
+    vertices,
+    startEnding,
+    endEnding,
+    fillColor,
+    dashPattern,
+    measure,
+    textBox,
+    text,
+  };
 
-  // Generate unique ID for SVG markers
-  const markerId = `arrowhead-${highlight.id}`;
+  // Measured lengths are in PDF points
+  const pageView = pdfHighlighterUtils
+    ?.getViewer()
+    ?.getPageView(boundingRect.pageNumber - 1);
+  const pointsPerPixel = pageView ? 1 / pageView.viewport.scale : undefined;
+
+  // Shown and edited as the page view is rotated, stored unrotated
+  const rotation = pageView?.rotation ?? 0;
+  const shape = rotateShape(storedShape, rotation);
+
+  // Lines and arrows move their ends, callouts the tip of their leader
+  const getEditablePoints = () => {
+    if (!onShapeChange || !isPointShape(shapeType)) return [];
+    const points = getShapePoints(shape, width, height);
+    return shapeType === "callout" ? points.slice(0, 1) : points;
+  };
 
-  // Render the shape SVG
-  const renderShape = (width: number, height: number) => {
-    switch (shapeType) {
-      case "rectangle":
-        return (
-          <svg
-            className="ShapeHighlight__svg"
-            width={width}
-            height={height}
-            viewBox={`0 0 ${width} ${height}`}
-          >
-            <rect
-              x={strokeWidth / 2}
-              y={strokeWidth / 2}
-              width={width - strokeWidth}
-              height={height - strokeWidth}
-              stroke={strokeColor}
-              strokeWidth={strokeWidth}
-              fill="none"
-            />
-          </svg>
-        );
-      case "circle":
-        return (
-          <svg
-            className="ShapeHighlight__svg"
-            width={width}
-            height={height}
-            viewBox={`0 0 ${width} ${height}`}
-          >
-            <ellipse
-              cx={width / 2}
-              cy={height / 2}
-              rx={width / 2 - strokeWidth / 2}
-              ry={height / 2 - strokeWidth / 2}
-              stroke={strokeColor}
-              strokeWidth={strokeWidth}
-              fill="none"
-            />
-          </svg>
-        );
-      case "arrow": {
-        // Use stored start/end points if available, otherwise default to left-to-right
-        const x1 = startPoint ? startPoint.x * width : strokeWidth;
-        const y1 = startPoint ? startPoint.y * height : height / 2;
-        const x2 = endPoint ? endPoint.x * width : width - strokeWidth - 10;
-        const y2 = endPoint ? endPoint.y * height : height / 2;
-
-        return (
-          <svg
-            className="ShapeHighlight__svg"
-            width={width}
-            height={height}
-            viewBox={`0 0 ${width} ${height}`}
-          >
-            <defs>
-              <marker
-                id={markerId}
-                markerWidth="10"
-                markerHeight="7"
-                refX="9"
-                refY="3.5"
-                orient="auto"
-              >
-                <polygon points="0 0, 10 3.5, 0 7" fill={strokeColor} />
-              </marker>
-            </defs>
-            <line
-              x1={x1}
-              y1={y1}
-              x2={x2}
-              y2={y2}
-              stroke={strokeColor}
-              strokeWidth={strokeWidth}
-              markerEnd={`url(#${markerId})`}
-            />
-          </svg>
-        );
-      }
-      default:
-        return null;
+  // The shape with its editable points at `points`
+  const withPoints = (points: Vector[]): ShapeData => {
+    const fractions = points.map(({ x, y }) => ({
+      x: x / width,
+      y: y / height,
+    }));
+
+    if (isLineShape(shapeType)) {
+      return { ...shape, startPoint: fractions[0], endPoint: fractions[1] };
+    }
+    if (shapeType === "callout") {
+      const anchor = getCalloutAnchor(
+        getCalloutBox(shape, width, height),
+        points[0],
+      );
+      return {
+        ...shape,
+        vertices: [fractions[0], { x: anchor.x / width, y: anchor.y / height }],
+      };
     }
+    return { ...shape, vertices: fractions };
+  };
+
+  // Fit the bounding box to the dragged points
+  const finishDrag = (points: Vector[]) => {
+    const pagePoints = getShapePoints(withPoints(points), width, height).map(
+      ({ x, y }) => ({ x: x + boundingRect.left, y: y + boundingRect.top }),
+    );
+
+    if (shapeType === "callout") {
+      const box = getCalloutBox(shape, width, height);
+      pagePoints.push(
+        { x: boundingRect.left + box.x, y: boundingRect.top + box.y },
+        {
+          x: boundingRect.left + box.x + box.width,
+          y: boundingRect.top + box.y + box.height,
+        },
+      );
+    }
+
+    const { fractions, ...box } = fitShapeBox(pagePoints);
+    const change: Partial<ShapeData> = isLineShape(shapeType)
+      ? { startPoint: fractions[0], endPoint: fractions[1] }
+      : shapeType === "callout"
+        ? {
+            vertices: fractions.slice(0, 2),
+            textBox: {
+              x: fractions[2].x,
+              y: fractions[2].y,
+              width: fractions[3].x - fractions[2].x,
+              height: fractions[3].y - fractions[2].y,
+            },
+          }
+        : { vertices: fractions };
+
+    onShapeChange?.(rotateShape(change, -rotation), {
+      ...box,
+      pageNumber: boundingRect.pageNumber,
+    });
+  };
+
+  const handlePointerDown =
+    (index: number) => (e: ReactPointerEvent<SVGCircleElement>) => {
+      e.stopPropagation();
+      e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragIndexRef.current = index;
+      setDragPoints(getEditablePoints());
+      onEditStart?.();
+    };
+
+  const handlePointerMove = (e: ReactPointerEvent<SVGCircleElement>) => {
+    const index = dragIndexRef.current;
+    if (index === null || !containerRef.current) return;
+
+    const rect = containerRef.current.getBoundingClientRect();
+    const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    setDragPoints(
+      (prev) => prev && prev.map((p, i) => (i === index ? point : p)),
+    );
+  };
+
+  const handlePointerUp = () => {
+    if (dragIndexRef.current === null) return;
+
+    dragIndexRef.current = null;
+    if (dragPoints) finishDrag(dragPoints);
+    setDragPoints(null);
+    onEditEnd?.();
+  };
+
+  const renderHandles = () => {
+    if (!dragPoints && !isHovered && !isSelected) return null;
+
+    return (dragPoints ?? getEditablePoints()).map((point, index) => (
+      <circle
+        key={index}
+        className="ShapeHighlight__handle"
+        cx={point.x}
+        cy={point.y}
+        r={5}
+        onPointerDown={handlePointerDown(index)}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        // Keep Rnd from dragging the whole shape
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+      />
+    ));
+  };
+
+  const renderTextEditor = () => {
+    const box = getCalloutBox(shape, width, height);
+
+    const finish = (value: string) => {
+      setIsEditingText(false);
+      if (value !== (text ?? "")) onShapeChange?.({ text: value });
+      onEditEnd?.();
+    };
+
+    return (
+      <textarea
+        className="ShapeHighlight__callout-input"
+        style={{
+          left: box.x,
+          top: box.y,
+          width: box.width,
+          height: box.height,
+          color: strokeColor,
+        }}
+        defaultValue={text}
+        autoFocus
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          // Discard the edit
+          if (e.key === "Escape") {
+            e.currentTarget.value = text ?? "";
+            e.currentTarget.blur();
+          }
+        }}
+        onBlur={(e) => finish(e.target.value)}
+      />
+    );
   };
 
   return (
     <div
-      className={`ShapeHighlight ${highlightClass}`}
+      className={`ShapeHighlight ${highlightClass} ${selectedClass}`}
       onContextMenu={onContextMenu}
+      data-highlight-id={highlight.id}
+      tabIndex={0}
+      role="button"
+      aria-roledescription="highlight"
+      aria-label={ariaLabel ?? getHighlightLabel(highlight)}
+      aria-pressed={!!isSelected}
     >
       {/* Toolbar wrapper - extends down to overlap with shape */}
       {(onStyleChange || onDelete) && (
@@ -391,6 +609,54 @@ export const ShapeHighlight = ({
                   ))}
                 </div>
               </div>
+              {isClosedShape(shapeType) && (
+                <div className="ShapeHighlight__style-row">
+                  <label>Fill</label>
+                  <div className="ShapeHighlight__color-options">
+                    <div className="ShapeHighlight__color-presets">
+                      <button
+                        type="button"
+                        className={`ShapeHighlight__color-preset ShapeHighlight__color-preset--none ${!fillColor ? "active" : ""}`}
+                        onClick={() => onStyleChange({ fillColor: null })}
+                        title="None"
+                      />
+                      {colorPresets.map((c) => (
+                        <button
+                          key={c}
+                          type="button"
+                          className={`ShapeHighlight__color-preset ${fillColor === c ? "active" : ""}`}
+                          style={{ backgroundColor: c }}
+                          onClick={() => onStyleChange({ fillColor: c })}
+                          title={c}
+                        />
+                      ))}
+                    </div>
+                    <input
+                      type="color"
+                      value={fillColor || "#ffffff"}
+                      onChange={(e) => {
+                        onStyleChange({ fillColor: e.target.value });
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="ShapeHighlight__style-row">
+                <label>Line</label>
+                <div className="ShapeHighlight__width-options">
+                  {DASH_PATTERNS.map((d) => (
+                    <button
+                      key={d.label}
+                      type="button"
+                      className={`ShapeHighlight__width-button ${(dashPattern ?? []).join() === d.value.join() ? "active" : ""}`}
+                      onClick={() => onStyleChange({ dashPattern: d.value })}
+                      title={d.label}
+                    >
+                      {d.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
           )}
         </div>
@@ -435,17 +701,41 @@ export const ShapeHighlight = ({
         key={key}
         bounds={bounds}
         lockAspectRatio={shapeType === "circle"}
+        disableDragging={isEditingText}
         onClick={(event: Event) => {
           event.stopPropagation();
           event.preventDefault();
         }}
         style={style}
       >
-        <div className="ShapeHighlight__container">
-          {renderShape(
-            highlight.position.boundingRect.width || 100,
-            highlight.position.boundingRect.height || 100
-          )}
+        <div
+          className="ShapeHighlight__container"
+          ref={containerRef}
+          onDoubleClick={
+            shapeType === "callout" && onShapeChange
+              ? () => {
+                  setIsEditingText(true);
+                  onEditStart?.();
+                }
+              : undefined
+          }
+        >
+          <ShapeSvg
+            className="ShapeHighlight__svg"
+            shape={
+              dragPoints
+                ? withPoints(dragPoints)
+                : isEditingText
+                  ? { ...shape, text: undefined }
+                  : shape
+            }
+            width={width}
+            height={height}
+            pointsPerPixel={pointsPerPixel}
+          >
+            {renderHandles()}
+          </ShapeSvg>
+          {isEditingText && renderTextEditor()}
         </div>
       </Rnd>
     </div>
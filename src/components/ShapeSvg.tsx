@@ -0,0 +1,218 @@
+import React, { CSSProperties, ReactNode } from "react";
+import {
+  CALLOUT_FONT_SIZE,
+  CALLOUT_PADDING,
+  formatMeasurement,
+  getCalloutBox,
+  getCloudPath,
+  getLineEndingPath,
+  getLineEndings,
+  getPathLength,
+  getPathMidpoint,
+  getPolylinePath,
+  getShapePoints,
+  isMeasurableShape,
+} from "../lib/shape-geometry";
+import type { LineEnding, ShapeData } from "../types";
+
+type Vector = { x: number; y: number };
+
+interface ShapeSvgProps {
+  shape: ShapeData;
+  width: number;
+  height: number;
+  /** PDF points per viewport pixel, to show the length of measured shapes. */
+  pointsPerPixel?: number;
+  className?: string;
+  style?: CSSProperties;
+  /** Drawn on top of the shape, e.g. handles. */
+  children?: ReactNode;
+}
+
+/**
+ * An SVG of a shape in a box of `width` by `height`, shared by the shapes on
+ * the page and the preview while creating them.
+ */
+export const ShapeSvg = ({
+  shape,
+  width,
+  height,
+  pointsPerPixel,
+  className,
+  style,
+  children,
+}: ShapeSvgProps) => {
+  const { shapeType, strokeColor, strokeWidth } = shape;
+  const fill = shape.fillColor || "none";
+  const dashArray = shape.dashPattern?.length
+    ? shape.dashPattern.map((length) => length * strokeWidth).join(" ")
+    : undefined;
+  const strokeProps = {
+    stroke: strokeColor,
+    strokeWidth,
+    strokeDasharray: dashArray,
+  };
+  const pointProps = {
+    ...strokeProps,
+    strokeLinejoin: "round" as const,
+    strokeLinecap: dashArray ? ("butt" as const) : ("round" as const),
+  };
+
+  const points = getShapePoints(shape, width, height);
+
+  const renderEnding = (ending: LineEnding, tip: Vector, from: Vector) => {
+    const endingPath = getLineEndingPath(ending, tip, from, strokeWidth);
+    if (!endingPath) return null;
+
+    return (
+      <path
+        className={
+          endingPath.filled
+            ? "ShapeHighlight__ending ShapeHighlight__ending--filled"
+            : "ShapeHighlight__ending"
+        }
+        d={endingPath.path}
+        stroke={strokeColor}
+        strokeWidth={strokeWidth}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+        fill={endingPath.filled ? strokeColor : "none"}
+      />
+    );
+  };
+
+  const renderEndings = () => {
+    if (points.length < 2) return null;
+    const { start, end } = getLineEndings(shape);
+    const last = points.length - 1;
+
+    return (
+      <>
+        {renderEnding(start, points[0], points[1])}
+        {shapeType !== "callout" &&
+          renderEnding(end, points[last], points[last - 1])}
+      </>
+    );
+  };
+
+  const renderMeasurement = () => {
+    if (!shape.measure || !pointsPerPixel || !isMeasurableShape(shapeType)) {
+      return null;
+    }
+    const midpoint = getPathMidpoint(points);
+
+    return (
+      <text
+        className="ShapeHighlight__measurement"
+        x={midpoint.x}
+        y={midpoint.y - strokeWidth / 2 - 4}
+        textAnchor="middle"
+        fill={strokeColor}
+      >
+        {formatMeasurement(
+          getPathLength(points) * pointsPerPixel,
+          shape.measure,
+        )}
+      </text>
+    );
+  };
+
+  const renderShape = () => {
+    switch (shapeType) {
+      case "rectangle":
+        return (
+          <rect
+            x={strokeWidth / 2}
+            y={strokeWidth / 2}
+            width={Math.max(width - strokeWidth, 0)}
+            height={Math.max(height - strokeWidth, 0)}
+            fill={fill}
+            {...strokeProps}
+          />
+        );
+      case "circle":
+        return (
+          <ellipse
+            cx={width / 2}
+            cy={height / 2}
+            rx={Math.max(width / 2 - strokeWidth / 2, 0)}
+            ry={Math.max(height / 2 - strokeWidth / 2, 0)}
+            fill={fill}
+            {...strokeProps}
+          />
+        );
+      case "polygon":
+        return (
+          <path
+            d={getPolylinePath(points, true)}
+            fill={fill}
+            {...pointProps}
+          />
+        );
+      case "cloud":
+        return (
+          <path
+            d={getCloudPath(points, strokeWidth)}
+            fill={fill}
+            {...pointProps}
+          />
+        );
+      case "callout": {
+        const box = getCalloutBox(shape, width, height);
+        return (
+          <>
+            <path d={getPolylinePath(points)} fill="none" {...pointProps} />
+            <rect
+              x={box.x}
+              y={box.y}
+              width={box.width}
+              height={box.height}
+              fill={fill}
+              {...strokeProps}
+            />
+            <foreignObject
+              x={box.x}
+              y={box.y}
+              width={box.width}
+              height={box.height}
+            >
+              <div
+                className="ShapeHighlight__callout-text"
+                style={{
+                  color: strokeColor,
+                  fontSize: CALLOUT_FONT_SIZE,
+                  padding: CALLOUT_PADDING + strokeWidth / 2,
+                }}
+              >
+                {shape.text}
+              </div>
+            </foreignObject>
+            {renderEndings()}
+          </>
+        );
+      }
+      default:
+        // Lines, arrows and polylines
+        return (
+          <>
+            <path d={getPolylinePath(points)} fill="none" {...pointProps} />
+            {renderEndings()}
+            {renderMeasurement()}
+          </>
+        );
+    }
+  };
+
+  return (
+    <svg
+      className={className}
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      style={style}
+    >
+      {renderShape()}
+      {children}
+    </svg>
+  );
+};
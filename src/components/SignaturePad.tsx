@@ -1,4 +1,8 @@
 import React, { useRef, useEffect, useCallback } from "react";
+import type { DrawingStroke } from "../types";
+
+const STROKE_COLOR = "#000000";
+const STROKE_WIDTH = 2;
 
 /**
  * The props type for {@link SignaturePad}.
@@ -15,8 +19,10 @@ export interface SignaturePadProps {
    * Callback when signature is completed.
    *
    * @param dataUrl - The signature as a PNG data URL.
+   * @param strokes - The signature as strokes in canvas pixels, for vector
+   * export. Store them as the image highlight's `content.strokes`.
    */
-  onComplete: (dataUrl: string) => void;
+  onComplete: (dataUrl: string, strokes: DrawingStroke[]) => void;
 
   /**
    * Callback when the modal is closed/cancelled.
@@ -52,6 +58,7 @@ export const SignaturePad = ({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const isDrawingRef = useRef(false);
   const lastPosRef = useRef({ x: 0, y: 0 });
+  const strokesRef = useRef<DrawingStroke[]>([]);
 
   // Initialize canvas context
   useEffect(() => {
@@ -62,13 +69,14 @@ export const SignaturePad = ({
     if (!ctx) return;
 
     // Set up drawing style
-    ctx.strokeStyle = "#000000";
-    ctx.lineWidth = 2;
+    ctx.strokeStyle = STROKE_COLOR;
+    ctx.lineWidth = STROKE_WIDTH;
     ctx.lineCap = "round";
     ctx.lineJoin = "round";
 
     // Clear canvas
     ctx.clearRect(0, 0, width, height);
+    strokesRef.current = [];
   }, [isOpen, width, height]);
 
   const getPosition = useCallback(
@@ -101,6 +109,11 @@ export const SignaturePad = ({
       e.preventDefault();
       isDrawingRef.current = true;
       lastPosRef.current = getPosition(e);
+      strokesRef.current.push({
+        points: [lastPosRef.current],
+        color: STROKE_COLOR,
+        width: STROKE_WIDTH,
+      });
     },
     [getPosition]
   );
@@ -121,6 +134,7 @@ export const SignaturePad = ({
       ctx.lineTo(currentPos.x, currentPos.y);
       ctx.stroke();
 
+      strokesRef.current[strokesRef.current.length - 1]?.points.push(currentPos);
       lastPosRef.current = currentPos;
     },
     [getPosition]
@@ -173,6 +187,7 @@ export const SignaturePad = ({
     if (!ctx || !canvas) return;
 
     ctx.clearRect(0, 0, width, height);
+    strokesRef.current = [];
   };
 
   const handleDone = () => {
@@ -180,7 +195,7 @@ export const SignaturePad = ({
     if (!canvas) return;
 
     const dataUrl = canvas.toDataURL("image/png");
-    onComplete(dataUrl);
+    onComplete(dataUrl, strokesRef.current);
   };
 
   const handleOverlayClick = (e: React.MouseEvent) => {
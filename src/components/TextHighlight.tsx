@@ -7,6 +7,7 @@ import React, {
   useEffect,
 } from "react";
 
+import { getHighlightLabel } from "../lib/highlight-label";
 import type { ViewportHighlight } from "../types";
 
 /**
@@ -55,6 +56,18 @@ export interface TextHighlightProps {
    */
   isScrolledTo: boolean;
 
+  /**
+   * Is the highlight part of the current multi-selection? See
+   * {@link PdfHighlighterUtils.selectHighlights}.
+   */
+  isSelected?: boolean;
+
+  /**
+   * Accessible name announced by screen readers when the highlight is focused.
+   * Defaults to the highlight's type, page and text. See {@link getHighlightLabel}.
+   */
+  ariaLabel?: string;
+
   /**
    * Callback triggered whenever the user tries to open context menu on highlight.
    *
@@ -160,6 +173,8 @@ export const TextHighlight = ({
   onMouseOver,
   onMouseOut,
   isScrolledTo,
+  isSelected,
+  ariaLabel,
   onContextMenu,
   style,
   highlightColor = "rgba(255, 226, 143, 1)",
@@ -200,6 +215,7 @@ export const TextHighlight = ({
   }, [isStylePanelOpen]);
 
   const highlightClass = isScrolledTo ? "TextHighlight--scrolledTo" : "";
+  const selectedClass = isSelected ? "TextHighlight--selected" : "";
   const { rects } = highlight.position;
 
   // Get the first rect to position the toolbar
@@ -234,8 +250,14 @@ export const TextHighlight = ({
 
   return (
     <div
-      className={`TextHighlight ${highlightClass}`}
+      className={`TextHighlight ${highlightClass} ${selectedClass}`}
       onContextMenu={onContextMenu}
+      data-highlight-id={highlight.id}
+      tabIndex={0}
+      role="button"
+      aria-roledescription="highlight"
+      aria-label={ariaLabel ?? getHighlightLabel(highlight)}
+      aria-pressed={!!isSelected}
       ref={containerRef}
     >
       {/* Toolbar wrapper - extends down to overlap with highlight */}
@@ -69,11 +69,11 @@ export const TipContainer = ({
   const { boundingRect } = position;
   const pageNumber = boundingRect.pageNumber;
   const pageNode = viewer.getPageView(pageNumber - 1).div; // Account for 1 indexing of pdf documents
-  const pageBoundingClientRect = pageNode.getBoundingClientRect();
-  const { left: pageLeft, width: pageWidth } = pageBoundingClientRect;
 
   // Calculate the position and dimensions of the tip container
-  const scrollTop = viewer.container.scrollTop; // How much the viewer has been scrolled vertically
+  // Offsets are relative to the viewer, also when pages sit side by side
+  const { scrollTop, scrollLeft } = viewer.container; // How much the viewer has been scrolled
+  const pageRight = pageNode.offsetLeft + pageNode.offsetWidth;
   const left = pageNode.offsetLeft + boundingRect.left + boundingRect.width / 2; // center tip over highlight
   const highlightTop = boundingRect.top + pageNode.offsetTop;
   const highlightBottom = highlightTop + boundingRect.height;
@@ -85,7 +85,7 @@ export const TipContainer = ({
     : highlightTop - height - VERTICAL_PADDING;
 
   // Ensure the tip stays within the left edge of the viewer and the right edge of the page
-  const clampedLeft = clamp(left - width / 2, 0, pageLeft + pageWidth - width);
+  const clampedLeft = clamp(left - width / 2, scrollLeft, pageRight - width);
 
   return (
     <div
@@ -0,0 +1,804 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import {
+  FileText,
+  Square,
+  StickyNote,
+  Image,
+  Pencil,
+  Shapes,
+  MessageSquare,
+  Search,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import type { LeftPanelTheme } from './LeftPanel';
+import type { RecolorableHighlight } from '../../lib/group-operations';
+import type {
+  CommentAuthor,
+  CommentThreadData,
+  Highlight,
+  HighlightType,
+} from '../../types';
+
+/** Order of the annotations list */
+export type AnnotationsSortOrder = 'position' | 'date';
+
+/** Style configuration for AnnotationsPanel */
+export interface AnnotationsPanelStyles {
+  /** Container styles */
+  container?: React.CSSProperties;
+  /** Search and filter area styles */
+  toolbar?: React.CSSProperties;
+  /** Search input styles */
+  searchInput?: React.CSSProperties;
+  /** Type filter button styles */
+  filterButton?: React.CSSProperties;
+  /** Type filter button styles when active */
+  filterButtonActive?: React.CSSProperties;
+  /** Color filter swatch styles */
+  colorSwatch?: React.CSSProperties;
+  /** Author and sort select styles */
+  select?: React.CSSProperties;
+  /** Page group header styles */
+  pageHeader?: React.CSSProperties;
+  /** Annotation item styles */
+  item?: React.CSSProperties;
+  /** Annotation item styles when active */
+  itemActive?: React.CSSProperties;
+  /** Type icon styles */
+  itemIcon?: React.CSSProperties;
+  /** Text excerpt styles */
+  itemExcerpt?: React.CSSProperties;
+  /** Image preview styles */
+  itemImage?: React.CSSProperties;
+  /** Comment styles */
+  itemComment?: React.CSSProperties;
+  /** Empty state styles */
+  empty?: React.CSSProperties;
+}
+
+/** Class name configuration for AnnotationsPanel (Tailwind-friendly) */
+export interface AnnotationsPanelClassNames {
+  /** Container class */
+  container?: string;
+  /** Search and filter area class */
+  toolbar?: string;
+  /** Search input class */
+  searchInput?: string;
+  /** Type filter button class */
+  filterButton?: string;
+  /** Type filter button class when active */
+  filterButtonActive?: string;
+  /** Color filter swatch class */
+  colorSwatch?: string;
+  /** Author and sort select class */
+  select?: string;
+  /** Page group header class */
+  pageHeader?: string;
+  /** Annotation item class */
+  item?: string;
+  /** Annotation item class when active */
+  itemActive?: string;
+  /** Type icon class */
+  itemIcon?: string;
+  /** Text excerpt class */
+  itemExcerpt?: string;
+  /** Image preview class */
+  itemImage?: string;
+  /** Comment class */
+  itemComment?: string;
+  /** Empty state class */
+  empty?: string;
+}
+
+/** Props passed to a custom annotation item renderer */
+export interface AnnotationItemRenderProps {
+  /** Whether the item is the active highlight */
+  isActive: boolean;
+  /** Comment shown for the highlight */
+  comment?: string;
+  /** Author of the highlight */
+  author?: CommentAuthor;
+  /** Scroll to the highlight */
+  onClick: () => void;
+}
+
+export interface AnnotationsPanelProps<T extends Highlight = Highlight> {
+  /** Highlights to list */
+  highlights: T[];
+  /** Function to scroll to a highlight (from pdfHighlighterUtils.scrollToHighlight) */
+  scrollToHighlight?: (highlight: T) => void;
+  /** Callback when an annotation is clicked */
+  onHighlightClick?: (highlight: T) => void;
+  /** ID of the highlight to mark as active, e.g. the one scrolled to */
+  activeHighlightId?: string | null;
+  /** Comment threads, searched and used for the default author and date */
+  commentThreads?: CommentThreadData[];
+  /** Comment of a highlight. Default: its `comment` property or the opening comment of its thread */
+  getComment?: (highlight: T) => string | undefined;
+  /** Color of a highlight. Default: its highlight, stroke or background color */
+  getColor?: (highlight: T) => string | undefined;
+  /** Author of a highlight. Default: the author of the opening comment of its thread */
+  getAuthor?: (highlight: T) => CommentAuthor | undefined;
+  /** Creation date of a highlight. Default: the date of the opening comment of its thread */
+  getDate?: (highlight: T) => string | number | Date | undefined;
+  /** Initial sort order */
+  defaultSortBy?: AnnotationsSortOrder;
+  /** Show the search field and filters */
+  showToolbar?: boolean;
+  /** Custom item renderer */
+  renderItem?: (highlight: T, props: AnnotationItemRenderProps) => React.ReactNode;
+  /** Estimated height of each annotation item (including gap) */
+  estimatedItemHeight?: number;
+  /** Number of rows to render outside visible area */
+  overscan?: number;
+  /** Gap between annotation items in pixels */
+  gap?: number;
+  /** Custom class name */
+  className?: string;
+  /** Custom styles */
+  style?: React.CSSProperties;
+  /** Theme customization */
+  theme?: LeftPanelTheme;
+  /** Custom styles for the panel parts */
+  styles?: AnnotationsPanelStyles;
+  /** Custom class names for the panel parts (Tailwind-friendly) */
+  classNames?: AnnotationsPanelClassNames;
+  /** Empty state content */
+  emptyContent?: React.ReactNode;
+}
+
+const defaultTheme: LeftPanelTheme = {
+  backgroundColor: '#ffffff',
+  borderColor: '#e5e7eb',
+  accentColor: '#3b82f6',
+  textColor: '#374151',
+  mutedTextColor: '#6b7280',
+  hoverBackgroundColor: '#f9fafb',
+};
+
+const typeConfig: Record<
+  HighlightType,
+  { icon: typeof FileText; label: string; color: string; background: string }
+> = {
+  text: { icon: FileText, label: 'Text', color: '#1d4ed8', background: '#dbeafe' },
+  area: { icon: Square, label: 'Area', color: '#7e22ce', background: '#f3e8ff' },
+  freetext: { icon: StickyNote, label: 'Note', color: '#a16207', background: '#fef9c3' },
+  image: { icon: Image, label: 'Image', color: '#15803d', background: '#dcfce7' },
+  drawing: { icon: Pencil, label: 'Drawing', color: '#c2410c', background: '#ffedd5' },
+  shape: { icon: Shapes, label: 'Shape', color: '#be185d', background: '#fce7f3' },
+};
+
+const typeOrder = Object.keys(typeConfig) as HighlightType[];
+
+type Row<T> =
+  | { kind: 'page'; pageNumber: number; count: number }
+  | { kind: 'highlight'; highlight: T };
+
+const joinClassNames = (...names: (string | false | undefined)[]) =>
+  names.filter(Boolean).join(' ') || undefined;
+
+const defaultGetColor = (highlight: Highlight) => {
+  const { highlightColor, strokeColor, backgroundColor } = highlight as RecolorableHighlight;
+  return (
+    highlightColor ||
+    strokeColor ||
+    highlight.content?.shape?.strokeColor ||
+    highlight.content?.strokes?.[0]?.color ||
+    backgroundColor
+  );
+};
+
+const toTime = (date: string | number | Date | undefined) =>
+  date === undefined ? NaN : new Date(date).getTime();
+
+/** Compare highlights by page, then top to bottom, then left to right. */
+const comparePosition = (a: Highlight, b: Highlight) => {
+  const rectA = a.position.boundingRect;
+  const rectB = b.position.boundingRect;
+  return (
+    rectA.pageNumber - rectB.pageNumber ||
+    rectA.y1 / rectA.height - rectB.y1 / rectB.height ||
+    rectA.x1 / rectA.width - rectB.x1 / rectB.width
+  );
+};
+
+/**
+ * Panel listing the highlights of a document, grouped by page, with search,
+ * filters by type, color and author, and sorting by position or date.
+ * Only the visible rows are rendered, so it scales to thousands of highlights.
+ */
+export const AnnotationsPanel = <T extends Highlight = Highlight>({
+  highlights,
+  scrollToHighlight,
+  onHighlightClick,
+  activeHighlightId = null,
+  commentThreads,
+  getComment,
+  getColor = defaultGetColor,
+  getAuthor,
+  getDate,
+  defaultSortBy = 'position',
+  showToolbar = true,
+  renderItem,
+  estimatedItemHeight = 88,
+  overscan = 5,
+  gap = 8,
+  className = '',
+  style,
+  theme: userTheme,
+  styles,
+  classNames,
+  emptyContent,
+}: AnnotationsPanelProps<T>) => {
+  // Merge user theme with defaults
+  const theme = useMemo(() => ({ ...defaultTheme, ...userTheme }), [userTheme]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [typeFilters, setTypeFilters] = useState<HighlightType[]>([]);
+  const [colorFilters, setColorFilters] = useState<string[]>([]);
+  const [authorFilter, setAuthorFilter] = useState('');
+  const [sortBy, setSortBy] = useState<AnnotationsSortOrder>(defaultSortBy);
+  const [collapsedPages, setCollapsedPages] = useState<Set<number>>(() => new Set());
+
+  const threadsByHighlight = useMemo(
+    () => new Map((commentThreads ?? []).map((thread) => [thread.highlightId, thread])),
+    [commentThreads]
+  );
+
+  // Resolve the comment, color, author and date of every highlight once
+  const entries = useMemo(
+    () =>
+      highlights.map((highlight) => {
+        const rootComment = threadsByHighlight.get(highlight.id)?.comments[0];
+        return {
+          highlight,
+          type: highlight.type || 'text',
+          comment: getComment
+            ? getComment(highlight)
+            : (highlight as { comment?: string }).comment || rootComment?.body,
+          color: getColor(highlight),
+          author: getAuthor ? getAuthor(highlight) : rootComment?.author,
+          time: toTime(getDate ? getDate(highlight) : rootComment?.createdAt),
+        };
+      }),
+    [highlights, threadsByHighlight, getComment, getColor, getAuthor, getDate]
+  );
+
+  // Filter options present in the highlights
+  const availableTypes = useMemo(
+    () => typeOrder.filter((type) => entries.some((entry) => entry.type === type)),
+    [entries]
+  );
+  const availableColors = useMemo(
+    () => [...new Set(entries.map(({ color }) => color).filter((color): color is string => Boolean(color)))],
+    [entries]
+  );
+  const availableAuthors = useMemo(() => {
+    const authors = new Map<string, CommentAuthor>();
+    entries.forEach(({ author }) => author && authors.set(author.id, author));
+    return [...authors.values()];
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    const result = entries.filter((entry) => {
+      if (typeFilters.length > 0 && !typeFilters.includes(entry.type)) return false;
+      if (colorFilters.length > 0 && !colorFilters.includes(entry.color ?? '')) return false;
+      if (authorFilter && entry.author?.id !== authorFilter) return false;
+      if (!query) return true;
+
+      const thread = threadsByHighlight.get(entry.highlight.id);
+      return [
+        entry.highlight.content?.text,
+        entry.comment,
+        ...(thread?.comments.map(({ body }) => body) ?? []),
+      ].some((text) => text?.toLowerCase().includes(query));
+    });
+
+    if (sortBy === 'position') {
+      result.sort((a, b) => comparePosition(a.highlight, b.highlight));
+    } else {
+      // Newest first, highlights without a date last in their original order
+      result.sort((a, b) =>
+        Number.isNaN(a.time) || Number.isNaN(b.time)
+          ? Number(Number.isNaN(a.time)) - Number(Number.isNaN(b.time))
+          : b.time - a.time
+      );
+    }
+    return result;
+  }, [entries, threadsByHighlight, searchQuery, typeFilters, colorFilters, authorFilter, sortBy]);
+
+  const entriesById = useMemo(
+    () => new Map(filteredEntries.map((entry) => [entry.highlight.id, entry])),
+    [filteredEntries]
+  );
+
+  // Flatten into page headers and items; sorting by date gives a flat list
+  const rows = useMemo(() => {
+    if (sortBy === 'date') {
+      return filteredEntries.map<Row<T>>(({ highlight }) => ({ kind: 'highlight', highlight }));
+    }
+
+    const counts = new Map<number, number>();
+    filteredEntries.forEach(({ highlight }) => {
+      const pageNumber = highlight.position.boundingRect.pageNumber;
+      counts.set(pageNumber, (counts.get(pageNumber) ?? 0) + 1);
+    });
+
+    const result: Row<T>[] = [];
+    filteredEntries.forEach(({ highlight }, index) => {
+      const pageNumber = highlight.position.boundingRect.pageNumber;
+      const previous = filteredEntries[index - 1]?.highlight;
+
+      if (previous?.position.boundingRect.pageNumber !== pageNumber) {
+        result.push({ kind: 'page', pageNumber, count: counts.get(pageNumber) ?? 0 });
+      }
+      if (!collapsedPages.has(pageNumber)) {
+        result.push({ kind: 'highlight', highlight });
+      }
+    });
+    return result;
+  }, [filteredEntries, sortBy, collapsedPages]);
+
+  const parentRef = useRef<HTMLDivElement>(null);
+
+  // Rows are measured after rendering, as excerpts and previews vary in height
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => parentRef.current,
+    estimateSize: (index) => (rows[index].kind === 'page' ? 32 : estimatedItemHeight + gap),
+    getItemKey: (index) => {
+      const row = rows[index];
+      return row.kind === 'page' ? `page-${row.pageNumber}` : row.highlight.id;
+    },
+    overscan,
+  });
+
+  // Store scrollToIndex in a ref to avoid infinite loop
+  // (useVirtualizer returns new object reference each render)
+  const scrollToIndexRef = useRef(virtualizer.scrollToIndex);
+  scrollToIndexRef.current = virtualizer.scrollToIndex;
+  const rowsRef = useRef(rows);
+  rowsRef.current = rows;
+
+  // Bring the active highlight into view when it changes (e.g., from the PDF viewer)
+  useEffect(() => {
+    if (!activeHighlightId) return;
+    const index = rowsRef.current.findIndex(
+      (row) => row.kind === 'highlight' && row.highlight.id === activeHighlightId
+    );
+    if (index >= 0) scrollToIndexRef.current(index, { align: 'auto' });
+  }, [activeHighlightId]);
+
+  const toggle = <V,>(values: V[], value: V) =>
+    values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+  const togglePage = (pageNumber: number) =>
+    setCollapsedPages((pages) => {
+      const next = new Set(pages);
+      if (!next.delete(pageNumber)) next.add(pageNumber);
+      return next;
+    });
+
+  const handleClick = (highlight: T) => {
+    scrollToHighlight?.(highlight);
+    onHighlightClick?.(highlight);
+  };
+
+  const selectStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 8px',
+    fontSize: '12px',
+    color: theme.textColor,
+    backgroundColor: theme.backgroundColor,
+    border: `1px solid ${theme.borderColor}`,
+    borderRadius: '6px',
+    ...styles?.select,
+  };
+
+  const renderEntry = (highlight: T) => {
+    const entry = entriesById.get(highlight.id);
+    if (!entry) return null;
+
+    const isActive = highlight.id === activeHighlightId;
+    const config = typeConfig[entry.type];
+    const Icon = config.icon;
+    const onClick = () => handleClick(highlight);
+
+    if (renderItem) {
+      return (
+        <div onClick={onClick} style={{ cursor: 'pointer' }}>
+          {renderItem(highlight, { isActive, comment: entry.comment, author: entry.author, onClick })}
+        </div>
+      );
+    }
+
+    const text = highlight.content?.text?.replace(/\s+/g, ' ').trim();
+    const image = highlight.content?.image;
+
+    return (
+      <div
+        className={joinClassNames(classNames?.item, isActive && classNames?.itemActive)}
+        onClick={onClick}
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onClick();
+          }
+        }}
+        onMouseEnter={(e) => {
+          if (!isActive) e.currentTarget.style.backgroundColor = theme.hoverBackgroundColor || '#f9fafb';
+        }}
+        onMouseLeave={(e) => {
+          if (!isActive) e.currentTarget.style.backgroundColor = theme.backgroundColor || '#ffffff';
+        }}
+        aria-current={isActive ? 'true' : undefined}
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '6px',
+          padding: '10px 12px',
+          cursor: 'pointer',
+          borderRadius: '6px',
+          border: `1px solid ${isActive ? theme.accentColor : theme.borderColor}`,
+          backgroundColor: isActive ? `${theme.accentColor}0d` : theme.backgroundColor,
+          transition: 'background-color 0.15s ease, border-color 0.15s ease',
+          ...styles?.item,
+          ...(isActive ? styles?.itemActive : {}),
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span
+            className={classNames?.itemIcon}
+            style={{
+              display: 'flex',
+              padding: '4px',
+              borderRadius: '4px',
+              color: config.color,
+              backgroundColor: config.background,
+              ...styles?.itemIcon,
+            }}
+          >
+            <Icon style={{ width: 13, height: 13 }} />
+          </span>
+          <span style={{ fontSize: '13px', fontWeight: 500, color: theme.textColor }}>
+            {config.label}
+          </span>
+          {entry.color && (
+            <span
+              aria-hidden
+              style={{
+                width: 10,
+                height: 10,
+                borderRadius: '50%',
+                backgroundColor: entry.color,
+                border: `1px solid ${theme.borderColor}`,
+              }}
+            />
+          )}
+          <span style={{ marginLeft: 'auto', fontSize: '11px', color: theme.mutedTextColor }}>
+            {entry.author ? `${entry.author.name} · ` : ''}p. {highlight.position.boundingRect.pageNumber}
+          </span>
+        </div>
+
+        {text && (
+          <p
+            className={classNames?.itemExcerpt}
+            style={{
+              margin: 0,
+              fontSize: '12px',
+              lineHeight: 1.4,
+              color: theme.mutedTextColor,
+              display: '-webkit-box',
+              WebkitLineClamp: 3,
+              WebkitBoxOrient: 'vertical',
+              overflow: 'hidden',
+              ...styles?.itemExcerpt,
+            }}
+          >
+            "{text}"
+          </p>
+        )}
+
+        {image && (
+          <img
+            className={classNames?.itemImage}
+            src={image}
+            alt={`${config.label} preview`}
+            draggable={false}
+            style={{
+              width: '100%',
+              height: 64,
+              objectFit: entry.type === 'drawing' ? 'contain' : 'cover',
+              borderRadius: '4px',
+              border: `1px solid ${theme.borderColor}`,
+              ...styles?.itemImage,
+            }}
+          />
+        )}
+
+        {entry.comment && (
+          <div
+            className={classNames?.itemComment}
+            style={{
+              display: 'flex',
+              alignItems: 'flex-start',
+              gap: '6px',
+              padding: '6px 8px',
+              borderRadius: '4px',
+              fontSize: '12px',
+              color: theme.textColor,
+              backgroundColor: theme.hoverBackgroundColor,
+              ...styles?.itemComment,
+            }}
+          >
+            <MessageSquare style={{ width: 12, height: 12, flexShrink: 0, marginTop: 2, color: theme.mutedTextColor }} />
+            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {entry.comment}
+            </span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className={joinClassNames('annotations-panel', className, classNames?.container)}
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        height: '100%',
+        backgroundColor: theme.backgroundColor,
+        color: theme.textColor,
+        ...style,
+        ...styles?.container,
+      }}
+    >
+      {showToolbar && (
+        <div
+          className={classNames?.toolbar}
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+            padding: '12px',
+            borderBottom: `1px solid ${theme.borderColor}`,
+            flexShrink: 0,
+            ...styles?.toolbar,
+          }}
+        >
+          <div style={{ position: 'relative' }}>
+            <Search
+              style={{
+                position: 'absolute',
+                left: 8,
+                top: '50%',
+                transform: 'translateY(-50%)',
+                width: 14,
+                height: 14,
+                color: theme.mutedTextColor,
+              }}
+            />
+            <input
+              type="search"
+              className={classNames?.searchInput}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search annotations..."
+              aria-label="Search annotations"
+              style={{
+                boxSizing: 'border-box',
+                width: '100%',
+                padding: '6px 8px 6px 28px',
+                fontSize: '13px',
+                color: theme.textColor,
+                backgroundColor: theme.backgroundColor,
+                border: `1px solid ${theme.borderColor}`,
+                borderRadius: '6px',
+                outline: 'none',
+                ...styles?.searchInput,
+              }}
+            />
+          </div>
+
+          {availableTypes.length > 1 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+              {availableTypes.map((type) => {
+                const { icon: Icon, label } = typeConfig[type];
+                const isActive = typeFilters.includes(type);
+                return (
+                  <button
+                    key={type}
+                    type="button"
+                    className={joinClassNames(classNames?.filterButton, isActive && classNames?.filterButtonActive)}
+                    onClick={() => setTypeFilters((filters) => toggle(filters, type))}
+                    aria-pressed={isActive}
+                    title={label}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      width: 28,
+                      height: 28,
+                      padding: 0,
+                      color: isActive ? theme.accentColor : theme.mutedTextColor,
+                      backgroundColor: isActive ? `${theme.accentColor}14` : 'transparent',
+                      border: `1px solid ${isActive ? theme.accentColor : theme.borderColor}`,
+                      borderRadius: '6px',
+                      cursor: 'pointer',
+                      ...styles?.filterButton,
+                      ...(isActive ? styles?.filterButtonActive : {}),
+                    }}
+                  >
+                    <Icon style={{ width: 14, height: 14 }} />
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {availableColors.length > 1 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+              {availableColors.map((color) => {
+                const isActive = colorFilters.includes(color);
+                return (
+                  <button
+                    key={color}
+                    type="button"
+                    className={classNames?.colorSwatch}
+                    onClick={() => setColorFilters((filters) => toggle(filters, color))}
+                    aria-pressed={isActive}
+                    aria-label={`Filter color ${color}`}
+                    title={color}
+                    style={{
+                      width: 18,
+                      height: 18,
+                      padding: 0,
+                      borderRadius: '50%',
+                      backgroundColor: color,
+                      border: `1px solid ${theme.borderColor}`,
+                      boxShadow: isActive ? `0 0 0 2px ${theme.backgroundColor}, 0 0 0 4px ${theme.accentColor}` : 'none',
+                      cursor: 'pointer',
+                      ...styles?.colorSwatch,
+                    }}
+                  />
+                );
+              })}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '6px' }}>
+            {availableAuthors.length > 0 && (
+              <select
+                className={classNames?.select}
+                value={authorFilter}
+                onChange={(e) => setAuthorFilter(e.target.value)}
+                aria-label="Filter by author"
+                style={selectStyle}
+              >
+                <option value="">All authors</option>
+                {availableAuthors.map((author) => (
+                  <option key={author.id} value={author.id}>
+                    {author.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              className={classNames?.select}
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as AnnotationsSortOrder)}
+              aria-label="Sort annotations"
+              style={selectStyle}
+            >
+              <option value="position">Sort by position</option>
+              <option value="date">Sort by newest</option>
+            </select>
+          </div>
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div
+          className={classNames?.empty}
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            padding: '48px 16px',
+            textAlign: 'center',
+            ...styles?.empty,
+          }}
+        >
+          {emptyContent || (
+            <>
+              <FileText style={{ width: 28, height: 28, marginBottom: 8, color: theme.mutedTextColor, opacity: 0.5 }} />
+              <p style={{ margin: 0, fontSize: 13, color: theme.mutedTextColor }}>
+                {highlights.length === 0 ? 'No annotations yet' : 'No matching annotations'}
+              </p>
+            </>
+          )}
+        </div>
+      ) : (
+        <div
+          ref={parentRef}
+          style={{
+            flex: 1,
+            minHeight: 0,
+            overflow: 'auto',
+            padding: '8px 12px',
+          }}
+        >
+          <div
+            style={{
+              height: `${virtualizer.getTotalSize()}px`,
+              width: '100%',
+              position: 'relative',
+            }}
+          >
+            {virtualizer.getVirtualItems().map((virtualItem) => {
+              const row = rows[virtualItem.index];
+
+              return (
+                <div
+                  key={virtualItem.key}
+                  data-index={virtualItem.index}
+                  ref={virtualizer.measureElement}
+                  style={{
+                    position: 'absolute',
+                    top: 0,
+                    left: 0,
+                    width: '100%',
+                    transform: `translateY(${virtualItem.start}px)`,
+                    paddingBottom: row.kind === 'highlight' ? `${gap}px` : 0,
+                  }}
+                >
+                  {row.kind === 'page' ? (
+                    <button
+                      type="button"
+                      className={classNames?.pageHeader}
+                      onClick={() => togglePage(row.pageNumber)}
+                      aria-expanded={!collapsedPages.has(row.pageNumber)}
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '6px',
+                        width: '100%',
+                        padding: '6px 4px',
+                        fontSize: '12px',
+                        fontWeight: 600,
+                        color: theme.textColor,
+                        backgroundColor: 'transparent',
+                        border: 'none',
+                        cursor: 'pointer',
+                        ...styles?.pageHeader,
+                      }}
+                    >
+                      {collapsedPages.has(row.pageNumber) ? (
+                        <ChevronRight style={{ width: 14, height: 14, color: theme.mutedTextColor }} />
+                      ) : (
+                        <ChevronDown style={{ width: 14, height: 14, color: theme.mutedTextColor }} />
+                      )}
+                      <span>Page {row.pageNumber}</span>
+                      <span style={{ marginLeft: 'auto', fontWeight: 500, color: theme.mutedTextColor }}>
+                        {row.count}
+                      </span>
+                    </button>
+                  ) : (
+                    renderEntry(row.highlight)
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
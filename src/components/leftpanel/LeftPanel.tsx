@@ -21,8 +21,9 @@ interface PDFLinkService {
 }
 
 interface EventBus {
-  on: (event: string, callback: (evt: { pageNumber: number }) => void) => void;
-  off: (event: string, callback: (evt: { pageNumber: number }) => void) => void;
+  on: <T>(event: string, callback: (evt: T) => void) => void;
+  off: <T>(event: string, callback: (evt: T) => void) => void;
+  dispatch?: (event: string, data: object) => void;
 }
 
 /** Theme configuration for LeftPanel styling */
@@ -221,6 +222,31 @@ export const LeftPanel: React.FC<LeftPanelProps> = ({
   // Internal state for uncontrolled mode
   const [internalIsOpen, setInternalIsOpen] = useState(true);
   const [activeTab, setActiveTab] = useState<LeftPanelTab>(defaultTab);
+  const tabsRef = useRef(tabs);
+  tabsRef.current = tabs;
+
+  // Share the active tab with PdfHighlighter's view state through the event bus
+  useEffect(() => {
+    const bus = eventBus as EventBus | null;
+    if (typeof bus?.on !== 'function') return;
+
+    const handleSwitchTab = ({ tab }: { tab: LeftPanelTab }) => {
+      if (!tabsRef.current.includes(tab)) return;
+      setActiveTab(tab);
+      // Confirm right away, as the tab may already be active
+      bus.dispatch?.('leftpaneltabchanged', { source: null, tab });
+    };
+
+    bus.on('switchleftpaneltab', handleSwitchTab);
+    return () => bus.off('switchleftpaneltab', handleSwitchTab);
+  }, [eventBus]);
+
+  useEffect(() => {
+    (eventBus as EventBus | null)?.dispatch?.('leftpaneltabchanged', {
+      source: null,
+      tab: activeTab,
+    });
+  }, [eventBus, activeTab]);
 
   // Use controlled or uncontrolled open state
   const isOpen = controlledIsOpen !== undefined ? controlledIsOpen : internalIsOpen;
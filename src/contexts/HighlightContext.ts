@@ -40,6 +40,12 @@ export type HighlightContainerUtils<T extends Highlight = Highlight> = {
    */
   isScrolledTo: boolean;
 
+  /**
+   * Whether the highlight is part of the current multi-selection. See
+   * {@link PdfHighlighterUtils.selectHighlights}.
+   */
+  isSelected: boolean;
+
   /**
    * All the DOM refs for the highlights shared on the same page
    * as `highlight`
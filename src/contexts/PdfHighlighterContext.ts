@@ -1,5 +1,19 @@
 import { createContext, useContext } from "react";
-import { GhostHighlight, Highlight, PdfSelection, Tip } from "../types";
+import {
+  EventEmitter,
+  GhostHighlight,
+  Highlight,
+  PdfHighlighterEvents,
+  PdfScaleValue,
+  PdfScrollMode,
+  PdfSelection,
+  PdfSpreadMode,
+  PdfViewState,
+  SearchOptions,
+  SearchState,
+  Tip,
+  ZoomOptions,
+} from "../types";
 import { PDFViewer } from "pdfjs-dist/types/web/pdf_viewer";
 
 /**
@@ -110,6 +124,179 @@ export type PdfHighlighterUtils = {
    * @param pageNumber - 1-indexed page number to navigate to.
    */
   goToPage(pageNumber: number): void;
+
+  /**
+   * Search the document and highlight all matches. The first match after the
+   * current page is selected and scrolled into view.
+   *
+   * @param query - Text (or regular expression source) to search for. An
+   * empty query clears the search.
+   * @param options - Case sensitivity, whole word and regex matching.
+   */
+  find(query: string, options?: SearchOptions): Promise<void>;
+
+  /**
+   * Select and scroll to the next match of the current search.
+   */
+  findNext(): void;
+
+  /**
+   * Select and scroll to the previous match of the current search.
+   */
+  findPrevious(): void;
+
+  /**
+   * Remove all search matches from the document.
+   */
+  clearSearch(): void;
+
+  /**
+   * Get the query, match count and selected match of the current search.
+   *
+   * @returns - the current search state.
+   */
+  getSearchState(): SearchState;
+
+  /**
+   * Get the IDs of the highlights in the current multi-selection.
+   *
+   * @returns - IDs of the selected highlights.
+   */
+  getSelectedHighlightIds(): string[];
+
+  /**
+   * Select highlights, e.g. to apply a group operation to them.
+   *
+   * @param ids - IDs of the highlights to select.
+   * @param append - Add to the current selection instead of replacing it.
+   */
+  selectHighlights(ids: string[], append?: boolean): void;
+
+  /**
+   * Deselect all highlights.
+   */
+  clearHighlightSelection(): void;
+
+  /**
+   * Zoom in by one step (see `zoomStep` on {@link PdfHighlighterProps}),
+   * keeping the center of the viewer in place.
+   */
+  zoomIn(): void;
+
+  /**
+   * Zoom out by one step, keeping the center of the viewer in place.
+   */
+  zoomOut(): void;
+
+  /**
+   * Set the zoom level. Numeric scales are clamped to `minZoom` and `maxZoom`.
+   *
+   * @param scale - A numeric scale (1 = 100%) or a preset such as `"page-width"`.
+   * @param options - Point to zoom around.
+   */
+  setZoom(scale: PdfScaleValue, options?: ZoomOptions): void;
+
+  /**
+   * Get the current zoom level.
+   *
+   * @returns - The current numeric scale (1 = 100%).
+   */
+  getZoom(): number;
+
+  /**
+   * Rotate single pages in the viewer, on top of the view rotation.
+   * Highlights stay in place on the rotated pages.
+   *
+   * @param pageNumbers - Pages to rotate (1-indexed).
+   * @param degrees - Clockwise degrees, a multiple of 90. Negative values
+   * rotate counter-clockwise.
+   */
+  rotatePages(pageNumbers: number[], degrees: number): void;
+
+  /**
+   * Rotate all pages in the viewer. Pages rotated with `rotatePages` keep
+   * their extra rotation.
+   *
+   * @param degrees - Clockwise degrees, a multiple of 90.
+   */
+  setViewRotation(degrees: number): void;
+
+  /**
+   * Get the rotation set with `setViewRotation`.
+   *
+   * @returns - Clockwise degrees, between 0 and 270.
+   */
+  getViewRotation(): number;
+
+  /**
+   * Get how far each page is rotated in the viewer, beyond the rotation in
+   * the PDF. Pass it as `pageRotations` to {@link exportPdf} to persist it.
+   *
+   * @returns - Clockwise degrees by page number, for rotated pages only.
+   */
+  getPageRotations(): { [pageNumber: number]: number };
+
+  /**
+   * Change how pages are laid out.
+   *
+   * @param scrollMode - The new scroll mode.
+   */
+  setScrollMode(scrollMode: PdfScrollMode): void;
+
+  /**
+   * Get how pages are laid out.
+   *
+   * @returns - The current scroll mode.
+   */
+  getScrollMode(): PdfScrollMode;
+
+  /**
+   * Change whether pages are shown as two-page spreads. Spreads are not
+   * shown in the "horizontal" scroll mode.
+   *
+   * @param spreadMode - The new spread mode.
+   */
+  setSpreadMode(spreadMode: PdfSpreadMode): void;
+
+  /**
+   * Get whether pages are shown as two-page spreads.
+   *
+   * @returns - The current spread mode.
+   */
+  getSpreadMode(): PdfSpreadMode;
+
+  /**
+   * Get where the user is in the document and how they view it.
+   *
+   * @returns - A serializable view state.
+   */
+  getViewState(): PdfViewState;
+
+  /**
+   * Go back to a view state, e.g. one stored from `getViewState`. If the
+   * document is still loading, the state is applied once it is laid out.
+   *
+   * @param viewState - The view state to restore.
+   */
+  restoreViewState(viewState: PdfViewState): void;
+
+  /**
+   * Subscribe to a viewer event, e.g. for analytics or debugging.
+   *
+   * @returns - A function that unsubscribes the listener.
+   */
+  on: EventEmitter<PdfHighlighterEvents>["on"];
+
+  /**
+   * Unsubscribe a listener added with `on`.
+   */
+  off: EventEmitter<PdfHighlighterEvents>["off"];
+
+  /**
+   * Send an event to the listeners added with `on`. Pass these utils as the
+   * `emitter` of {@link exportPdf} to receive its `export:progress` events.
+   */
+  emit: EventEmitter<PdfHighlighterEvents>["emit"];
 };
 
 export const PdfHighlighterContext = createContext<
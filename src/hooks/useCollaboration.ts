@@ -0,0 +1,50 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { Collaborator, CollaboratorPresence, Highlight } from '../types';
+import type { CollaborationSession } from '../lib/collaboration';
+
+export interface UseCollaborationResult<T extends Highlight> {
+  /** Highlights of all users */
+  highlights: T[];
+  /** The other users, to pass to {@link PdfHighlighter}'s `collaborators` prop */
+  collaborators: Collaborator[];
+  /** Add a highlight for everyone, generating its id if missing */
+  addHighlight: CollaborationSession<T>['add'];
+  /** Shallowly merge `update` into the highlight with the given id */
+  updateHighlight: CollaborationSession<T>['update'];
+  /** Remove the highlight with the given id */
+  removeHighlight: CollaborationSession<T>['remove'];
+  /** Share the local presence, to pass to {@link PdfHighlighter}'s `onPresenceChange` prop */
+  setPresence: (presence: CollaboratorPresence) => void;
+}
+
+/**
+ * Subscribe a component to a session created with
+ * {@link createCollaborationSession}. The component re-renders whenever
+ * highlights or other users change. Create the session outside of render,
+ * e.g. in `useMemo`, and destroy it when leaving.
+ *
+ * @param session - The session to subscribe to
+ * @returns Shared highlights, other users and edit functions
+ */
+export function useCollaboration<T extends Highlight>(
+  session: CollaborationSession<T>,
+): UseCollaborationResult<T> {
+  const { highlights, collaborators } = useSyncExternalStore(
+    session.subscribe,
+    session.getState,
+  );
+
+  const setPresence = useCallback(
+    (presence: CollaboratorPresence) => session.setPresence(presence),
+    [session],
+  );
+
+  return {
+    highlights,
+    collaborators,
+    addHighlight: session.add,
+    updateHighlight: session.update,
+    removeHighlight: session.remove,
+    setPresence,
+  };
+}
@@ -0,0 +1,164 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { Highlight, Scaled } from "../types";
+import { useHighlightHistory } from "./useHighlightHistory";
+
+type TestHighlight = Highlight & { comment?: string };
+
+const rectAt = (x1: number): Scaled => ({
+  x1,
+  y1: 10,
+  x2: x1 + 100,
+  y2: 30,
+  width: 600,
+  height: 800,
+  pageNumber: 1,
+});
+
+const highlight = (id: string, x1 = 10): TestHighlight => ({
+  id,
+  type: "area",
+  content: {},
+  position: { boundingRect: rectAt(x1), rects: [] },
+});
+
+const moved = (x1: number) => ({
+  position: { boundingRect: rectAt(x1), rects: [] },
+});
+
+const renderHistory = (initialHighlights = [highlight("a")]) =>
+  renderHook(() => useHighlightHistory<TestHighlight>(initialHighlights));
+
+describe("useHighlightHistory", () => {
+  it("undoes and redoes adds, updates and removes one at a time", () => {
+    const { result } = renderHistory();
+
+    act(() => result.current.addHighlight(highlight("b")));
+    act(() => result.current.updateHighlight("a", { comment: "Note" }));
+    act(() => result.current.removeHighlight("b"));
+    expect(result.current.highlights).toEqual([
+      { ...highlight("a"), comment: "Note" },
+    ]);
+
+    act(() => result.current.undo());
+    expect(result.current.highlights).toEqual([
+      highlight("b"),
+      { ...highlight("a"), comment: "Note" },
+    ]);
+    act(() => result.current.undo());
+    expect(result.current.highlights).toEqual([highlight("b"), highlight("a")]);
+    act(() => result.current.undo());
+    expect(result.current.highlights).toEqual([highlight("a")]);
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => result.current.redo());
+    act(() => result.current.redo());
+    expect(result.current.highlights).toEqual([
+      highlight("b"),
+      { ...highlight("a"), comment: "Note" },
+    ]);
+    expect(result.current.canRedo).toBe(true);
+  });
+
+  it("records quick successive updates outside an interaction apart", () => {
+    const { result } = renderHistory();
+
+    act(() => result.current.updateHighlight("a", moved(20)));
+    act(() => result.current.updateHighlight("a", moved(30)));
+    act(() => result.current.undo());
+
+    expect(result.current.highlights).toEqual([highlight("a", 20)]);
+  });
+
+  it("records the edits of an interaction as one step", () => {
+    const { result } = renderHistory();
+
+    act(() => {
+      result.current.beginInteraction();
+      result.current.updateHighlight("a", moved(20));
+    });
+    act(() => result.current.updateHighlight("a", moved(30)));
+    act(() => result.current.updateHighlight("a", { comment: "Moved" }));
+    act(() => result.current.endInteraction());
+    act(() => result.current.updateHighlight("a", { comment: "Later" }));
+    expect(result.current.highlights).toEqual([
+      { ...highlight("a", 30), comment: "Later" },
+    ]);
+
+    act(() => result.current.undo());
+    expect(result.current.highlights).toEqual([
+      { ...highlight("a", 30), comment: "Moved" },
+    ]);
+    act(() => result.current.undo());
+    expect(result.current.highlights).toEqual([highlight("a")]);
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => result.current.redo());
+    expect(result.current.highlights).toEqual([
+      { ...highlight("a", 30), comment: "Moved" },
+    ]);
+  });
+
+  it("records adds and removes during an interaction in its step", () => {
+    const { result } = renderHistory();
+
+    act(() => {
+      result.current.beginInteraction();
+      result.current.addHighlight(highlight("b"));
+      result.current.updateHighlight("b", moved(50));
+      result.current.removeHighlight("a");
+      result.current.endInteraction();
+    });
+    expect(result.current.highlights).toEqual([highlight("b", 50)]);
+
+    act(() => result.current.undo());
+    expect(result.current.highlights).toEqual([highlight("a")]);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it("records nothing for an interaction without edits", () => {
+    const { result } = renderHistory();
+
+    act(() => result.current.addHighlight(highlight("b")));
+    // E.g. a highlight clicked without dragging it
+    act(() => {
+      result.current.beginInteraction();
+      result.current.endInteraction();
+    });
+    act(() => result.current.undo());
+
+    expect(result.current.highlights).toEqual([highlight("a")]);
+  });
+
+  it("ends an interaction when undoing", () => {
+    const { result } = renderHistory();
+
+    act(() => {
+      result.current.beginInteraction();
+      result.current.updateHighlight("a", moved(20));
+    });
+    act(() => result.current.undo());
+    act(() => result.current.updateHighlight("a", moved(30)));
+    act(() => result.current.undo());
+
+    expect(result.current.highlights).toEqual([highlight("a")]);
+    expect(result.current.canRedo).toBe(true);
+  });
+
+  it("records a group change with setHighlights as one step", () => {
+    const { result } = renderHistory([highlight("a"), highlight("b", 200)]);
+
+    act(() =>
+      result.current.setHighlights((highlights) =>
+        highlights.map((item) => ({ ...item, comment: "Grouped" })),
+      ),
+    );
+    act(() => result.current.undo());
+
+    expect(result.current.highlights).toEqual([
+      highlight("a"),
+      highlight("b", 200),
+    ]);
+  });
+});
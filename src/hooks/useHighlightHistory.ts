@@ -0,0 +1,283 @@
+import { useState, useCallback, useRef } from 'react';
+import type { Highlight } from '../types';
+
+/**
+ * A single reversible change to a list of highlights.
+ */
+export type HighlightOperation<T extends Highlight> =
+  | { type: 'create'; highlight: T; index: number }
+  | { type: 'update'; id: string; before: T; after: T }
+  | { type: 'delete'; highlight: T; index: number };
+
+/**
+ * One undo step. Usually a single operation, but group edits record several.
+ */
+export type HighlightHistoryEntry<T extends Highlight> = HighlightOperation<T>[];
+
+export interface UseHighlightHistoryOptions {
+  /** Maximum number of undo steps kept @default 100 */
+  limit?: number;
+}
+
+export interface UseHighlightHistoryResult<T extends Highlight> {
+  highlights: T[];
+  /** Add a highlight at the start of the list (or at `index`) */
+  addHighlight: (highlight: T, index?: number) => void;
+  /** Shallowly merge `update` into the highlight with the given id */
+  updateHighlight: (id: string, update: Partial<T>) => void;
+  removeHighlight: (id: string) => void;
+  /**
+   * Replace the highlights, recording all differences as a single undo step.
+   * Use this for group operations such as {@link moveHighlights}.
+   */
+  setHighlights: (update: T[] | ((highlights: T[]) => T[])) => void;
+  /** Replace all highlights, e.g. when loading a document, and clear the history */
+  resetHighlights: (highlights: T[]) => void;
+  /**
+   * Start an interaction such as a drag or a resize, e.g. in `onEditStart`.
+   * Its edits are recorded as a single undo step.
+   */
+  beginInteraction: () => void;
+  /** End the interaction started with `beginInteraction`, e.g. in `onEditEnd` */
+  endInteraction: () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  clearHistory: () => void;
+}
+
+type HistoryState<T extends Highlight> = {
+  highlights: T[];
+  past: HighlightHistoryEntry<T>[];
+  future: HighlightHistoryEntry<T>[];
+  /** Highlights when the current interaction began, and if it has a step yet */
+  interaction: { start: T[]; recorded: boolean } | null;
+};
+
+const applyOperation = <T extends Highlight>(highlights: T[], operation: HighlightOperation<T>): T[] => {
+  switch (operation.type) {
+    case 'create': {
+      const next = highlights.filter((highlight) => highlight.id !== operation.highlight.id);
+      next.splice(Math.min(operation.index, next.length), 0, operation.highlight);
+      return next;
+    }
+    case 'update':
+      return highlights.map((highlight) => (highlight.id === operation.id ? operation.after : highlight));
+    case 'delete':
+      return highlights.filter((highlight) => highlight.id !== operation.highlight.id);
+  }
+};
+
+const invertOperation = <T extends Highlight>(operation: HighlightOperation<T>): HighlightOperation<T> => {
+  switch (operation.type) {
+    case 'create':
+      return { type: 'delete', highlight: operation.highlight, index: operation.index };
+    case 'update':
+      return { type: 'update', id: operation.id, before: operation.after, after: operation.before };
+    case 'delete':
+      return { type: 'create', highlight: operation.highlight, index: operation.index };
+  }
+};
+
+const applyEntry = <T extends Highlight>(highlights: T[], entry: HighlightHistoryEntry<T>) =>
+  entry.reduce(applyOperation, highlights);
+
+const invertEntry = <T extends Highlight>(entry: HighlightHistoryEntry<T>) =>
+  entry.map(invertOperation).reverse();
+
+/**
+ * Describe the change from one list of highlights to another as operations.
+ * Deletes come first (last index first), then updates, then creates (first
+ * index first), so indices stay valid when applying or reverting them.
+ */
+const diffHighlights = <T extends Highlight>(before: T[], after: T[]): HighlightHistoryEntry<T> => {
+  const beforeById = new Map(before.map((highlight) => [highlight.id, highlight]));
+  const afterIds = new Set(after.map((highlight) => highlight.id));
+  const operations: HighlightHistoryEntry<T> = [];
+
+  for (let index = before.length - 1; index >= 0; index--) {
+    if (!afterIds.has(before[index].id)) {
+      operations.push({ type: 'delete', highlight: before[index], index });
+    }
+  }
+
+  after.forEach((highlight) => {
+    const previous = beforeById.get(highlight.id);
+    if (previous && previous !== highlight) {
+      operations.push({ type: 'update', id: highlight.id, before: previous, after: highlight });
+    }
+  });
+
+  after.forEach((highlight, index) => {
+    if (!beforeById.has(highlight.id)) {
+      operations.push({ type: 'create', highlight, index });
+    }
+  });
+
+  return operations;
+};
+
+/**
+ * Apply an edit and record its step. During an interaction, the interaction's
+ * step is replaced by all changes since it began, so undoing it restores the
+ * highlights as they were then.
+ */
+const commitEntry = <T extends Highlight>(
+  previous: HistoryState<T>,
+  highlights: T[],
+  entry: HighlightHistoryEntry<T>,
+  limit: number
+): HistoryState<T> => {
+  const { interaction } = previous;
+  if (!interaction) {
+    return { highlights, past: [...previous.past, entry].slice(-limit), future: [], interaction: null };
+  }
+
+  const merged = diffHighlights(interaction.start, highlights);
+  const past = interaction.recorded ? previous.past.slice(0, -1) : previous.past;
+  return {
+    highlights,
+    past: merged.length > 0 ? [...past, merged].slice(-limit) : past,
+    future: [],
+    interaction: { start: interaction.start, recorded: merged.length > 0 },
+  };
+};
+
+const withoutInteraction = <T extends Highlight>(state: HistoryState<T>): HistoryState<T> =>
+  state.interaction ? { ...state, interaction: null } : state;
+
+/**
+ * Hook for managing highlights with undo/redo. Every create, update and
+ * delete is recorded as a reversible operation. Edits made between
+ * `beginInteraction` and `endInteraction`, like the moves of a drag, are
+ * recorded as one. Pass `undo` and `redo` to {@link PdfHighlighter}'s
+ * `onUndo` and `onRedo` props to bind them to Ctrl/Cmd+Z and
+ * Shift+Ctrl/Cmd+Z.
+ *
+ * @param initialHighlights - Highlights to start with
+ * @param options - Configuration options
+ * @returns Highlights, edit functions and history controls
+ */
+export function useHighlightHistory<T extends Highlight>(
+  initialHighlights: T[] = [],
+  options: UseHighlightHistoryOptions = {}
+): UseHighlightHistoryResult<T> {
+  const { limit = 100 } = options;
+
+  const [state, setState] = useState<HistoryState<T>>({
+    highlights: initialHighlights,
+    past: [],
+    future: [],
+    interaction: null,
+  });
+
+  // Keep options in refs so the callbacks stay stable
+  const limitRef = useRef(limit);
+  limitRef.current = limit;
+
+  const record = useCallback((entry: HighlightHistoryEntry<T>) => {
+    setState((previous) => commitEntry(previous, applyEntry(previous.highlights, entry), entry, limitRef.current));
+  }, []);
+
+  const addHighlight = useCallback(
+    (highlight: T, index = 0) => {
+      record([{ type: 'create', highlight, index }]);
+    },
+    [record]
+  );
+
+  const updateHighlight = useCallback((id: string, update: Partial<T>) => {
+    setState((previous) => {
+      const current = previous.highlights.find((highlight) => highlight.id === id);
+      if (!current) return previous;
+
+      const operation: HighlightOperation<T> = { type: 'update', id, before: current, after: { ...current, ...update } };
+      return commitEntry(previous, applyOperation(previous.highlights, operation), [operation], limitRef.current);
+    });
+  }, []);
+
+  const removeHighlight = useCallback((id: string) => {
+    setState((previous) => {
+      const index = previous.highlights.findIndex((highlight) => highlight.id === id);
+      if (index === -1) return previous;
+
+      const operation: HighlightOperation<T> = { type: 'delete', highlight: previous.highlights[index], index };
+      return commitEntry(previous, applyOperation(previous.highlights, operation), [operation], limitRef.current);
+    });
+  }, []);
+
+  const setHighlights = useCallback((update: T[] | ((highlights: T[]) => T[])) => {
+    setState((previous) => {
+      const next = typeof update === 'function' ? update(previous.highlights) : update;
+      const entry = diffHighlights(previous.highlights, next);
+      if (entry.length === 0) return previous;
+
+      return commitEntry(previous, next, entry, limitRef.current);
+    });
+  }, []);
+
+  const resetHighlights = useCallback((highlights: T[]) => {
+    setState({ highlights, past: [], future: [], interaction: null });
+  }, []);
+
+  const beginInteraction = useCallback(() => {
+    setState((previous) =>
+      // A nested interaction is part of the current one
+      previous.interaction ? previous : { ...previous, interaction: { start: previous.highlights, recorded: false } }
+    );
+  }, []);
+
+  const endInteraction = useCallback(() => {
+    setState(withoutInteraction);
+  }, []);
+
+  // Undo and redo end an interaction, as its step is then no longer the last
+  const undo = useCallback(() => {
+    setState((previous) => {
+      const entry = previous.past[previous.past.length - 1];
+      if (!entry) return withoutInteraction(previous);
+
+      return {
+        highlights: applyEntry(previous.highlights, invertEntry(entry)),
+        past: previous.past.slice(0, -1),
+        future: [entry, ...previous.future],
+        interaction: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState((previous) => {
+      const [entry, ...future] = previous.future;
+      if (!entry) return withoutInteraction(previous);
+
+      return {
+        highlights: applyEntry(previous.highlights, entry),
+        past: [...previous.past, entry].slice(-limitRef.current),
+        future,
+        interaction: null,
+      };
+    });
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setState((previous) => ({ ...previous, past: [], future: [], interaction: null }));
+  }, []);
+
+  return {
+    highlights: state.highlights,
+    addHighlight,
+    updateHighlight,
+    removeHighlight,
+    setHighlights,
+    resetHighlights,
+    beginInteraction,
+    endInteraction,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    clearHistory,
+  };
+}
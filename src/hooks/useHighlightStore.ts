@@ -0,0 +1,47 @@
+import { useSyncExternalStore } from 'react';
+import type { Highlight } from '../types';
+import type { HighlightStore, HighlightStoreState } from '../lib/highlight-store';
+
+/**
+ * The result of {@link useHighlightStore}.
+ *
+ * @category Type
+ */
+export interface UseHighlightStoreResult<T extends Highlight>
+  extends HighlightStoreState<T> {
+  /** The store, for its actions and selectors */
+  store: HighlightStore<T>;
+  /** Add a highlight, generating its id if missing */
+  addHighlight: HighlightStore<T>['add'];
+  /** Shallowly merge `update` into the highlight with the given id */
+  updateHighlight: HighlightStore<T>['update'];
+  /** Remove the highlight with the given id */
+  removeHighlight: HighlightStore<T>['remove'];
+  /** Replace all highlights */
+  setHighlights: HighlightStore<T>['replace'];
+}
+
+/**
+ * Subscribe a component to a store created with {@link createHighlightStore}.
+ * The component re-renders whenever the highlights, loading or saving state
+ * change. Create the store outside of render, e.g. in a module or `useMemo`.
+ *
+ * @param store - The store to subscribe to
+ * @returns The store state and bound actions
+ *
+ * @category Hook
+ */
+export function useHighlightStore<T extends Highlight>(
+  store: HighlightStore<T>,
+): UseHighlightStoreResult<T> {
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+
+  return {
+    ...state,
+    store,
+    addHighlight: store.add,
+    updateHighlight: store.update,
+    removeHighlight: store.remove,
+    setHighlights: store.replace,
+  };
+}
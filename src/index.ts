@@ -47,7 +47,15 @@ import {
   ShapeHighlightProps,
   ShapeStyle,
 } from "./components/ShapeHighlight";
-import { PdfLoader, PdfLoaderProps } from "./components/PdfLoader";
+import {
+  CommentThread,
+  CommentThreadProps,
+} from "./components/CommentThread";
+import {
+  PdfLoader,
+  PdfLoaderProps,
+  PdfPasswordReason,
+} from "./components/PdfLoader";
 import {
   HighlightContainerUtils,
   useHighlightContainerContext,
@@ -55,12 +63,91 @@ import {
 import {
   viewportPositionToScaled,
   scaledPositionToViewport,
+  rotateScaledPosition,
 } from "./lib/coordinates";
 import {
   exportPdf,
   ExportPdfOptions,
   ExportableHighlight,
 } from "./lib/export-pdf";
+import {
+  importPdfAnnotations,
+  ImportPdfAnnotationsOptions,
+  ImportedHighlight,
+} from "./lib/import-annotations";
+import {
+  exportXfdf,
+  importXfdf,
+  ExportXfdfOptions,
+  ImportXfdfOptions,
+} from "./lib/xfdf";
+import {
+  toWebAnnotation,
+  fromWebAnnotation,
+  WebAnnotation,
+  WebAnnotationBody,
+  WebAnnotationSelector,
+  ToWebAnnotationOptions,
+  FromWebAnnotationOptions,
+} from "./lib/web-annotation";
+import {
+  findTextHighlights,
+  FindTextHighlightsOptions,
+} from "./lib/find-text-highlights";
+import {
+  createTextAnchor,
+  reanchorHighlights,
+  CreateTextAnchorOptions,
+  ReanchorOptions,
+  ReanchorResult,
+} from "./lib/text-anchor";
+import {
+  moveHighlights,
+  recolorHighlights,
+  deleteHighlights,
+  RecolorableHighlight,
+} from "./lib/group-operations";
+import { getHighlightLabel } from "./lib/highlight-label";
+import { createLogger, silentLogger } from "./lib/logger";
+import { createEventEmitter } from "./lib/event-emitter";
+import {
+  createHighlightStore,
+  generateHighlightId,
+  applyHighlightStoreChange,
+  HighlightStore,
+  HighlightStoreAdapter,
+  HighlightStoreChange,
+  HighlightStoreEvents,
+  HighlightStoreOptions,
+  HighlightStoreState,
+} from "./lib/highlight-store";
+import {
+  createMemoryAdapter,
+  createLocalStorageAdapter,
+  createIndexedDbAdapter,
+  IndexedDbAdapterOptions,
+} from "./lib/highlight-store-adapters";
+import {
+  createCollaborationSession,
+  createInProcessTransport,
+  CollaborationClock,
+  CollaborationEvents,
+  CollaborationMessage,
+  CollaborationOperation,
+  CollaborationSession,
+  CollaborationSessionOptions,
+  CollaborationState,
+  CollaborationTransport,
+} from "./lib/collaboration";
+import {
+  parseMentions,
+  createCommentThread,
+  addCommentReply,
+  editComment,
+  deleteComment,
+  resolveCommentThread,
+  CommentOptions,
+} from "./lib/comment-threads";
 
 import {
   PdfHighlighterUtils,
@@ -93,6 +180,14 @@ import {
   ThumbnailItem,
   ThumbnailItemProps,
 } from "./components/leftpanel/ThumbnailItem";
+import {
+  AnnotationsPanel,
+  AnnotationsPanelProps,
+  AnnotationsPanelStyles,
+  AnnotationsPanelClassNames,
+  AnnotationItemRenderProps,
+  AnnotationsSortOrder,
+} from "./components/leftpanel/AnnotationsPanel";
 import {
   OutlineItem,
   OutlineItemProps,
@@ -104,6 +199,21 @@ import {
   LeftPanelUtils,
   useLeftPanelContext,
 } from "./contexts/LeftPanelContext";
+import {
+  useHighlightHistory,
+  HighlightOperation,
+  HighlightHistoryEntry,
+  UseHighlightHistoryOptions,
+  UseHighlightHistoryResult,
+} from "./hooks/useHighlightHistory";
+import {
+  useHighlightStore,
+  UseHighlightStoreResult,
+} from "./hooks/useHighlightStore";
+import {
+  useCollaboration,
+  UseCollaborationResult,
+} from "./hooks/useCollaboration";
 
 // Left Panel hooks
 import { useDocumentOutline } from "./hooks/useDocumentOutline";
@@ -123,17 +233,52 @@ export {
   DrawingHighlight,
   ShapeCanvas,
   ShapeHighlight,
+  CommentThread,
   useHighlightContainerContext,
   viewportPositionToScaled,
   scaledPositionToViewport,
+  rotateScaledPosition,
   usePdfHighlighterContext,
   exportPdf,
+  importPdfAnnotations,
+  exportXfdf,
+  importXfdf,
+  toWebAnnotation,
+  fromWebAnnotation,
+  findTextHighlights,
+  createTextAnchor,
+  reanchorHighlights,
+  useHighlightHistory,
+  moveHighlights,
+  recolorHighlights,
+  deleteHighlights,
+  getHighlightLabel,
+  createLogger,
+  silentLogger,
+  createEventEmitter,
+  createHighlightStore,
+  generateHighlightId,
+  applyHighlightStoreChange,
+  createMemoryAdapter,
+  createLocalStorageAdapter,
+  createIndexedDbAdapter,
+  useHighlightStore,
+  createCollaborationSession,
+  createInProcessTransport,
+  useCollaboration,
+  parseMentions,
+  createCommentThread,
+  addCommentReply,
+  editComment,
+  deleteComment,
+  resolveCommentThread,
   // Left Panel
   LeftPanel,
   DocumentOutline,
   ThumbnailPanel,
   ThumbnailItem,
   OutlineItem,
+  AnnotationsPanel,
   useLeftPanelContext,
   useDocumentOutline,
   useThumbnails,
@@ -159,9 +304,47 @@ export type {
   ShapeCanvasProps,
   ShapeHighlightProps,
   ShapeStyle,
+  CommentThreadProps,
   PdfLoaderProps,
+  PdfPasswordReason,
   ExportPdfOptions,
   ExportableHighlight,
+  ImportPdfAnnotationsOptions,
+  ImportedHighlight,
+  ExportXfdfOptions,
+  ImportXfdfOptions,
+  WebAnnotation,
+  WebAnnotationBody,
+  WebAnnotationSelector,
+  ToWebAnnotationOptions,
+  FromWebAnnotationOptions,
+  FindTextHighlightsOptions,
+  CreateTextAnchorOptions,
+  ReanchorOptions,
+  ReanchorResult,
+  HighlightOperation,
+  HighlightHistoryEntry,
+  UseHighlightHistoryOptions,
+  UseHighlightHistoryResult,
+  RecolorableHighlight,
+  HighlightStore,
+  HighlightStoreAdapter,
+  HighlightStoreChange,
+  HighlightStoreEvents,
+  HighlightStoreOptions,
+  HighlightStoreState,
+  IndexedDbAdapterOptions,
+  UseHighlightStoreResult,
+  CollaborationClock,
+  CollaborationEvents,
+  CollaborationMessage,
+  CollaborationOperation,
+  CollaborationSession,
+  CollaborationSessionOptions,
+  CollaborationState,
+  CollaborationTransport,
+  UseCollaborationResult,
+  CommentOptions,
   // Left Panel types
   LeftPanelProps,
   LeftPanelTheme,
@@ -180,6 +363,11 @@ export type {
   OutlineItemRenderProps,
   OutlineItemStyles,
   OutlineItemClassNames,
+  AnnotationsPanelProps,
+  AnnotationsPanelStyles,
+  AnnotationsPanelClassNames,
+  AnnotationItemRenderProps,
+  AnnotationsSortOrder,
   LeftPanelUtils,
 };
 export * from "./types";
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { Highlight, Scaled, ScaledPosition } from "../types";
+import {
+  createCollaborationSession,
+  createInProcessTransport,
+} from "./collaboration";
+
+const areaAt = (x1: number, y1: number): ScaledPosition => {
+  const rect: Scaled = {
+    x1,
+    y1,
+    x2: x1 + 100,
+    y2: y1 + 50,
+    width: 600,
+    height: 800,
+    pageNumber: 1,
+  };
+  return { boundingRect: rect, rects: [] };
+};
+
+const area: Highlight = {
+  id: "area",
+  type: "area",
+  content: { image: "data:image/png;base64," },
+  position: areaAt(10, 10),
+};
+
+/** Let every queued message be delivered, including replies to replies. */
+const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+const createSessions = () => {
+  const hub = createInProcessTransport();
+  const alice = createCollaborationSession<Highlight>({
+    transport: hub.connect(),
+    user: { name: "Alice", color: "red" },
+    clientId: "alice",
+  });
+  const bob = createCollaborationSession<Highlight>({
+    transport: hub.connect(),
+    user: { name: "Bob", color: "blue" },
+    clientId: "bob",
+  });
+  return { hub, alice, bob };
+};
+
+describe("collaboration sessions over an in-process transport", () => {
+  it("converge on added, updated and removed highlights", async () => {
+    const { alice, bob } = createSessions();
+    await flush();
+
+    alice.add(area);
+    await flush();
+    expect(bob.getHighlights()).toEqual([area]);
+
+    bob.update("area", { comment: "Look here" } as Partial<Highlight>);
+    await flush();
+    expect(alice.getHighlights()).toEqual(bob.getHighlights());
+    expect(alice.getHighlights()[0]).toMatchObject({ comment: "Look here" });
+
+    alice.remove("area");
+    await flush();
+    expect(alice.getHighlights()).toEqual([]);
+    expect(bob.getHighlights()).toEqual([]);
+  });
+
+  it("resolve concurrent moves of the same area highlight the same way", async () => {
+    const { alice, bob } = createSessions();
+    alice.add(area);
+    await flush();
+
+    // Neither sees the other's move before making their own
+    alice.update("area", { position: areaAt(200, 10) });
+    bob.update("area", { position: areaAt(10, 300) });
+    expect(alice.getHighlights()[0].position).toEqual(areaAt(200, 10));
+    expect(bob.getHighlights()[0].position).toEqual(areaAt(10, 300));
+    await flush();
+
+    expect(alice.getHighlights()).toEqual(bob.getHighlights());
+    // Same counter, so the higher client ID wins
+    expect(bob.getHighlights()[0].position).toEqual(areaAt(10, 300));
+  });
+
+  it("merge concurrent edits of different fields", async () => {
+    const { alice, bob } = createSessions();
+    alice.add(area);
+    await flush();
+
+    alice.update("area", { position: areaAt(200, 10) });
+    bob.update("area", { comment: "Moved?" } as Partial<Highlight>);
+    await flush();
+
+    expect(alice.getHighlights()).toEqual(bob.getHighlights());
+    expect(alice.getHighlights()[0]).toMatchObject({
+      position: areaAt(200, 10),
+      comment: "Moved?",
+    });
+  });
+
+  it("bring a session that joins later up to date", async () => {
+    const { hub, alice } = createSessions();
+    alice.add(area);
+    alice.update("area", { position: areaAt(50, 50) });
+    await flush();
+
+    const carol = createCollaborationSession<Highlight>({
+      transport: hub.connect(),
+      user: { name: "Carol", color: "green" },
+      clientId: "carol",
+    });
+    await flush();
+
+    expect(carol.getHighlights()).toEqual(alice.getHighlights());
+  });
+
+  it("share presence and remove users who leave", async () => {
+    const { alice, bob } = createSessions();
+    await flush();
+
+    alice.setPresence({
+      cursor: { pageNumber: 1, x: 0.5, y: 0.25 },
+      selection: areaAt(10, 10),
+    });
+    await flush();
+    expect(bob.getCollaborators()).toEqual([
+      {
+        id: "alice",
+        name: "Alice",
+        color: "red",
+        cursor: { pageNumber: 1, x: 0.5, y: 0.25 },
+        selection: areaAt(10, 10),
+      },
+    ]);
+
+    alice.destroy();
+    await flush();
+    expect(bob.getCollaborators()).toEqual([]);
+  });
+});
@@ -0,0 +1,419 @@
+import { createEventEmitter } from "./event-emitter";
+import { generateHighlightId } from "./highlight-store";
+import type {
+  Collaborator,
+  CollaboratorPresence,
+  EventEmitter,
+  Highlight,
+} from "../types";
+
+/**
+ * Orders operations on the same field: the higher counter wins, and the
+ * higher client ID breaks ties, so every client resolves concurrent
+ * operations the same way.
+ *
+ * @category Type
+ */
+export type CollaborationClock = {
+  counter: number;
+  clientId: string;
+};
+
+/**
+ * Sets one top-level field of a highlight. The `$created` and `$deleted`
+ * fields track whether the highlight exists.
+ *
+ * @category Type
+ */
+export type CollaborationOperation = {
+  /** ID of the highlight. */
+  id: string;
+  field: string;
+  value?: unknown;
+  clock: CollaborationClock;
+};
+
+/**
+ * A message between collaboration sessions. Messages must be JSON
+ * serializable.
+ *
+ * @category Type
+ */
+export type CollaborationMessage =
+  | { type: "operations"; operations: CollaborationOperation[] }
+  /** Asks the other sessions for their full state and presence. */
+  | { type: "sync"; clientId: string }
+  /** Presence of a session, or `null` if it left. */
+  | {
+      type: "presence";
+      clientId: string;
+      collaborator: Collaborator | null;
+    };
+
+/**
+ * Carries messages between collaboration sessions, e.g. over a WebSocket or
+ * a BroadcastChannel. Messages sent by a session should not be delivered
+ * back to it.
+ *
+ * @category Type
+ */
+export interface CollaborationTransport {
+  send(message: CollaborationMessage): void;
+  /**
+   * @returns - A function that unsubscribes the listener.
+   */
+  subscribe(listener: (message: CollaborationMessage) => void): () => void;
+}
+
+/**
+ * Events of a {@link CollaborationSession}, with their payloads.
+ *
+ * @category Type
+ */
+export interface CollaborationEvents<T extends Highlight> {
+  /** The highlights changed, by this session or another one. */
+  change: { highlights: T[]; origin: "local" | "remote" };
+  /** Another user moved, selected, joined or left. */
+  presence: { collaborators: Collaborator[] };
+}
+
+/**
+ * Snapshot of a {@link CollaborationSession}. A new object is created on
+ * every change, so it can be compared by identity.
+ *
+ * @category Type
+ */
+export interface CollaborationState<T extends Highlight> {
+  highlights: T[];
+  /** The other users, without this session's user. */
+  collaborators: Collaborator[];
+}
+
+/**
+ * The options for {@link createCollaborationSession}.
+ *
+ * @category Type
+ */
+export interface CollaborationSessionOptions<T extends Highlight> {
+  transport: CollaborationTransport;
+  /** The local user, shown to the others. */
+  user: { name: string; color: string };
+  /**
+   * Unique ID of this session. Default: a random UUID. Must differ between
+   * sessions of the same user.
+   */
+  clientId?: string;
+  /**
+   * Highlights to seed the document with, e.g. from a server. Sessions that
+   * seed the same highlights converge to them.
+   */
+  initialHighlights?: T[];
+  /** Id generator for added highlights without an id. Default: {@link generateHighlightId} */
+  generateId?: () => string;
+}
+
+/**
+ * A highlight list shared with other sessions through a CRDT. Every
+ * top-level field of a highlight is a last-writer-wins register, so
+ * concurrent edits of different fields are merged, and concurrent edits of
+ * the same field (e.g. two users moving the same area highlight) resolve to
+ * the same value for everyone.
+ *
+ * @category Type
+ */
+export interface CollaborationSession<T extends Highlight>
+  extends Pick<EventEmitter<CollaborationEvents<T>>, "on" | "off"> {
+  readonly clientId: string;
+  getState(): CollaborationState<T>;
+  getHighlights(): T[];
+  getCollaborators(): Collaborator[];
+  /**
+   * Add a highlight at the start of the list. A missing id is generated.
+   *
+   * @returns - The added highlight, with its id.
+   */
+  add(highlight: Omit<T, "id"> & { id?: string }): T;
+  /** Shallowly merge `update` into a highlight. */
+  update(id: string, update: Partial<T>): void;
+  /** Remove a highlight. */
+  remove(id: string): void;
+  /** Share where the local user points and what they select. */
+  setPresence(presence: CollaboratorPresence): void;
+  /**
+   * Listen to any state change, e.g. for `useSyncExternalStore`.
+   *
+   * @returns - A function that unsubscribes the listener.
+   */
+  subscribe(listener: () => void): () => void;
+  /** Tell the others this user left, and stop syncing. */
+  destroy(): void;
+}
+
+type Register = { value: unknown; clock: CollaborationClock };
+
+const CREATED = "$created";
+const DELETED = "$deleted";
+
+const compareClocks = (a: CollaborationClock, b: CollaborationClock) =>
+  a.counter - b.counter ||
+  (a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0);
+
+/**
+ * Create a transport that connects sessions in the same JavaScript context,
+ * e.g. two {@link PdfHighlighter} instances on one page or in a test.
+ * Messages are delivered asynchronously and serialized like over a network.
+ *
+ * @returns - A hub; call `connect` once per session.
+ *
+ * @category Function
+ */
+export const createInProcessTransport = () => {
+  const listeners = new Set<(message: CollaborationMessage) => void>();
+
+  return {
+    connect: (): CollaborationTransport => {
+      const own = new Set<(message: CollaborationMessage) => void>();
+
+      return {
+        send: (message) => {
+          const json = JSON.stringify(message);
+          queueMicrotask(() =>
+            listeners.forEach((listener) => {
+              if (!own.has(listener)) listener(JSON.parse(json));
+            }),
+          );
+        },
+        subscribe: (listener) => {
+          own.add(listener);
+          listeners.add(listener);
+          return () => {
+            own.delete(listener);
+            listeners.delete(listener);
+          };
+        },
+      };
+    },
+  };
+};
+
+/**
+ * Join a collaboration session. Highlights added, updated and removed here
+ * are sent to the other sessions on the transport, and theirs are merged in.
+ *
+ * @param options - Transport, local user and initial highlights.
+ * @returns - The session.
+ *
+ * @category Function
+ */
+export const createCollaborationSession = <T extends Highlight>({
+  transport,
+  user,
+  clientId = generateHighlightId(),
+  initialHighlights = [],
+  generateId = generateHighlightId,
+}: CollaborationSessionOptions<T>): CollaborationSession<T> => {
+  const events = createEventEmitter<CollaborationEvents<T>>();
+  const subscribers = new Set<() => void>();
+
+  const documents = new Map<string, Map<string, Register>>();
+  const builtHighlights = new Map<string, T>();
+  const collaborators = new Map<string, Collaborator>();
+  let counter = 0;
+  let presence: CollaboratorPresence = { cursor: null, selection: null };
+  let state: CollaborationState<T> = { highlights: [], collaborators: [] };
+
+  const notify = () => {
+    subscribers.forEach((subscriber) => subscriber());
+  };
+
+  const buildHighlights = () => {
+    const existing: Array<{ highlight: T; created: CollaborationClock }> = [];
+
+    documents.forEach((fields, id) => {
+      const created = fields.get(CREATED);
+      if (!created || fields.get(DELETED)?.value !== false) return;
+
+      // Keep unchanged highlights identical, so the viewer can skip them
+      let highlight = builtHighlights.get(id);
+      if (!highlight) {
+        const built: Record<string, unknown> = { id };
+        fields.forEach(({ value }, field) => {
+          if (!field.startsWith("$") && value !== undefined) {
+            built[field] = value;
+          }
+        });
+        highlight = built as unknown as T;
+        builtHighlights.set(id, highlight);
+      }
+      existing.push({ highlight, created: created.clock });
+    });
+
+    // Newest first, like highlights added locally
+    return existing
+      .sort((a, b) => compareClocks(b.created, a.created))
+      .map(({ highlight }) => highlight);
+  };
+
+  const applyOperations = (
+    operations: CollaborationOperation[],
+    origin: "local" | "remote",
+  ) => {
+    let changed = false;
+
+    operations.forEach((operation) => {
+      counter = Math.max(counter, operation.clock.counter);
+
+      let fields = documents.get(operation.id);
+      if (!fields) {
+        fields = new Map();
+        documents.set(operation.id, fields);
+      }
+
+      const register = fields.get(operation.field);
+      if (register && compareClocks(operation.clock, register.clock) <= 0) {
+        return;
+      }
+
+      fields.set(operation.field, {
+        value: operation.value,
+        clock: operation.clock,
+      });
+      builtHighlights.delete(operation.id);
+      changed = true;
+    });
+
+    if (!changed) return;
+
+    state = { ...state, highlights: buildHighlights() };
+    notify();
+    events.emit("change", { highlights: state.highlights, origin });
+  };
+
+  const getOperations = () => {
+    const operations: CollaborationOperation[] = [];
+    documents.forEach((fields, id) =>
+      fields.forEach(({ value, clock }, field) =>
+        operations.push({ id, field, value, clock }),
+      ),
+    );
+    return operations;
+  };
+
+  const createOperations = (id: string, fields: Record<string, unknown>) =>
+    Object.entries(fields).map(
+      ([field, value]): CollaborationOperation => ({
+        id,
+        field,
+        value,
+        clock: { counter: ++counter, clientId },
+      }),
+    );
+
+  const commit = (operations: CollaborationOperation[]) => {
+    applyOperations(operations, "local");
+    transport.send({ type: "operations", operations });
+  };
+
+  const addOperations = ({ id, ...fields }: T) =>
+    createOperations(id, { ...fields, [CREATED]: true, [DELETED]: false });
+
+  const setCollaborators = () => {
+    state = { ...state, collaborators: [...collaborators.values()] };
+    notify();
+    events.emit("presence", { collaborators: state.collaborators });
+  };
+
+  const getCollaborator = (): Collaborator => ({
+    id: clientId,
+    ...user,
+    ...presence,
+  });
+
+  const handleMessage = (message: CollaborationMessage) => {
+    switch (message.type) {
+      case "operations":
+        applyOperations(message.operations, "remote");
+        break;
+      case "sync":
+        transport.send({ type: "operations", operations: getOperations() });
+        transport.send({
+          type: "presence",
+          clientId,
+          collaborator: getCollaborator(),
+        });
+        break;
+      case "presence":
+        if (message.clientId === clientId) return;
+        if (message.collaborator) {
+          collaborators.set(message.clientId, message.collaborator);
+        } else {
+          collaborators.delete(message.clientId);
+        }
+        setCollaborators();
+        break;
+    }
+  };
+
+  // Seed with fixed clocks, so sessions seeding the same highlights agree
+  applyOperations(
+    initialHighlights.flatMap(({ id, ...fields }) =>
+      Object.entries({ ...fields, [CREATED]: true, [DELETED]: false }).map(
+        ([field, value]): CollaborationOperation => ({
+          id,
+          field,
+          value,
+          clock: { counter: 0, clientId: "" },
+        }),
+      ),
+    ),
+    "local",
+  );
+
+  const unsubscribe = transport.subscribe(handleMessage);
+  transport.send({ type: "sync", clientId });
+  transport.send({ type: "operations", operations: getOperations() });
+  transport.send({
+    type: "presence",
+    clientId,
+    collaborator: getCollaborator(),
+  });
+
+  return {
+    clientId,
+    on: events.on,
+    off: events.off,
+    getState: () => state,
+    getHighlights: () => state.highlights,
+    getCollaborators: () => state.collaborators,
+    add: (highlight) => {
+      const created = { ...highlight, id: highlight.id ?? generateId() } as T;
+      commit(addOperations(created));
+      return created;
+    },
+    update: (id, update) => {
+      const { id: _id, ...fields } = update;
+      commit(createOperations(id, fields));
+    },
+    remove: (id) => {
+      commit(createOperations(id, { [DELETED]: true }));
+    },
+    setPresence: (next) => {
+      presence = next;
+      transport.send({
+        type: "presence",
+        clientId,
+        collaborator: getCollaborator(),
+      });
+    },
+    subscribe: (listener) => {
+      subscribers.add(listener);
+      return () => {
+        subscribers.delete(listener);
+      };
+    },
+    destroy: () => {
+      transport.send({ type: "presence", clientId, collaborator: null });
+      unsubscribe();
+    },
+  };
+};
@@ -0,0 +1,171 @@
+import { generateHighlightId } from "./highlight-store";
+import type {
+  CommentAuthor,
+  CommentThreadData,
+  HighlightComment,
+} from "../types";
+
+/**
+ * Options for creating and editing comments.
+ *
+ * @category Type
+ */
+export interface CommentOptions {
+  /** Users that can be mentioned with `@name`. */
+  mentionableUsers?: CommentAuthor[];
+  /** Id generator for new threads and comments. Default: {@link generateHighlightId} */
+  generateId?: () => string;
+  /** Time of the change. Default: now */
+  now?: Date;
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Find the users mentioned as `@name` in a comment.
+ *
+ * @param body - The comment text.
+ * @param users - Users that can be mentioned.
+ * @returns - IDs of the mentioned users, in the order of `users`.
+ *
+ * @category Function
+ */
+export const parseMentions = (body: string, users: CommentAuthor[]) =>
+  users
+    .filter(({ name }) =>
+      new RegExp(`(^|\\s)@${escapeRegExp(name)}(?![\\w-])`, "u").test(body),
+    )
+    .map(({ id }) => id);
+
+/**
+ * Split a comment into text and `@name` mentions of `users`, which are at
+ * the odd indexes.
+ */
+export const splitMentions = (body: string, users: CommentAuthor[]) => {
+  if (users.length === 0) return [body];
+
+  const names = users
+    .map(({ name }) => name)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return body.split(new RegExp(`(@(?:${names.join("|")}))`, "u"));
+};
+
+const createComment = (
+  author: CommentAuthor,
+  body: string,
+  { mentionableUsers = [], generateId = generateHighlightId, now = new Date() }: CommentOptions,
+): HighlightComment => ({
+  id: generateId(),
+  author,
+  body,
+  createdAt: now.toISOString(),
+  mentions: parseMentions(body, mentionableUsers),
+});
+
+/**
+ * Start a thread on a highlight.
+ *
+ * @param highlightId - ID of the highlight.
+ * @param author - Author of the opening comment.
+ * @param body - Text of the opening comment.
+ * @param options - Mentionable users, id generator and time.
+ * @returns - The new thread.
+ *
+ * @category Function
+ */
+export const createCommentThread = (
+  highlightId: string,
+  author: CommentAuthor,
+  body: string,
+  options: CommentOptions = {},
+): CommentThreadData => ({
+  id: (options.generateId ?? generateHighlightId)(),
+  highlightId,
+  comments: [createComment(author, body, options)],
+  resolved: false,
+});
+
+/**
+ * Add a reply to a thread.
+ *
+ * @returns - A new thread with the reply at the end.
+ *
+ * @category Function
+ */
+export const addCommentReply = (
+  thread: CommentThreadData,
+  author: CommentAuthor,
+  body: string,
+  options: CommentOptions = {},
+): CommentThreadData => ({
+  ...thread,
+  comments: [...thread.comments, createComment(author, body, options)],
+});
+
+/**
+ * Change the text of a comment in a thread.
+ *
+ * @returns - A new thread with the edited comment.
+ *
+ * @category Function
+ */
+export const editComment = (
+  thread: CommentThreadData,
+  commentId: string,
+  body: string,
+  { mentionableUsers = [], now = new Date() }: CommentOptions = {},
+): CommentThreadData => ({
+  ...thread,
+  comments: thread.comments.map((comment) =>
+    comment.id === commentId
+      ? {
+          ...comment,
+          body,
+          updatedAt: now.toISOString(),
+          mentions: parseMentions(body, mentionableUsers),
+        }
+      : comment,
+  ),
+});
+
+/**
+ * Delete a comment from a thread. Deleting the opening comment deletes the
+ * whole thread.
+ *
+ * @returns - A new thread without the comment, or `null` if the thread was
+ * deleted.
+ *
+ * @category Function
+ */
+export const deleteComment = (
+  thread: CommentThreadData,
+  commentId: string,
+): CommentThreadData | null =>
+  thread.comments[0]?.id === commentId
+    ? null
+    : {
+        ...thread,
+        comments: thread.comments.filter(({ id }) => id !== commentId),
+      };
+
+/**
+ * Mark a thread as resolved, or reopen it.
+ *
+ * @param user - Who resolved the thread.
+ * @returns - A new thread with the resolved state.
+ *
+ * @category Function
+ */
+export const resolveCommentThread = (
+  thread: CommentThreadData,
+  resolved: boolean,
+  user?: CommentAuthor,
+  { now = new Date() }: Pick<CommentOptions, "now"> = {},
+): CommentThreadData => {
+  const { resolvedAt: _resolvedAt, resolvedBy: _resolvedBy, ...rest } = thread;
+  return resolved
+    ? { ...rest, resolved, resolvedAt: now.toISOString(), resolvedBy: user }
+    : { ...rest, resolved };
+};
@@ -7,23 +7,110 @@ interface WIDTH_HEIGHT {
   height: number;
 }
 
-/** @category Utilities */
+const normalizeRotation = (rotation: number) =>
+  ((rotation % 360) + 360) % 360;
+
+/**
+ * Rotate scaled coordinates clockwise by a multiple of 90°, swapping the
+ * page width and height for quarter turns.
+ */
+const rotateScaled = (scaled: Scaled, rotation: number): Scaled => {
+  const { x1, y1, x2, y2, width, height } = scaled;
+
+  switch (normalizeRotation(rotation)) {
+    case 90:
+      return {
+        ...scaled,
+        x1: height - y2,
+        y1: x1,
+        x2: height - y1,
+        y2: x2,
+        width: height,
+        height: width,
+      };
+    case 180:
+      return {
+        ...scaled,
+        x1: width - x2,
+        y1: height - y2,
+        x2: width - x1,
+        y2: height - y1,
+      };
+    case 270:
+      return {
+        ...scaled,
+        x1: y1,
+        y1: width - x2,
+        x2: y2,
+        y2: width - x1,
+        width: height,
+        height: width,
+      };
+    default:
+      return scaled;
+  }
+};
+
+/**
+ * Rotate a point in a box of `width` by `height` clockwise by a multiple of
+ * 90°, into the rotated box. Pass a box of 1 by 1 for fractions of a box.
+ */
+export const rotatePoint = <T extends { x: number; y: number }>(
+  point: T,
+  width: number,
+  height: number,
+  rotation: number,
+): T => {
+  const { x, y } = point;
+
+  switch (normalizeRotation(rotation)) {
+    case 90:
+      return { ...point, x: height - y, y: x };
+    case 180:
+      return { ...point, x: width - x, y: height - y };
+    case 270:
+      return { ...point, x: y, y: width - x };
+    default:
+      return point;
+  }
+};
+
+/** The size of a box after rotating it by a multiple of 90°. */
+export const rotateSize = (
+  width: number,
+  height: number,
+  rotation: number,
+) =>
+  normalizeRotation(rotation) % 180 === 0
+    ? { width, height }
+    : { width: height, height: width };
+
+/**
+ * Scaled positions are relative to the page as the PDF displays it. When a
+ * viewport is rotated on top of that (see `rotation`), it is undone here.
+ *
+ * @category Utilities
+ */
 export const viewportToScaled = (
   rect: LTWHP,
   { width, height }: WIDTH_HEIGHT,
+  rotation: number = 0,
 ): Scaled => {
-  return {
-    x1: rect.left,
-    y1: rect.top,
+  return rotateScaled(
+    {
+      x1: rect.left,
+      y1: rect.top,
 
-    x2: rect.left + rect.width,
-    y2: rect.top + rect.height,
+      x2: rect.left + rect.width,
+      y2: rect.top + rect.height,
 
-    width,
-    height,
+      width,
+      height,
 
-    pageNumber: rect.pageNumber,
-  };
+      pageNumber: rect.pageNumber,
+    },
+    -rotation,
+  );
 };
 
 /** @category Utilities */
@@ -32,8 +119,8 @@ export const viewportPositionToScaled = (
   viewer: PDFViewer,
 ): ScaledPosition => {
   const pageNumber = boundingRect.pageNumber;
-  const viewport = viewer.getPageView(pageNumber - 1).viewport; // Account for 1 indexing of PDF documents
-  const scale = (obj: LTWHP) => viewportToScaled(obj, viewport);
+  const { viewport, rotation } = viewer.getPageView(pageNumber - 1); // Account for 1 indexing of PDF documents
+  const scale = (obj: LTWHP) => viewportToScaled(obj, viewport, rotation);
 
   return {
     boundingRect: scale(boundingRect),
@@ -60,11 +147,18 @@ const pdfToViewport = (pdf: Scaled, viewport: PageViewport): LTWHP => {
   };
 };
 
-/** @category Utilities */
+/**
+ * `rotation` is how far the viewport is rotated beyond the page's own
+ * rotation, e.g. `PDFPageView.rotation`. PDF coordinates already account
+ * for it through the viewport.
+ *
+ * @category Utilities
+ */
 export const scaledToViewport = (
   scaled: Scaled,
   viewport: PageViewport,
   usePdfCoordinates: boolean = false,
+  rotation: number = 0,
 ): LTWHP => {
   const { width, height } = viewport;
 
@@ -76,6 +170,8 @@ export const scaledToViewport = (
     throw new Error("You are using old position format, please update");
   }
 
+  scaled = rotateScaled(scaled, rotation);
+
   const x1 = (width * scaled.x1) / scaled.width;
   const y1 = (height * scaled.y1) / scaled.height;
 
@@ -97,12 +193,37 @@ export const scaledPositionToViewport = (
   viewer: PDFViewer,
 ): ViewportPosition => {
   const pageNumber = boundingRect.pageNumber;
-  const viewport = viewer.getPageView(pageNumber - 1).viewport; // Account for 1 indexing of PDF documents
+  const { viewport, rotation } = viewer.getPageView(pageNumber - 1); // Account for 1 indexing of PDF documents
   const scale = (obj: Scaled) =>
-    scaledToViewport(obj, viewport, usePdfCoordinates);
+    scaledToViewport(obj, viewport, usePdfCoordinates, rotation);
 
   return {
     boundingRect: scale(boundingRect),
     rects: (rects || []).map(scale),
   };
 };
+
+/**
+ * Rotate a position clockwise by a multiple of 90°. Use it to keep highlights
+ * in place after persisting a page rotation, e.g. with the `pageRotations`
+ * option of {@link exportPdf}. Positions in PDF coordinates are returned as
+ * they are.
+ *
+ * @param position - Position relative to the page's current rotation.
+ * @param rotation - Degrees the page is rotated by.
+ * @returns - The position relative to the rotated page.
+ *
+ * @category Function
+ */
+export const rotateScaledPosition = (
+  position: ScaledPosition,
+  rotation: number,
+): ScaledPosition => {
+  if (position.usePdfCoordinates) return position;
+
+  return {
+    ...position,
+    boundingRect: rotateScaled(position.boundingRect, rotation),
+    rects: position.rects.map((rect) => rotateScaled(rect, rotation)),
+  };
+};
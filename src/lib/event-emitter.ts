@@ -0,0 +1,39 @@
+import type { EventEmitter } from "../types";
+
+/**
+ * Create a typed event emitter. A listener that throws does not keep the
+ * others from being called.
+ *
+ * @param onListenerError - Called when a listener throws.
+ * @returns - An emitter for the events in `Events`.
+ *
+ * @category Function
+ */
+export const createEventEmitter = <Events extends object>(
+  onListenerError?: (error: unknown, event: keyof Events) => void,
+): EventEmitter<Events> => {
+  const listeners = new Map<keyof Events, Set<(payload: never) => void>>();
+
+  const off: EventEmitter<Events>["off"] = (event, listener) => {
+    listeners.get(event)?.delete(listener);
+  };
+
+  return {
+    on: (event, listener) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+      return () => off(event, listener);
+    },
+    off,
+    emit: (event, payload) => {
+      // Copy, so listeners can unsubscribe while being called
+      [...(listeners.get(event) ?? [])].forEach((listener) => {
+        try {
+          (listener as (payload: Events[typeof event]) => void)(payload);
+        } catch (error) {
+          onListenerError?.(error, event);
+        }
+      });
+    },
+  };
+};
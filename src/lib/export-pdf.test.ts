@@ -0,0 +1,168 @@
+import {
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from "pdf-lib";
+import { describe, expect, it, vi } from "vitest";
+import { Logger, Scaled } from "../types";
+import { ExportableHighlight, exportPdf } from "./export-pdf";
+
+const boundingRect: Scaled = {
+  x1: 100,
+  y1: 200,
+  x2: 300,
+  y2: 350,
+  width: 600,
+  height: 800,
+  pageNumber: 1,
+};
+const position = { boundingRect, rects: [boundingRect] };
+
+const highlights: ExportableHighlight[] = [
+  { id: "text", type: "text", position, comment: "Read this" },
+  { id: "area", type: "area", position },
+  {
+    id: "freetext",
+    type: "freetext",
+    content: { text: "A note" },
+    position,
+  },
+  {
+    id: "shape",
+    type: "shape",
+    content: {
+      shape: { shapeType: "arrow", strokeColor: "#ff0000", strokeWidth: 2 },
+    },
+    position,
+  },
+  {
+    id: "drawing",
+    type: "drawing",
+    comment: "Sketch",
+    content: {
+      strokes: [
+        {
+          points: [
+            { x: 10, y: 10 },
+            { x: 100, y: 50 },
+          ],
+          color: "#ff0000",
+          width: 2,
+        },
+        {
+          points: [
+            { x: 20, y: 140 },
+            { x: 190, y: 20 },
+          ],
+          color: "#0000ff",
+          width: 4,
+        },
+      ],
+    },
+    position,
+  },
+];
+
+/** Export highlights as annotations of a new 600 by 800 point PDF. */
+const exportAnnotations = async (highlights: ExportableHighlight[]) => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([600, 800]);
+  const bytes = await exportPdf(await pdfDoc.save(), highlights, {
+    mode: "annotations",
+  });
+
+  const exported = await PDFDocument.load(bytes);
+  return exported
+    .getPage(0)
+    .node.Annots()!
+    .asArray()
+    .map((ref) => exported.context.lookup(ref, PDFDict));
+};
+
+const getName = (annotation: PDFDict) =>
+  annotation.lookupMaybe(PDFName.of("NM"), PDFString)?.decodeText();
+const getSubtype = (annotation: PDFDict) =>
+  annotation.lookup(PDFName.of("Subtype"), PDFName).decodeText();
+
+describe("exportPdf in annotations mode", () => {
+  it("gives every annotation other than popups an appearance", async () => {
+    const annotations = await exportAnnotations(highlights);
+
+    const subtypes = annotations.map(getSubtype);
+    expect(subtypes).toEqual([
+      "Highlight",
+      "Popup",
+      "Highlight",
+      "FreeText",
+      "Line",
+      "Ink",
+      "Popup",
+      "Ink",
+    ]);
+
+    for (const annotation of annotations) {
+      if (getSubtype(annotation) === "Popup") continue;
+
+      const appearance = annotation
+        .lookup(PDFName.of("AP"), PDFDict)
+        .lookup(PDFName.of("N"), PDFStream);
+      expect(appearance.dict.get(PDFName.of("Subtype"))).toBe(
+        PDFName.of("Form"),
+      );
+      expect(appearance.dict.lookup(PDFName.of("BBox"))).toEqual(
+        annotation.lookup(PDFName.of("Rect")),
+      );
+      expect(appearance.getContentsSize()).toBeGreaterThan(0);
+    }
+  });
+
+  it("names the Ink annotations of a drawing apart", async () => {
+    const annotations = (await exportAnnotations(highlights.slice(-1))).filter(
+      (annotation) => getSubtype(annotation) === "Ink",
+    );
+
+    expect(annotations.map(getName)).toEqual(["drawing", "drawing-2"]);
+    expect(
+      annotations.map((annotation) =>
+        annotation.get(PDFName.of("Popup")) instanceof PDFRef,
+      ),
+    ).toEqual([true, false]);
+    expect(annotations[1].has(PDFName.of("Contents"))).toBe(false);
+  });
+});
+
+describe.each(["flatten", "annotations"] as const)(
+  "exportPdf in %s mode",
+  (mode) => {
+    it("leaves out an image that fails to embed with a warning", async () => {
+      const pdfDoc = await PDFDocument.create();
+      pdfDoc.addPage([600, 800]);
+      const logger: Logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const bytes = await exportPdf(
+        await pdfDoc.save(),
+        [
+          {
+            id: "image",
+            type: "image",
+            content: { image: "data:image/png;base64,bm90IGEgcG5n" },
+            position,
+          },
+        ],
+        { mode, logLevel: "warn", logger },
+      );
+
+      expect(bytes.length).toBeGreaterThan(0);
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+  },
+);
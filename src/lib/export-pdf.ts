@@ -1,5 +1,62 @@
-import { PDFDocument, rgb, StandardFonts, PDFPage, PDFFont } from "pdf-lib";
-import type { Scaled, ScaledPosition, ShapeData } from "../types";
+import {
+  PDFDocument,
+  degrees,
+  rgb,
+  StandardFonts,
+  PDFPage,
+  PDFFont,
+  BlendMode,
+  PDFHexString,
+  LineCapStyle,
+  LineJoinStyle,
+  PDFArray,
+  PDFName,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+  setLineJoin,
+} from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+import { createLogger } from "./logger";
+import {
+  CALLOUT_FONT_SIZE,
+  CALLOUT_PADDING,
+  formatMeasurement,
+  getCalloutBox,
+  getCloudPath,
+  getLineEndingPath,
+  getLineEndings,
+  getPathLength,
+  getPathMidpoint,
+  getPolylinePath,
+  getShapePoints,
+  isClosedShape,
+  isMeasurableShape,
+  PDF_LINE_ENDINGS,
+} from "./shape-geometry";
+import {
+  getStrokeOutline,
+  hasPressure,
+  HIGHLIGHTER_OPACITY,
+} from "./stroke-geometry";
+import type {
+  CommentThreadData,
+  DrawingStroke,
+  EventEmitter,
+  Logger,
+  LogLevel,
+  PdfHighlighterEvents,
+  Scaled,
+  ScaledPosition,
+  LineEnding,
+  ShapeData,
+  ShapeMeasure,
+  ShapeType,
+} from "../types";
 
 /**
  * Options for the PDF export function.
@@ -17,8 +74,50 @@ export interface ExportPdfOptions {
   defaultFreetextBgColor?: string;
   /** Default font size for freetext. Default: 14 */
   defaultFreetextFontSize?: number;
+  /**
+   * TrueType or OpenType fonts for freetext, by family name, e.g.
+   * `{ "Noto Sans": notoSansBytes }`. A highlight's `fontFamily` picks its
+   * font. Characters missing from it are drawn with the next font that has
+   * them, in the order given here, then Helvetica. Fonts are subset, so only
+   * the used glyphs are embedded.
+   */
+  fonts?: Record<string, Uint8Array | ArrayBuffer>;
   /** Progress callback for large PDFs */
   onProgress?: (current: number, total: number) => void;
+  /**
+   * How highlights are written to the PDF.
+   * - "flatten": drawn into the page content (default)
+   * - "annotations": added as native PDF annotations that other readers can
+   *   select, edit, comment on and delete
+   */
+  mode?: "flatten" | "annotations";
+  /** Author (`/T`) written to each annotation in "annotations" mode */
+  author?: string;
+  /**
+   * Comment threads to write as annotation popups with replies, matched to
+   * highlights by `highlightId`. The opening comment becomes the highlight's
+   * note, replies and the resolved state are written as reply annotations.
+   * In "flatten" mode, highlights with a thread get a note icon.
+   */
+  commentThreads?: CommentThreadData[];
+  /**
+   * Degrees (clockwise, a multiple of 90) to add to the rotation of pages, by
+   * page number. E.g. from {@link PdfHighlighterUtils.getPageRotations}.
+   * Highlights are placed relative to the pages' original rotation.
+   */
+  pageRotations?: { [pageNumber: number]: number };
+  /**
+   * Minimum severity of log messages. Images that fail to embed are left out
+   * with a warning. Default: "silent"
+   */
+  logLevel?: LogLevel;
+  /** Where log messages go. Default: `console` */
+  logger?: Logger;
+  /**
+   * Receives `export:progress` events, e.g. the {@link PdfHighlighterUtils}
+   * of the viewer showing the document.
+   */
+  emitter?: Pick<EventEmitter<PdfHighlighterEvents>, "emit">;
 }
 
 /**
@@ -33,6 +132,7 @@ export interface ExportableHighlight {
     text?: string;
     image?: string; // Base64 data URL
     shape?: ShapeData; // Shape data for shape highlights
+    strokes?: DrawingStroke[]; // Stroke data for drawings and signatures, exported as vectors
   };
   position: ScaledPosition;
   /** Per-highlight color override (for text/area highlights) */
@@ -45,20 +145,25 @@ export interface ExportableHighlight {
   backgroundColor?: string;
   /** Font size for freetext highlights */
   fontSize?: string;
-  /** Font family for freetext highlights (not used in export, Helvetica is always used) */
+  /**
+   * Font family for freetext highlights, a CSS font-family list matched
+   * against {@link ExportPdfOptions.fonts}. Helvetica is used otherwise.
+   */
   fontFamily?: string;
   /** Shape type for shape highlights */
-  shapeType?: "rectangle" | "circle" | "arrow";
+  shapeType?: ShapeType;
   /** Stroke color for shape highlights */
   strokeColor?: string;
   /** Stroke width for shape highlights */
   strokeWidth?: number;
+  /** Comment written to the annotation popup in "annotations" mode */
+  comment?: string;
 }
 
 /**
  * Parse a color string to RGB values (0-1 range).
  */
-function parseColor(color: string): {
+export function parseColor(color: string): {
   r: number;
   g: number;
   b: number;
@@ -100,16 +205,69 @@ function parseColor(color: string): {
   return { r: 1, g: 0.89, b: 0.56, a: 0.5 };
 }
 
+type PdfRect = { x: number; y: number; width: number; height: number };
+
+/** A PDF transformation matrix `[a b c d e f]`. */
+type Matrix = [number, number, number, number, number, number];
+
+const normalizeRotation = (angle: number) => ((angle % 360) + 360) % 360;
+
+/**
+ * Page size as displayed, with width and height swapped for pages rotated by
+ * 90° or 270°. Highlight coordinates are relative to this size.
+ */
+function getVisualSize(page: PDFPage): { width: number; height: number } {
+  const { width, height } = page.getSize();
+  return normalizeRotation(page.getRotation().angle) % 180 === 0
+    ? { width, height }
+    : { width: height, height: width };
+}
+
 /**
- * Convert ScaledPosition coordinates to PDF points.
+ * Matrix from visual space (the page as displayed, origin at the bottom-left)
+ * to the page's unrotated MediaBox space, which pdf-lib draws in.
+ */
+function getVisualToRawMatrix(page: PDFPage): Matrix {
+  const { width, height } = page.getSize();
+
+  switch (normalizeRotation(page.getRotation().angle)) {
+    case 90:
+      return [0, 1, -1, 0, width, 0];
+    case 180:
+      return [-1, 0, 0, -1, width, height];
+    case 270:
+      return [0, -1, 1, 0, 0, height];
+    default:
+      return [1, 0, 0, 1, 0, 0];
+  }
+}
+
+const transformPoint = (
+  [a, b, c, d, e, f]: Matrix,
+  x: number,
+  y: number
+) => ({ x: a * x + c * y + e, y: b * x + d * y + f });
+
+/**
+ * Transform a rectangle from visual to raw space.
+ */
+const transformRect = (matrix: Matrix, rect: PdfRect): PdfRect => {
+  const start = transformPoint(matrix, rect.x, rect.y);
+  const end = transformPoint(matrix, rect.x + rect.width, rect.y + rect.height);
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+};
+
+/**
+ * Convert ScaledPosition coordinates to PDF points in visual space.
  * PDF coordinate system has origin at bottom-left.
  */
-function scaledToPdfPoints(
-  scaled: Scaled,
-  page: PDFPage
-): { x: number; y: number; width: number; height: number } {
-  const pdfWidth = page.getWidth();
-  const pdfHeight = page.getHeight();
+function scaledToPdfPoints(scaled: Scaled, page: PDFPage): PdfRect {
+  const { width: pdfWidth, height: pdfHeight } = getVisualSize(page);
 
   // Calculate position ratios
   const xRatio = pdfWidth / scaled.width;
@@ -143,62 +301,247 @@ function dataUrlToBytes(dataUrl: string): {
 }
 
 /**
- * Wrap text into multiple lines that fit within maxWidth.
- * Long words are broken character by character (like CSS word-wrap: break-word).
+ * Size of the space that stroke points are in. On screen a drawing or
+ * signature is its PNG stretched over the box, so strokes are stretched the
+ * same way. Without a PNG, points are relative to the box in viewport pixels.
+ */
+function getStrokeSpace(highlight: ExportableHighlight): {
+  width: number;
+  height: number;
+} {
+  const image = highlight.content?.image;
+  if (image?.startsWith("data:image/png")) {
+    // The width and height in the IHDR chunk end at byte 24
+    const header = atob(image.split(",")[1].slice(0, 32));
+    const readUint32 = (offset: number) =>
+      ((header.charCodeAt(offset) << 24) |
+        (header.charCodeAt(offset + 1) << 16) |
+        (header.charCodeAt(offset + 2) << 8) |
+        header.charCodeAt(offset + 3)) >>>
+      0;
+    const width = readUint32(16);
+    const height = readUint32(20);
+    if (width > 0 && height > 0) return { width, height };
+  }
+
+  const { x1, y1, x2, y2 } = highlight.position.boundingRect;
+  return { width: x2 - x1, height: y2 - y1 };
+}
+
+/**
+ * Scale from stroke points to PDF points for a box, with the scale of the
+ * stroke widths.
+ */
+function getStrokeScale(highlight: ExportableHighlight, rect: PdfRect) {
+  const space = getStrokeSpace(highlight);
+  const x = rect.width / space.width;
+  const y = rect.height / space.height;
+  return { x, y, width: Math.sqrt(x * y) };
+}
+
+/**
+ * An SVG path through the points of a stroke, smoothed with quadratic curves
+ * between the midpoints of its segments, like the canvas preview.
+ */
+function toSmoothPath(points: { x: number; y: number }[]): string {
+  const format = ({ x, y }: { x: number; y: number }) =>
+    `${x.toFixed(2)} ${y.toFixed(2)}`;
+  const last = points[points.length - 1];
+
+  let path = `M ${format(points[0])}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    const midpoint = {
+      x: (points[i].x + points[i + 1].x) / 2,
+      y: (points[i].y + points[i + 1].y) / 2,
+    };
+    path += ` Q ${format(points[i])} ${format(midpoint)}`;
+  }
+  return `${path} L ${format(last)}`;
+}
+
+/**
+ * Fonts for freetext: the standard font and the fonts from
+ * {@link ExportPdfOptions.fonts}, by lowercase family name.
+ */
+type FreetextFonts = {
+  standard: PDFFont;
+  custom: Map<string, PDFFont>;
+};
+
+/**
+ * Fonts for a freetext highlight, in order of preference for each character,
+ * with the code points each one can draw.
+ */
+type FontChain = { font: PDFFont; characters: Set<number> }[];
+
+/** A piece of a line drawn with a single font. */
+type TextRun = { text: string; font: PDFFont };
+
+/** A wrapped line and the direction of its paragraph. */
+type WrappedLine = { text: string; rtl: boolean };
+
+// Hebrew, Arabic, Syriac, Thaana, NKo and their presentation forms
+const RTL_CHARACTERS = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufeff]/;
+const STRONG_CHARACTER = /\p{L}/u;
+
+/**
+ * Embed Helvetica and the fonts from the options. Fontkit is only registered
+ * when there are fonts to embed.
+ */
+async function embedFreetextFonts(
+  pdfDoc: PDFDocument,
+  options: ExportPdfOptions
+): Promise<FreetextFonts> {
+  const custom = new Map<string, PDFFont>();
+  const entries = Object.entries(options.fonts || {});
+
+  if (entries.length > 0) {
+    pdfDoc.registerFontkit(fontkit);
+    for (const [family, bytes] of entries) {
+      custom.set(
+        family.toLowerCase(),
+        await pdfDoc.embedFont(bytes, { subset: true })
+      );
+    }
+  }
+
+  return { standard: await pdfDoc.embedFont(StandardFonts.Helvetica), custom };
+}
+
+/**
+ * Order the fonts for a highlight: the first family of `fontFamily` found in
+ * the custom fonts, then the other custom fonts, then Helvetica. Without a
+ * match Helvetica comes first, so Latin text looks as it always did.
+ */
+function getFontChain(
+  fonts: FreetextFonts,
+  fontFamily: string | undefined,
+  cache: Map<PDFFont, Set<number>>
+): FontChain {
+  const match = (fontFamily || "")
+    .split(",")
+    .map((family) => family.trim().replace(/^["']|["']$/g, "").toLowerCase())
+    .map((family) => fonts.custom.get(family))
+    .find(Boolean);
+
+  const ordered = match
+    ? [match, ...[...fonts.custom.values()].filter((font) => font !== match), fonts.standard]
+    : [fonts.standard, ...fonts.custom.values()];
+
+  return ordered.map((font) => {
+    if (!cache.has(font)) cache.set(font, new Set(font.getCharacterSet()));
+    return { font, characters: cache.get(font)! };
+  });
+}
+
+/**
+ * Split text into runs drawn with the first font of the chain that has each
+ * character. Characters no font has become a space or "?".
+ */
+function splitRuns(text: string, chain: FontChain): TextRun[] {
+  const runs: TextRun[] = [];
+
+  for (const character of text) {
+    const codePoint = character.codePointAt(0)!;
+    const found = chain.find(({ characters }) => characters.has(codePoint));
+    const font = found?.font ?? chain[chain.length - 1].font;
+    const drawn = found ? character : /\s/.test(character) ? " " : "?";
+
+    const last = runs[runs.length - 1];
+    if (last?.font === font) {
+      last.text += drawn;
+    } else {
+      runs.push({ text: drawn, font });
+    }
+  }
+
+  return runs;
+}
+
+function measureText(text: string, chain: FontChain, fontSize: number): number {
+  return splitRuns(text, chain).reduce(
+    (width, run) => width + run.font.widthOfTextAtSize(run.text, fontSize),
+    0
+  );
+}
+
+/**
+ * Runs of a line in the order they are drawn, left to right. In a
+ * right-to-left line the words are reversed, as are the runs of each
+ * right-to-left word. Fontkit already reverses the glyphs within a run.
+ */
+function getVisualRuns(line: WrappedLine, chain: FontChain): TextRun[] {
+  if (!line.rtl) return splitRuns(line.text, chain);
+
+  return line.text
+    .split(/(\s+)/)
+    .reverse()
+    .flatMap((word) => {
+      const runs = splitRuns(word, chain);
+      return RTL_CHARACTERS.test(word) ? runs.reverse() : runs;
+    });
+}
+
+/**
+ * Wrap text into multiple lines that fit within maxWidth, as measured by
+ * `measure`. Long words are broken character by character (like CSS
+ * word-wrap: break-word). A paragraph whose first letter is Hebrew or Arabic
+ * is right-to-left.
  */
 function wrapText(
   text: string,
-  font: PDFFont,
-  fontSize: number,
+  measure: (text: string) => number,
   maxWidth: number
-): string[] {
+): WrappedLine[] {
   if (!text || maxWidth <= 0) return [];
 
-  const lines: string[] = [];
+  const lines: WrappedLine[] = [];
 
   // Split by newlines first to preserve intentional line breaks
   const paragraphs = text.split(/\n/);
 
   for (const paragraph of paragraphs) {
     if (!paragraph.trim()) {
-      lines.push("");
+      lines.push({ text: "", rtl: false });
       continue;
     }
 
+    const rtl = RTL_CHARACTERS.test(paragraph.match(STRONG_CHARACTER)?.[0] || "");
     const words = paragraph.split(/\s+/);
     let currentLine = "";
 
     for (const word of words) {
       const testLine = currentLine ? `${currentLine} ${word}` : word;
-      const testWidth = font.widthOfTextAtSize(testLine, fontSize);
+      const testWidth = measure(testLine);
 
       if (testWidth <= maxWidth) {
         currentLine = testLine;
       } else {
         // Push current line if exists
         if (currentLine) {
-          lines.push(currentLine);
+          lines.push({ text: currentLine, rtl });
           currentLine = "";
         }
 
         // Check if word itself is too wide - break it character by character
-        if (font.widthOfTextAtSize(word, fontSize) > maxWidth) {
-          let remaining = word;
+        if (measure(word) > maxWidth) {
+          // Code points, so surrogate pairs like emoji stay whole
+          let remaining = Array.from(word);
           while (remaining.length > 0) {
             let charCount = 1;
             // Find how many characters fit in maxWidth
             while (
               charCount < remaining.length &&
-              font.widthOfTextAtSize(remaining.substring(0, charCount + 1), fontSize) <= maxWidth
+              measure(remaining.slice(0, charCount + 1).join("")) <= maxWidth
             ) {
               charCount++;
             }
-            const chunk = remaining.substring(0, charCount);
-            remaining = remaining.substring(charCount);
+            const chunk = remaining.slice(0, charCount).join("");
+            remaining = remaining.slice(charCount);
 
             if (remaining.length > 0) {
               // More characters remaining, push this chunk as a complete line
-              lines.push(chunk);
+              lines.push({ text: chunk, rtl });
             } else {
               // Last chunk, keep it as current line (may combine with next word)
               currentLine = chunk;
@@ -209,7 +552,7 @@ function wrapText(
         }
       }
     }
-    if (currentLine) lines.push(currentLine);
+    if (currentLine) lines.push({ text: currentLine, rtl });
   }
 
   return lines;
@@ -330,9 +673,13 @@ async function renderFreetextHighlight(
   page: PDFPage,
   highlight: ExportableHighlight,
   options: ExportPdfOptions,
-  font: PDFFont
+  fonts: FreetextFonts,
+  characterSets: Map<PDFFont, Set<number>>,
+  log: Logger
 ): Promise<void> {
-  const text = highlight.content?.text || "";
+  // Composed form, so accented letters map to single glyphs
+  const text = (highlight.content?.text || "").normalize("NFC");
+  const chain = getFontChain(fonts, highlight.fontFamily, characterSets);
   const textColor = parseColor(
     highlight.color || options.defaultFreetextColor || "#333333"
   );
@@ -345,13 +692,13 @@ async function renderFreetextHighlight(
 
   // Scale font size by the same ratio used for the box coordinates
   // This ensures the font scales proportionally with the box
-  const pdfHeight = page.getHeight();
+  const pdfHeight = getVisualSize(page).height;
   const yRatio = pdfHeight / highlight.position.boundingRect.height;
   const storedFontSize =
     parseInt(highlight.fontSize || "") || options.defaultFreetextFontSize || 14;
   const fontSize = storedFontSize * yRatio;
 
-  console.log("Freetext export:", {
+  log.debug("[exportPdf] Freetext", {
     storedFontSize,
     yRatio,
     fontSize,
@@ -379,7 +726,8 @@ async function renderFreetextHighlight(
   const lineHeight = fontSize * 1.3;
 
   if (maxWidth > 0 && text) {
-    const lines = wrapText(text, font, fontSize, maxWidth);
+    const measure = (line: string) => measureText(line, chain, fontSize);
+    const lines = wrapText(text, measure, maxWidth);
     let currentY = y + height - fontSize - padding;
 
     for (const line of lines) {
@@ -387,14 +735,22 @@ async function renderFreetextHighlight(
       if (currentY < y + padding) break;
 
       // Skip empty lines but still move down
-      if (line.trim()) {
-        page.drawText(line, {
-          x: x + padding,
-          y: currentY,
-          size: fontSize,
-          font,
-          color: rgb(textColor.r, textColor.g, textColor.b),
-        });
+      if (line.text.trim()) {
+        // Right-to-left lines are aligned to the right edge
+        let currentX = line.rtl
+          ? x + padding + maxWidth - measure(line.text)
+          : x + padding;
+
+        for (const run of getVisualRuns(line, chain)) {
+          page.drawText(run.text, {
+            x: currentX,
+            y: currentY,
+            size: fontSize,
+            font: run.font,
+            color: rgb(textColor.r, textColor.g, textColor.b),
+          });
+          currentX += run.font.widthOfTextAtSize(run.text, fontSize);
+        }
       }
 
       currentY -= lineHeight;
@@ -402,61 +758,15 @@ async function renderFreetextHighlight(
   }
 }
 
-/**
- * Transform visual coordinates to raw MediaBox coordinates.
- * pdf-lib's drawImage uses raw MediaBox space, but our coordinates are in visual space.
- */
-function transformToRawCoordinates(
-  page: PDFPage,
-  x: number,
-  y: number,
-  width: number,
-  height: number
-): { x: number; y: number; width: number; height: number } {
-  const rotation = page.getRotation().angle;
-  const pageWidth = page.getWidth(); // Visual width
-  const pageHeight = page.getHeight(); // Visual height
-
-  if (rotation === 90) {
-    // Visual (x, y) → Raw MediaBox coordinates
-    // When rotated 90° CCW, visual top-left maps to raw bottom-left
-    return {
-      x: y,
-      y: pageWidth - x - width,
-      width: height,
-      height: width,
-    };
-  } else if (rotation === 180) {
-    // Rotated 180°, origin flips to opposite corner
-    return {
-      x: pageWidth - x - width,
-      y: pageHeight - y - height,
-      width,
-      height,
-    };
-  } else if (rotation === 270) {
-    // When rotated 90° CW (270° CCW)
-    return {
-      x: pageHeight - y - height,
-      y: x,
-      width: height,
-      height: width,
-    };
-  }
-
-  // No rotation - coordinates are already correct
-  return { x, y, width, height };
-}
-
 /**
  * Render an image highlight (embedded image).
- * Handles page rotation by transforming visual coordinates to raw MediaBox space.
  * Image fills the entire bounding box to match the visual wrapper in preview.
  */
 async function renderImageHighlight(
   pdfDoc: PDFDocument,
   page: PDFPage,
-  highlight: ExportableHighlight
+  highlight: ExportableHighlight,
+  log: Logger
 ): Promise<void> {
   const imageDataUrl = highlight.content?.image;
   if (!imageDataUrl) return;
@@ -468,137 +778,1034 @@ async function renderImageHighlight(
         ? await pdfDoc.embedPng(bytes)
         : await pdfDoc.embedJpg(bytes);
 
-    // Calculate coordinates in visual space - use full bounding box dimensions
-    const visualCoords = scaledToPdfPoints(
+    // Use full bounding box dimensions
+    const { x, y, width, height } = scaledToPdfPoints(
       highlight.position.boundingRect,
       page
     );
 
-    // Transform to raw MediaBox coordinates based on page rotation
-    const rawCoords = transformToRawCoordinates(
-      page,
-      visualCoords.x,
-      visualCoords.y,
-      visualCoords.width,
-      visualCoords.height
+    // Draw image filling the entire bounding box
+    page.drawImage(image, { x, y, width, height });
+  } catch (error) {
+    log.warn("[exportPdf] Failed to embed image, leaving it out", error);
+  }
+}
+
+/**
+ * Render the strokes of a drawing or signature as vector paths with round
+ * caps and joins, each with its own color and width. Strokes with pressure
+ * are filled outlines whose width follows it, and highlighters multiply with
+ * the page.
+ */
+function renderStrokes(
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  strokes: DrawingStroke[]
+): void {
+  const rect = scaledToPdfPoints(highlight.position.boundingRect, page);
+  const scale = getStrokeScale(highlight, rect);
+
+  page.pushOperators(pushGraphicsState(), setLineJoin(LineJoinStyle.Round));
+
+  for (const stroke of strokes) {
+    // Single points are not drawn on screen either
+    if (stroke.points.length < 2) continue;
+
+    const color = parseColor(stroke.color);
+    const isHighlighter = stroke.tool === "highlighter";
+    const opacity = color.a * (isHighlighter ? HIGHLIGHTER_OPACITY : 1);
+    const blendMode = isHighlighter ? BlendMode.Multiply : undefined;
+
+    // SVG paths are drawn with y down from the top-left of the box
+    if (hasPressure(stroke)) {
+      const outline = getStrokeOutline(stroke).map(
+        ({ x, y }) => `${(x * scale.x).toFixed(2)} ${(y * scale.y).toFixed(2)}`
+      );
+      page.drawSvgPath(`M ${outline.join(" L ")} Z`, {
+        x: rect.x,
+        y: rect.y + rect.height,
+        color: rgb(color.r, color.g, color.b),
+        opacity,
+        blendMode,
+      });
+      continue;
+    }
+
+    page.drawSvgPath(
+      toSmoothPath(
+        stroke.points.map((point) => ({
+          x: point.x * scale.x,
+          y: point.y * scale.y,
+        }))
+      ),
+      {
+        x: rect.x,
+        y: rect.y + rect.height,
+        borderColor: rgb(color.r, color.g, color.b),
+        borderOpacity: opacity,
+        borderWidth: stroke.width * scale.width,
+        borderLineCap: LineCapStyle.Round,
+        blendMode,
+      }
     );
+  }
 
-    console.log("Image export:", {
-      rotation: page.getRotation().angle,
-      visualCoords,
-      rawCoords,
+  page.pushOperators(popGraphicsState());
+}
+
+/**
+ * The shape of a shape highlight, from its content or top-level properties.
+ */
+export function getShapeData(highlight: ExportableHighlight): ShapeData {
+  const shape = highlight.content?.shape;
+  return {
+    ...shape,
+    shapeType: shape?.shapeType || highlight.shapeType || "rectangle",
+    strokeColor: shape?.strokeColor || highlight.strokeColor || "#000000",
+    strokeWidth: shape?.strokeWidth || highlight.strokeWidth || 2,
+  };
+}
+
+/**
+ * Render a shape highlight as vector paths with its fill and dash pattern,
+ * line endings filled with the stroke color, the length of measured shapes
+ * and the wrapped text of callouts.
+ */
+function renderShapeHighlight(
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  fonts: FreetextFonts,
+  characterSets: Map<PDFFont, Set<number>>
+): void {
+  const shape = getShapeData(highlight);
+  const { shapeType, strokeWidth } = shape;
+  const color = parseColor(shape.strokeColor);
+  const strokeColor = rgb(color.r, color.g, color.b);
+  const rect = scaledToPdfPoints(highlight.position.boundingRect, page);
+  const yRatio =
+    getVisualSize(page).height / highlight.position.boundingRect.height;
+
+  const fill = shape.fillColor ? parseColor(shape.fillColor) : null;
+  const dashArray = shape.dashPattern?.length
+    ? shape.dashPattern.map((length) => length * strokeWidth)
+    : undefined;
+  const border = {
+    borderColor: strokeColor,
+    borderWidth: strokeWidth,
+    borderOpacity: color.a,
+    borderDashArray: dashArray,
+  };
+  const style = {
+    ...border,
+    ...(fill && { color: rgb(fill.r, fill.g, fill.b), opacity: fill.a }),
+  };
+
+  if (shapeType === "rectangle") {
+    page.drawRectangle({ ...rect, ...style });
+    return;
+  }
+  if (shapeType === "circle") {
+    page.drawEllipse({
+      x: rect.x + rect.width / 2,
+      y: rect.y + rect.height / 2,
+      xScale: rect.width / 2,
+      yScale: rect.height / 2,
+      ...style,
     });
+    return;
+  }
 
-    // Draw image filling the entire bounding box
-    page.drawImage(image, {
-      x: rawCoords.x,
-      y: rawCoords.y,
-      width: rawCoords.width,
-      height: rawCoords.height,
+  // SVG paths are drawn with y down from the top-left of the box
+  const top = rect.y + rect.height;
+  const points = getShapePoints(shape, rect.width, rect.height);
+  const lineStyle = {
+    x: rect.x,
+    y: top,
+    ...border,
+    borderLineCap: dashArray ? LineCapStyle.Butt : LineCapStyle.Round,
+  };
+  const drawEnding = (
+    ending: LineEnding,
+    tip: { x: number; y: number },
+    from: { x: number; y: number }
+  ) => {
+    const endingPath = getLineEndingPath(ending, tip, from, strokeWidth);
+    if (!endingPath) return;
+    page.drawSvgPath(endingPath.path, {
+      x: rect.x,
+      y: top,
+      borderColor: strokeColor,
+      borderWidth: strokeWidth,
+      borderOpacity: color.a,
+      borderLineCap: LineCapStyle.Round,
+      ...(endingPath.filled && { color: strokeColor, opacity: color.a }),
     });
-  } catch (error) {
-    console.error("Failed to embed image:", error);
+  };
+  const { start, end } = getLineEndings(shape);
+
+  page.pushOperators(pushGraphicsState(), setLineJoin(LineJoinStyle.Round));
+
+  switch (shapeType) {
+    case "polygon":
+      page.drawSvgPath(getPolylinePath(points, true), {
+        ...lineStyle,
+        ...style,
+      });
+      break;
+    case "cloud":
+      page.drawSvgPath(getCloudPath(points, strokeWidth), {
+        ...lineStyle,
+        ...style,
+      });
+      break;
+    case "callout": {
+      page.drawSvgPath(getPolylinePath(points), lineStyle);
+      if (points.length >= 2) drawEnding(start, points[0], points[1]);
+
+      const box = getCalloutBox(shape, rect.width, rect.height);
+      const textBox = {
+        x: rect.x + box.x,
+        y: top - box.y - box.height,
+        width: box.width,
+        height: box.height,
+      };
+      page.drawRectangle({ ...textBox, ...style });
+      drawCalloutText(page, shape, textBox, yRatio, fonts, characterSets);
+      break;
+    }
+    default: {
+      // Lines, arrows and polylines
+      page.drawSvgPath(getPolylinePath(points), lineStyle);
+      if (points.length >= 2) {
+        const last = points.length - 1;
+        drawEnding(start, points[0], points[1]);
+        drawEnding(end, points[last], points[last - 1]);
+      }
+
+      if (shape.measure && isMeasurableShape(shapeType)) {
+        const label = formatMeasurement(getPathLength(points), shape.measure);
+        const chain = getFontChain(fonts, undefined, characterSets);
+        const fontSize = 11 * yRatio;
+        const midpoint = getPathMidpoint(points);
+        let currentX =
+          rect.x + midpoint.x - measureText(label, chain, fontSize) / 2;
+
+        for (const run of getVisualRuns({ text: label, rtl: false }, chain)) {
+          page.drawText(run.text, {
+            x: currentX,
+            y: top - midpoint.y + strokeWidth / 2 + 4 * yRatio,
+            size: fontSize,
+            font: run.font,
+            color: strokeColor,
+            opacity: color.a,
+          });
+          currentX += run.font.widthOfTextAtSize(run.text, fontSize);
+        }
+      }
+    }
   }
+
+  page.pushOperators(popGraphicsState());
 }
 
 /**
- * Render a shape highlight (rectangle, circle, or arrow).
+ * Draw the text of a callout wrapped inside its box, at the size and padding
+ * it has on screen.
  */
-async function renderShapeHighlight(
+function drawCalloutText(
   page: PDFPage,
-  highlight: ExportableHighlight
-): Promise<void> {
-  // Get shape data from content or top-level properties
-  const shapeType = highlight.content?.shape?.shapeType || highlight.shapeType || "rectangle";
-  const strokeColorStr = highlight.content?.shape?.strokeColor || highlight.strokeColor || "#000000";
-  const strokeWidth = highlight.content?.shape?.strokeWidth || highlight.strokeWidth || 2;
+  shape: ShapeData,
+  box: PdfRect,
+  yRatio: number,
+  fonts: FreetextFonts,
+  characterSets: Map<PDFFont, Set<number>>
+): void {
+  // Composed form, so accented letters map to single glyphs
+  const text = (shape.text || "").normalize("NFC");
+  const chain = getFontChain(fonts, undefined, characterSets);
+  const color = parseColor(shape.strokeColor);
+  const fontSize = CALLOUT_FONT_SIZE * yRatio;
+  const padding = CALLOUT_PADDING * yRatio + shape.strokeWidth / 2;
+  const maxWidth = box.width - padding * 2;
+  const lineHeight = fontSize * 1.2;
+
+  const measure = (line: string) => measureText(line, chain, fontSize);
+  let currentY = box.y + box.height - padding - fontSize;
+
+  for (const line of wrapText(text, measure, maxWidth)) {
+    // Stop if we've run out of vertical space
+    if (currentY < box.y + padding) break;
+
+    let currentX = line.rtl
+      ? box.x + padding + maxWidth - measure(line.text)
+      : box.x + padding;
+
+    for (const run of getVisualRuns(line, chain)) {
+      page.drawText(run.text, {
+        x: currentX,
+        y: currentY,
+        size: fontSize,
+        font: run.font,
+        color: rgb(color.r, color.g, color.b),
+        opacity: color.a,
+      });
+      currentX += run.font.widthOfTextAtSize(run.text, fontSize);
+    }
+
+    currentY -= lineHeight;
+  }
+}
+
+// ============================================
+// Native annotation export
+// ============================================
+
+/** Annotation flag: print the annotation when the page is printed. */
+const ANNOTATION_FLAG_PRINT = 4;
+/** Annotation flags readers use for replies: print, no zoom, no rotate. */
+const ANNOTATION_FLAGS_REPLY = 28;
+/** Annotation flags for review states, which are not shown on the page. */
+const ANNOTATION_FLAGS_STATE = 30;
+/** Size of a note icon in points. */
+const NOTE_ICON_SIZE = 20;
+
+const toPdfColorArray = (color: { r: number; g: number; b: number }) => [
+  color.r,
+  color.g,
+  color.b,
+];
+
+const toPdfRectArray = ({ x, y, width, height }: PdfRect, padding = 0) => [
+  x - padding,
+  y - padding,
+  x + width + padding,
+  y + height + padding,
+];
+
+/**
+ * QuadPoints for a rectangle in visual space, in the order most readers
+ * expect: top-left, top-right, bottom-left, bottom-right (as displayed).
+ */
+const toQuadPoints = (matrix: Matrix, { x, y, width, height }: PdfRect) =>
+  [
+    transformPoint(matrix, x, y + height),
+    transformPoint(matrix, x + width, y + height),
+    transformPoint(matrix, x, y),
+    transformPoint(matrix, x + width, y),
+  ].flatMap((point) => [point.x, point.y]);
+
+/**
+ * Union of rectangles in PDF points.
+ */
+const unionPdfRects = (rects: PdfRect[]): PdfRect => {
+  const x1 = Math.min(...rects.map((r) => r.x));
+  const y1 = Math.min(...rects.map((r) => r.y));
+  const x2 = Math.max(...rects.map((r) => r.x + r.width));
+  const y2 = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+};
+
+const findCommentThread = (
+  highlight: ExportableHighlight,
+  options: ExportPdfOptions
+) =>
+  options.commentThreads?.find(
+    (thread) => thread.highlightId === highlight.id && thread.comments.length > 0
+  );
+
+/**
+ * Write the replies and resolved state of a thread as Text annotations in
+ * reply to (`/IRT`) the annotation holding the opening comment.
+ */
+function writeCommentReplies(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  parentRef: PDFRef,
+  parentRect: number[],
+  thread: CommentThreadData
+): void {
+  const { context } = pdfDoc;
+  const [, , x2, y2] = parentRect;
+  const rect = [x2, y2 - NOTE_ICON_SIZE, x2 + NOTE_ICON_SIZE, y2];
+
+  const addReply = (
+    id: string,
+    flags: number,
+    author: string | undefined,
+    date: string | undefined
+  ) => {
+    const reply = context.obj({
+      Type: "Annot",
+      Subtype: "Text",
+      F: flags,
+      Rect: rect,
+      IRT: parentRef,
+      RT: "R",
+      Name: "Comment",
+      Open: false,
+    });
+    reply.set(PDFName.of("NM"), PDFString.of(id));
+    if (author) reply.set(PDFName.of("T"), PDFHexString.fromText(author));
+    if (date) reply.set(PDFName.of("M"), PDFString.fromDate(new Date(date)));
+    const replyRef = context.register(reply);
+    page.node.addAnnot(replyRef);
+    return reply;
+  };
+
+  thread.comments.slice(1).forEach((comment) => {
+    const reply = addReply(
+      comment.id,
+      ANNOTATION_FLAGS_REPLY,
+      comment.author.name,
+      comment.updatedAt ?? comment.createdAt
+    );
+    reply.set(PDFName.of("Contents"), PDFHexString.fromText(comment.body));
+    reply.set(
+      PDFName.of("CreationDate"),
+      PDFString.fromDate(new Date(comment.createdAt))
+    );
+  });
+
+  if (thread.resolved) {
+    const state = addReply(
+      `${thread.id}-state`,
+      ANNOTATION_FLAGS_STATE,
+      thread.resolvedBy?.name,
+      thread.resolvedAt
+    );
+    state.set(PDFName.of("StateModel"), PDFString.of("Review"));
+    state.set(PDFName.of("State"), PDFString.of("Completed"));
+  }
+}
+
+/**
+ * Draw the appearance (`/AP /N`) of an annotation with the renderers of
+ * "flatten" mode, so readers that don't build appearances themselves show it
+ * as it looks on screen. The drawing is done on a scratch page like `page`,
+ * whose content stream becomes a form with the annotation's rectangle as its
+ * box.
+ */
+async function createAppearance(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  rect: number[],
+  draw: (target: PDFPage) => void | Promise<void>
+): Promise<PDFRef> {
+  const { context } = pdfDoc;
+  const target = PDFPage.create(pdfDoc);
+  const mediaBox = page.getMediaBox();
+  target.setMediaBox(mediaBox.x, mediaBox.y, mediaBox.width, mediaBox.height);
+  target.setRotation(page.getRotation());
+
+  target.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(...getVisualToRawMatrix(page))
+  );
+  await draw(target);
+  target.pushOperators(popGraphicsState());
+
+  // pdf-lib draws a new page into a single content stream
+  const streamRef = target.node.lookup(PDFName.of("Contents"), PDFArray).get(0);
+  const stream = context.lookup(streamRef, PDFStream);
+  stream.dict.set(PDFName.of("Type"), PDFName.of("XObject"));
+  stream.dict.set(PDFName.of("Subtype"), PDFName.of("Form"));
+  stream.dict.set(PDFName.of("BBox"), context.obj(rect));
+  stream.dict.set(PDFName.of("Resources"), target.node.Resources()!);
+  context.delete(target.ref);
+
+  return streamRef as PDFRef;
+}
+
+/**
+ * Register an annotation dictionary and attach it to the page. Common entries
+ * (id, author, modification date, comment popup and thread) are added here.
+ */
+function addAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  options: ExportPdfOptions,
+  entries: Record<string, unknown>
+): PDFRef {
+  const { context } = pdfDoc;
+
+  const annotation = context.obj({
+    Type: "Annot",
+    F: ANNOTATION_FLAG_PRINT,
+    ...entries,
+  });
+  annotation.set(PDFName.of("NM"), PDFString.of(highlight.id));
+  annotation.set(PDFName.of("M"), PDFString.fromDate(new Date()));
+  if (options.author) {
+    annotation.set(PDFName.of("T"), PDFHexString.fromText(options.author));
+  }
 
-  const color = parseColor(strokeColorStr);
+  // The opening comment of a thread is the annotation's own note
+  const thread = findCommentThread(highlight, options);
+  const openingComment = thread?.comments[0];
+  if (openingComment) {
+    annotation.set(
+      PDFName.of("T"),
+      PDFHexString.fromText(openingComment.author.name)
+    );
+    annotation.set(
+      PDFName.of("CreationDate"),
+      PDFString.fromDate(new Date(openingComment.createdAt))
+    );
+  }
+  const comment = openingComment?.body ?? highlight.comment;
+
+  const annotationRef = context.register(annotation);
+  page.node.addAnnot(annotationRef);
+
+  // Attach the comment as the annotation's popup note
+  if (comment && !annotation.has(PDFName.of("Contents"))) {
+    annotation.set(PDFName.of("Contents"), PDFHexString.fromText(comment));
+
+    const [, , x2, y2] = entries.Rect as number[];
+    const popup = context.obj({
+      Type: "Annot",
+      Subtype: "Popup",
+      Rect: [x2, y2 - 100, x2 + 200, y2],
+      Parent: annotationRef,
+      Open: false,
+    });
+    const popupRef = context.register(popup);
+    annotation.set(PDFName.of("Popup"), popupRef);
+    page.node.addAnnot(popupRef);
+  }
+
+  if (thread) {
+    writeCommentReplies(
+      pdfDoc,
+      page,
+      annotationRef,
+      entries.Rect as number[],
+      thread
+    );
+  }
+
+  return annotationRef;
+}
+
+/**
+ * Write a note icon at the top-right corner of a highlight, holding its
+ * comment thread. Used for flattened highlights, which are not annotations
+ * themselves.
+ */
+function writeCommentNote(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  options: ExportPdfOptions
+): void {
   const { x, y, width, height } = scaledToPdfPoints(
     highlight.position.boundingRect,
     page
   );
+  const icon = {
+    x: x + width,
+    y: y + height - NOTE_ICON_SIZE,
+    width: NOTE_ICON_SIZE,
+    height: NOTE_ICON_SIZE,
+  };
+
+  addAnnotation(pdfDoc, page, highlight, options, {
+    Subtype: "Text",
+    Rect: toPdfRectArray(transformRect(getVisualToRawMatrix(page), icon)),
+    Name: "Comment",
+    Open: false,
+  });
+}
+
+/**
+ * Write a text highlight as a Highlight, Underline or StrikeOut annotation,
+ * with one quadrilateral per line of text.
+ */
+async function writeTextAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  options: ExportPdfOptions
+): Promise<void> {
+  const color = parseColor(
+    highlight.highlightColor ||
+      options.textHighlightColor ||
+      "rgba(255, 226, 143, 0.5)"
+  );
+  const subtype = {
+    highlight: "Highlight",
+    underline: "Underline",
+    strikethrough: "StrikeOut",
+  }[highlight.highlightStyle || "highlight"];
+
+  const rects = (
+    highlight.position.rects.length > 0
+      ? highlight.position.rects
+      : [highlight.position.boundingRect]
+  ).map((rect) => scaledToPdfPoints(rect, page));
+  const matrix = getVisualToRawMatrix(page);
+  const rect = toPdfRectArray(transformRect(matrix, unionPdfRects(rects)));
+
+  addAnnotation(pdfDoc, page, highlight, options, {
+    Subtype: subtype,
+    Rect: rect,
+    QuadPoints: rects.flatMap((rect) => toQuadPoints(matrix, rect)),
+    C: toPdfColorArray(color),
+    CA: color.a,
+    AP: {
+      N: await createAppearance(pdfDoc, page, rect, (target) =>
+        renderTextHighlight(target, highlight, options)
+      ),
+    },
+  });
+}
+
+/**
+ * Write an area highlight as a Highlight annotation covering the area.
+ */
+async function writeAreaAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  options: ExportPdfOptions
+): Promise<void> {
+  const color = parseColor(
+    highlight.highlightColor ||
+      options.areaHighlightColor ||
+      "rgba(255, 226, 143, 0.5)"
+  );
+  const rect = scaledToPdfPoints(highlight.position.boundingRect, page);
+  const matrix = getVisualToRawMatrix(page);
+
+  const rawRect = toPdfRectArray(transformRect(matrix, rect));
+
+  addAnnotation(pdfDoc, page, highlight, options, {
+    Subtype: "Highlight",
+    Rect: rawRect,
+    QuadPoints: toQuadPoints(matrix, rect),
+    C: toPdfColorArray(color),
+    CA: color.a,
+    AP: {
+      N: await createAppearance(pdfDoc, page, rawRect, (target) =>
+        renderAreaHighlight(target, highlight, options)
+      ),
+    },
+  });
+}
+
+/**
+ * A measure dictionary in points times the scale of the measure, so readers
+ * show the length of a line or polyline in its unit.
+ */
+const toMeasureDictionary = ({ scale, unit, precision = 2 }: ShapeMeasure) => {
+  const numberFormat = (label: string, factor = 1) => ({
+    Type: "NumberFormat",
+    U: PDFString.of(label),
+    C: factor,
+    D: 10 ** precision,
+  });
+
+  return {
+    Type: "Measure",
+    Subtype: "RL",
+    R: PDFString.of(`1 pt = ${scale} ${unit}`),
+    X: [numberFormat(unit, scale)],
+    D: [numberFormat(unit)],
+    A: [numberFormat(`sq ${unit}`)],
+  };
+};
+
+/**
+ * Write a shape highlight as the annotation readers have for it: Square,
+ * Circle, Line, PolyLine, Polygon, a Polygon with a cloudy border, or a
+ * FreeText callout. Measured lines and polylines get a measure dictionary
+ * rather than a caption, which would replace the highlight's comment.
+ */
+async function writeShapeAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  options: ExportPdfOptions,
+  fonts: FreetextFonts,
+  characterSets: Map<PDFFont, Set<number>>
+): Promise<void> {
+  const shape = getShapeData(highlight);
+  const { shapeType, strokeWidth } = shape;
+  const color = parseColor(shape.strokeColor);
+  const rect = scaledToPdfPoints(highlight.position.boundingRect, page);
+  const matrix = getVisualToRawMatrix(page);
+  const rawRect = transformRect(matrix, rect);
 
+  // Note: PDF coordinates have Y going up, so we need to flip the Y
+  const points = getShapePoints(shape, rect.width, rect.height).map(
+    ({ x, y }) => transformPoint(matrix, rect.x + x, rect.y + rect.height - y)
+  );
+  const vertices = points.flatMap(({ x, y }) => [x, y]);
+  const { start, end } = getLineEndings(shape);
+
+  const entries: Record<string, unknown> = {
+    CA: color.a,
+    BS: shape.dashPattern?.length
+      ? {
+          Type: "Border",
+          W: strokeWidth,
+          S: "D",
+          D: shape.dashPattern.map((length) => length * strokeWidth),
+        }
+      : { Type: "Border", W: strokeWidth, S: "S" },
+  };
+  const fill = shape.fillColor && toPdfColorArray(parseColor(shape.fillColor));
+  if (shapeType === "callout") {
+    // Like other FreeText annotations, the background is in /C and the
+    // colors of the text and leader in /DA
+    if (fill) entries.C = fill;
+  } else {
+    entries.C = toPdfColorArray(color);
+    if (fill && isClosedShape(shapeType)) entries.IC = fill;
+  }
+  if (shape.measure && isMeasurableShape(shapeType)) {
+    entries.Measure = toMeasureDictionary(shape.measure);
+  }
+
+  let annotation: Record<string, unknown>;
   switch (shapeType) {
     case "rectangle":
-      page.drawRectangle({
-        x,
-        y,
-        width,
-        height,
-        borderColor: rgb(color.r, color.g, color.b),
-        borderWidth: strokeWidth,
-        opacity: color.a,
-      });
+    case "circle":
+      annotation = {
+        Subtype: shapeType === "circle" ? "Circle" : "Square",
+        Rect: toPdfRectArray(rawRect, strokeWidth / 2),
+        ...entries,
+      };
       break;
 
-    case "circle":
-      page.drawEllipse({
-        x: x + width / 2,
-        y: y + height / 2,
-        xScale: width / 2,
-        yScale: height / 2,
-        borderColor: rgb(color.r, color.g, color.b),
-        borderWidth: strokeWidth,
-        opacity: color.a,
-      });
+    case "polyline":
+    case "polygon":
+    case "cloud":
+      annotation = {
+        Subtype: shapeType === "polyline" ? "PolyLine" : "Polygon",
+        Rect: toPdfRectArray(rawRect),
+        Vertices: vertices,
+        ...(shapeType === "polyline" && {
+          LE: [PDF_LINE_ENDINGS[start], PDF_LINE_ENDINGS[end]],
+          ...(shape.measure && { IT: "PolyLineDimension" }),
+        }),
+        ...(shapeType === "cloud" && { BE: { S: "C", I: 1 } }),
+        ...entries,
+      };
       break;
 
-    case "arrow": {
-      // Use stored start/end points if available, otherwise default to left-to-right
-      const startPt = highlight.content?.shape?.startPoint;
-      const endPt = highlight.content?.shape?.endPoint;
-
-      // Calculate actual coordinates
-      // Note: PDF coordinates have Y going up, so we need to flip the Y
-      const startX = startPt ? x + startPt.x * width : x;
-      const startY = startPt ? y + (1 - startPt.y) * height : y + height / 2;
-      const endX = endPt ? x + endPt.x * width : x + width;
-      const endY = endPt ? y + (1 - endPt.y) * height : y + height / 2;
-
-      // Draw the main line
-      page.drawLine({
-        start: { x: startX, y: startY },
-        end: { x: endX, y: endY },
-        color: rgb(color.r, color.g, color.b),
-        thickness: strokeWidth,
-        opacity: color.a,
+    case "callout": {
+      // The text box, inset from the rectangle around the leader by /RD
+      const box = getCalloutBox(shape, rect.width, rect.height);
+      const rawBox = transformRect(matrix, {
+        x: rect.x + box.x,
+        y: rect.y + rect.height - box.y - box.height,
+        width: box.width,
+        height: box.height,
       });
+      const yRatio =
+        getVisualSize(page).height / highlight.position.boundingRect.height;
+      const fontSize = CALLOUT_FONT_SIZE * yRatio;
+      const rgbOperands = [color.r, color.g, color.b]
+        .map((value) => value.toFixed(3))
+        .join(" ");
+      const rotation = normalizeRotation(page.getRotation().angle);
 
-      // Calculate arrowhead direction
-      const angle = Math.atan2(endY - startY, endX - startX);
-      const arrowSize = Math.min(15, width * 0.2, height * 0.4);
-      const arrowAngle = Math.PI / 6; // 30 degrees
-
-      // Draw arrowhead (two lines forming a V at the end)
-      page.drawLine({
-        start: {
-          x: endX - arrowSize * Math.cos(angle - arrowAngle),
-          y: endY - arrowSize * Math.sin(angle - arrowAngle),
-        },
-        end: { x: endX, y: endY },
-        color: rgb(color.r, color.g, color.b),
-        thickness: strokeWidth,
-        opacity: color.a,
-      });
-      page.drawLine({
-        start: {
-          x: endX - arrowSize * Math.cos(angle + arrowAngle),
-          y: endY - arrowSize * Math.sin(angle + arrowAngle),
-        },
-        end: { x: endX, y: endY },
-        color: rgb(color.r, color.g, color.b),
-        thickness: strokeWidth,
-        opacity: color.a,
-      });
+      annotation = {
+        Subtype: "FreeText",
+        IT: "FreeTextCallout",
+        Rect: toPdfRectArray(rawRect),
+        RD: [
+          rawBox.x - rawRect.x,
+          rawBox.y - rawRect.y,
+          rawRect.x + rawRect.width - rawBox.x - rawBox.width,
+          rawRect.y + rawRect.height - rawBox.y - rawBox.height,
+        ],
+        CL: vertices,
+        LE: PDF_LINE_ENDINGS[start],
+        DA: PDFString.of(
+          `/Helv ${fontSize.toFixed(2)} Tf ${rgbOperands} rg ${rgbOperands} RG`
+        ),
+        Contents: PDFHexString.fromText(shape.text || ""),
+        ...entries,
+        // Keep the text upright on rotated pages
+        ...(rotation !== 0 && { Rotate: rotation }),
+      };
       break;
     }
+
+    default:
+      // Lines and arrows
+      annotation = {
+        Subtype: "Line",
+        Rect: toPdfRectArray(rawRect, strokeWidth * 4),
+        L: vertices,
+        LE: [PDF_LINE_ENDINGS[start], PDF_LINE_ENDINGS[end]],
+        ...(shape.measure && { IT: "LineDimension" }),
+        ...entries,
+      };
+  }
+
+  addAnnotation(pdfDoc, page, highlight, options, {
+    ...annotation,
+    AP: {
+      N: await createAppearance(
+        pdfDoc,
+        page,
+        annotation.Rect as number[],
+        (target) =>
+          renderShapeHighlight(target, highlight, fonts, characterSets)
+      ),
+    },
+  });
+}
+
+/**
+ * Write a freetext highlight as a FreeText annotation. The text color and
+ * size are stored in the default appearance string, the background in `/C`.
+ */
+async function writeFreetextAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  options: ExportPdfOptions,
+  fonts: FreetextFonts,
+  characterSets: Map<PDFFont, Set<number>>,
+  log: Logger
+): Promise<void> {
+  const textColor = parseColor(
+    highlight.color || options.defaultFreetextColor || "#333333"
+  );
+  const rect = scaledToPdfPoints(highlight.position.boundingRect, page);
+  const rotation = normalizeRotation(page.getRotation().angle);
+
+  // Scale font size by the same ratio used for the box coordinates
+  const yRatio =
+    getVisualSize(page).height / highlight.position.boundingRect.height;
+  const storedFontSize =
+    parseInt(highlight.fontSize || "") || options.defaultFreetextFontSize || 14;
+  const fontSize = storedFontSize * yRatio;
+
+  const bgColorValue = highlight.backgroundColor || options.defaultFreetextBgColor || "#ffffc8";
+  const entries: Record<string, unknown> = {
+    Subtype: "FreeText",
+    Rect: toPdfRectArray(transformRect(getVisualToRawMatrix(page), rect)),
+    DA: PDFString.of(
+      `/Helv ${fontSize.toFixed(2)} Tf ${textColor.r.toFixed(3)} ${textColor.g.toFixed(3)} ${textColor.b.toFixed(3)} rg`
+    ),
+    BS: { Type: "Border", W: 0 },
+    Contents: PDFHexString.fromText(highlight.content?.text || ""),
+  };
+
+  if (bgColorValue !== "transparent") {
+    entries.C = toPdfColorArray(parseColor(bgColorValue));
+  }
+  // Keep the text upright on rotated pages
+  if (rotation !== 0) {
+    entries.Rotate = rotation;
+  }
+  entries.AP = {
+    N: await createAppearance(
+      pdfDoc,
+      page,
+      entries.Rect as number[],
+      (target) =>
+        renderFreetextHighlight(
+          target,
+          highlight,
+          options,
+          fonts,
+          characterSets,
+          log
+        )
+    ),
+  };
+
+  addAnnotation(pdfDoc, page, highlight, options, entries);
+}
+
+/**
+ * Write a drawing or signature as Ink annotations. Strokes are grouped by
+ * color, width and tool since an Ink annotation only has one of each, so
+ * strokes with pressure get their width at half pressure. Like in XFDF, the
+ * annotations after the first are named `${id}-2`, `${id}-3`… and only the
+ * first holds the comment.
+ * Falls back to a stamp when no stroke data is available.
+ */
+async function writeDrawingAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  options: ExportPdfOptions,
+  log: Logger
+): Promise<void> {
+  const strokes = highlight.content?.strokes;
+  if (!strokes || strokes.length === 0) {
+    await writeImageAnnotation(pdfDoc, page, highlight, options, log);
+    return;
+  }
+
+  const rect = scaledToPdfPoints(highlight.position.boundingRect, page);
+  const matrix = getVisualToRawMatrix(page);
+  const scale = getStrokeScale(highlight, rect);
+
+  const groups = new Map<string, DrawingStroke[]>();
+  for (const stroke of strokes) {
+    const key = `${stroke.color}|${stroke.width}|${stroke.tool ?? "pen"}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(stroke);
+  }
+
+  const rawRect = toPdfRectArray(transformRect(matrix, rect));
+  const groupList = Array.from(groups.values());
+
+  for (const [index, group] of groupList.entries()) {
+    const color = parseColor(group[0].color);
+    const opacity =
+      group[0].tool === "highlighter" ? color.a * HIGHLIGHTER_OPACITY : color.a;
+    // Stroke points are relative to the top-left of the bounding box
+    const inkList = group.map((stroke) =>
+      stroke.points.flatMap((point) => {
+        const { x, y } = transformPoint(
+          matrix,
+          rect.x + point.x * scale.x,
+          rect.y + rect.height - point.y * scale.y
+        );
+        return [x, y];
+      })
+    );
+
+    // Without the comment's id, later groups get no popup or replies
+    const part =
+      index === 0
+        ? highlight
+        : {
+            ...highlight,
+            id: `${highlight.id}-${index + 1}`,
+            comment: undefined,
+          };
+
+    addAnnotation(pdfDoc, page, part, options, {
+      Subtype: "Ink",
+      Rect: rawRect,
+      InkList: inkList,
+      C: toPdfColorArray(color),
+      CA: opacity,
+      BS: { Type: "Border", W: group[0].width * scale.width, S: "S" },
+      AP: {
+        N: await createAppearance(pdfDoc, page, rawRect, (target) =>
+          renderStrokes(target, highlight, group)
+        ),
+      },
+    });
+  }
+}
+
+/**
+ * Write an image highlight as a Stamp annotation whose appearance is the image.
+ */
+async function writeImageAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  options: ExportPdfOptions,
+  log: Logger
+): Promise<void> {
+  const imageDataUrl = highlight.content?.image;
+  if (!imageDataUrl) return;
+
+  try {
+    const { bytes, type } = dataUrlToBytes(imageDataUrl);
+    const image =
+      type === "png"
+        ? await pdfDoc.embedPng(bytes)
+        : await pdfDoc.embedJpg(bytes);
+
+    const rect = scaledToPdfPoints(highlight.position.boundingRect, page);
+    const matrix = getVisualToRawMatrix(page);
+    const appearance = pdfDoc.context.formXObject(
+      [
+        pushGraphicsState(),
+        concatTransformationMatrix(rect.width, 0, 0, rect.height, 0, 0),
+        drawObject("Im0"),
+        popGraphicsState(),
+      ],
+      {
+        BBox: [0, 0, rect.width, rect.height],
+        // Rotate the appearance with the page, so the image stays upright
+        Matrix: [...matrix.slice(0, 4), 0, 0],
+        Resources: { XObject: { Im0: image.ref } },
+      }
+    );
+
+    addAnnotation(pdfDoc, page, highlight, options, {
+      Subtype: "Stamp",
+      Rect: toPdfRectArray(transformRect(matrix, rect)),
+      AP: { N: pdfDoc.context.register(appearance) },
+    });
+  } catch (error) {
+    log.warn("[exportPdf] Failed to embed image, leaving it out", error);
+  }
+}
+
+/**
+ * Write a highlight as a native PDF annotation.
+ */
+async function writeAnnotation(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  highlight: ExportableHighlight,
+  options: ExportPdfOptions,
+  fonts: FreetextFonts,
+  characterSets: Map<PDFFont, Set<number>>,
+  log: Logger
+): Promise<void> {
+  switch (highlight.type) {
+    case "text":
+      await writeTextAnnotation(pdfDoc, page, highlight, options);
+      break;
+    case "freetext":
+      await writeFreetextAnnotation(
+        pdfDoc,
+        page,
+        highlight,
+        options,
+        fonts,
+        characterSets,
+        log
+      );
+      break;
+    case "image":
+    case "drawing":
+      // Images with strokes are signatures
+      await writeDrawingAnnotation(pdfDoc, page, highlight, options, log);
+      break;
+    case "shape":
+      await writeShapeAnnotation(
+        pdfDoc,
+        page,
+        highlight,
+        options,
+        fonts,
+        characterSets
+      );
+      break;
+    default:
+      // Area and untyped highlights
+      await writeAreaAnnotation(pdfDoc, page, highlight, options);
   }
 }
 
 /**
  * Export a PDF with annotations embedded.
  *
+ * By default highlights are flattened into the page content. Set
+ * `mode: "annotations"` to write them as native PDF annotations (Highlight,
+ * Underline, StrikeOut, Square, Circle, Line, Ink, FreeText and Stamp) that
+ * can be edited in other PDF readers. Their appearance streams are drawn like
+ * the flattened highlights.
+ *
  * @param pdfSource - The source PDF as a URL string, Uint8Array, or ArrayBuffer
  * @param highlights - Array of highlights to embed in the PDF
  * @param options - Export options for customizing colors and behavior
@@ -643,9 +1850,13 @@ export async function exportPdf(
         : pdfSource;
   }
 
+  const log = createLogger(options.logLevel, options.logger);
   const pdfDoc = await PDFDocument.load(pdfBytes);
   const pages = pdfDoc.getPages();
-  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const writeAnnotations = options.mode === "annotations";
+  // Annotations are drawn with the same fonts for their appearances
+  const fonts = await embedFreetextFonts(pdfDoc, options);
+  const characterSets = new Map<PDFFont, Set<number>>();
 
   // Group by page and render
   const byPage = groupByPage(highlights);
@@ -656,7 +1867,28 @@ export async function exportPdf(
     const page = pages[pageNum - 1]; // 1-indexed to 0-indexed
     if (!page) continue;
 
+    // Draw in visual space, so highlights land where they were shown
+    if (!writeAnnotations) {
+      page.pushOperators(
+        pushGraphicsState(),
+        concatTransformationMatrix(...getVisualToRawMatrix(page))
+      );
+    }
+
     for (const highlight of pageHighlights) {
+      if (writeAnnotations) {
+        await writeAnnotation(
+          pdfDoc,
+          page,
+          highlight,
+          options,
+          fonts,
+          characterSets,
+          log
+        );
+        continue;
+      }
+
       switch (highlight.type) {
         case "text":
           await renderTextHighlight(page, highlight, options);
@@ -665,17 +1897,27 @@ export async function exportPdf(
           await renderAreaHighlight(page, highlight, options);
           break;
         case "freetext":
-          await renderFreetextHighlight(page, highlight, options, font);
+          await renderFreetextHighlight(
+            page,
+            highlight,
+            options,
+            fonts,
+            characterSets,
+            log
+          );
           break;
         case "image":
-          await renderImageHighlight(pdfDoc, page, highlight);
-          break;
         case "drawing":
-          // Drawings are stored as PNG images, reuse image highlight rendering
-          await renderImageHighlight(pdfDoc, page, highlight);
+          // Drawings and signatures with strokes are drawn as vectors,
+          // otherwise as their PNG image
+          if (highlight.content?.strokes?.length) {
+            renderStrokes(page, highlight, highlight.content.strokes);
+          } else {
+            await renderImageHighlight(pdfDoc, page, highlight, log);
+          }
           break;
         case "shape":
-          await renderShapeHighlight(page, highlight);
+          renderShapeHighlight(page, highlight, fonts, characterSets);
           break;
         default:
           // Default to area highlight for backwards compatibility
@@ -683,9 +1925,32 @@ export async function exportPdf(
       }
     }
 
+    if (!writeAnnotations) {
+      page.pushOperators(popGraphicsState());
+
+      pageHighlights
+        .filter((highlight) => findCommentThread(highlight, options))
+        .forEach((highlight) =>
+          writeCommentNote(pdfDoc, page, highlight, options)
+        );
+    }
+
     currentPage++;
     options.onProgress?.(currentPage, totalPages);
+    options.emitter?.emit("export:progress", {
+      current: currentPage,
+      total: totalPages,
+    });
   }
 
+  // Rotate pages after drawing, as highlights are relative to the original rotation
+  Object.entries(options.pageRotations || {}).forEach(([pageNum, angle]) => {
+    const page = pages[Number(pageNum) - 1];
+    if (!page || normalizeRotation(angle) === 0) return;
+    page.setRotation(
+      degrees(normalizeRotation(page.getRotation().angle + angle))
+    );
+  });
+
   return pdfDoc.save();
 }
@@ -0,0 +1,79 @@
+import type { PDFDocumentProxy, PageViewport } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+/**
+ * A page of {@link createFakePdfDocument}, in PDF points.
+ */
+export type FakePage = {
+  width: number;
+  height: number;
+  /** Clockwise rotation of the page, a multiple of 90. Default: 0 */
+  rotation?: number;
+  textItems?: TextItem[];
+};
+
+// The viewport transforms of PDF.js at scale 1, by page rotation
+const getTransform = (width: number, height: number, rotation: number) =>
+  ({
+    0: [1, 0, 0, -1, 0, height],
+    90: [0, 1, 1, 0, 0, 0],
+    180: [-1, 0, 0, 1, width, 0],
+    270: [0, -1, -1, 0, height, width],
+  })[rotation] ?? [1, 0, 0, -1, 0, height];
+
+/**
+ * A viewport at scale 1 converting coordinates like PDF.js' `PageViewport`,
+ * which cannot be loaded outside a browser.
+ */
+export const createFakeViewport = ({
+  width,
+  height,
+  rotation = 0,
+}: FakePage): PageViewport => {
+  const [a, b, c, d, e, f] = getTransform(width, height, rotation);
+  const determinant = a * d - b * c;
+  const toViewport = (x: number, y: number) => [
+    a * x + c * y + e,
+    b * x + d * y + f,
+  ];
+  const toPdf = (x: number, y: number) => [
+    (d * (x - e) - c * (y - f)) / determinant,
+    (a * (y - f) - b * (x - e)) / determinant,
+  ];
+  const isQuarterTurn = rotation % 180 !== 0;
+
+  return {
+    width: isQuarterTurn ? height : width,
+    height: isQuarterTurn ? width : height,
+    scale: 1,
+    rotation,
+    viewBox: [0, 0, width, height],
+    transform: [a, b, c, d, e, f],
+    convertToViewportPoint: toViewport,
+    convertToPdfPoint: toPdf,
+    convertToViewportRectangle: ([x1, y1, x2, y2]: number[]) => [
+      ...toViewport(x1, y1),
+      ...toViewport(x2, y2),
+    ],
+  } as unknown as PageViewport;
+};
+
+/**
+ * A PDF.js document with the pages' viewports and text content, for testing
+ * the conversions between highlights and annotations.
+ */
+export const createFakePdfDocument = (pages: FakePage[]): PDFDocumentProxy =>
+  ({
+    numPages: pages.length,
+    getPage: async (pageNumber: number) => {
+      const page = pages[pageNumber - 1];
+      return {
+        pageNumber,
+        getViewport: () => createFakeViewport(page),
+        getTextContent: async () => ({
+          items: page.textItems ?? [],
+          styles: {},
+        }),
+      };
+    },
+  }) as unknown as PDFDocumentProxy;
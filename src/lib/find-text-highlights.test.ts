@@ -0,0 +1,102 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { describe, expect, it } from "vitest";
+import { createFakePdfDocument } from "./fake-pdf-document";
+import { buildPattern, findTextHighlights } from "./find-text-highlights";
+
+// One line of 10 point text per item, with every character 5 points wide
+const textItem = (str: string, line: number): TextItem => ({
+  str,
+  dir: "ltr",
+  transform: [10, 0, 0, 10, 50, 700 - line * 20],
+  width: str.length * 5,
+  height: 10,
+  fontName: "Helvetica",
+  hasEOL: true,
+});
+
+const pdfDocument = createFakePdfDocument([
+  {
+    width: 600,
+    height: 800,
+    textItems: [
+      textItem("Total due: 120 EUR", 0),
+      textItem("Subtotal: 100 EUR", 1),
+      textItem("total paid: 20 EUR", 2),
+    ],
+  },
+]);
+
+const findTexts = async (query: string, caseSensitive = false) =>
+  (
+    await findTextHighlights(pdfDocument, query, { regex: true, caseSensitive })
+  ).map(({ content }) => content.text);
+
+describe("findTextHighlights with regular expressions", () => {
+  it("matches anchors against each line", async () => {
+    expect(await findTexts("^total", true)).toEqual(["total"]);
+    expect(await findTexts("^total")).toEqual(["Total", "total"]);
+    expect(await findTexts("EUR$")).toEqual(["EUR", "EUR", "EUR"]);
+  });
+
+  it("matches lookarounds without including them", async () => {
+    expect(await findTexts("(?<=Subtotal: )\\d+")).toEqual(["100"]);
+    expect(await findTexts("\\d+(?= EUR)")).toEqual(["120", "100", "20"]);
+  });
+
+  it("places each match over its characters", async () => {
+    const [match] = await findTextHighlights(pdfDocument, "due", {
+      regex: true,
+    });
+
+    // "due" starts at the 7th character of the first line
+    expect(match.position.boundingRect).toMatchObject({
+      x1: 80,
+      x2: 95,
+      pageNumber: 1,
+    });
+  });
+});
+
+describe("findTextHighlights of whole words", () => {
+  const wordsDocument = createFakePdfDocument([
+    {
+      width: 600,
+      height: 800,
+      textItems: [
+        textItem("Subtotal: 100 EUR", 0),
+        textItem("Net-total: 100 EUR, ex-VAT", 1),
+      ],
+    },
+  ]);
+
+  const findWords = async (query: string | RegExp, regex = false) =>
+    (
+      await findTextHighlights(wordsDocument, query, { regex, wholeWord: true })
+    ).map(({ content }) => content.text);
+
+  it("matches words that aren't part of longer words", async () => {
+    expect(await findWords("total")).toEqual(["total"]);
+    expect(await findWords("tot")).toEqual([]);
+  });
+
+  it("keeps the flags of a RegExp without the u flag", async () => {
+    // \- is an error with the u flag
+    const pattern = buildPattern(/net\-total/i, { wholeWord: true });
+
+    expect(pattern.flags).toBe("gi");
+    expect(await findWords(/net\-total/i)).toEqual(["Net-total"]);
+    expect(await findWords(/ex\-VAT/)).toEqual(["ex-VAT"]);
+  });
+
+  it("accepts string patterns that are invalid with the u flag", async () => {
+    expect(await findWords("ex\\-vat", true)).toEqual(["ex-VAT"]);
+  });
+
+  it("finds words of any script with the u flag", async () => {
+    const pattern = buildPattern("café", { wholeWord: true });
+
+    expect(pattern.flags).toContain("u");
+    expect("cafés café".match(pattern)).toEqual(["café"]);
+    expect(buildPattern(/é/u, { wholeWord: true }).test("café")).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import type { GhostHighlight, SearchOptions } from "../types";
+import { viewportToScaled } from "./coordinates";
+import getBoundingRect from "./get-bounding-rect";
+import { getPageText, getTextRangeRects, PageText } from "./text-content";
+
+/**
+ * Options for {@link findTextHighlights}.
+ *
+ * @category Type
+ */
+export interface FindTextHighlightsOptions extends SearchOptions {
+  /** Only search these pages (1-indexed). Default: all pages */
+  pageNumbers?: number[];
+  /** Stop after this many matches. Default: no limit */
+  maxMatches?: number;
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Whether a pattern is also valid with the `u` flag, which is stricter. */
+const isUnicodeCompatible = (source: string, flags: string) => {
+  try {
+    new RegExp(source, `${flags}u`);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The global regular expression matching a query with the given options.
+ * Throws if a string query is an invalid regular expression.
+ */
+export const buildPattern = (
+  query: string | RegExp,
+  { caseSensitive = false, wholeWord = false, regex = false }: SearchOptions,
+): RegExp => {
+  let source: string;
+  let flags: string;
+
+  if (query instanceof RegExp) {
+    source = query.source;
+    flags = query.flags.includes("g") ? query.flags : `${query.flags}g`;
+  } else {
+    source = regex ? query : escapeRegExp(query);
+    // ^ and $ match at the line breaks of the page text
+    flags = caseSensitive ? "gm" : "gim";
+  }
+
+  if (wholeWord) {
+    // Unicode-aware word boundaries, as \b only knows about ASCII. They need
+    // the u flag, which rejects escapes like \- that other patterns accept,
+    // so a RegExp keeps its flags and gets ASCII boundaries without it, as
+    // does a string pattern that is invalid with it.
+    const isUnicode =
+      query instanceof RegExp
+        ? /[uv]/.test(flags)
+        : isUnicodeCompatible(source, flags);
+    const word = isUnicode ? "[\\p{L}\\p{N}_]" : "\\w";
+    source = `(?<!${word})(?:${source})(?!${word})`;
+    if (isUnicode && !/[uv]/.test(flags)) flags += "u";
+  }
+
+  return new RegExp(source, flags);
+};
+
+/**
+ * Turn the matches of a pattern in a page's text into text
+ * {@link GhostHighlight}s. Matches of only whitespace are skipped.
+ *
+ * @param pageText - The page's text, e.g. from `getPageText`.
+ * @param pattern - A global regular expression, see {@link buildPattern}.
+ */
+export function* matchPageText(
+  pageText: PageText,
+  pattern: RegExp,
+): Generator<GhostHighlight> {
+  const { viewport } = pageText;
+
+  for (const match of pageText.text.matchAll(pattern)) {
+    if (!match[0].trim() || match.index === undefined) continue;
+
+    const rects = getTextRangeRects(
+      pageText,
+      match.index,
+      match.index + match[0].length,
+    );
+    if (rects.length === 0) continue;
+
+    yield {
+      type: "text",
+      content: { text: match[0].split("\n").join(" ") }, // Make all line breaks spaces
+      position: {
+        boundingRect: viewportToScaled(getBoundingRect(rects), viewport),
+        rects: rects.map((rect) => viewportToScaled(rect, viewport)),
+      },
+    };
+  }
+}
+
+/**
+ * Find every match of a query in the document and turn them into text
+ * {@link GhostHighlight}s, e.g. to highlight all occurrences of a term.
+ * Text is read with PDF.js, so this works for pages the viewer has not
+ * rendered yet.
+ *
+ * @param pdfDocument - The PDF.js document to search.
+ * @param query - Text to search for, or a regular expression. Strings are
+ * treated as regular expressions when `options.regex` is set.
+ * @param options - Search options.
+ * @returns Promise<GhostHighlight[]> - One highlight per match, with a rect
+ * per line fragment.
+ *
+ * @category Function
+ */
+export async function findTextHighlights(
+  pdfDocument: PDFDocumentProxy,
+  query: string | RegExp,
+  options: FindTextHighlightsOptions = {},
+): Promise<GhostHighlight[]> {
+  const { maxMatches = Infinity } = options;
+  if (!query) return [];
+
+  const pattern = buildPattern(query, options);
+  const pageNumbers =
+    options.pageNumbers ??
+    Array.from({ length: pdfDocument.numPages }, (_, index) => index + 1);
+  const highlights: GhostHighlight[] = [];
+
+  for (const pageNumber of pageNumbers) {
+    if (pageNumber < 1 || pageNumber > pdfDocument.numPages) continue;
+
+    const page = await pdfDocument.getPage(pageNumber);
+
+    for (const highlight of matchPageText(await getPageText(page), pattern)) {
+      highlights.push(highlight);
+      if (highlights.length >= maxMatches) return highlights;
+    }
+  }
+
+  return highlights;
+}
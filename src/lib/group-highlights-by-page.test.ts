@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+import { Highlight, HighlightBindings, Scaled } from "../types";
+import groupHighlightsByPage from "./group-highlights-by-page";
+import { getViewerVisiblePageNumbers } from "./pdfjs-dom";
+import { isRenderedLayerUnchanged, RenderedLayer } from "./rendered-layer";
+
+const PAGE_COUNT = 500;
+const HIGHLIGHT_COUNT = 10_000;
+
+// Generous enough for a slow CI machine, tight enough to catch grouping or
+// layer comparison that goes quadratic.
+const TIME_BUDGET_MS = 1000;
+
+const rect = (pageNumber: number, y1: number): Scaled => ({
+  x1: 50,
+  y1,
+  x2: 250,
+  y2: y1 + 12,
+  width: 600,
+  height: 800,
+  pageNumber,
+});
+
+const createHighlights = (): Highlight[] =>
+  Array.from({ length: HIGHLIGHT_COUNT }, (_, index) => {
+    const pageNumber = (index % PAGE_COUNT) + 1;
+    const y1 = (index % 50) * 15;
+
+    // Every 100th highlight continues on the next page
+    const rects =
+      index % 100 === 0 && pageNumber < PAGE_COUNT
+        ? [rect(pageNumber, y1), rect(pageNumber + 1, 0)]
+        : [rect(pageNumber, y1)];
+
+    return {
+      id: String(index),
+      type: "text",
+      position: { boundingRect: rects[0], rects },
+    };
+  });
+
+const bindings = Array.from(
+  { length: PAGE_COUNT + 1 },
+  () => ({}) as HighlightBindings,
+);
+const viewport = {};
+
+/**
+ * Stands in for PdfHighlighter's render pass, which needs a browser: build
+ * each page's layer like `renderHighlightLayer` and count the pages that
+ * would be re-rendered. Only the bookkeeping is timed, not React rendering.
+ */
+const renderPass = (
+  highlightsByPage: ReturnType<typeof groupHighlightsByPage>,
+  renderedLayers: { [pageNumber: number]: RenderedLayer },
+  pageNumbers: number[],
+) => {
+  let rendered = 0;
+  for (const pageNumber of pageNumbers) {
+    const layer: RenderedLayer = {
+      highlightBindings: bindings[pageNumber],
+      highlights: highlightsByPage[pageNumber] || [],
+      viewport,
+      scrolledToHighlightId: null,
+      selectedHighlightIds: "",
+      collaborators: [],
+      searchMatches: [],
+      selectedSearchMatch: null,
+      children: null,
+    };
+    if (isRenderedLayerUnchanged(renderedLayers[pageNumber], layer)) continue;
+
+    renderedLayers[pageNumber] = layer;
+    rendered++;
+  }
+  return rendered;
+};
+
+const allPageNumbers = Array.from(
+  { length: PAGE_COUNT },
+  (_, index) => index + 1,
+);
+
+describe("highlight layer bookkeeping with 10k highlights over 500 pages", () => {
+  it("groups every highlight onto each of its pages within budget", () => {
+    const highlights = createHighlights();
+
+    const start = performance.now();
+    const highlightsByPage = groupHighlightsByPage([...highlights, null]);
+    const elapsed = performance.now() - start;
+
+    expect(elapsed).toBeLessThan(TIME_BUDGET_MS);
+    expect(Object.keys(highlightsByPage)).toHaveLength(PAGE_COUNT);
+
+    const total = allPageNumbers.reduce(
+      (sum, pageNumber) => sum + highlightsByPage[pageNumber].length,
+      0,
+    );
+    const multiPageCount = highlights.filter(
+      ({ position }) => position.rects.length > 1,
+    ).length;
+    expect(total).toBe(HIGHLIGHT_COUNT + multiPageCount);
+
+    // Single-page highlights keep their identity, multi-page ones are split
+    expect(highlightsByPage[2]).toContain(highlights[1]);
+    const split = highlightsByPage[2].find(({ position }) =>
+      position.rects.every((rect) => rect.pageNumber === 2 && rect.y1 === 0),
+    );
+    expect(split?.position.rects).toEqual([rect(2, 0)]);
+
+    // Regrouping the same highlights gives the same split objects
+    expect(groupHighlightsByPage([...highlights])[2]).toContain(split);
+  });
+
+  it("re-renders only the page of a changed highlight", () => {
+    const highlights = createHighlights();
+    const renderedLayers: { [pageNumber: number]: RenderedLayer } = {};
+
+    expect(
+      renderPass(
+        groupHighlightsByPage(highlights),
+        renderedLayers,
+        allPageNumbers,
+      ),
+    ).toBe(PAGE_COUNT);
+
+    // Change a single-page highlight on page 251
+    const next = [...highlights];
+    next[250] = { ...next[250], content: { text: "changed" } };
+    const highlightsByPage = groupHighlightsByPage(next);
+
+    const start = performance.now();
+    const rendered = renderPass(
+      highlightsByPage,
+      renderedLayers,
+      allPageNumbers,
+    );
+    const elapsed = performance.now() - start;
+
+    // Pages holding part of an unchanged multi-page highlight are skipped
+    expect(rendered).toBe(1);
+    expect(elapsed).toBeLessThan(TIME_BUDGET_MS);
+
+    // Nothing changed since, so nothing is re-rendered
+    expect(renderPass(highlightsByPage, renderedLayers, allPageNumbers)).toBe(
+      0,
+    );
+
+    // A changed multi-page highlight re-renders each of its pages
+    next[100] = { ...next[100], content: { text: "changed" } };
+    expect(
+      renderPass(groupHighlightsByPage(next), renderedLayers, allPageNumbers),
+    ).toBe(2);
+  });
+
+  it("takes the visible pages from the viewer without measuring every page", () => {
+    const pageViews = allPageNumbers.map((id) => ({
+      id,
+      div: {
+        getBoundingClientRect: (): DOMRect => {
+          throw new Error(`Measured page ${id}`);
+        },
+      } as HTMLElement,
+    }));
+    const viewer = {
+      container: {} as HTMLElement,
+      pagesCount: PAGE_COUNT,
+      getPageView: (index: number) => pageViews[index],
+      // Sorted by how much of each page is visible
+      _getVisiblePages: () => ({
+        views: [{ id: 101 }, { id: 100 }, { id: 102 }],
+      }),
+    };
+
+    expect(getViewerVisiblePageNumbers(viewer)).toEqual([100, 101, 102]);
+  });
+
+  it("renders only the pages overlapping the scroll container", () => {
+    const PAGE_HEIGHT = 800;
+    const toDomRect = (top: number, height: number) =>
+      ({
+        top,
+        bottom: top + height,
+        left: 0,
+        right: 600,
+        width: 600,
+        height,
+      }) as DOMRect;
+
+    // Scrolled to page 100, with a window showing two and a half pages
+    const scrollTop = 99 * PAGE_HEIGHT;
+    const container = {
+      getBoundingClientRect: () => toDomRect(0, PAGE_HEIGHT * 2.5),
+    } as HTMLElement;
+    const pageViews = allPageNumbers.map((id) => ({
+      id,
+      div: {
+        getBoundingClientRect: () =>
+          toDomRect((id - 1) * PAGE_HEIGHT - scrollTop, PAGE_HEIGHT),
+      } as HTMLElement,
+    }));
+
+    // Without the viewer's lookup, every page is measured
+    const visiblePageNumbers = getViewerVisiblePageNumbers({
+      container,
+      pagesCount: PAGE_COUNT,
+      getPageView: (index) => pageViews[index],
+    });
+    expect(visiblePageNumbers).toEqual([100, 101, 102]);
+
+    const renderedLayers: { [pageNumber: number]: RenderedLayer } = {};
+    expect(
+      renderPass(
+        groupHighlightsByPage(createHighlights()),
+        renderedLayers,
+        visiblePageNumbers,
+      ),
+    ).toBe(3);
+  });
+});
@@ -4,6 +4,35 @@ type GroupedHighlights = {
   [pageNumber: number]: Array<Highlight | GhostHighlight>;
 };
 
+// The page-specific copies of multi-page highlights, kept as long as their
+// highlight, so regrouping gives the same copies for unchanged highlights.
+const splitHighlights = new WeakMap<
+  Highlight | GhostHighlight,
+  { [pageNumber: number]: Highlight | GhostHighlight }
+>();
+
+const getPageSpecificHighlight = (
+  highlight: Highlight | GhostHighlight,
+  pageNumber: number,
+): Highlight | GhostHighlight => {
+  let splits = splitHighlights.get(highlight);
+  if (!splits) {
+    splits = {};
+    splitHighlights.set(highlight, splits);
+  }
+
+  splits[pageNumber] ||= {
+    ...highlight,
+    position: {
+      ...highlight.position,
+      rects: highlight.position.rects.filter(
+        (rect) => pageNumber === rect.pageNumber,
+      ),
+    },
+  };
+  return splits[pageNumber];
+};
+
 const groupHighlightsByPage = (
   highlights: Array<Highlight | GhostHighlight | null>,
 ): GroupedHighlights =>
@@ -11,23 +40,24 @@ const groupHighlightsByPage = (
     if (!highlight) {
       return acc;
     }
-    const pageNumbers = [
-      highlight.position.boundingRect.pageNumber,
-      ...highlight.position.rects.map((rect) => rect.pageNumber || 0),
-    ];
+    const { boundingRect, rects } = highlight.position;
+    const pageNumbers = new Set([
+      boundingRect.pageNumber,
+      ...rects.map((rect) => rect.pageNumber || 0),
+    ]);
 
     pageNumbers.forEach((pageNumber) => {
       acc[pageNumber] ||= [];
-      const pageSpecificHighlight = {
-        ...highlight,
-        position: {
-          ...highlight.position,
-          rects: highlight.position.rects.filter(
-            (rect) => pageNumber === rect.pageNumber,
-          ),
-        },
-      };
-      acc[pageNumber].push(pageSpecificHighlight);
+
+      // Keep single-page highlights as they are, and reuse the copies of
+      // multi-page ones, so unchanged pages can be detected by identity and
+      // skipped when re-rendering.
+      if (rects.every((rect) => rect.pageNumber === pageNumber)) {
+        acc[pageNumber].push(highlight);
+        return;
+      }
+
+      acc[pageNumber].push(getPageSpecificHighlight(highlight, pageNumber));
     });
 
     return acc;
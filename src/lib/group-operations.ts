@@ -0,0 +1,161 @@
+import type { DrawingStroke, Highlight, Scaled, ShapeData } from "../types";
+import renderStrokesToImage from "./render-strokes";
+
+/**
+ * Highlights positioned by a free box rather than by the text they cover.
+ * These can be moved around the page.
+ */
+const AREA_LIKE_TYPES = ["area", "image", "shape", "drawing", "freetext"];
+
+/**
+ * Style fields that {@link recolorHighlights} may set on a highlight.
+ *
+ * @category Type
+ */
+export type RecolorableHighlight = Highlight & {
+  highlightColor?: string;
+  strokeColor?: string;
+  backgroundColor?: string;
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * Move a scaled rect by a fraction of its page, keeping it on the page.
+ */
+const moveScaled = (rect: Scaled, dx: number, dy: number): Scaled => {
+  const width = rect.x2 - rect.x1;
+  const height = rect.y2 - rect.y1;
+  const x1 = clamp(rect.x1 + dx * rect.width, 0, rect.width - width);
+  const y1 = clamp(rect.y1 + dy * rect.height, 0, rect.height - height);
+
+  return { ...rect, x1, y1, x2: x1 + width, y2: y1 + height };
+};
+
+/**
+ * Move area-like highlights (area, image, shape, drawing and freetext) by the
+ * same offset. Text highlights are bound to their text and are left in place.
+ *
+ * @param highlights - All highlights.
+ * @param ids - IDs of the highlights to move.
+ * @param delta - Offset as a fraction of the page's width (`x`) and height
+ * (`y`), so it is independent of the zoom level. E.g. to move by a number of
+ * CSS pixels, divide it by the page view's width or height.
+ * @returns - A new array with the moved highlights.
+ *
+ * @category Function
+ */
+export function moveHighlights<T extends Highlight>(
+  highlights: T[],
+  ids: string[],
+  delta: { x: number; y: number },
+): T[] {
+  const idSet = new Set(ids);
+
+  return highlights.map((highlight) => {
+    if (!idSet.has(highlight.id) || !AREA_LIKE_TYPES.includes(highlight.type || "")) {
+      return highlight;
+    }
+
+    const { boundingRect, rects } = highlight.position;
+    const moved = moveScaled(boundingRect, delta.x, delta.y);
+    // Use the clamped offset, so all parts of the highlight move together
+    const dx = (moved.x1 - boundingRect.x1) / boundingRect.width;
+    const dy = (moved.y1 - boundingRect.y1) / boundingRect.height;
+
+    return {
+      ...highlight,
+      position: {
+        ...highlight.position,
+        boundingRect: moved,
+        rects: rects.map((rect) => moveScaled(rect, dx, dy)),
+      },
+    };
+  });
+}
+
+/**
+ * Give several highlights the same color. The color is applied to the field
+ * each highlight type renders with: `highlightColor` for text and area
+ * highlights, `strokeColor` for shapes, the strokes of drawings and
+ * `backgroundColor` for freetext. Images are left unchanged.
+ *
+ * @param highlights - All highlights.
+ * @param ids - IDs of the highlights to recolor.
+ * @param color - Any CSS color.
+ * @returns - A new array with the recolored highlights.
+ *
+ * @category Function
+ */
+export function recolorHighlights<T extends RecolorableHighlight>(
+  highlights: T[],
+  ids: string[],
+  color: string,
+): T[] {
+  const idSet = new Set(ids);
+
+  return highlights.map((highlight) => {
+    if (!idSet.has(highlight.id)) return highlight;
+
+    switch (highlight.type) {
+      case "shape": {
+        const shape: ShapeData | undefined = highlight.content?.shape && {
+          ...highlight.content.shape,
+          strokeColor: color,
+        };
+        return {
+          ...highlight,
+          strokeColor: color,
+          content: shape ? { ...highlight.content, shape } : highlight.content,
+        };
+      }
+
+      case "drawing": {
+        const strokes = highlight.content?.strokes;
+        if (!strokes) return highlight;
+
+        const recolored: DrawingStroke[] = strokes.map((stroke) => ({
+          ...stroke,
+          color,
+        }));
+        const { x1, y1, x2, y2 } = highlight.position.boundingRect;
+
+        return {
+          ...highlight,
+          content: {
+            ...highlight.content,
+            strokes: recolored,
+            image: renderStrokesToImage(recolored, x2 - x1, y2 - y1),
+          },
+        };
+      }
+
+      case "freetext":
+        return { ...highlight, backgroundColor: color };
+
+      case "image":
+        return highlight;
+
+      default:
+        return { ...highlight, highlightColor: color };
+    }
+  });
+}
+
+/**
+ * Remove several highlights at once.
+ *
+ * @param highlights - All highlights.
+ * @param ids - IDs of the highlights to remove.
+ * @returns - A new array without the removed highlights.
+ *
+ * @category Function
+ */
+export function deleteHighlights<T extends Highlight>(
+  highlights: T[],
+  ids: string[],
+): T[] {
+  const idSet = new Set(ids);
+  return highlights.filter((highlight) => !idSet.has(highlight.id));
+}
@@ -0,0 +1,57 @@
+import type { Highlight, ViewportHighlight } from "../types";
+
+const TYPE_LABELS: Record<string, string> = {
+  text: "Highlight",
+  area: "Area highlight",
+  freetext: "Note",
+  image: "Image",
+  drawing: "Drawing",
+  shape: "Shape",
+};
+
+const SHAPE_LABELS: Record<string, string> = {
+  rectangle: "Rectangle",
+  circle: "Circle",
+  arrow: "Arrow",
+  line: "Line",
+  doubleArrow: "Double arrow",
+  polyline: "Polyline",
+  polygon: "Polygon",
+  cloud: "Cloud",
+  callout: "Callout",
+};
+
+const MAX_TEXT_LENGTH = 80;
+
+/**
+ * Describe a highlight for screen readers, e.g.
+ * `Highlight on page 3: "The party shall indemnify…"`.
+ *
+ * @param highlight - The highlight to describe, in scaled or viewport
+ * coordinates.
+ * @returns - A short label with the highlight's type, page and text.
+ *
+ * @category Function
+ */
+export const getHighlightLabel = (
+  highlight: Highlight | ViewportHighlight,
+): string => {
+  const type = highlight.type || "text";
+  const typeLabel =
+    (type === "shape" &&
+      SHAPE_LABELS[highlight.content?.shape?.shapeType || ""]) ||
+    TYPE_LABELS[type] ||
+    "Highlight";
+  const label = `${typeLabel} on page ${highlight.position.boundingRect.pageNumber}`;
+
+  const text = (highlight.content?.text ?? highlight.content?.shape?.text)
+    ?.replace(/\s+/g, " ")
+    .trim();
+  if (!text) return label;
+
+  return `${label}: "${
+    text.length > MAX_TEXT_LENGTH
+      ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…`
+      : text
+  }"`;
+};
@@ -0,0 +1,135 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { Highlight, Scaled } from "../types";
+import {
+  createHighlightStore,
+  HighlightStoreAdapter,
+} from "./highlight-store";
+import {
+  createIndexedDbAdapter,
+  createLocalStorageAdapter,
+  createMemoryAdapter,
+} from "./highlight-store-adapters";
+
+type TestHighlight = Highlight & { comment?: string };
+
+const rect: Scaled = {
+  x1: 10,
+  y1: 10,
+  x2: 110,
+  y2: 30,
+  width: 600,
+  height: 800,
+  pageNumber: 1,
+};
+
+const highlight = (id: string): TestHighlight => ({
+  id,
+  type: "text",
+  content: { text: id },
+  position: { boundingRect: rect, rects: [rect] },
+});
+
+const createStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+let dbCount = 0;
+
+const adapters: Array<
+  [string, (documentKey?: string) => HighlightStoreAdapter<TestHighlight>]
+> = [
+  ["memory", () => createMemoryAdapter<TestHighlight>()],
+  [
+    "localStorage",
+    (() => {
+      const storage = createStorage();
+      return (documentKey = "document.pdf") =>
+        createLocalStorageAdapter<TestHighlight>(documentKey, storage);
+    })(),
+  ],
+  [
+    "IndexedDB",
+    (() => {
+      const dbName = `highlights-${dbCount++}`;
+      return (documentKey = "document.pdf") =>
+        createIndexedDbAdapter<TestHighlight>({ documentKey, dbName });
+    })(),
+  ],
+];
+
+describe.each(adapters)("%s adapter", (name, createAdapter) => {
+  it("loads what was saved", async () => {
+    const adapter = createAdapter();
+    await adapter.save([highlight("a"), highlight("b")]);
+
+    expect(await createAdapter().load()).toEqual(
+      name === "memory"
+        ? [] // Each memory adapter has its own highlights
+        : [highlight("a"), highlight("b")],
+    );
+    expect(await adapter.load()).toEqual([highlight("a"), highlight("b")]);
+  });
+
+  it("persists the changes of a store", async () => {
+    const adapter = createAdapter("changes.pdf");
+    await adapter.save([]);
+    const store = createHighlightStore({ adapter });
+    await store.load();
+
+    store.add(highlight("a"));
+    store.add(highlight("b"));
+    store.update("a", { comment: "Updated" });
+    store.remove("b");
+    store.add(highlight("c"));
+    await store.flush();
+
+    expect(await adapter.load()).toEqual([
+      highlight("c"),
+      { ...highlight("a"), comment: "Updated" },
+    ]);
+
+    store.replace([highlight("d"), ...store.getHighlights()]);
+    await store.flush();
+
+    expect(await adapter.load()).toEqual(store.getHighlights());
+  });
+});
+
+describe.each(adapters.filter(([name]) => name !== "localStorage"))(
+  "%s adapter patch",
+  (_, createAdapter) => {
+    it("applies an update's fields to what is stored", async () => {
+      const adapter = createAdapter("patch.pdf");
+      await adapter.save([highlight("a")]);
+
+      // The store believed "a" had a comment that never reached the adapter
+      const before = { ...highlight("a"), comment: "Failed" };
+      await adapter.patch!({
+        type: "update",
+        id: "a",
+        before,
+        after: { ...before, type: "area" },
+        patch: { type: "area" },
+      });
+
+      expect(await adapter.load()).toEqual([
+        { ...highlight("a"), type: "area" },
+      ]);
+    });
+  },
+);
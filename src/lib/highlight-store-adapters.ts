@@ -0,0 +1,208 @@
+import { applyHighlightStoreChange } from "./highlight-store";
+import type {
+  HighlightStoreAdapter,
+  HighlightStoreChange,
+} from "./highlight-store";
+import type { Highlight } from "../types";
+
+/**
+ * Create an adapter that keeps highlights in memory, e.g. for tests or to
+ * share highlights between stores.
+ *
+ * @param initialHighlights - Highlights returned by the first `load`.
+ * @returns - The adapter.
+ *
+ * @category Function
+ */
+export const createMemoryAdapter = <T extends Highlight>(
+  initialHighlights: T[] = [],
+): HighlightStoreAdapter<T> => {
+  let highlights = initialHighlights;
+
+  return {
+    load: async () => highlights,
+    save: async (next) => {
+      highlights = next;
+    },
+    patch: async (change) => {
+      highlights = applyHighlightStoreChange(highlights, change);
+    },
+  };
+};
+
+/**
+ * Create an adapter that stores highlights as JSON in `localStorage`.
+ *
+ * @param key - Storage key, e.g. one per document.
+ * @param storage - Storage to use instead of `localStorage`, e.g.
+ * `sessionStorage`.
+ * @returns - The adapter.
+ *
+ * @category Function
+ */
+export const createLocalStorageAdapter = <T extends Highlight>(
+  key: string,
+  storage: Storage = localStorage,
+): HighlightStoreAdapter<T> => ({
+  load: async () => {
+    const json = storage.getItem(key);
+    return json ? (JSON.parse(json) as T[]) : [];
+  },
+  save: async (highlights) => {
+    storage.setItem(key, JSON.stringify(highlights));
+  },
+});
+
+/**
+ * The options for {@link createIndexedDbAdapter}.
+ *
+ * @category Type
+ */
+export interface IndexedDbAdapterOptions {
+  /** Key the highlights of a document are stored under, e.g. its URL. */
+  documentKey: string;
+  /** Name of the database. Default: "react-pdf-highlighter-plus" */
+  dbName?: string;
+  /** Name of the object store. Default: "highlights" */
+  storeName?: string;
+}
+
+const DOCUMENT_KEY_INDEX = "documentKey";
+
+const promisifyRequest = <R>(request: IDBRequest<R>) =>
+  new Promise<R>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisifyTransaction = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Create an adapter that stores highlights in IndexedDB, one record per
+ * highlight. Changes are written one highlight at a time, so large documents
+ * stay fast to save.
+ *
+ * @param options - Document key and database names.
+ * @returns - The adapter.
+ *
+ * @category Function
+ */
+export const createIndexedDbAdapter = <T extends Highlight>({
+  documentKey,
+  dbName = "react-pdf-highlighter-plus",
+  storeName = "highlights",
+}: IndexedDbAdapterOptions): HighlightStoreAdapter<T> => {
+  type HighlightRecord = { documentKey: string; order: number; highlight: T };
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(storeName, {
+          keyPath: ["documentKey", "highlight.id"],
+        });
+        store.createIndex(DOCUMENT_KEY_INDEX, "documentKey");
+      };
+      dbPromise = promisifyRequest(request);
+      // Allow retrying after e.g. a blocked upgrade
+      dbPromise.catch(() => (dbPromise = null));
+    }
+    return dbPromise;
+  };
+
+  const write = async (
+    callback: (store: IDBObjectStore) => void,
+  ): Promise<void> => {
+    const transaction = (await openDb()).transaction(storeName, "readwrite");
+    callback(transaction.objectStore(storeName));
+    await promisifyTransaction(transaction);
+  };
+
+  // Records are ordered by a decreasing counter, so highlights added later
+  // come first like in the store. Reordering is only kept by `save`.
+  const toRecord = (highlight: T, order: number): HighlightRecord => ({
+    documentKey,
+    order,
+    highlight,
+  });
+
+  const putHighlights = (store: IDBObjectStore, highlights: T[]) =>
+    highlights.forEach((highlight, index) =>
+      store.put(toRecord(highlight, index)),
+    );
+
+  const clearDocument = (store: IDBObjectStore) =>
+    store.delete(IDBKeyRange.bound([documentKey], [documentKey, []]));
+
+  let nextOrder = -1;
+
+  return {
+    load: async () => {
+      const transaction = (await openDb()).transaction(storeName, "readonly");
+      const records = (await promisifyRequest(
+        transaction
+          .objectStore(storeName)
+          .index(DOCUMENT_KEY_INDEX)
+          .getAll(documentKey),
+      )) as HighlightRecord[];
+
+      records.sort((a, b) => a.order - b.order);
+      nextOrder = Math.min(0, ...records.map(({ order }) => order)) - 1;
+      return records.map(({ highlight }) => highlight);
+    },
+    save: (highlights) =>
+      write((store) => {
+        clearDocument(store);
+        putHighlights(store, highlights);
+        nextOrder = -1;
+      }),
+    patch: (change: HighlightStoreChange<T>) =>
+      write((store) => {
+        switch (change.type) {
+          case "add":
+            store.put(toRecord(change.highlight, nextOrder--));
+            break;
+          case "update": {
+            const request = store.get([documentKey, change.id]);
+            request.onsuccess = () => {
+              const record = request.result as HighlightRecord | undefined;
+              const [highlight] = applyHighlightStoreChange(
+                record ? [record.highlight] : [change.before],
+                change,
+              );
+              store.put(toRecord(highlight, record?.order ?? nextOrder--));
+            };
+            break;
+          }
+          case "remove":
+            store.delete([documentKey, change.highlight.id]);
+            break;
+          case "replace": {
+            // Apply it to what is stored, which may lack failed changes
+            const request = store.index(DOCUMENT_KEY_INDEX).getAll(documentKey);
+            request.onsuccess = () => {
+              const records = request.result as HighlightRecord[];
+              records.sort((a, b) => a.order - b.order);
+              clearDocument(store);
+              putHighlights(
+                store,
+                applyHighlightStoreChange(
+                  records.map(({ highlight }) => highlight),
+                  change,
+                ),
+              );
+              nextOrder = -1;
+            };
+            break;
+          }
+        }
+      }),
+  };
+};
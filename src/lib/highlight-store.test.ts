@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { Highlight, Scaled } from "../types";
+import {
+  applyHighlightStoreChange,
+  createHighlightStore,
+  HighlightStoreAdapter,
+  HighlightStoreChange,
+} from "./highlight-store";
+
+type TestHighlight = Highlight & { color?: string; comment?: string };
+
+const rect: Scaled = {
+  x1: 10,
+  y1: 10,
+  x2: 110,
+  y2: 30,
+  width: 600,
+  height: 800,
+  pageNumber: 1,
+};
+
+const highlight = (id: string): TestHighlight => ({
+  id,
+  type: "text",
+  content: { text: id },
+  position: { boundingRect: rect, rects: [rect] },
+});
+
+const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+/**
+ * An in-memory adapter whose calls succeed or fail in the order of
+ * `outcomes`, and wait until `release` is called.
+ */
+const createControlledAdapter = (
+  initialHighlights: TestHighlight[],
+  { withPatch }: { withPatch: boolean },
+) => {
+  let stored = initialHighlights;
+  const outcomes: boolean[] = [];
+  const waiting: Array<() => void> = [];
+
+  const call = (apply: () => void) =>
+    new Promise<void>((resolve, reject) => {
+      const succeeds = outcomes.shift() ?? true;
+      waiting.push(() => {
+        if (!succeeds) return reject(new Error("Offline"));
+        apply();
+        resolve();
+      });
+    });
+
+  const adapter: HighlightStoreAdapter<TestHighlight> = {
+    load: async () => stored,
+    save: (highlights) =>
+      call(() => {
+        stored = highlights;
+      }),
+    ...(withPatch && {
+      patch: (change: HighlightStoreChange<TestHighlight>) =>
+        call(() => {
+          stored = applyHighlightStoreChange(stored, change);
+        }),
+    }),
+  };
+
+  return {
+    adapter,
+    getStored: () => stored,
+    /** Queue whether the next calls succeed. */
+    willSucceed: (...next: boolean[]) => outcomes.push(...next),
+    /** Let every call made so far settle, in order. */
+    release: async () => {
+      await tick();
+      while (waiting.length) {
+        waiting.shift()!();
+        await tick();
+      }
+    },
+  };
+};
+
+const createLoadedStore = async (withPatch: boolean) => {
+  const controlled = createControlledAdapter([highlight("a")], { withPatch });
+  const store = createHighlightStore({ adapter: controlled.adapter });
+  await tick();
+  return { store, ...controlled };
+};
+
+describe.each([
+  ["patch", true],
+  ["save", false],
+])("createHighlightStore with an adapter that can %s", (_, withPatch) => {
+  it("applies changes before the adapter has persisted them", async () => {
+    const { store, getStored, release } = await createLoadedStore(withPatch);
+
+    store.add(highlight("b"));
+    store.update("a", { color: "red" });
+
+    expect(store.getHighlights().map(({ id }) => id)).toEqual(["b", "a"]);
+    expect(store.getHighlight("a")?.color).toBe("red");
+    expect(store.getState().isSaving).toBe(true);
+    expect(getStored()).toEqual([highlight("a")]);
+
+    await release();
+    await store.flush();
+
+    expect(store.getState().isSaving).toBe(false);
+    expect(getStored().map(({ id }) => id).sort()).toEqual(["a", "b"]);
+    expect(getStored().find(({ id }) => id === "a")?.color).toBe("red");
+  });
+
+  it("rolls back a change the adapter fails to persist", async () => {
+    const { store, getStored, willSucceed, release } =
+      await createLoadedStore(withPatch);
+    const errors: unknown[] = [];
+    store.on("error", ({ error }) => errors.push(error));
+
+    willSucceed(false);
+    store.update("a", { color: "red" });
+    await release();
+    await store.flush();
+
+    expect(store.getHighlights()).toEqual([highlight("a")]);
+    expect(store.getState().error).toEqual(new Error("Offline"));
+    expect(errors).toHaveLength(1);
+    expect(getStored()).toEqual([highlight("a")]);
+  });
+
+  it("rolls back a failed update while a later update is pending", async () => {
+    const { store, getStored, willSucceed, release } =
+      await createLoadedStore(withPatch);
+
+    willSucceed(false, true);
+    store.update("a", { color: "red" });
+    store.update("a", { comment: "Later" });
+    await release();
+    await store.flush();
+
+    expect(store.getHighlight("a")).toEqual({
+      ...highlight("a"),
+      comment: "Later",
+    });
+    expect(getStored()).toEqual([{ ...highlight("a"), comment: "Later" }]);
+  });
+
+  it("rolls back a failed update while a later replace is pending", async () => {
+    const { store, getStored, willSucceed, release } =
+      await createLoadedStore(withPatch);
+
+    willSucceed(false, true);
+    store.update("a", { color: "red" });
+    store.replace([highlight("c"), ...store.getHighlights()]);
+    await release();
+    await store.flush();
+
+    expect(store.getHighlights()).toEqual([highlight("c"), highlight("a")]);
+    expect(getStored()).toEqual([highlight("c"), highlight("a")]);
+  });
+
+  it("keeps a later change when an earlier add fails", async () => {
+    const { store, getStored, willSucceed, release } =
+      await createLoadedStore(withPatch);
+
+    willSucceed(false, true);
+    store.add(highlight("b"));
+    store.update("a", { comment: "Kept" });
+    await release();
+    await store.flush();
+
+    expect(store.getHighlights()).toEqual([
+      { ...highlight("a"), comment: "Kept" },
+    ]);
+    expect(getStored()).toEqual([{ ...highlight("a"), comment: "Kept" }]);
+  });
+});
@@ -0,0 +1,402 @@
+import { createEventEmitter } from "./event-emitter";
+import type { EventEmitter, Highlight, HighlightType } from "../types";
+
+/**
+ * A change to the highlights of a {@link HighlightStore}, as passed to
+ * {@link HighlightStoreAdapter.patch} and change listeners.
+ *
+ * @category Type
+ */
+export type HighlightStoreChange<T extends Highlight> =
+  | { type: "add"; highlight: T; index: number }
+  | {
+      type: "update";
+      id: string;
+      before: T;
+      after: T;
+      /** The fields that changed, re-applied if `before` has changed since. */
+      patch: Partial<T>;
+    }
+  | { type: "remove"; highlight: T; index: number }
+  | { type: "replace"; before: T[]; after: T[] };
+
+/**
+ * Persists the highlights of a {@link HighlightStore}, e.g. to a server.
+ * Promises that reject make the store roll back the change.
+ *
+ * @category Type
+ */
+export interface HighlightStoreAdapter<T extends Highlight> {
+  /** Load all highlights. */
+  load(): Promise<T[]>;
+  /** Store all highlights, replacing what was stored before. */
+  save(highlights: T[]): Promise<void>;
+  /**
+   * Store a single change. Without it, the store calls `save` after each
+   * change with the saved highlights plus that change, leaving out later
+   * changes that are still pending.
+   */
+  patch?(change: HighlightStoreChange<T>): Promise<void>;
+}
+
+/**
+ * Snapshot of a {@link HighlightStore}. A new object is created on every
+ * change, so it can be compared by identity.
+ *
+ * @category Type
+ */
+export interface HighlightStoreState<T extends Highlight> {
+  highlights: T[];
+  /** Whether the adapter is loading the highlights. */
+  isLoading: boolean;
+  /** Whether changes are waiting for the adapter to persist them. */
+  isSaving: boolean;
+  /** The last error of the adapter, cleared by the next successful call. */
+  error: unknown;
+}
+
+/**
+ * Events of a {@link HighlightStore}, with their payloads.
+ *
+ * @category Type
+ */
+export interface HighlightStoreEvents<T extends Highlight> {
+  /** The highlights changed, locally or by loading them. */
+  change: { highlights: T[]; change: HighlightStoreChange<T> };
+  /** The adapter failed. Failed changes have been rolled back. */
+  error: { error: unknown; change: HighlightStoreChange<T> | null };
+}
+
+/**
+ * The options for {@link createHighlightStore}.
+ *
+ * @category Type
+ */
+export interface HighlightStoreOptions<T extends Highlight> {
+  /** Highlights to start with, until the adapter has loaded. */
+  initialHighlights?: T[];
+  /** Where highlights are loaded from and saved to. */
+  adapter?: HighlightStoreAdapter<T>;
+  /** Id generator for added highlights without an id. Default: {@link generateHighlightId} */
+  generateId?: () => string;
+}
+
+/**
+ * Headless state container for highlights with optional persistence.
+ *
+ * @category Type
+ */
+export interface HighlightStore<T extends Highlight>
+  extends Pick<EventEmitter<HighlightStoreEvents<T>>, "on" | "off"> {
+  getState(): HighlightStoreState<T>;
+  getHighlights(): T[];
+  getHighlight(id: string): T | undefined;
+  /** Highlights on a page, including highlights spanning several pages. */
+  selectByPage(pageNumber: number): T[];
+  /** Highlights of a type. Highlights without a type count as "text". */
+  selectByType<K extends HighlightType>(type: K): Array<T & { type?: K }>;
+  /**
+   * Add a highlight at the start of the list (or at `index`). A missing id
+   * is generated.
+   *
+   * @returns - The added highlight, with its id.
+   */
+  add(highlight: Omit<T, "id"> & { id?: string }, index?: number): T;
+  /**
+   * Shallowly merge `update` into a highlight.
+   *
+   * @returns - The updated highlight, or `undefined` if there is none with
+   * this id.
+   */
+  update(id: string, update: Partial<T>): T | undefined;
+  /**
+   * Remove a highlight.
+   *
+   * @returns - The removed highlight, or `undefined` if there is none with
+   * this id.
+   */
+  remove(id: string): T | undefined;
+  /** Replace all highlights, e.g. after a group operation. */
+  replace(highlights: T[]): void;
+  /**
+   * (Re)load the highlights from the adapter. Called on creation when there
+   * is an adapter.
+   */
+  load(): Promise<void>;
+  /** Wait until all changes so far are persisted (or rolled back). */
+  flush(): Promise<void>;
+  /**
+   * Listen to any state change, e.g. for `useSyncExternalStore`.
+   *
+   * @returns - A function that unsubscribes the listener.
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Generate a random UUID (v4) for a new highlight.
+ *
+ * @returns - The id.
+ *
+ * @category Function
+ */
+export const generateHighlightId = (): string => {
+  if (typeof crypto !== "undefined" && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+
+  const bytes = new Uint8Array(16);
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    crypto.getRandomValues(bytes);
+  } else {
+    bytes.forEach((_, index) => (bytes[index] = Math.floor(Math.random() * 256)));
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // Variant 10
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"));
+  return [
+    hex.slice(0, 4),
+    hex.slice(4, 6),
+    hex.slice(6, 8),
+    hex.slice(8, 10),
+    hex.slice(10),
+  ]
+    .map((group) => group.join(""))
+    .join("-");
+};
+
+// Apply the fields a change made to `before` to what the highlight is now, so
+// fields of other changes that were rolled back meanwhile don't come back
+const rebaseHighlight = <T extends Highlight>(
+  current: T,
+  before: T,
+  after: T,
+): T => {
+  if (current === before) return after;
+
+  const next = { ...current } as Record<string, unknown>;
+  Object.keys(before).forEach((key) => {
+    if (!(key in after)) delete next[key];
+  });
+  Object.entries(after).forEach(([key, value]) => {
+    if (value !== before[key as keyof T]) next[key] = value;
+  });
+  return next as T;
+};
+
+/**
+ * Apply a change to a list of highlights, e.g. in a persistence adapter.
+ * Updates and replacements only apply the fields they changed, so they can
+ * be applied on top of highlights that differ from their `before`.
+ *
+ * @param highlights - Highlights before the change.
+ * @param change - The change to apply.
+ * @returns - A new list of highlights.
+ *
+ * @category Function
+ */
+export const applyHighlightStoreChange = <T extends Highlight>(
+  highlights: T[],
+  change: HighlightStoreChange<T>,
+): T[] => {
+  switch (change.type) {
+    case "add": {
+      const next = highlights.filter(({ id }) => id !== change.highlight.id);
+      next.splice(Math.min(change.index, next.length), 0, change.highlight);
+      return next;
+    }
+    case "update":
+      return highlights.map((highlight) => {
+        if (highlight.id !== change.id) return highlight;
+
+        return highlight === change.before
+          ? change.after
+          : ({ ...highlight, ...change.patch, id: change.id } as T);
+      });
+    case "remove":
+      return highlights.filter(({ id }) => id !== change.highlight.id);
+    case "replace": {
+      if (highlights === change.before) return change.after;
+
+      const before = new Map(change.before.map((h) => [h.id, h]));
+      const after = new Set(change.after.map(({ id }) => id));
+      const current = new Map(highlights.map((h) => [h.id, h]));
+
+      // Highlights the replacement didn't know about are kept
+      const unknown = highlights.filter(
+        ({ id }) => !before.has(id) && !after.has(id),
+      );
+      return unknown.concat(
+        change.after.flatMap((highlight) => {
+          const previous = before.get(highlight.id);
+          if (!previous) return [highlight];
+
+          // Removed by another change meanwhile
+          const now = current.get(highlight.id);
+          return now ? [rebaseHighlight(now, previous, highlight)] : [];
+        }),
+      );
+    }
+  }
+};
+
+/**
+ * Create a store for highlights. Changes apply right away and are then
+ * persisted through the adapter, one at a time. If the adapter fails, the
+ * change is rolled back, keeping later changes, and an `error` event is
+ * emitted.
+ *
+ * @param options - Initial highlights, adapter and id generator.
+ * @returns - The store.
+ *
+ * @category Function
+ */
+export const createHighlightStore = <T extends Highlight>({
+  initialHighlights = [],
+  adapter,
+  generateId = generateHighlightId,
+}: HighlightStoreOptions<T> = {}): HighlightStore<T> => {
+  const events = createEventEmitter<HighlightStoreEvents<T>>();
+  const subscribers = new Set<() => void>();
+
+  let state: HighlightStoreState<T> = {
+    highlights: initialHighlights,
+    isLoading: false,
+    isSaving: false,
+    error: null,
+  };
+  // The highlights as the adapter has them, and the local changes on top
+  let confirmed = initialHighlights;
+  let pending: HighlightStoreChange<T>[] = [];
+  let queue: Promise<void> = Promise.resolve();
+  // Changes persisted while loading, replayed on top of the loaded highlights
+  let persistedDuringLoad: HighlightStoreChange<T>[] | null = null;
+
+  const setState = (update: Partial<HighlightStoreState<T>>) => {
+    state = { ...state, ...update };
+    subscribers.forEach((subscriber) => subscriber());
+  };
+
+  const applyChange = (change: HighlightStoreChange<T>) => {
+    const highlights = applyHighlightStoreChange(state.highlights, change);
+    setState({ highlights });
+    events.emit("change", { highlights, change });
+  };
+
+  // Recompute the highlights from the confirmed ones, e.g. after a change
+  // failed. Later changes stay applied.
+  const rebase = () => {
+    applyChange({
+      type: "replace",
+      before: state.highlights,
+      after: pending.reduce(applyHighlightStoreChange, confirmed),
+    });
+  };
+
+  const persist = (change: HighlightStoreChange<T>) => {
+    if (!adapter) return;
+
+    pending.push(change);
+    setState({ isSaving: true });
+    queue = queue.then(async () => {
+      // Without patch, save what is confirmed plus this change only, so a
+      // later change that fails was never stored
+      const next = applyHighlightStoreChange(confirmed, change);
+      try {
+        await (adapter.patch ? adapter.patch(change) : adapter.save(next));
+        confirmed = next;
+        persistedDuringLoad?.push(change);
+        pending = pending.filter((other) => other !== change);
+        setState({ error: null, isSaving: pending.length > 0 });
+      } catch (error) {
+        pending = pending.filter((other) => other !== change);
+        rebase();
+        setState({ error, isSaving: pending.length > 0 });
+        events.emit("error", { error, change });
+      }
+    });
+  };
+
+  const commit = (change: HighlightStoreChange<T>) => {
+    applyChange(change);
+    persist(change);
+  };
+
+  const getHighlight = (id: string) =>
+    state.highlights.find((highlight) => highlight.id === id);
+
+  const load = async () => {
+    if (!adapter) return;
+
+    persistedDuringLoad = [];
+    setState({ isLoading: true });
+    try {
+      const loaded = await adapter.load();
+      confirmed = persistedDuringLoad.reduce(applyHighlightStoreChange, loaded);
+      rebase();
+      setState({ error: null });
+    } catch (error) {
+      setState({ error });
+      events.emit("error", { error, change: null });
+    } finally {
+      persistedDuringLoad = null;
+      setState({ isLoading: false });
+    }
+  };
+
+  const store: HighlightStore<T> = {
+    on: events.on,
+    off: events.off,
+    getState: () => state,
+    getHighlights: () => state.highlights,
+    getHighlight,
+    selectByPage: (pageNumber) =>
+      state.highlights.filter(
+        ({ position }) =>
+          position.boundingRect.pageNumber === pageNumber ||
+          position.rects.some((rect) => rect.pageNumber === pageNumber),
+      ),
+    selectByType: <K extends HighlightType>(type: K) =>
+      state.highlights.filter(
+        (highlight): highlight is T & { type?: K } =>
+          (highlight.type || "text") === type,
+      ),
+    add: (highlight, index = 0) => {
+      const created = { ...highlight, id: highlight.id ?? generateId() } as T;
+      commit({ type: "add", highlight: created, index });
+      return created;
+    },
+    update: (id, update) => {
+      const before = getHighlight(id);
+      if (!before) return undefined;
+
+      const after = { ...before, ...update, id };
+      commit({ type: "update", id, before, after, patch: update });
+      return after;
+    },
+    remove: (id) => {
+      const index = state.highlights.findIndex((highlight) => highlight.id === id);
+      if (index === -1) return undefined;
+
+      const highlight = state.highlights[index];
+      commit({ type: "remove", highlight, index });
+      return highlight;
+    },
+    replace: (highlights) => {
+      commit({ type: "replace", before: state.highlights, after: highlights });
+    },
+    load,
+    flush: () => queue,
+    subscribe: (listener) => {
+      subscribers.add(listener);
+      return () => {
+        subscribers.delete(listener);
+      };
+    },
+  };
+
+  if (adapter) load();
+
+  return store;
+};
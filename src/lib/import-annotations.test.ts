@@ -0,0 +1,230 @@
+import { PDFDict, PDFDocument } from "pdf-lib";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { OPS, getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { describe, expect, it } from "vitest";
+import { Scaled, ShapeData } from "../types";
+import { ExportableHighlight, exportPdf } from "./export-pdf";
+import {
+  createAppearanceDocument,
+  importPdfAnnotations,
+} from "./import-annotations";
+import { getShapePoints } from "./shape-geometry";
+
+const boundingRect: Scaled = {
+  x1: 100,
+  y1: 200,
+  x2: 300,
+  y2: 350,
+  width: 600,
+  height: 800,
+  pageNumber: 1,
+};
+
+const shapeHighlight = (shape: ShapeData): ExportableHighlight => ({
+  id: shape.shapeType,
+  type: "shape",
+  content: { shape },
+  position: { boundingRect, rects: [] },
+});
+
+const red = "rgba(255, 0, 0, 1)";
+const triangle = [
+  { x: 0.1, y: 0.1 },
+  { x: 0.9, y: 0.1 },
+  { x: 0.5, y: 0.9 },
+];
+
+/** Round the numbers of a value, for comparing positions after a round-trip. */
+const rounded = <T>(value: T): T =>
+  JSON.parse(
+    JSON.stringify(value, (_, item) =>
+      typeof item === "number" ? Math.round(item * 100) / 100 : item,
+    ),
+  );
+
+/** The points of a shape highlight in scaled page coordinates. */
+const getPagePoints = ({ content, position }: ExportableHighlight) => {
+  const { x1, y1, x2, y2 } = position.boundingRect;
+  return getShapePoints(content!.shape!, x2 - x1, y2 - y1).map(
+    ({ x, y }) => ({ x: x1 + x, y: y1 + y }),
+  );
+};
+
+/**
+ * Write highlights as annotations to a new 600 by 800 point PDF and load the
+ * result with PDF.js.
+ */
+const exportToPdfJs = async (
+  highlights: ExportableHighlight[],
+): Promise<PDFDocumentProxy> => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([600, 800]);
+  const bytes = await exportPdf(await pdfDoc.save(), highlights, {
+    mode: "annotations",
+  });
+  return (await getDocument({ data: bytes }).promise) as PDFDocumentProxy;
+};
+
+describe("importPdfAnnotations of shapes", () => {
+  it.each([
+    [
+      "Line",
+      {
+        shapeType: "line",
+        strokeColor: red,
+        strokeWidth: 2,
+        startPoint: { x: 0.1, y: 0.2 },
+        endPoint: { x: 0.9, y: 0.8 },
+      },
+    ],
+    [
+      "Line",
+      {
+        shapeType: "line",
+        strokeColor: red,
+        strokeWidth: 2,
+        startPoint: { x: 0, y: 0.5 },
+        endPoint: { x: 1, y: 0.5 },
+        startEnding: "circle",
+        endEnding: "diamond",
+      },
+    ],
+    [
+      "Line",
+      {
+        shapeType: "arrow",
+        strokeColor: red,
+        strokeWidth: 3,
+        startPoint: { x: 0.1, y: 0.9 },
+        endPoint: { x: 0.9, y: 0.1 },
+      },
+    ],
+    [
+      "Line",
+      {
+        shapeType: "doubleArrow",
+        strokeColor: red,
+        strokeWidth: 1,
+        startPoint: { x: 0.2, y: 0.5 },
+        endPoint: { x: 0.8, y: 0.5 },
+      },
+    ],
+    [
+      "PolyLine",
+      {
+        shapeType: "polyline",
+        strokeColor: red,
+        strokeWidth: 2,
+        vertices: triangle,
+        endEnding: "closedArrow",
+      },
+    ],
+    [
+      "Polygon",
+      {
+        shapeType: "polygon",
+        strokeColor: red,
+        strokeWidth: 2,
+        vertices: triangle,
+      },
+    ],
+  ] as Array<[string, ShapeData]>)(
+    "imports a %s annotation",
+    async (subtype, shape) => {
+      const highlight = shapeHighlight(shape);
+      const pdfDocument = await exportToPdfJs([highlight]);
+      const [imported] = await importPdfAnnotations(pdfDocument);
+
+      // The rectangle of a line has room for its endings, so its points are
+      // compared on the page
+      const { startPoint, endPoint, vertices, ...style } = shape;
+      expect(imported.annotationSubtype).toBe(subtype);
+      expect(imported.content.shape).toMatchObject(style);
+      expect(rounded(getPagePoints(imported))).toEqual(
+        rounded(getPagePoints(highlight)),
+      );
+    },
+  );
+
+  it("imports a cloud as a polygon", async () => {
+    const pdfDocument = await exportToPdfJs([
+      shapeHighlight({
+        shapeType: "cloud",
+        strokeColor: red,
+        strokeWidth: 2,
+        vertices: triangle,
+      }),
+    ]);
+    const [imported] = await importPdfAnnotations(pdfDocument);
+
+    expect(imported.content.shape?.shapeType).toBe("polygon");
+    expect(rounded(imported.content.shape?.vertices)).toEqual(triangle);
+  });
+});
+
+describe("createAppearanceDocument", () => {
+  // A red pixel
+  const image =
+    "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
+
+  /**
+   * Stamp an image over a line of text on a 600 by 800 point page, and read
+   * the stamp annotation back with pdf-lib.
+   */
+  const createStamp = async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([600, 800]).drawText("Page content", { x: 120, y: 500 });
+    const bytes = await exportPdf(
+      await pdfDoc.save(),
+      [
+        {
+          id: "stamp",
+          type: "image",
+          content: { image },
+          position: { boundingRect, rects: [] },
+        },
+      ],
+      { mode: "annotations" },
+    );
+    const document = await PDFDocument.load(bytes);
+    const dict = document.getPage(0).node.Annots()!.lookup(0, PDFDict);
+    return { document, dict };
+  };
+
+  const loadPage = async (data: Uint8Array) =>
+    (await getDocument({ data }).promise).getPage(1);
+
+  it("shows the stamp without the page content under it", async () => {
+    const data = await createAppearanceDocument(await createStamp(), 0);
+    const page = await loadPage(data!);
+
+    // The stamp is 100 to 250 points down the 800 point high page
+    expect(page.view).toEqual([100, 450, 300, 600]);
+    expect((await page.getTextContent()).items).toEqual([]);
+    expect((await page.getOperatorList()).fnArray).toContain(
+      OPS.paintImageXObject,
+    );
+  });
+
+  it("turns the stamp like its page", async () => {
+    const data = await createAppearanceDocument(await createStamp(), 90);
+    const viewport = (await loadPage(data!)).getViewport({ scale: 1 });
+
+    expect([viewport.rotation, viewport.width, viewport.height]).toEqual([
+      90, 150, 200,
+    ]);
+  });
+
+  it("has nothing to show for a stamp without an appearance", async () => {
+    const { document } = await createStamp();
+    const dict = document.context.obj({
+      Type: "Annot",
+      Subtype: "Stamp",
+      Rect: [100, 450, 300, 600],
+    });
+
+    expect(await createAppearanceDocument({ document, dict }, 0)).toBe(
+      undefined,
+    );
+  });
+});
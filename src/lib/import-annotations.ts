@@ -0,0 +1,763 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObjectCopier,
+  PDFRef,
+  PDFStream,
+  concatTransformationMatrix,
+  degrees,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+} from "pdf-lib";
+import type {
+  PDFDocumentProxy,
+  PDFPageProxy,
+  PDFWorker,
+  PageViewport,
+} from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type {
+  Content,
+  DrawingStroke,
+  Highlight,
+  HighlightType,
+  LTWHP,
+  Scaled,
+  ShapeData,
+} from "../types";
+import { viewportToScaled } from "./coordinates";
+import getBoundingRect from "./get-bounding-rect";
+import renderStrokesToImage from "./render-strokes";
+import { getLineShape, toLineEnding } from "./shape-geometry";
+
+/**
+ * Options for the PDF annotation importer.
+ *
+ * @category Type
+ */
+export interface ImportPdfAnnotationsOptions {
+  /** Only import annotations from these (1-indexed) pages. Default: all pages */
+  pageNumbers?: number[];
+  /** Only import annotations that convert to these highlight types. Default: all types */
+  types?: HighlightType[];
+  /** Extract the covered text of highlight/underline/strikeout annotations. Default: true */
+  extractText?: boolean;
+  /** Rasterise the appearance of stamp annotations into image highlights. Default: true */
+  renderStamps?: boolean;
+  /** Scale used when rasterising stamps. Default: 2 */
+  stampRenderScale?: number;
+  /** Prefix for generated highlight ids. Default: "pdf-annotation-" */
+  idPrefix?: string;
+}
+
+/**
+ * A highlight created from an annotation already present in a PDF document.
+ * Style properties mirror {@link ExportableHighlight}, so imported highlights
+ * can be rendered, edited and exported again without conversion.
+ *
+ * @category Type
+ */
+export interface ImportedHighlight extends Highlight {
+  type: HighlightType;
+  content: Content;
+  /** Id of the source annotation (PDF object id such as "12R", or XFDF `name`). */
+  annotationId: string;
+  /** Annotation subtype the highlight was created from (e.g. "Highlight"). */
+  annotationSubtype: string;
+  /** Text of the annotation's `/Contents` entry, usually a reviewer comment. */
+  comment?: string;
+  /** Author of the annotation (`/T` entry). */
+  author?: string;
+  /** Color for text/area highlights */
+  highlightColor?: string;
+  /** Style mode for text highlights */
+  highlightStyle?: "highlight" | "underline" | "strikethrough";
+  /** Text color for freetext highlights */
+  color?: string;
+  /** Background color for freetext highlights */
+  backgroundColor?: string;
+  /** Font size for freetext highlights */
+  fontSize?: string;
+  /** Shape type for shape highlights */
+  shapeType?: ShapeData["shapeType"];
+  /** Stroke color for shape highlights */
+  strokeColor?: string;
+  /** Stroke width for shape highlights */
+  strokeWidth?: number;
+}
+
+// Subset of PDF.js' AnnotationType, which is not part of the public pdfjs-dist exports.
+const AnnotationType = {
+  FREETEXT: 3,
+  LINE: 4,
+  SQUARE: 5,
+  CIRCLE: 6,
+  POLYGON: 7,
+  POLYLINE: 8,
+  HIGHLIGHT: 9,
+  UNDERLINE: 10,
+  SQUIGGLY: 11,
+  STRIKEOUT: 12,
+  STAMP: 13,
+  INK: 15,
+};
+
+/**
+ * The fields of a PDF.js annotation that are read when converting it. PDF.js
+ * does not export a type for the data returned by `getAnnotations`.
+ */
+interface PdfJsAnnotation {
+  id: string;
+  subtype: string;
+  annotationType: number;
+  rect: number[];
+  color?: Uint8ClampedArray | null;
+  borderStyle?: { width?: number };
+  contentsObj?: { str?: string };
+  titleObj?: { str?: string };
+  quadPoints?: ArrayLike<number> | null;
+  lineCoordinates?: number[];
+  /** PDF names of the start and end endings of lines and polylines. */
+  lineEndings?: string[];
+  vertices?: ArrayLike<number> | null;
+  inkLists?: ArrayLike<number>[];
+  defaultAppearanceData?: {
+    fontSize?: number;
+    fontColor?: Uint8ClampedArray | null;
+  };
+  textContent?: string[];
+}
+
+const DEFAULT_HIGHLIGHT_COLOR = "rgba(255, 226, 143, 1)";
+const DEFAULT_STROKE_COLOR = "#000000";
+
+const TEXT_MARKUP_STYLES: {
+  [annotationType: number]: ImportedHighlight["highlightStyle"];
+} = {
+  [AnnotationType.HIGHLIGHT]: "highlight",
+  [AnnotationType.UNDERLINE]: "underline",
+  [AnnotationType.SQUIGGLY]: "underline",
+  [AnnotationType.STRIKEOUT]: "strikethrough",
+};
+
+/**
+ * Convert a PDF.js RGB color (0-255 components) to a CSS color string.
+ */
+export const toCssColor = (
+  color: Uint8ClampedArray | number[] | null | undefined,
+  fallback: string,
+  alpha = 1,
+): string => {
+  if (!color || color.length < 3) return fallback;
+  return `rgba(${color[0]}, ${color[1]}, ${color[2]}, ${alpha})`;
+};
+
+/**
+ * Convert a rectangle in PDF user space to a viewport rectangle.
+ */
+export const pdfRectToViewport = (
+  rect: number[],
+  viewport: PageViewport,
+  pageNumber: number,
+): LTWHP => {
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(rect);
+
+  return {
+    left: Math.min(x1, x2),
+    top: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1),
+    pageNumber,
+  };
+};
+
+/**
+ * Split PDF.js QuadPoints (8 numbers per quadrilateral) into viewport rectangles.
+ */
+const quadPointsToViewportRects = (
+  quadPoints: ArrayLike<number>,
+  viewport: PageViewport,
+  pageNumber: number,
+): LTWHP[] => {
+  const rects: LTWHP[] = [];
+
+  for (let i = 0; i + 7 < quadPoints.length; i += 8) {
+    const xs = [quadPoints[i], quadPoints[i + 2], quadPoints[i + 4], quadPoints[i + 6]];
+    const ys = [quadPoints[i + 1], quadPoints[i + 3], quadPoints[i + 5], quadPoints[i + 7]];
+
+    rects.push(
+      pdfRectToViewport(
+        [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)],
+        viewport,
+        pageNumber,
+      ),
+    );
+  }
+
+  return rects;
+};
+
+const toScaled = (rect: LTWHP, viewport: PageViewport): Scaled =>
+  viewportToScaled(rect, viewport);
+
+/**
+ * Collect the text of a page that lies inside the given viewport rectangles.
+ * Text items only partially covered are cut proportionally to the overlap.
+ */
+export const getTextInRects = (
+  items: TextItem[],
+  rects: LTWHP[],
+  viewport: PageViewport,
+  pageNumber: number,
+): string => {
+  const parts: string[] = [];
+
+  for (const item of items) {
+    if (!item.str) continue;
+
+    const [, , , , x, y] = item.transform;
+    const itemRect = pdfRectToViewport(
+      [x, y, x + item.width, y + item.height],
+      viewport,
+      pageNumber,
+    );
+    const centerY = itemRect.top + itemRect.height / 2;
+
+    for (const rect of rects) {
+      if (centerY < rect.top || centerY > rect.top + rect.height) continue;
+
+      const overlapLeft = Math.max(rect.left, itemRect.left);
+      const overlapRight = Math.min(
+        rect.left + rect.width,
+        itemRect.left + itemRect.width,
+      );
+      if (overlapRight <= overlapLeft || itemRect.width === 0) continue;
+
+      const length = item.str.length;
+      const start = Math.round(
+        ((overlapLeft - itemRect.left) / itemRect.width) * length,
+      );
+      const end = Math.round(
+        ((overlapRight - itemRect.left) / itemRect.width) * length,
+      );
+      const text = item.str.slice(start, end).trim();
+      if (text) parts.push(text);
+      break;
+    }
+  }
+
+  return parts.join(" ");
+};
+
+/**
+ * Convert ink lists (flat x/y arrays in PDF space) into strokes relative to the
+ * top-left of the drawing's bounding box, in viewport units.
+ */
+const inkListsToStrokes = (
+  inkLists: ArrayLike<number>[],
+  boundingRect: LTWHP,
+  viewport: PageViewport,
+  color: string,
+  width: number,
+): DrawingStroke[] =>
+  inkLists.map((inkList) => {
+    const points = [];
+    for (let i = 0; i + 1 < inkList.length; i += 2) {
+      const [x, y] = viewport.convertToViewportPoint(inkList[i], inkList[i + 1]);
+      points.push({ x: x - boundingRect.left, y: y - boundingRect.top });
+    }
+    return { points, color, width };
+  });
+
+/** An annotation dictionary and the pdf-lib document it was read from. */
+interface AnnotationDict {
+  document: PDFDocument;
+  dict: PDFDict;
+}
+
+type AnnotationReader = (id: string) => Promise<AnnotationDict | undefined>;
+
+/**
+ * Create a reader of annotation dictionaries by PDF.js id (e.g. "12R"), for
+ * the entries PDF.js doesn't report as they are. The document is parsed with
+ * pdf-lib the first time an annotation needs it.
+ */
+const createAnnotationReader = (
+  pdfDocument: PDFDocumentProxy,
+): AnnotationReader => {
+  let documentPromise: Promise<PDFDocument | null> | null = null;
+
+  return async (id) => {
+    const match = id.match(/^(\d+)R(\d*)$/);
+    if (!match) return undefined;
+
+    documentPromise ||= pdfDocument
+      .getData()
+      .then((data) =>
+        PDFDocument.load(data, {
+          ignoreEncryption: true,
+          updateMetadata: false,
+        }),
+      )
+      .catch(() => null);
+    const document = await documentPromise;
+    const dict = document?.context.lookup(
+      PDFRef.of(Number(match[1]), Number(match[2] || 0)),
+    );
+    return document && dict instanceof PDFDict ? { document, dict } : undefined;
+  };
+};
+
+/** Read an array of `length` numbers, or `undefined` if it isn't one. */
+const readNumbers = (value: unknown, length: number): number[] | undefined => {
+  if (!(value instanceof PDFArray) || value.size() !== length) return undefined;
+
+  const values = value
+    .asArray()
+    .map((item) => (item instanceof PDFNumber ? item.asNumber() : NaN));
+  return values.every(Number.isFinite) ? values : undefined;
+};
+
+/**
+ * Read the `/L` entry of a Line annotation. PDF.js only reports it normalised
+ * to a rectangle, which loses the direction of the line.
+ */
+const readLineCoordinates = async (
+  readAnnotation: AnnotationReader,
+  id: string,
+): Promise<number[] | undefined> => {
+  const annotation = await readAnnotation(id);
+  return annotation && readNumbers(annotation.dict.lookup(PDFName.of("L")), 4);
+};
+
+/**
+ * The normal appearance (`/AP /N`) of an annotation, picked by its appearance
+ * state (`/AS`) when it has several.
+ */
+const getNormalAppearance = (dict: PDFDict): PDFStream | undefined => {
+  const appearances = dict.lookup(PDFName.of("AP"));
+  const normal =
+    appearances instanceof PDFDict
+      ? appearances.lookup(PDFName.of("N"))
+      : undefined;
+
+  if (normal instanceof PDFDict) {
+    const state = dict.lookup(PDFName.of("AS"));
+    const appearance =
+      state instanceof PDFName ? normal.lookup(state) : undefined;
+    return appearance instanceof PDFStream ? appearance : undefined;
+  }
+  return normal instanceof PDFStream ? normal : undefined;
+};
+
+/**
+ * Create a PDF of one page showing only the appearance of an annotation, so it
+ * can be rendered without the page content under it. The page is the
+ * annotation's rectangle, turned like the page it's on, and the appearance is
+ * fitted to it as PDF readers do.
+ *
+ * @returns The bytes of the PDF, or `undefined` if the annotation has no
+ * appearance to show.
+ */
+export const createAppearanceDocument = async (
+  { document, dict }: AnnotationDict,
+  rotation: number,
+): Promise<Uint8Array | undefined> => {
+  const appearance = getNormalAppearance(dict);
+  const rect = readNumbers(dict.lookup(PDFName.of("Rect")), 4);
+  const bbox =
+    appearance && readNumbers(appearance.dict.lookup(PDFName.of("BBox")), 4);
+  if (!appearance || !rect || !bbox) return undefined;
+
+  // The box of the appearance once transformed by its matrix
+  const [a, b, c, d, e, f] = readNumbers(
+    appearance.dict.lookup(PDFName.of("Matrix")),
+    6,
+  ) ?? [1, 0, 0, 1, 0, 0];
+  const corners = [
+    [bbox[0], bbox[1]],
+    [bbox[2], bbox[1]],
+    [bbox[0], bbox[3]],
+    [bbox[2], bbox[3]],
+  ].map(([x, y]) => [a * x + c * y + e, b * x + d * y + f]);
+  const boxLeft = Math.min(...corners.map(([x]) => x));
+  const boxBottom = Math.min(...corners.map(([, y]) => y));
+  const boxWidth = Math.max(...corners.map(([x]) => x)) - boxLeft;
+  const boxHeight = Math.max(...corners.map(([, y]) => y)) - boxBottom;
+
+  const left = Math.min(rect[0], rect[2]);
+  const bottom = Math.min(rect[1], rect[3]);
+  const width = Math.abs(rect[2] - rect[0]);
+  const height = Math.abs(rect[3] - rect[1]);
+  if (!boxWidth || !boxHeight || !width || !height) return undefined;
+
+  const target = await PDFDocument.create();
+  const page = target.addPage([width, height]);
+  page.setMediaBox(left, bottom, width, height);
+  page.setRotation(degrees(rotation));
+
+  const copy = PDFObjectCopier.for(document.context, target.context).copy(
+    appearance,
+  );
+  const name = page.node.newXObject(
+    "Appearance",
+    target.context.register(copy),
+  );
+  const scaleX = width / boxWidth;
+  const scaleY = height / boxHeight;
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(
+      scaleX,
+      0,
+      0,
+      scaleY,
+      left - boxLeft * scaleX,
+      bottom - boxBottom * scaleY,
+    ),
+    drawObject(name),
+    popGraphicsState(),
+  );
+
+  return target.save();
+};
+
+/**
+ * Create a renderer of the appearance of stamp annotations to PNG data URLs,
+ * by PDF.js id. Each appearance is rendered from a document of its own, made
+ * by {@link createAppearanceDocument}; these share one PDF.js worker until
+ * `destroy` is called.
+ */
+const createStampRenderer = (
+  readAnnotation: AnnotationReader,
+  scale: number,
+) => {
+  let worker: PDFWorker | null = null;
+
+  return {
+    render: async (
+      id: string,
+      rotation: number,
+    ): Promise<string | undefined> => {
+      const annotation = await readAnnotation(id);
+      const data =
+        annotation && (await createAppearanceDocument(annotation, rotation));
+      if (!data) return undefined;
+
+      const canvas = document.createElement("canvas");
+      const canvasContext = canvas.getContext("2d");
+      if (!canvasContext) return undefined;
+
+      // Loaded when first needed, as PDF.js only runs in a browser
+      const { PDFWorker, getDocument } = await import("pdfjs-dist");
+      worker ||= new PDFWorker();
+      const loadingTask = getDocument({ data, worker });
+
+      try {
+        const page = await (await loadingTask.promise).getPage(1);
+        const viewport = page.getViewport({ scale });
+        canvas.width = Math.max(1, Math.round(viewport.width));
+        canvas.height = Math.max(1, Math.round(viewport.height));
+        await page.render({ canvasContext, viewport }).promise;
+
+        return canvas.toDataURL("image/png");
+      } finally {
+        await loadingTask.destroy();
+      }
+    },
+    destroy: () => worker?.destroy(),
+  };
+};
+
+/**
+ * Convert a single PDF.js annotation to a highlight, or `null` if the
+ * annotation subtype is not supported.
+ */
+const convertAnnotation = async (
+  annotation: PdfJsAnnotation,
+  page: PDFPageProxy,
+  viewport: PageViewport,
+  getTextItems: () => Promise<TextItem[]>,
+  readAnnotation: AnnotationReader,
+  renderStamp: (id: string, rotation: number) => Promise<string | undefined>,
+  options: Required<Omit<ImportPdfAnnotationsOptions, "pageNumbers" | "types">>,
+): Promise<ImportedHighlight | null> => {
+  const pageNumber = page.pageNumber;
+  const boundingRect = pdfRectToViewport(annotation.rect, viewport, pageNumber);
+  const borderWidth = annotation.borderStyle?.width || 1;
+
+  const base = {
+    id: `${options.idPrefix}${annotation.id}`,
+    annotationId: String(annotation.id),
+    annotationSubtype: String(annotation.subtype),
+    comment: annotation.contentsObj?.str || undefined,
+    author: annotation.titleObj?.str || undefined,
+  };
+
+  const textMarkupStyle = TEXT_MARKUP_STYLES[annotation.annotationType];
+  if (textMarkupStyle) {
+    const rects = annotation.quadPoints
+      ? quadPointsToViewportRects(annotation.quadPoints, viewport, pageNumber)
+      : [boundingRect];
+    const text = options.extractText
+      ? getTextInRects(await getTextItems(), rects, viewport, pageNumber)
+      : undefined;
+
+    return {
+      ...base,
+      type: "text",
+      content: { text },
+      position: {
+        boundingRect: toScaled(getBoundingRect(rects), viewport),
+        rects: rects.map((rect) => toScaled(rect, viewport)),
+      },
+      highlightColor: toCssColor(annotation.color, DEFAULT_HIGHLIGHT_COLOR),
+      highlightStyle: textMarkupStyle,
+    };
+  }
+
+  const position = {
+    boundingRect: toScaled(boundingRect, viewport),
+    rects: [],
+  };
+
+  switch (annotation.annotationType) {
+    case AnnotationType.SQUARE:
+    case AnnotationType.CIRCLE: {
+      const shape: ShapeData = {
+        shapeType:
+          annotation.annotationType === AnnotationType.SQUARE
+            ? "rectangle"
+            : "circle",
+        strokeColor: toCssColor(annotation.color, DEFAULT_STROKE_COLOR),
+        strokeWidth: borderWidth,
+      };
+
+      return {
+        ...base,
+        type: "shape",
+        content: { shape },
+        position,
+        shapeType: shape.shapeType,
+        strokeColor: shape.strokeColor,
+        strokeWidth: shape.strokeWidth,
+      };
+    }
+
+    case AnnotationType.LINE:
+    case AnnotationType.POLYLINE:
+    case AnnotationType.POLYGON: {
+      const toRelative = (x: number, y: number) => ({
+        x: boundingRect.width ? (x - boundingRect.left) / boundingRect.width : 0,
+        y: boundingRect.height ? (y - boundingRect.top) / boundingRect.height : 0,
+      });
+      const values =
+        annotation.annotationType === AnnotationType.LINE
+          ? (await readLineCoordinates(readAnnotation, annotation.id)) ||
+            annotation.lineCoordinates ||
+            annotation.rect
+          : annotation.vertices || [];
+      const points = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        const [x, y] = viewport.convertToViewportPoint(values[i], values[i + 1]);
+        points.push(toRelative(x, y));
+      }
+      const start = toLineEnding(annotation.lineEndings?.[0]);
+      const end = toLineEnding(annotation.lineEndings?.[1]);
+
+      // PDF.js does not expose the border effect, so cloudy polygons are
+      // imported as polygons
+      const shape: ShapeData = {
+        ...(annotation.annotationType === AnnotationType.LINE
+          ? {
+              ...getLineShape(start, end),
+              startPoint: points[0],
+              endPoint: points[1],
+            }
+          : {
+              shapeType:
+                annotation.annotationType === AnnotationType.POLYLINE
+                  ? "polyline"
+                  : "polygon",
+              ...(start !== "none" && { startEnding: start }),
+              ...(end !== "none" && { endEnding: end }),
+              vertices: points,
+            }),
+        strokeColor: toCssColor(annotation.color, DEFAULT_STROKE_COLOR),
+        strokeWidth: borderWidth,
+      };
+
+      return {
+        ...base,
+        type: "shape",
+        content: { shape },
+        position,
+        shapeType: shape.shapeType,
+        strokeColor: shape.strokeColor,
+        strokeWidth: shape.strokeWidth,
+      };
+    }
+
+    case AnnotationType.INK: {
+      const strokes = inkListsToStrokes(
+        annotation.inkLists || [],
+        boundingRect,
+        viewport,
+        toCssColor(annotation.color, DEFAULT_STROKE_COLOR),
+        borderWidth,
+      );
+
+      return {
+        ...base,
+        type: "drawing",
+        content: {
+          strokes,
+          image: renderStrokesToImage(
+            strokes,
+            Math.ceil(boundingRect.width),
+            Math.ceil(boundingRect.height),
+          ),
+        },
+        position,
+      };
+    }
+
+    case AnnotationType.FREETEXT: {
+      const appearance = annotation.defaultAppearanceData;
+      const text =
+        annotation.contentsObj?.str ||
+        annotation.textContent?.join("\n") ||
+        "";
+
+      return {
+        ...base,
+        // The text of a freetext annotation is its content, not a comment
+        comment: undefined,
+        type: "freetext",
+        content: { text },
+        position,
+        color: toCssColor(appearance?.fontColor, "#000000"),
+        backgroundColor: annotation.color
+          ? toCssColor(annotation.color, "transparent")
+          : "transparent",
+        fontSize: `${Math.round(appearance?.fontSize || 10)}px`,
+      };
+    }
+
+    case AnnotationType.STAMP: {
+      const image = options.renderStamps
+        ? await renderStamp(annotation.id, viewport.rotation)
+        : undefined;
+
+      return {
+        ...base,
+        type: "image",
+        content: { image },
+        position,
+      };
+    }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Read the annotations already present in a PDF document and convert them to
+ * highlights. Highlight, underline, squiggly and strikeout annotations become
+ * text highlights, square/circle/line annotations become shape highlights, ink
+ * becomes drawing highlights, freetext becomes freetext highlights and stamps
+ * become image highlights. Other annotation types (links, widgets, popups, etc.)
+ * are skipped.
+ *
+ * Positions are stored relative to each page's unscaled viewport, so they can
+ * be rendered by {@link PdfHighlighter} like any native highlight. Combine this
+ * with the `hidePdfAnnotations` prop of {@link PdfHighlighter} to avoid the
+ * original annotations being drawn underneath their editable copies.
+ *
+ * @param pdfDocument - The loaded PDF.js document.
+ * @param options - Import options.
+ * @returns Promise<ImportedHighlight[]> - Highlights in page order.
+ *
+ * @example
+ * ```typescript
+ * <PdfLoader document={url}>
+ *   {(pdfDocument) => {
+ *     importPdfAnnotations(pdfDocument).then(setHighlights);
+ *     ...
+ *   }}
+ * </PdfLoader>
+ * ```
+ *
+ * @category Function
+ */
+export async function importPdfAnnotations(
+  pdfDocument: PDFDocumentProxy,
+  options: ImportPdfAnnotationsOptions = {},
+): Promise<ImportedHighlight[]> {
+  const resolvedOptions = {
+    extractText: options.extractText ?? true,
+    renderStamps: options.renderStamps ?? true,
+    stampRenderScale: options.stampRenderScale ?? 2,
+    idPrefix: options.idPrefix ?? "pdf-annotation-",
+  };
+
+  const pageNumbers =
+    options.pageNumbers ??
+    Array.from({ length: pdfDocument.numPages }, (_, index) => index + 1);
+
+  const highlights: ImportedHighlight[] = [];
+  const readAnnotation = createAnnotationReader(pdfDocument);
+  const stampRenderer = createStampRenderer(
+    readAnnotation,
+    resolvedOptions.stampRenderScale,
+  );
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      if (pageNumber < 1 || pageNumber > pdfDocument.numPages) continue;
+
+      const page = await pdfDocument.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const annotations = await page.getAnnotations({ intent: "display" });
+
+      // Only fetch text content when a text markup annotation needs it
+      let textItemsPromise: Promise<TextItem[]> | null = null;
+      const getTextItems = () => {
+        textItemsPromise ||= page
+          .getTextContent()
+          .then((textContent) =>
+            textContent.items.filter((item): item is TextItem => "str" in item),
+          );
+        return textItemsPromise;
+      };
+
+      for (const annotation of annotations) {
+        const highlight = await convertAnnotation(
+          annotation,
+          page,
+          viewport,
+          getTextItems,
+          readAnnotation,
+          stampRenderer.render,
+          resolvedOptions,
+        );
+
+        if (
+          highlight &&
+          (!options.types || options.types.includes(highlight.type))
+        ) {
+          highlights.push(highlight);
+        }
+      }
+    }
+  } finally {
+    stampRenderer.destroy();
+  }
+
+  return highlights;
+}
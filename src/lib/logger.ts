@@ -0,0 +1,40 @@
+import type { Logger, LogLevel } from "../types";
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+/**
+ * Create a logger that passes messages of at least `level` on to `sink`.
+ *
+ * @param level - Minimum severity to pass on. Default: `"silent"`
+ * @param sink - Where messages go. Default: `console`
+ * @returns - A logger that drops less severe messages.
+ *
+ * @category Function
+ */
+export const createLogger = (
+  level: LogLevel = "silent",
+  sink: Logger = console,
+): Logger => {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const forward =
+    (messageLevel: Exclude<LogLevel, "silent">) =>
+    (message: string, ...data: unknown[]) => {
+      if (LOG_LEVELS.indexOf(messageLevel) >= threshold) {
+        sink[messageLevel](message, ...data);
+      }
+    };
+
+  return {
+    debug: forward("debug"),
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+  };
+};
+
+/**
+ * A logger that drops all messages, the default for components.
+ *
+ * @category Function
+ */
+export const silentLogger: Logger = createLogger("silent");
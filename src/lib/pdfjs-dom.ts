@@ -87,3 +87,65 @@ export const findOrCreateContainerLayer = (
 
   return layer;
 };
+
+/**
+ * Numbers of the pages whose element overlaps the visible area of the
+ * scroll container. Pages that aren't laid out (e.g. hidden by the scroll or
+ * spread mode) are never visible.
+ */
+export const getVisiblePageNumbers = (
+  container: HTMLElement,
+  pageViews: Array<{ id: number; div: HTMLElement } | undefined>,
+): number[] => {
+  const bounds = container.getBoundingClientRect();
+
+  return pageViews.flatMap((pageView) => {
+    if (!pageView) return [];
+
+    const rect = pageView.div.getBoundingClientRect();
+    const isVisible =
+      rect.width > 0 &&
+      rect.height > 0 &&
+      rect.bottom > bounds.top &&
+      rect.top < bounds.bottom &&
+      rect.right > bounds.left &&
+      rect.left < bounds.right;
+
+    return isVisible ? [pageView.id] : [];
+  });
+};
+
+/**
+ * The part of a PDF.js viewer read by {@link getViewerVisiblePageNumbers}.
+ */
+type PageViewer = {
+  container: HTMLElement;
+  pagesCount: number;
+  getPageView(index: number): { id: number; div: HTMLElement } | undefined;
+};
+
+/**
+ * Numbers of the visible pages of a PDF.js viewer, in page order. Uses the
+ * viewer's own lookup, which binary-searches the page offsets, and falls back
+ * to measuring every page with {@link getVisiblePageNumbers} if that private
+ * method is missing.
+ */
+export const getViewerVisiblePageNumbers = (viewer: PageViewer): number[] => {
+  const { _getVisiblePages } = viewer as PageViewer & {
+    _getVisiblePages?: () => { views?: Array<{ id: number }> };
+  };
+  const views =
+    typeof _getVisiblePages === "function"
+      ? _getVisiblePages.call(viewer)?.views
+      : undefined;
+  if (Array.isArray(views)) {
+    return views.map(({ id }) => id).sort((a, b) => a - b);
+  }
+
+  return getVisiblePageNumbers(
+    viewer.container,
+    Array.from({ length: viewer.pagesCount }, (_, index) =>
+      viewer.getPageView(index),
+    ),
+  );
+};
@@ -0,0 +1,76 @@
+import {
+  getStrokeOutline,
+  hasPressure,
+  HIGHLIGHTER_OPACITY,
+} from "./stroke-geometry";
+import type { DrawingStroke } from "../types";
+
+/**
+ * Draw a stroke on a canvas, smoothed. Strokes with pressure are filled
+ * outlines whose width follows it; highlighters are translucent and
+ * multiply with what is below them.
+ */
+export const drawStroke = (
+  ctx: CanvasRenderingContext2D,
+  stroke: DrawingStroke
+): void => {
+  const { points } = stroke;
+  if (points.length < 2) return;
+
+  ctx.save();
+  if (stroke.tool === "highlighter") {
+    ctx.globalAlpha = HIGHLIGHTER_OPACITY;
+    ctx.globalCompositeOperation = "multiply";
+  }
+
+  ctx.beginPath();
+  if (hasPressure(stroke)) {
+    getStrokeOutline(stroke).forEach(({ x, y }, index) =>
+      index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)
+    );
+    ctx.closePath();
+    ctx.fillStyle = stroke.color;
+    ctx.fill();
+  } else {
+    // Quadratic curves between the midpoints of the segments
+    ctx.moveTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length - 1; i++) {
+      ctx.quadraticCurveTo(
+        points[i].x,
+        points[i].y,
+        (points[i].x + points[i + 1].x) / 2,
+        (points[i].y + points[i + 1].y) / 2
+      );
+    }
+    ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
+
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.width;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/**
+ * Re-render strokes to a canvas and return as PNG data URL.
+ */
+const renderStrokesToImage = (
+  strokes: DrawingStroke[],
+  width: number,
+  height: number
+): string => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+
+  if (!ctx) return "";
+
+  strokes.forEach((stroke) => drawStroke(ctx, stroke));
+
+  return canvas.toDataURL("image/png");
+};
+
+export default renderStrokesToImage;
@@ -0,0 +1,53 @@
+import { ReactNode } from "react";
+import {
+  Collaborator,
+  GhostHighlight,
+  Highlight,
+  HighlightBindings,
+} from "../types";
+
+/**
+ * What a page's highlight layer was last rendered with, used to skip
+ * re-rendering pages that haven't changed.
+ */
+export type RenderedLayer = {
+  highlightBindings: HighlightBindings;
+  highlights: Array<Highlight | GhostHighlight>;
+  viewport: unknown;
+  scrolledToHighlightId: string | null;
+  selectedHighlightIds: string;
+  collaborators: Collaborator[];
+  searchMatches: GhostHighlight[];
+  selectedSearchMatch: GhostHighlight | null;
+  children: ReactNode;
+};
+
+const isSameArray = <T>(a: T[], b: T[]) =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+/**
+ * Whether a page's highlight layer can be left as it is, i.e. everything it
+ * would be rendered with is identical to what it was last rendered with.
+ *
+ * @param previous - What the layer was last rendered with, if anything.
+ * @param layer - What the layer would be rendered with now.
+ * @returns - `true` if re-rendering the layer can be skipped.
+ */
+export const isRenderedLayerUnchanged = (
+  previous: RenderedLayer | undefined,
+  layer: RenderedLayer,
+): boolean => {
+  if (!previous) return false;
+
+  return (
+    previous.highlightBindings === layer.highlightBindings &&
+    previous.viewport === layer.viewport &&
+    previous.scrolledToHighlightId === layer.scrolledToHighlightId &&
+    previous.selectedHighlightIds === layer.selectedHighlightIds &&
+    previous.selectedSearchMatch === layer.selectedSearchMatch &&
+    previous.children === layer.children &&
+    isSameArray(previous.highlights, layer.highlights) &&
+    isSameArray(previous.collaborators, layer.collaborators) &&
+    isSameArray(previous.searchMatches, layer.searchMatches)
+  );
+};
@@ -0,0 +1,340 @@
+import { rotatePoint } from "./coordinates";
+import type { LineEnding, ShapeData, ShapeMeasure, ShapeType } from "../types";
+
+type Vector = { x: number; y: number };
+type Box = { x: number; y: number; width: number; height: number };
+
+/** Space around the points of a shape in its box, so endings and handles fit. */
+export const SHAPE_PADDING = 12;
+
+/** Font size of callout text in viewport pixels. */
+export const CALLOUT_FONT_SIZE = 12;
+
+/** Padding around callout text in viewport pixels. */
+export const CALLOUT_PADDING = 4;
+
+/** Whether a shape is a line between a start and an end point. */
+export const isLineShape = (shapeType: ShapeType) =>
+  shapeType === "line" || shapeType === "arrow" || shapeType === "doubleArrow";
+
+/** Whether a shape is drawn through points rather than filling its box. */
+export const isPointShape = (shapeType: ShapeType) =>
+  shapeType !== "rectangle" && shapeType !== "circle";
+
+/** Whether a shape has an inside that can be filled. */
+export const isClosedShape = (shapeType: ShapeType) =>
+  !isLineShape(shapeType) && shapeType !== "polyline";
+
+/** Whether a shape can show its length. */
+export const isMeasurableShape = (shapeType: ShapeType) =>
+  isLineShape(shapeType) || shapeType === "polyline";
+
+// Lines without points run across the middle of their box
+const DEFAULT_START_POINT = { x: 0, y: 0.5 };
+const DEFAULT_END_POINT = { x: 1, y: 0.5 };
+
+/**
+ * The points of a shape in a box of `width` by `height`: the start and end
+ * of lines, the vertices of polylines, polygons and clouds, and the leader
+ * of callouts.
+ */
+export const getShapePoints = (
+  shape: ShapeData,
+  width: number,
+  height: number,
+): Vector[] => {
+  const fractions = isLineShape(shape.shapeType)
+    ? [
+        shape.startPoint ?? DEFAULT_START_POINT,
+        shape.endPoint ?? DEFAULT_END_POINT,
+      ]
+    : shape.vertices ?? [];
+
+  return fractions.map(({ x, y }) => ({ x: x * width, y: y * height }));
+};
+
+/** The text box of a callout in a box of `width` by `height`. */
+export const getCalloutBox = (
+  shape: ShapeData,
+  width: number,
+  height: number,
+): Box => {
+  const box = shape.textBox ?? { x: 0, y: 0, width: 1, height: 1 };
+  return {
+    x: box.x * width,
+    y: box.y * height,
+    width: box.width * width,
+    height: box.height * height,
+  };
+};
+
+/**
+ * Where a callout leader meets its text box: the point of the box nearest
+ * to `point`.
+ */
+export const getCalloutAnchor = (box: Box, point: Vector): Vector => ({
+  x: Math.min(Math.max(point.x, box.x), box.x + box.width),
+  y: Math.min(Math.max(point.y, box.y), box.y + box.height),
+});
+
+/** The endings of a shape, with the defaults of its type. */
+export const getLineEndings = (
+  shape: ShapeData,
+): { start: LineEnding; end: LineEnding } => ({
+  start:
+    shape.startEnding ??
+    (shape.shapeType === "doubleArrow" || shape.shapeType === "callout"
+      ? "openArrow"
+      : "none"),
+  end:
+    shape.endEnding ??
+    (shape.shapeType === "arrow" || shape.shapeType === "doubleArrow"
+      ? "openArrow"
+      : "none"),
+});
+
+/** PDF names of line endings, as in the `/LE` of annotations and XFDF. */
+export const PDF_LINE_ENDINGS: Record<LineEnding, string> = {
+  none: "None",
+  openArrow: "OpenArrow",
+  closedArrow: "ClosedArrow",
+  circle: "Circle",
+  square: "Square",
+  diamond: "Diamond",
+  butt: "Butt",
+};
+
+/** The line ending with a PDF name, or "none" for unknown names. */
+export const toLineEnding = (name: string | null | undefined): LineEnding =>
+  (Object.keys(PDF_LINE_ENDINGS) as LineEnding[]).find(
+    (ending) => PDF_LINE_ENDINGS[ending] === name,
+  ) ?? "none";
+
+/**
+ * The type of a line between `start` and `end` endings: an arrow or double
+ * arrow if the endings are theirs, otherwise a line keeping its endings.
+ */
+export const getLineShape = (
+  start: LineEnding,
+  end: LineEnding,
+): Pick<ShapeData, "shapeType" | "startEnding" | "endEnding"> => {
+  if (start === "none" && end === "openArrow") return { shapeType: "arrow" };
+  if (start === "openArrow" && end === "openArrow") {
+    return { shapeType: "doubleArrow" };
+  }
+  return {
+    shapeType: "line",
+    ...(start !== "none" && { startEnding: start }),
+    ...(end !== "none" && { endEnding: end }),
+  };
+};
+
+/**
+ * Rotate the points and text box of a shape, or of a change to one, clockwise
+ * by a multiple of 90° together with its box. Shapes are stored relative to
+ * the unrotated page, so they are rotated like the page view to show them
+ * and back to store edits.
+ */
+export const rotateShape = <T extends Partial<ShapeData>>(
+  shape: T,
+  rotation: number,
+): T => {
+  if (rotation % 360 === 0) return shape;
+
+  const rotate = (point: Vector) => rotatePoint(point, 1, 1, rotation);
+  const isLine = shape.shapeType !== undefined && isLineShape(shape.shapeType);
+  const startPoint =
+    shape.startPoint ?? (isLine ? DEFAULT_START_POINT : undefined);
+  const endPoint = shape.endPoint ?? (isLine ? DEFAULT_END_POINT : undefined);
+
+  const rotated: T = { ...shape };
+  if (startPoint) rotated.startPoint = rotate(startPoint);
+  if (endPoint) rotated.endPoint = rotate(endPoint);
+  if (shape.vertices) rotated.vertices = shape.vertices.map(rotate);
+  if (shape.textBox) {
+    const { x, y, width, height } = shape.textBox;
+    const a = rotate({ x, y });
+    const b = rotate({ x: x + width, y: y + height });
+    rotated.textBox = {
+      x: Math.min(a.x, b.x),
+      y: Math.min(a.y, b.y),
+      width: Math.abs(b.x - a.x),
+      height: Math.abs(b.y - a.y),
+    };
+  }
+  return rotated;
+};
+
+/**
+ * A box around points on a page, with `padding` around them, and the points
+ * as fractions of it.
+ */
+export const fitShapeBox = (points: Vector[], padding = SHAPE_PADDING) => {
+  const xs = points.map(({ x }) => x);
+  const ys = points.map(({ y }) => y);
+  const left = Math.max(Math.min(...xs) - padding, 0);
+  const top = Math.max(Math.min(...ys) - padding, 0);
+  const width = Math.max(...xs) + padding - left;
+  const height = Math.max(...ys) + padding - top;
+
+  return {
+    left,
+    top,
+    width,
+    height,
+    fractions: points.map(({ x, y }) => ({
+      x: (x - left) / width,
+      y: (y - top) / height,
+    })),
+  };
+};
+
+const format = ({ x, y }: Vector) => `${x.toFixed(2)} ${y.toFixed(2)}`;
+
+/** An SVG path through points, closed for polygons. */
+export const getPolylinePath = (points: Vector[], closed = false) =>
+  points.length === 0
+    ? ""
+    : `M ${points.map(format).join(" L ")}${closed ? " Z" : ""}`;
+
+/**
+ * The scalloped outline of a revision cloud around a polygon, with bumps
+ * that bulge outwards whichever way the polygon was drawn.
+ */
+export const getCloudPath = (points: Vector[], strokeWidth: number) => {
+  if (points.length < 3) return getPolylinePath(points, true);
+
+  // Positive when the points go clockwise on screen, where the outside is
+  // to the left of each edge
+  const area = points.reduce((sum, point, index) => {
+    const next = points[(index + 1) % points.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0);
+  const sweep = area > 0 ? 1 : 0;
+  const bumpSize = Math.max(strokeWidth * 6, 12);
+
+  let path = `M ${format(points[0])}`;
+  points.forEach((point, index) => {
+    const next = points[(index + 1) % points.length];
+    const length = Math.hypot(next.x - point.x, next.y - point.y);
+    const count = Math.max(Math.round(length / bumpSize), 1);
+    const radius = (length / count / 2).toFixed(2);
+
+    for (let bump = 1; bump <= count; bump++) {
+      const end = {
+        x: point.x + ((next.x - point.x) * bump) / count,
+        y: point.y + ((next.y - point.y) * bump) / count,
+      };
+      path += ` A ${radius} ${radius} 0 0 ${sweep} ${format(end)}`;
+    }
+  });
+
+  return `${path} Z`;
+};
+
+/**
+ * The SVG path of a line ending at `tip`, for a line coming from `from`.
+ * Filled endings are filled with the stroke color.
+ */
+export const getLineEndingPath = (
+  ending: LineEnding,
+  tip: Vector,
+  from: Vector,
+  strokeWidth: number,
+): { path: string; filled: boolean } | null => {
+  if (ending === "none") return null;
+
+  const length = Math.hypot(tip.x - from.x, tip.y - from.y) || 1;
+  const direction = {
+    x: (tip.x - from.x) / length,
+    y: (tip.y - from.y) / length,
+  };
+  const size = Math.max(8, strokeWidth * 4);
+  // A point `along` the line from the tip and `across` it
+  const at = (along: number, across: number) =>
+    format({
+      x: tip.x + direction.x * along - direction.y * across,
+      y: tip.y + direction.y * along + direction.x * across,
+    });
+
+  switch (ending) {
+    case "openArrow":
+      return {
+        path: `M ${at(-size, size / 2)} L ${at(0, 0)} L ${at(-size, -size / 2)}`,
+        filled: false,
+      };
+    case "closedArrow":
+      return {
+        path: `M ${at(-size, size / 2)} L ${at(0, 0)} L ${at(-size, -size / 2)} Z`,
+        filled: true,
+      };
+    case "circle": {
+      const radius = (size / 3).toFixed(2);
+      return {
+        path: `M ${at(0, -size / 3)} A ${radius} ${radius} 0 1 0 ${at(0, size / 3)} A ${radius} ${radius} 0 1 0 ${at(0, -size / 3)} Z`,
+        filled: true,
+      };
+    }
+    case "square": {
+      const half = size / 3;
+      return {
+        path: `M ${at(half, half)} L ${at(half, -half)} L ${at(-half, -half)} L ${at(-half, half)} Z`,
+        filled: true,
+      };
+    }
+    case "diamond": {
+      const half = size / 2.5;
+      return {
+        path: `M ${at(half, 0)} L ${at(0, half)} L ${at(-half, 0)} L ${at(0, -half)} Z`,
+        filled: true,
+      };
+    }
+    case "butt":
+      return {
+        path: `M ${at(0, size / 2)} L ${at(0, -size / 2)}`,
+        filled: false,
+      };
+  }
+};
+
+/** The length of the path through points. */
+export const getPathLength = (points: Vector[]) =>
+  points.reduce((length, point, index) => {
+    const previous = points[index - 1];
+    return previous
+      ? length + Math.hypot(point.x - previous.x, point.y - previous.y)
+      : length;
+  }, 0);
+
+/** The point halfway along the path through points. */
+export const getPathMidpoint = (points: Vector[]): Vector => {
+  let remaining = getPathLength(points) / 2;
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    if (length >= remaining && length > 0) {
+      const t = remaining / length;
+      return {
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t,
+      };
+    }
+    remaining -= length;
+  }
+
+  return points[points.length - 1] ?? { x: 0, y: 0 };
+};
+
+/**
+ * Format a length in PDF points with a measure, e.g. "2.50 in".
+ *
+ * @param length - Length in PDF points.
+ * @param measure - Scale and unit of the shape.
+ * @returns - The length in the unit of the measure.
+ */
+export const formatMeasurement = (
+  length: number,
+  { scale, unit, precision = 2 }: ShapeMeasure,
+) => `${(length * scale).toFixed(precision)} ${unit}`;
@@ -0,0 +1,219 @@
+import type { DrawingPoint, DrawingStroke } from "../types";
+
+type Vector = { x: number; y: number };
+
+/** Opacity of highlighter strokes, which multiply with the page. */
+export const HIGHLIGHTER_OPACITY = 0.4;
+
+/** Width of highlighter strokes relative to pen strokes. */
+export const HIGHLIGHTER_WIDTH_FACTOR = 4;
+
+// Points of a round cap, including neither side
+const CAP_STEPS = 8;
+
+/**
+ * Whether a stroke is drawn with a width that follows the pen pressure.
+ * Highlighters keep an even width.
+ */
+export const hasPressure = (stroke: DrawingStroke) =>
+  stroke.tool !== "highlighter" &&
+  stroke.points.some((point) => point.pressure !== undefined);
+
+/**
+ * Half the width of a stroke at a point: from 40% of the stroke width at no
+ * pressure to 160% at full pressure.
+ */
+const getRadius = (stroke: DrawingStroke, point: DrawingPoint) =>
+  (stroke.width / 2) * (0.4 + 1.2 * (point.pressure ?? 0.5));
+
+/**
+ * Smooth the points of a stroke with a Catmull-Rom spline through them. The
+ * pressure is interpolated linearly.
+ */
+export const smoothStrokePoints = (
+  points: DrawingPoint[],
+): DrawingPoint[] => {
+  if (points.length < 3) return points;
+
+  const smoothed: DrawingPoint[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[Math.max(i - 1, 0)];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[Math.min(i + 2, points.length - 1)];
+
+    // About a point every 4px, so the long segments of fast strokes curve
+    const length = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+    const steps = Math.min(Math.max(Math.ceil(length / 4), 1), 8);
+
+    for (let step = 0; step < steps; step++) {
+      const t = step / steps;
+      const interpolate = (a: number, b: number, c: number, d: number) =>
+        0.5 *
+        (2 * b +
+          (c - a) * t +
+          (2 * a - 5 * b + 4 * c - d) * t * t +
+          (3 * b - a - 3 * c + d) * t * t * t);
+
+      smoothed.push({
+        x: interpolate(p0.x, p1.x, p2.x, p3.x),
+        y: interpolate(p0.y, p1.y, p2.y, p3.y),
+        pressure:
+          p1.pressure === undefined
+            ? undefined
+            : p1.pressure + ((p2.pressure ?? p1.pressure) - p1.pressure) * t,
+      });
+    }
+  }
+  smoothed.push(points[points.length - 1]);
+
+  return smoothed;
+};
+
+/**
+ * Add the points of a half circle around `center` from the side `from`
+ * through the side `forward`.
+ */
+const addCap = (
+  outline: Vector[],
+  center: Vector,
+  radius: number,
+  from: Vector,
+  forward: Vector,
+) => {
+  for (let step = 1; step < CAP_STEPS; step++) {
+    const angle = (Math.PI * step) / CAP_STEPS;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    outline.push({
+      x: center.x + radius * (cos * from.x + sin * forward.x),
+      y: center.y + radius * (cos * from.y + sin * forward.y),
+    });
+  }
+};
+
+/**
+ * Outline of a smoothed stroke whose width follows the pen pressure, to be
+ * filled with the nonzero rule: its left side, a round cap at the end, its
+ * right side backwards and a round cap at the start.
+ */
+export const getStrokeOutline = (stroke: DrawingStroke): Vector[] => {
+  // Points on top of each other have no direction
+  const points = smoothStrokePoints(stroke.points).filter(
+    (point, index, all) =>
+      index === 0 ||
+      Math.hypot(point.x - all[index - 1].x, point.y - all[index - 1].y) > 0.5,
+  );
+
+  const first = points[0];
+  if (points.length === 1) {
+    const outline: Vector[] = [];
+    const radius = getRadius(stroke, first);
+    addCap(outline, first, radius, { x: 0, y: -1 }, { x: 1, y: 0 });
+    addCap(outline, first, radius, { x: 0, y: 1 }, { x: -1, y: 0 });
+    return outline;
+  }
+
+  const left: Vector[] = [];
+  const right: Vector[] = [];
+  const directions = points.map((point, index) => {
+    const previous = points[Math.max(index - 1, 0)];
+    const next = points[Math.min(index + 1, points.length - 1)];
+    const dx = next.x - previous.x;
+    const dy = next.y - previous.y;
+    const length = Math.hypot(dx, dy);
+    return { x: dx / length, y: dy / length };
+  });
+
+  points.forEach((point, index) => {
+    const radius = getRadius(stroke, point);
+    const { x: dx, y: dy } = directions[index];
+    // The normal to the left of the direction, with y down
+    left.push({ x: point.x + dy * radius, y: point.y - dx * radius });
+    right.push({ x: point.x - dy * radius, y: point.y + dx * radius });
+  });
+
+  const last = points[points.length - 1];
+  const end = directions[directions.length - 1];
+  const start = directions[0];
+
+  const outline = [...left];
+  addCap(outline, last, getRadius(stroke, last), { x: end.y, y: -end.x }, end);
+  outline.push(...right.reverse());
+  addCap(
+    outline,
+    first,
+    getRadius(stroke, first),
+    { x: -start.y, y: start.x },
+    { x: -start.x, y: -start.y },
+  );
+
+  return outline;
+};
+
+const distanceToSegment = (point: Vector, a: Vector, b: Vector) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const projection = (point.x - a.x) * dx + (point.y - a.y) * dy;
+  const t = lengthSquared
+    ? Math.min(Math.max(projection / lengthSquared, 0), 1)
+    : 0;
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+};
+
+const cross = (a: Vector, b: Vector, c: Vector) =>
+  (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+const distanceBetweenSegments = (a: Vector, b: Vector, c: Vector, d: Vector) =>
+  cross(a, b, c) * cross(a, b, d) < 0 && cross(c, d, a) * cross(c, d, b) < 0
+    ? 0
+    : Math.min(
+        distanceToSegment(a, c, d),
+        distanceToSegment(b, c, d),
+        distanceToSegment(c, a, b),
+        distanceToSegment(d, a, b),
+      );
+
+/**
+ * Erase what an eraser of `radius` moving from `from` to `to` passes over.
+ * Strokes are split where their middle is erased, and parts with fewer than
+ * two points are removed.
+ *
+ * @returns - The remaining strokes, the same objects where untouched.
+ */
+export const eraseStrokes = (
+  strokes: DrawingStroke[],
+  from: Vector,
+  to: Vector,
+  radius: number,
+): DrawingStroke[] =>
+  strokes.flatMap((stroke) => {
+    const reach = radius + stroke.width / 2;
+    const parts: DrawingPoint[][] = [];
+    let part: DrawingPoint[] = [];
+    let touched = false;
+
+    stroke.points.forEach((point, index) => {
+      const previous = stroke.points[index - 1];
+      if (
+        previous &&
+        distanceBetweenSegments(previous, point, from, to) <= reach
+      ) {
+        touched = true;
+        parts.push(part);
+        part = [];
+      }
+      if (distanceToSegment(point, from, to) <= reach) {
+        touched = true;
+      } else {
+        part.push(point);
+      }
+    });
+    parts.push(part);
+
+    if (!touched) return [stroke];
+    return parts
+      .filter((points) => points.length >= 2)
+      .map((points) => ({ ...stroke, points }));
+  });
@@ -0,0 +1,143 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { describe, expect, it } from "vitest";
+import { Highlight } from "../types";
+import { createFakePdfDocument } from "./fake-pdf-document";
+import { findTextHighlights } from "./find-text-highlights";
+import { createTextAnchor, reanchorHighlights } from "./text-anchor";
+
+// One line of 10 point text per item, with every character 5 points wide
+const textItem = (str: string, line: number): TextItem => ({
+  str,
+  dir: "ltr",
+  transform: [10, 0, 0, 10, 50, 700 - line * 20],
+  width: str.length * 5,
+  height: 10,
+  fontName: "Helvetica",
+  hasEOL: true,
+});
+
+/** A document with a page per list of lines. */
+const createDocument = (pages: string[][]) =>
+  createFakePdfDocument(
+    pages.map((lines) => ({
+      width: 600,
+      height: 800,
+      textItems: lines.map(textItem),
+    })),
+  );
+
+const original = createDocument([
+  [
+    "Payment terms",
+    "The buyer pays within thirty days of delivery.",
+    "Late payments accrue interest.",
+  ],
+]);
+const quote = "The buyer pays within thirty days of delivery";
+
+/** A highlight of the first occurrence of some text, with its anchor. */
+const createAnchoredHighlight = async (): Promise<Highlight> => {
+  const [{ position, content }] = await findTextHighlights(original, quote);
+  const highlight: Highlight = {
+    id: "terms",
+    type: "text",
+    position,
+    content,
+  };
+  const anchor = await createTextAnchor(highlight, original);
+  return { ...highlight, anchor: anchor! };
+};
+
+describe("reanchorHighlights", () => {
+  it("anchors a highlight to the text it was made on", async () => {
+    const { anchor } = await createAnchoredHighlight();
+
+    expect(anchor).toMatchObject({
+      exact: quote,
+      prefix: "Payment terms\n",
+      suffix: ".\nLate payments accrue interest.",
+      pageNumber: 1,
+    });
+  });
+
+  it("moves a highlight to where its text is now", async () => {
+    const revision = createDocument([
+      ["Cover page"],
+      [
+        "Payment terms",
+        "Definitions come first now.",
+        "The buyer pays within thirty days of delivery.",
+      ],
+    ]);
+    const highlight = await createAnchoredHighlight();
+
+    const { highlights, orphans } = await reanchorHighlights(
+      [highlight],
+      revision,
+    );
+    const [expected] = await findTextHighlights(revision, quote);
+
+    expect(orphans).toEqual([]);
+    expect(highlights[0].position).toEqual(expected.position);
+    expect(highlights[0].anchor).toMatchObject({ exact: quote, pageNumber: 2 });
+  });
+
+  it("picks the occurrence whose context matches", async () => {
+    const revision = createDocument([
+      [
+        "Preamble",
+        "The buyer pays within thirty days of delivery.",
+        "Payment terms",
+        "The buyer pays within thirty days of delivery.",
+        "Late payments accrue interest.",
+      ],
+    ]);
+    const highlight = await createAnchoredHighlight();
+
+    const { highlights } = await reanchorHighlights([highlight], revision);
+    const [, expected] = await findTextHighlights(revision, quote);
+
+    expect(highlights[0].position).toEqual(expected.position);
+  });
+
+  it("follows small edits of the text", async () => {
+    const revision = createDocument([
+      [
+        "Payment terms",
+        "The buyer pays within thirty (30) days of delivery.",
+        "Late payments accrue interest.",
+      ],
+    ]);
+    const highlight = await createAnchoredHighlight();
+
+    const { highlights, orphans } = await reanchorHighlights(
+      [highlight],
+      revision,
+    );
+
+    expect(orphans).toEqual([]);
+    expect(highlights[0].content?.text).toBe(
+      "The buyer pays within thirty (30) days of delivery",
+    );
+  });
+
+  it("reports highlights whose text is gone as orphans", async () => {
+    const revision = createDocument([
+      ["Payment terms", "Payment is due on signature."],
+    ]);
+    const highlight = await createAnchoredHighlight();
+    const unanchored: Highlight = {
+      ...highlight,
+      id: "area",
+      anchor: undefined,
+    };
+
+    const { highlights, orphans } = await reanchorHighlights(
+      [highlight, unanchored],
+      revision,
+    );
+
+    expect(orphans).toEqual([highlight]);
+    expect(highlights).toEqual([unanchored]);
+  });
+});
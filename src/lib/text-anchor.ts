@@ -0,0 +1,404 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import type { Highlight, TextAnchor } from "../types";
+import { scaledToViewport, viewportToScaled } from "./coordinates";
+import getBoundingRect from "./get-bounding-rect";
+import {
+  getPageText,
+  getTextRangeInRects,
+  getTextRangeRects,
+  PageText,
+} from "./text-content";
+
+/**
+ * Options for {@link createTextAnchor}.
+ *
+ * @category Type
+ */
+export interface CreateTextAnchorOptions {
+  /** Number of characters kept before and after the quote. Default: 32 */
+  contextLength?: number;
+}
+
+/**
+ * Options for {@link reanchorHighlights}.
+ *
+ * @category Type
+ */
+export interface ReanchorOptions {
+  /**
+   * Share of the quote's characters that may differ in a fuzzy match (0-1).
+   * Default: 0.2
+   */
+  maxErrorRate?: number;
+  /**
+   * How many pages before and after the page hint are searched for fuzzy
+   * matches. Exact matches are looked for on every page. Default: 2
+   */
+  fuzzyPageRange?: number;
+  /** Number of characters kept before and after the quote in the new anchors. Default: 32 */
+  contextLength?: number;
+}
+
+/**
+ * Result of {@link reanchorHighlights}.
+ *
+ * @category Type
+ */
+export type ReanchorResult<T> = {
+  /**
+   * Re-anchored highlights with updated `position` and `anchor`, in their
+   * original order. Highlights without an anchor are returned unchanged.
+   */
+  highlights: T[];
+  /** Highlights whose text could not be found in the new document. */
+  orphans: T[];
+};
+
+type AnchorMatch = {
+  pageText: PageText;
+  start: number;
+  end: number;
+  score: number;
+};
+
+/**
+ * Page text with whitespace runs collapsed to a single space, and a map from
+ * each character back to its offset in the original text.
+ */
+type NormalizedText = { text: string; offsets: number[] };
+
+type SearchablePage = { pageText: PageText; normalized: NormalizedText };
+
+const normalizeWhitespace = (text: string): NormalizedText => {
+  let normalized = "";
+  const offsets: number[] = [];
+
+  for (let index = 0; index < text.length; index++) {
+    const isSpace = /\s/.test(text[index]);
+    if (isSpace && normalized.endsWith(" ")) continue;
+
+    normalized += isSpace ? " " : text[index];
+    offsets.push(index);
+  }
+  offsets.push(text.length);
+
+  return { text: normalized, offsets };
+};
+
+const normalizeQuote = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/** Levenshtein distance, used to compare short context strings. */
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string) => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+};
+
+/**
+ * Approximate substring search (Sellers' algorithm). Returns the ranges of
+ * `text` matching `pattern` with at most `maxErrors` edits, keeping only the
+ * best range around each position.
+ */
+const fuzzySearch = (text: string, pattern: string, maxErrors: number) => {
+  const m = pattern.length;
+  const n = text.length;
+  const matches: { start: number; end: number; errors: number }[] = [];
+  if (m === 0) return matches;
+
+  // column[i] = edits to match pattern[0, i) ending at the current text index
+  let column = new Int32Array(m + 1);
+  let starts = new Int32Array(m + 1);
+  let nextColumn = new Int32Array(m + 1);
+  let nextStarts = new Int32Array(m + 1);
+  for (let i = 0; i <= m; i++) column[i] = i;
+
+  let previousErrors = Infinity;
+  for (let j = 1; j <= n; j++) {
+    nextColumn[0] = 0; // A match can start anywhere in the text
+    nextStarts[0] = j;
+
+    for (let i = 1; i <= m; i++) {
+      const substitution =
+        column[i - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+      const deletion = column[i] + 1;
+      const insertion = nextColumn[i - 1] + 1;
+
+      if (substitution <= deletion && substitution <= insertion) {
+        nextColumn[i] = substitution;
+        nextStarts[i] = i === 1 ? j - 1 : starts[i - 1];
+      } else if (deletion <= insertion) {
+        nextColumn[i] = deletion;
+        nextStarts[i] = starts[i];
+      } else {
+        nextColumn[i] = insertion;
+        nextStarts[i] = nextStarts[i - 1];
+      }
+    }
+
+    [column, nextColumn] = [nextColumn, column];
+    [starts, nextStarts] = [nextStarts, starts];
+
+    const errors = column[m];
+    if (errors <= maxErrors) {
+      const last = matches[matches.length - 1];
+      // Extend or replace the previous match if this one overlaps it
+      if (last && previousErrors <= maxErrors && starts[m] < last.end) {
+        if (errors < last.errors) {
+          matches[matches.length - 1] = { start: starts[m], end: j, errors };
+        }
+      } else {
+        matches.push({ start: starts[m], end: j, errors });
+      }
+    }
+    previousErrors = errors;
+  }
+
+  return matches;
+};
+
+/**
+ * Score a candidate range by how well its surrounding text matches the
+ * anchor's context and how close it is to where the anchor used to be.
+ */
+const scoreCandidate = (
+  anchor: TextAnchor,
+  normalized: NormalizedText,
+  pageNumber: number,
+  start: number,
+  end: number,
+  quoteSimilarity: number,
+) => {
+  const prefix = normalizeQuote(anchor.prefix);
+  const suffix = normalizeQuote(anchor.suffix);
+  const before = normalized.text.slice(Math.max(0, start - prefix.length), start);
+  const after = normalized.text.slice(end, end + suffix.length);
+
+  const pageDistance = Math.abs(pageNumber - anchor.pageNumber);
+  const positionDistance =
+    anchor.start === undefined || pageDistance > 0
+      ? 1
+      : Math.min(1, Math.abs(normalized.offsets[start] - anchor.start) / 1000);
+
+  return (
+    quoteSimilarity * 2 +
+    similarity(prefix, before.trim()) * 0.5 +
+    similarity(suffix, after.trim()) * 0.5 +
+    (1 / (1 + pageDistance)) * 0.3 +
+    (1 - positionDistance) * 0.1
+  );
+};
+
+const findAnchor = (
+  anchor: TextAnchor,
+  pages: SearchablePage[],
+  { maxErrorRate = 0.2, fuzzyPageRange = 2 }: ReanchorOptions,
+): AnchorMatch | null => {
+  const quote = normalizeQuote(anchor.exact);
+  if (!quote) return null;
+
+  let best: AnchorMatch | null = null;
+  const consider = (
+    pageText: PageText,
+    normalized: NormalizedText,
+    start: number,
+    end: number,
+    quoteSimilarity: number,
+  ) => {
+    const score = scoreCandidate(
+      anchor,
+      normalized,
+      pageText.pageNumber,
+      start,
+      end,
+      quoteSimilarity,
+    );
+    if (!best || score > best.score) {
+      best = {
+        pageText,
+        start: normalized.offsets[start],
+        // Offset after the last matched character, not the following whitespace
+        end: normalized.offsets[end - 1] + 1,
+        score,
+      };
+    }
+  };
+
+  // Exact matches anywhere in the document
+  pages.forEach(({ pageText, normalized }) => {
+    let start = normalized.text.indexOf(quote);
+    while (start !== -1) {
+      consider(pageText, normalized, start, start + quote.length, 1);
+      start = normalized.text.indexOf(quote, start + 1);
+    }
+  });
+  if (best) return best;
+
+  // Fuzzy matches close to the page the text used to be on
+  const maxErrors = Math.floor(quote.length * maxErrorRate);
+  pages.forEach(({ pageText, normalized }) => {
+    if (Math.abs(pageText.pageNumber - anchor.pageNumber) > fuzzyPageRange) {
+      return;
+    }
+
+    for (const match of fuzzySearch(normalized.text, quote, maxErrors)) {
+      if (match.end <= match.start) continue;
+      consider(
+        pageText,
+        normalized,
+        match.start,
+        match.end,
+        1 - match.errors / quote.length,
+      );
+    }
+  });
+
+  return best;
+};
+
+const anchorFromRange = (
+  pageText: PageText,
+  start: number,
+  end: number,
+  contextLength: number,
+): TextAnchor => ({
+  exact: pageText.text.slice(start, end),
+  prefix: pageText.text.slice(Math.max(0, start - contextLength), start),
+  suffix: pageText.text.slice(end, end + contextLength),
+  pageNumber: pageText.pageNumber,
+  start,
+});
+
+/**
+ * Create a {@link TextAnchor} for a text highlight from the text under its
+ * rects. Store it with the highlight to re-anchor it in a later revision of
+ * the document with {@link reanchorHighlights}.
+ *
+ * @param highlight - A text highlight.
+ * @param pdfDocument - The PDF.js document the highlight was made in.
+ * @param options - Anchor options.
+ * @returns Promise<TextAnchor | null> - The anchor, or `null` if there is no
+ * text under the highlight.
+ *
+ * @category Function
+ */
+export async function createTextAnchor(
+  highlight: Highlight,
+  pdfDocument: PDFDocumentProxy,
+  options: CreateTextAnchorOptions = {},
+): Promise<TextAnchor | null> {
+  const { contextLength = 32 } = options;
+  const { boundingRect, rects, usePdfCoordinates } = highlight.position;
+  const pageNumber = boundingRect.pageNumber;
+  if (pageNumber < 1 || pageNumber > pdfDocument.numPages) return null;
+
+  const pageText = await getPageText(await pdfDocument.getPage(pageNumber));
+  const viewportRects = (rects.length > 0 ? rects : [boundingRect])
+    .filter((rect) => rect.pageNumber === pageNumber)
+    .map((rect) =>
+      scaledToViewport(rect, pageText.viewport, usePdfCoordinates),
+    );
+
+  const range = getTextRangeInRects(pageText, viewportRects);
+  if (range) {
+    return anchorFromRange(pageText, range.start, range.end, contextLength);
+  }
+
+  // Fall back to the highlight's own text
+  const text = highlight.content?.text;
+  const start = text ? pageText.text.indexOf(text) : -1;
+  if (!text || start === -1) return null;
+
+  return anchorFromRange(pageText, start, start + text.length, contextLength);
+}
+
+/**
+ * Find the text of anchored highlights in a (revised) document and recompute
+ * their positions. Exact matches of the quote are preferred, using the prefix,
+ * suffix and page hint to pick between repeated occurrences. Otherwise, the
+ * closest fuzzy match near the page hint is used.
+ *
+ * Highlights whose text cannot be found are reported as orphans instead of
+ * being left at their old position.
+ *
+ * @param highlights - Highlights to re-anchor. Those without an `anchor` are
+ * returned unchanged.
+ * @param pdfDocument - The new PDF.js document.
+ * @param options - Matching options.
+ * @returns Promise<ReanchorResult<T>> - Re-anchored highlights and orphans.
+ *
+ * @category Function
+ */
+export async function reanchorHighlights<T extends Highlight>(
+  highlights: T[],
+  pdfDocument: PDFDocumentProxy,
+  options: ReanchorOptions = {},
+): Promise<ReanchorResult<T>> {
+  const { contextLength = 32 } = options;
+
+  const pages: SearchablePage[] = [];
+  for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+    const pageText = await getPageText(await pdfDocument.getPage(pageNumber));
+    pages.push({ pageText, normalized: normalizeWhitespace(pageText.text) });
+  }
+
+  const reanchored: T[] = [];
+  const orphans: T[] = [];
+
+  for (const highlight of highlights) {
+    const { anchor } = highlight;
+    if (!anchor) {
+      reanchored.push(highlight);
+      continue;
+    }
+
+    const match = findAnchor(anchor, pages, options);
+    const rects = match
+      ? getTextRangeRects(match.pageText, match.start, match.end)
+      : [];
+
+    if (!match || rects.length === 0) {
+      orphans.push(highlight);
+      continue;
+    }
+
+    const { viewport } = match.pageText;
+    const newAnchor = anchorFromRange(
+      match.pageText,
+      match.start,
+      match.end,
+      contextLength,
+    );
+
+    reanchored.push({
+      ...highlight,
+      content: {
+        ...highlight.content,
+        text: newAnchor.exact.split("\n").join(" "), // Make all line breaks spaces
+      },
+      position: {
+        boundingRect: viewportToScaled(getBoundingRect(rects), viewport),
+        rects: rects.map((rect) => viewportToScaled(rect, viewport)),
+      },
+      anchor: newAnchor,
+    });
+  }
+
+  return { highlights: reanchored, orphans };
+}
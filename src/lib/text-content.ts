@@ -0,0 +1,171 @@
+import type { PDFPageProxy, PageViewport } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { LTWHP } from "../types";
+import optimizeClientRects from "./optimize-client-rects";
+
+// Share of the font size below the baseline, roughly what the PDF.js text
+// layer uses when positioning its spans.
+const FONT_DESCENT = 0.2;
+
+/**
+ * A text item of a page with its character offsets in {@link PageText.text}.
+ */
+export type PageTextItem = {
+  item: TextItem;
+  start: number;
+  end: number;
+};
+
+/**
+ * The plain text of a page together with the items it was built from, so
+ * character offsets can be mapped back to positions on the page.
+ */
+export type PageText = {
+  /** 1-indexed page number */
+  pageNumber: number;
+  /** Concatenated text of the page, with line breaks where PDF.js reports them */
+  text: string;
+  items: PageTextItem[];
+  /** Unscaled viewport of the page */
+  viewport: PageViewport;
+};
+
+/**
+ * Read the text content of a page without relying on the rendered text layer.
+ */
+export const getPageText = async (page: PDFPageProxy): Promise<PageText> => {
+  const textContent = await page.getTextContent();
+  const items: PageTextItem[] = [];
+  let text = "";
+
+  for (const item of textContent.items) {
+    if (!("str" in item)) continue;
+
+    const start = text.length;
+    text += item.str;
+    items.push({ item, start, end: text.length });
+
+    if (item.hasEOL) text += "\n";
+  }
+
+  return {
+    pageNumber: page.pageNumber,
+    text,
+    items,
+    viewport: page.getViewport({ scale: 1 }),
+  };
+};
+
+/**
+ * Viewport rectangle covering the characters [from, to) of a text item.
+ * Characters are assumed to be of equal width.
+ */
+const getItemRect = (
+  { item, start, end }: PageTextItem,
+  from: number,
+  to: number,
+  viewport: PageViewport,
+  pageNumber: number,
+): LTWHP => {
+  const [a, b, c, d, x, y] = item.transform;
+  const length = Math.max(1, end - start);
+  const fontHeight = item.height || Math.hypot(c, d) || Math.hypot(a, b);
+  const x1 = x + (item.width * (from - start)) / length;
+  const x2 = x + (item.width * (to - start)) / length;
+
+  const [vx1, vy1, vx2, vy2] = viewport.convertToViewportRectangle([
+    x1,
+    y - fontHeight * FONT_DESCENT,
+    x2,
+    y + fontHeight * (1 - FONT_DESCENT),
+  ]);
+
+  return {
+    left: Math.min(vx1, vx2),
+    top: Math.min(vy1, vy2),
+    width: Math.abs(vx2 - vx1),
+    height: Math.abs(vy2 - vy1),
+    pageNumber,
+  };
+};
+
+/**
+ * Build viewport rectangles (one per line fragment) for the characters
+ * [start, end) of a page's text.
+ */
+export const getTextRangeRects = (
+  pageText: PageText,
+  start: number,
+  end: number,
+  viewport: PageViewport = pageText.viewport,
+): LTWHP[] => {
+  const rects: LTWHP[] = [];
+
+  for (const pageTextItem of pageText.items) {
+    if (pageTextItem.end <= start || pageTextItem.start >= end) continue;
+    if (!pageTextItem.item.str.trim()) continue;
+
+    const rect = getItemRect(
+      pageTextItem,
+      Math.max(start, pageTextItem.start),
+      Math.min(end, pageTextItem.end),
+      viewport,
+      pageText.pageNumber,
+    );
+    if (rect.width > 0 && rect.height > 0) rects.push(rect);
+  }
+
+  return optimizeClientRects(rects);
+};
+
+/**
+ * Find the character range of a page's text covered by viewport rectangles,
+ * e.g. the rects of a text highlight. Returns `null` if no text is covered.
+ */
+export const getTextRangeInRects = (
+  pageText: PageText,
+  rects: LTWHP[],
+  viewport: PageViewport = pageText.viewport,
+): { start: number; end: number } | null => {
+  let start = Infinity;
+  let end = -Infinity;
+
+  for (const pageTextItem of pageText.items) {
+    const { start: itemStart, end: itemEnd } = pageTextItem;
+    if (itemEnd === itemStart) continue;
+
+    const itemRect = getItemRect(
+      pageTextItem,
+      itemStart,
+      itemEnd,
+      viewport,
+      pageText.pageNumber,
+    );
+    const centerY = itemRect.top + itemRect.height / 2;
+
+    for (const rect of rects) {
+      if (centerY < rect.top || centerY > rect.top + rect.height) continue;
+
+      const overlapLeft = Math.max(rect.left, itemRect.left);
+      const overlapRight = Math.min(
+        rect.left + rect.width,
+        itemRect.left + itemRect.width,
+      );
+      if (overlapRight <= overlapLeft || itemRect.width === 0) continue;
+
+      const length = itemEnd - itemStart;
+      start = Math.min(
+        start,
+        itemStart +
+          Math.round(((overlapLeft - itemRect.left) / itemRect.width) * length),
+      );
+      end = Math.max(
+        end,
+        itemStart +
+          Math.round(((overlapRight - itemRect.left) / itemRect.width) * length),
+      );
+    }
+  }
+
+  return start < end ? { start, end } : null;
+};
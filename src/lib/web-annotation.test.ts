@@ -0,0 +1,340 @@
+// @vitest-environment jsdom
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { describe, expect, it, vi } from "vitest";
+import { DrawingStroke, Scaled, ShapeData } from "../types";
+import { ExportableHighlight } from "./export-pdf";
+import { createFakePdfDocument } from "./fake-pdf-document";
+import { fromWebAnnotation, toWebAnnotation } from "./web-annotation";
+
+const boundingRect: Scaled = {
+  x1: 100,
+  y1: 200,
+  x2: 300,
+  y2: 350,
+  width: 600,
+  height: 800,
+  pageNumber: 1,
+};
+
+const shapeHighlight = (shape: ShapeData): ExportableHighlight => ({
+  id: shape.shapeType,
+  type: "shape",
+  content: { shape },
+  position: { boundingRect, rects: [] },
+});
+
+const red = "rgba(255, 0, 0, 1)";
+const blue = "rgba(0, 0, 255, 1)";
+const yellow = "rgba(255, 226, 143, 0.5)";
+const image = "data:image/png;base64,iVBORw0KGgo=";
+
+// "Hello world" in 10 point text, with every character 5 points wide. The top
+// of the page is at y = 800, so the text is 190 to 200 down.
+const textItem: TextItem = {
+  str: "Hello world",
+  dir: "ltr",
+  transform: [10, 0, 0, 10, 100, 600],
+  width: 55,
+  height: 10,
+  fontName: "Helvetica",
+  hasEOL: false,
+};
+
+const helloRect: Scaled = {
+  x1: 99,
+  y1: 189,
+  x2: 126,
+  y2: 201,
+  width: 600,
+  height: 800,
+  pageNumber: 1,
+};
+
+// Relative to the top-left of the bounding rect, which is 200 by 150
+const strokes: DrawingStroke[] = [
+  {
+    points: [
+      { x: 10, y: 10 },
+      { x: 100, y: 50 },
+    ],
+    color: red,
+    width: 2,
+  },
+  {
+    points: [
+      { x: 20, y: 140 },
+      { x: 190, y: 20 },
+      { x: 150, y: 100 },
+    ],
+    color: blue,
+    width: 4,
+  },
+];
+
+const highlights: Array<[string, ExportableHighlight]> = [
+  [
+    "text",
+    {
+      id: "text",
+      type: "text",
+      comment: "Important",
+      content: { text: "Hello" },
+      position: { boundingRect: helloRect, rects: [helloRect] },
+      highlightColor: yellow,
+      highlightStyle: "highlight",
+    },
+  ],
+  [
+    "underlined text",
+    {
+      id: "underline",
+      type: "text",
+      content: { text: "Hello" },
+      position: { boundingRect: helloRect, rects: [helloRect] },
+      highlightColor: red,
+      highlightStyle: "underline",
+    },
+  ],
+  [
+    "area",
+    {
+      id: "area",
+      type: "area",
+      comment: "Figure",
+      content: {},
+      position: { boundingRect, rects: [] },
+      highlightColor: yellow,
+    },
+  ],
+  [
+    "freetext",
+    {
+      id: "freetext",
+      type: "freetext",
+      content: { text: "A note\non two lines" },
+      position: { boundingRect, rects: [] },
+      color: "rgba(51, 51, 51, 1)",
+      backgroundColor: "rgba(255, 255, 200, 1)",
+      fontSize: "14px",
+    },
+  ],
+  [
+    "transparent freetext",
+    {
+      id: "transparent",
+      type: "freetext",
+      content: { text: "No background" },
+      position: { boundingRect, rects: [] },
+      color: red,
+      backgroundColor: "transparent",
+      fontSize: "12px",
+    },
+  ],
+  [
+    "image",
+    {
+      id: "image",
+      type: "image",
+      comment: "Signed",
+      content: { image },
+      position: { boundingRect, rects: [] },
+    },
+  ],
+  [
+    "drawing",
+    {
+      id: "drawing",
+      type: "drawing",
+      comment: "Sketch",
+      content: { strokes },
+      position: { boundingRect, rects: [] },
+    },
+  ],
+];
+
+const shapes: ShapeData[] = [
+  {
+    shapeType: "line",
+    strokeColor: red,
+    strokeWidth: 2,
+    startPoint: { x: 0.1, y: 0.2 },
+    endPoint: { x: 0.9, y: 0.8 },
+    dashPattern: [3, 2],
+  },
+  {
+    shapeType: "line",
+    strokeColor: red,
+    strokeWidth: 2,
+    startPoint: { x: 0, y: 0.5 },
+    endPoint: { x: 1, y: 0.5 },
+    startEnding: "circle",
+    endEnding: "diamond",
+  },
+  {
+    shapeType: "arrow",
+    strokeColor: red,
+    strokeWidth: 3,
+    startPoint: { x: 0.1, y: 0.9 },
+    endPoint: { x: 0.9, y: 0.1 },
+  },
+  {
+    shapeType: "doubleArrow",
+    strokeColor: red,
+    strokeWidth: 1,
+    startPoint: { x: 0.2, y: 0.5 },
+    endPoint: { x: 0.8, y: 0.5 },
+  },
+  {
+    shapeType: "polyline",
+    strokeColor: red,
+    strokeWidth: 2,
+    vertices: [
+      { x: 0.1, y: 0.1 },
+      { x: 0.5, y: 0.9 },
+      { x: 0.9, y: 0.2 },
+    ],
+    endEnding: "closedArrow",
+  },
+  {
+    shapeType: "polygon",
+    strokeColor: red,
+    strokeWidth: 2,
+    fillColor: blue,
+    vertices: [
+      { x: 0.1, y: 0.1 },
+      { x: 0.9, y: 0.1 },
+      { x: 0.5, y: 0.9 },
+    ],
+  },
+  {
+    shapeType: "cloud",
+    strokeColor: red,
+    strokeWidth: 2,
+    vertices: [
+      { x: 0.1, y: 0.1 },
+      { x: 0.9, y: 0.1 },
+      { x: 0.9, y: 0.9 },
+      { x: 0.1, y: 0.9 },
+    ],
+  },
+  {
+    shapeType: "callout",
+    strokeColor: red,
+    strokeWidth: 1,
+    fillColor: blue,
+    vertices: [
+      { x: 0.05, y: 0.9 },
+      { x: 0.4, y: 0.3 },
+    ],
+    textBox: { x: 0.4, y: 0.1, width: 0.5, height: 0.4 },
+    text: "Check this",
+  },
+];
+
+/** Round the numbers of a value, for comparing positions after a round-trip. */
+const rounded = <T>(value: T): T =>
+  JSON.parse(
+    JSON.stringify(value, (_, item) =>
+      typeof item === "number" ? Math.round(item * 100) / 100 : item,
+    ),
+  );
+
+// jsdom has no canvas to render the images of imported drawings with
+vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+
+describe("Web Annotations of highlights", () => {
+  const pdfDocument = createFakePdfDocument([
+    { width: 600, height: 800, textItems: [textItem] },
+  ]);
+  const options = { source: "https://example.com/document.pdf" };
+
+  it.each(highlights)(
+    "exports and imports a %s highlight",
+    async (_, highlight) => {
+      const annotation = await toWebAnnotation(highlight, pdfDocument, options);
+      const imported = await fromWebAnnotation(annotation, pdfDocument);
+
+      const { id, type, comment, position, content, ...style } = highlight;
+      expect(imported).toMatchObject({ id, type, comment, ...style });
+      expect(rounded(imported?.position)).toEqual(rounded(position));
+      if (type === "drawing") {
+        expect(rounded(imported?.content.strokes)).toEqual(strokes);
+      } else {
+        expect(imported?.content).toEqual(content);
+      }
+    },
+  );
+
+  it("targets text by its quote and position in the page text", async () => {
+    const annotation = await toWebAnnotation(
+      highlights[0][1],
+      pdfDocument,
+      options,
+    );
+
+    expect(annotation.target.selector).toContainEqual({
+      type: "TextQuoteSelector",
+      exact: "Hello",
+      prefix: "",
+      suffix: " world",
+    });
+    expect(annotation.target.styleClass).toBe("highlight");
+    expect(annotation.motivation).toBe("commenting");
+  });
+});
+
+describe("Web Annotations of shapes", () => {
+  const pdfDocument = createFakePdfDocument([{ width: 600, height: 800 }]);
+  const options = { source: "https://example.com/document.pdf" };
+
+  it.each(shapes.map((shape) => [shape.shapeType, shape] as const))(
+    "exports and imports a %s shape",
+    async (_, shape) => {
+      const annotation = await toWebAnnotation(
+        shapeHighlight(shape),
+        pdfDocument,
+        options,
+      );
+      const imported = await fromWebAnnotation(annotation, pdfDocument);
+
+      expect(imported?.type).toBe("shape");
+      expect(rounded(imported?.content.shape)).toEqual(rounded(shape));
+      expect(rounded(imported?.position.boundingRect)).toEqual(
+        rounded(boundingRect),
+      );
+    },
+  );
+
+  it("imports lines of earlier versions as arrows", async () => {
+    // Earlier versions wrote arrows as a line in a box of 1 by 1
+    const imported = await fromWebAnnotation(
+      {
+        "@context": "http://www.w3.org/ns/anno.jsonld",
+        id: "urn:highlight:arrow",
+        type: "Annotation",
+        motivation: "highlighting",
+        target: {
+          source: options.source,
+          selector: [
+            {
+              type: "FragmentSelector",
+              conformsTo: "http://tools.ietf.org/rfc/rfc3778",
+              value: "page=1",
+              refinedBy: {
+                type: "SvgSelector",
+                value:
+                  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 600 800">' +
+                  '<svg x="100" y="200" width="200" height="150" viewBox="0 0 1 1" preserveAspectRatio="none">' +
+                  '<line x1="0.1" y1="0.9" x2="0.9" y2="0.1" fill="none" stroke="rgb(255, 0, 0)" stroke-opacity="1" stroke-width="3" vector-effect="non-scaling-stroke"/>' +
+                  "</svg></svg>",
+              },
+            },
+          ],
+        },
+      },
+      pdfDocument,
+    );
+
+    expect(rounded(imported?.content.shape)).toEqual(rounded(shapes[2]));
+  });
+});
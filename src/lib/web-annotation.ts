@@ -0,0 +1,925 @@
+import type { PDFDocumentProxy, PageViewport } from "pdfjs-dist";
+import type { DrawingStroke, LineEnding, LTWHP, ShapeData } from "../types";
+import { scaledToViewport, viewportToScaled } from "./coordinates";
+import {
+  ExportableHighlight,
+  getShapeData,
+  parseColor,
+} from "./export-pdf";
+import getBoundingRect from "./get-bounding-rect";
+import { ImportedHighlight, toCssColor } from "./import-annotations";
+import renderStrokesToImage from "./render-strokes";
+import {
+  getCalloutBox,
+  getShapePoints,
+  isClosedShape,
+  isLineShape,
+  PDF_LINE_ENDINGS,
+} from "./shape-geometry";
+import {
+  getPageText,
+  getTextRangeInRects,
+  getTextRangeRects,
+  PageText,
+} from "./text-content";
+
+const ANNOTATION_CONTEXT = "http://www.w3.org/ns/anno.jsonld";
+const PDF_FRAGMENT_SPEC = "http://tools.ietf.org/rfc/rfc3778";
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+
+/**
+ * Selects an exact quote together with the text before and after it.
+ *
+ * @category Type
+ */
+export type TextQuoteSelector = {
+  type: "TextQuoteSelector";
+  exact: string;
+  prefix?: string;
+  suffix?: string;
+};
+
+/**
+ * Selects a character range of a page's text.
+ *
+ * @category Type
+ */
+export type TextPositionSelector = {
+  type: "TextPositionSelector";
+  start: number;
+  end: number;
+};
+
+/**
+ * Selects a region of a page with an SVG document. Coordinates are in PDF
+ * points from the top-left of the (rotated) page.
+ *
+ * @category Type
+ */
+export type SvgSelector = {
+  type: "SvgSelector";
+  value: string;
+};
+
+/**
+ * Selects a page of the PDF document (`page=N`), optionally refined by a
+ * selector within that page.
+ *
+ * @category Type
+ */
+export type FragmentSelector = {
+  type: "FragmentSelector";
+  conformsTo: typeof PDF_FRAGMENT_SPEC;
+  value: string;
+  refinedBy?: TextPositionSelector | SvgSelector;
+};
+
+/**
+ * @category Type
+ */
+export type WebAnnotationSelector =
+  | TextQuoteSelector
+  | TextPositionSelector
+  | FragmentSelector
+  | SvgSelector;
+
+/**
+ * @category Type
+ */
+export type WebAnnotationBody =
+  | {
+      type: "TextualBody";
+      value: string;
+      format?: string;
+      purpose?: "commenting" | "describing" | "tagging";
+    }
+  | {
+      id: string;
+      type: "Image";
+      format?: string;
+    };
+
+/**
+ * An annotation following the W3C Web Annotation Data Model.
+ * See https://www.w3.org/TR/annotation-model/
+ *
+ * @category Type
+ */
+export interface WebAnnotation {
+  "@context": typeof ANNOTATION_CONTEXT;
+  id: string;
+  type: "Annotation";
+  motivation: "highlighting" | "commenting" | "describing";
+  created?: string;
+  creator?: { id?: string; type?: "Person"; name: string };
+  body?: WebAnnotationBody[];
+  target: {
+    source: string;
+    styleClass?: string;
+    selector: WebAnnotationSelector[];
+  };
+}
+
+/**
+ * Options for {@link toWebAnnotation}.
+ *
+ * @category Type
+ */
+export interface ToWebAnnotationOptions {
+  /** IRI of the PDF document the annotation targets. */
+  source: string;
+  /** Creator of the annotation. */
+  creator?: WebAnnotation["creator"];
+  /** Prefix for the annotation `id`. Default: "urn:highlight:" */
+  idPrefix?: string;
+  /** Number of characters kept in the quote prefix and suffix. Default: 32 */
+  contextLength?: number;
+}
+
+/**
+ * Options for {@link fromWebAnnotation}.
+ *
+ * @category Type
+ */
+export interface FromWebAnnotationOptions {
+  /** Prefix stripped from the annotation `id` to get the highlight id. Default: "urn:highlight:" */
+  idPrefix?: string;
+}
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const toSvgColor = (color: string) => {
+  const { r, g, b, a } = parseColor(color);
+  return {
+    value: `rgb(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(
+      b * 255,
+    )})`,
+    opacity: formatNumber(a),
+  };
+};
+
+const svgRect = ({ left, top, width, height }: LTWHP, attributes: string) =>
+  `<rect x="${formatNumber(left)}" y="${formatNumber(top)}" width="${formatNumber(
+    width,
+  )}" height="${formatNumber(height)}" ${attributes}/>`;
+
+/**
+ * Nested SVG establishing a local coordinate system for the bounding box,
+ * so its content can use the same units as the stored highlight data.
+ */
+const svgBox = (
+  { left, top, width, height }: LTWHP,
+  viewBox: string,
+  content: string,
+) =>
+  `<svg x="${formatNumber(left)}" y="${formatNumber(top)}" width="${formatNumber(
+    width,
+  )}" height="${formatNumber(height)}" viewBox="${viewBox}" preserveAspectRatio="none">${content}</svg>`;
+
+const wrapSvg = (viewport: PageViewport, content: string) =>
+  `<svg xmlns="${SVG_NAMESPACE}" viewBox="0 0 ${formatNumber(
+    viewport.width,
+  )} ${formatNumber(viewport.height)}">${content}</svg>`;
+
+/**
+ * Build the SVG describing the geometry of a highlight.
+ */
+const highlightToSvg = (
+  highlight: ExportableHighlight,
+  viewport: PageViewport,
+  viewportRects: LTWHP[],
+  boundingRect: LTWHP,
+): string => {
+  switch (highlight.type) {
+    case "text": {
+      const fill = toSvgColor(highlight.highlightColor || "rgba(255, 226, 143, 1)");
+      return wrapSvg(
+        viewport,
+        viewportRects
+          .map((rect) =>
+            svgRect(rect, `fill="${fill.value}" fill-opacity="${fill.opacity}"`),
+          )
+          .join(""),
+      );
+    }
+
+    case "shape": {
+      const shape = getShapeData(highlight);
+      const { shapeType, strokeWidth } = shape;
+      const stroke = toSvgColor(shape.strokeColor);
+      const fill =
+        shape.fillColor && isClosedShape(shapeType)
+          ? toSvgColor(shape.fillColor)
+          : null;
+      const styleAttributes = [
+        `data-shape-type="${shapeType}"`,
+        // A callout's fill is its text box's, not its leader's
+        fill && shapeType !== "callout"
+          ? `fill="${fill.value}" fill-opacity="${fill.opacity}"`
+          : `fill="none"`,
+        `stroke="${stroke.value}" stroke-opacity="${stroke.opacity}" stroke-width="${formatNumber(strokeWidth)}"`,
+        shape.dashPattern?.length
+          ? `stroke-dasharray="${shape.dashPattern
+              .map((length) => formatNumber(length * strokeWidth))
+              .join(" ")}"`
+          : "",
+        // SVG has no line endings like PDF's, so they are kept as data
+        shape.startEnding ? `data-start-ending="${shape.startEnding}"` : "",
+        shape.endEnding ? `data-end-ending="${shape.endEnding}"` : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+
+      if (shapeType === "rectangle") {
+        return wrapSvg(viewport, svgRect(boundingRect, styleAttributes));
+      }
+
+      if (shapeType === "circle") {
+        const { left, top, width, height } = boundingRect;
+        return wrapSvg(
+          viewport,
+          `<ellipse cx="${formatNumber(left + width / 2)}" cy="${formatNumber(
+            top + height / 2,
+          )}" rx="${formatNumber(width / 2)}" ry="${formatNumber(
+            height / 2,
+          )}" ${styleAttributes}/>`,
+        );
+      }
+
+      // Points are relative to the bounding box, in viewport units
+      const { width, height } = boundingRect;
+      const points = getShapePoints(shape, width, height);
+      const pointList = points
+        .map(({ x, y }) => `${formatNumber(x)},${formatNumber(y)}`)
+        .join(" ");
+      let content: string;
+      if (isLineShape(shapeType)) {
+        content = `<line x1="${formatNumber(points[0].x)}" y1="${formatNumber(
+          points[0].y,
+        )}" x2="${formatNumber(points[1].x)}" y2="${formatNumber(
+          points[1].y,
+        )}" ${styleAttributes}/>`;
+      } else if (shapeType === "polyline" || shapeType === "callout") {
+        content = `<polyline points="${pointList}" ${styleAttributes}/>`;
+      } else {
+        content = `<polygon points="${pointList}" ${styleAttributes}/>`;
+      }
+
+      if (shapeType === "callout") {
+        const box = getCalloutBox(shape, width, height);
+        content += svgRect(
+          {
+            left: box.x,
+            top: box.y,
+            width: box.width,
+            height: box.height,
+            pageNumber: boundingRect.pageNumber,
+          },
+          `fill="${fill?.value ?? "none"}"${
+            fill ? ` fill-opacity="${fill.opacity}"` : ""
+          } stroke="${stroke.value}" stroke-opacity="${stroke.opacity}" stroke-width="${formatNumber(strokeWidth)}"`,
+        );
+      }
+
+      return wrapSvg(
+        viewport,
+        svgBox(
+          boundingRect,
+          `0 0 ${formatNumber(width)} ${formatNumber(height)}`,
+          content,
+        ),
+      );
+    }
+
+    case "drawing": {
+      // Stroke points are relative to the bounding box, in scaled units
+      const polylines = (highlight.content?.strokes || [])
+        .map((stroke) => {
+          const color = toSvgColor(stroke.color);
+          const points = stroke.points
+            .map((point) => `${formatNumber(point.x)},${formatNumber(point.y)}`)
+            .join(" ");
+          return `<polyline points="${points}" fill="none" stroke="${color.value}" stroke-opacity="${color.opacity}" stroke-width="${formatNumber(
+            stroke.width,
+          )}" stroke-linecap="round" stroke-linejoin="round"/>`;
+        })
+        .join("");
+
+      const { x1, y1, x2, y2 } = highlight.position.boundingRect;
+      const localWidth = x2 - x1;
+      const localHeight = y2 - y1;
+
+      return wrapSvg(
+        viewport,
+        svgBox(
+          boundingRect,
+          `0 0 ${formatNumber(localWidth)} ${formatNumber(localHeight)}`,
+          polylines,
+        ),
+      );
+    }
+
+    case "freetext": {
+      const background = highlight.backgroundColor || "transparent";
+      const fill =
+        background === "transparent"
+          ? `fill="none"`
+          : `fill="${toSvgColor(background).value}"`;
+      return wrapSvg(
+        viewport,
+        svgBox(
+          boundingRect,
+          `0 0 ${formatNumber(boundingRect.width)} ${formatNumber(boundingRect.height)}`,
+          svgRect(
+            {
+              left: 0,
+              top: 0,
+              width: boundingRect.width,
+              height: boundingRect.height,
+              pageNumber: boundingRect.pageNumber,
+            },
+            `${fill} data-font-size="${escapeXml(highlight.fontSize || "")}" data-color="${escapeXml(
+              highlight.color || "",
+            )}"`,
+          ),
+        ),
+      );
+    }
+
+    case "image":
+      return wrapSvg(viewport, svgRect(boundingRect, `fill="none"`));
+
+    default: {
+      const fill = toSvgColor(highlight.highlightColor || "rgba(255, 226, 143, 1)");
+      return wrapSvg(
+        viewport,
+        svgRect(
+          boundingRect,
+          `fill="${fill.value}" fill-opacity="${fill.opacity}"`,
+        ),
+      );
+    }
+  }
+};
+
+/**
+ * Serialise a highlight as a W3C Web Annotation. Text highlights are
+ * targeted with a TextQuoteSelector (exact/prefix/suffix from the page text)
+ * and a TextPositionSelector; all highlights also carry a FragmentSelector
+ * (`page=N`) refined by an SvgSelector describing their geometry.
+ *
+ * @param highlight - The highlight to serialise.
+ * @param pdfDocument - The PDF.js document the highlight belongs to.
+ * @param options - Serialisation options, including the document `source` IRI.
+ * @returns Promise<WebAnnotation> - The JSON-LD annotation.
+ *
+ * @category Function
+ */
+export async function toWebAnnotation(
+  highlight: ExportableHighlight,
+  pdfDocument: PDFDocumentProxy,
+  options: ToWebAnnotationOptions,
+): Promise<WebAnnotation> {
+  const { idPrefix = "urn:highlight:", contextLength = 32 } = options;
+  const { boundingRect, rects, usePdfCoordinates } = highlight.position;
+  const pageNumber = boundingRect.pageNumber;
+
+  const page = await pdfDocument.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const toViewport = (scaled: typeof boundingRect) =>
+    scaledToViewport(scaled, viewport, usePdfCoordinates);
+
+  const viewportBoundingRect = toViewport(boundingRect);
+  const viewportRects = (rects.length > 0 ? rects : [boundingRect])
+    .filter((rect) => rect.pageNumber === pageNumber)
+    .map(toViewport);
+  const pageFragment = `page=${pageNumber}`;
+
+  const selector: WebAnnotationSelector[] = [];
+
+  if (highlight.type === "text") {
+    const pageText = await getPageText(page);
+    const range = getTextRangeInRects(pageText, viewportRects, viewport);
+
+    if (range) {
+      selector.push(
+        {
+          type: "TextQuoteSelector",
+          exact: pageText.text.slice(range.start, range.end),
+          prefix: pageText.text.slice(
+            Math.max(0, range.start - contextLength),
+            range.start,
+          ),
+          suffix: pageText.text.slice(range.end, range.end + contextLength),
+        },
+        {
+          type: "FragmentSelector",
+          conformsTo: PDF_FRAGMENT_SPEC,
+          value: pageFragment,
+          refinedBy: {
+            type: "TextPositionSelector",
+            start: range.start,
+            end: range.end,
+          },
+        },
+      );
+    } else if (highlight.content?.text) {
+      selector.push({ type: "TextQuoteSelector", exact: highlight.content.text });
+    }
+  }
+
+  selector.push({
+    type: "FragmentSelector",
+    conformsTo: PDF_FRAGMENT_SPEC,
+    value: pageFragment,
+    refinedBy: {
+      type: "SvgSelector",
+      value: highlightToSvg(
+        highlight,
+        viewport,
+        viewportRects,
+        viewportBoundingRect,
+      ),
+    },
+  });
+
+  const body: WebAnnotationBody[] = [];
+  const shapeType =
+    highlight.type === "shape" ? getShapeData(highlight).shapeType : undefined;
+  if (highlight.type === "freetext" || shapeType === "callout") {
+    body.push({
+      type: "TextualBody",
+      value:
+        (highlight.type === "freetext"
+          ? highlight.content?.text
+          : highlight.content?.shape?.text) || "",
+      format: "text/plain",
+      purpose: "describing",
+    });
+  }
+  if (highlight.type === "image" && highlight.content?.image) {
+    body.push({
+      id: highlight.content.image,
+      type: "Image",
+      format: highlight.content.image.match(/^data:([^;,]+)/)?.[1],
+    });
+  }
+  if (highlight.comment) {
+    body.push({
+      type: "TextualBody",
+      value: highlight.comment,
+      format: "text/plain",
+      purpose: "commenting",
+    });
+  }
+
+  return {
+    "@context": ANNOTATION_CONTEXT,
+    id: `${idPrefix}${highlight.id}`,
+    type: "Annotation",
+    motivation: highlight.comment
+      ? "commenting"
+      : highlight.type === "freetext" || shapeType === "callout"
+        ? "describing"
+        : "highlighting",
+    created: new Date().toISOString(),
+    creator: options.creator,
+    body: body.length > 0 ? body : undefined,
+    target: {
+      source: options.source,
+      styleClass:
+        highlight.type === "text"
+          ? highlight.highlightStyle || "highlight"
+          : undefined,
+      selector,
+    },
+  };
+}
+
+const numberAttribute = (element: Element, name: string) =>
+  Number(element.getAttribute(name) ?? 0);
+
+const elementRect = (element: Element, pageNumber: number): LTWHP => ({
+  left: numberAttribute(element, "x"),
+  top: numberAttribute(element, "y"),
+  width: numberAttribute(element, "width"),
+  height: numberAttribute(element, "height"),
+  pageNumber,
+});
+
+const cssColor = (element: Element, colorAttribute: string, opacityAttribute: string) => {
+  const value = element.getAttribute(colorAttribute);
+  // Paints nothing, like the background of a transparent freetext
+  if (!value || value === "none") return undefined;
+
+  const match = value.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
+  if (!match) return value;
+  return toCssColor(
+    match.slice(1, 4).map(Number),
+    "#000000",
+    Number(element.getAttribute(opacityAttribute) ?? 1),
+  );
+};
+
+const parsePoints = (element: Element) =>
+  (element.getAttribute("points") || "")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((pair) => pair.split(",").map(Number))
+    .map(([x, y]) => ({ x, y }));
+
+const parseLineEnding = (value: string | null): LineEnding | undefined =>
+  value && value in PDF_LINE_ENDINGS ? (value as LineEnding) : undefined;
+
+/**
+ * The stroke, fill, dash pattern and line endings of an SVG shape element.
+ */
+const elementShapeStyle = (element: Element): Omit<ShapeData, "shapeType"> => {
+  const strokeWidth = numberAttribute(element, "stroke-width") || 2;
+  const fillColor =
+    element.getAttribute("fill") && element.getAttribute("fill") !== "none"
+      ? cssColor(element, "fill", "fill-opacity")
+      : undefined;
+  const dashes = (element.getAttribute("stroke-dasharray") || "")
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  const startEnding = parseLineEnding(element.getAttribute("data-start-ending"));
+  const endEnding = parseLineEnding(element.getAttribute("data-end-ending"));
+
+  return {
+    strokeColor: cssColor(element, "stroke", "stroke-opacity") || "#000000",
+    strokeWidth,
+    ...(fillColor && { fillColor }),
+    ...(dashes.length > 0 && {
+      dashPattern: dashes.map((length) => length / strokeWidth),
+    }),
+    ...(startEnding && { startEnding }),
+    ...(endEnding && { endEnding }),
+  };
+};
+
+const findTextRange = (
+  pageText: PageText,
+  quote: TextQuoteSelector | undefined,
+  position: TextPositionSelector | undefined,
+): { start: number; end: number } | null => {
+  if (
+    position &&
+    (!quote || pageText.text.slice(position.start, position.end) === quote.exact)
+  ) {
+    return { start: position.start, end: position.end };
+  }
+  if (!quote) return null;
+
+  // Prefer the occurrence whose surrounding text matches the prefix/suffix
+  let best: { start: number; end: number; score: number } | null = null;
+  let index = pageText.text.indexOf(quote.exact);
+  while (index !== -1) {
+    const end = index + quote.exact.length;
+    const score =
+      (quote.prefix && pageText.text.slice(0, index).endsWith(quote.prefix) ? 1 : 0) +
+      (quote.suffix && pageText.text.slice(end).startsWith(quote.suffix) ? 1 : 0);
+    if (!best || score > best.score) best = { start: index, end, score };
+    index = pageText.text.indexOf(quote.exact, index + 1);
+  }
+  return best && { start: best.start, end: best.end };
+};
+
+/**
+ * Convert a W3C Web Annotation created by {@link toWebAnnotation} (or
+ * another client using the same selectors) back into a highlight.
+ *
+ * Text highlights use the SvgSelector geometry when present, otherwise the
+ * text is located with the TextPositionSelector or TextQuoteSelector.
+ *
+ * @param annotation - The annotation to convert.
+ * @param pdfDocument - The PDF.js document the annotation targets.
+ * @param options - Conversion options.
+ * @returns Promise<ImportedHighlight | null> - The highlight, or `null` if the
+ * annotation cannot be placed in the document.
+ *
+ * @category Function
+ */
+export async function fromWebAnnotation(
+  annotation: WebAnnotation,
+  pdfDocument: PDFDocumentProxy,
+  options: FromWebAnnotationOptions = {},
+): Promise<ImportedHighlight | null> {
+  const { idPrefix = "urn:highlight:" } = options;
+  const selectors = annotation.target.selector;
+
+  const fragments = selectors.filter(
+    (selector): selector is FragmentSelector =>
+      selector.type === "FragmentSelector",
+  );
+  const pageMatch = fragments
+    .map((fragment) => fragment.value.match(/page=(\d+)/))
+    .find(Boolean);
+  const quote = selectors.find(
+    (selector): selector is TextQuoteSelector =>
+      selector.type === "TextQuoteSelector",
+  );
+  const position = fragments.find(
+    (fragment) => fragment.refinedBy?.type === "TextPositionSelector",
+  )?.refinedBy as TextPositionSelector | undefined;
+  const svgValue = (
+    fragments.find((fragment) => fragment.refinedBy?.type === "SvgSelector")
+      ?.refinedBy ??
+    selectors.find((selector) => selector.type === "SvgSelector")
+  ) as SvgSelector | undefined;
+
+  // Without a page fragment, look for the quoted text in every page
+  let pageNumber = pageMatch ? Number(pageMatch[1]) : 0;
+  let pageText: PageText | null = null;
+  if (!pageNumber && quote) {
+    for (let candidate = 1; candidate <= pdfDocument.numPages; candidate++) {
+      const candidateText = await getPageText(await pdfDocument.getPage(candidate));
+      if (candidateText.text.includes(quote.exact)) {
+        pageNumber = candidate;
+        pageText = candidateText;
+        break;
+      }
+    }
+  }
+  if (pageNumber < 1 || pageNumber > pdfDocument.numPages) return null;
+
+  const page = await pdfDocument.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+
+  const comment = annotation.body?.find(
+    (body) => body.type === "TextualBody" && body.purpose === "commenting",
+  );
+  const base = {
+    id: annotation.id.startsWith(idPrefix)
+      ? annotation.id.slice(idPrefix.length)
+      : annotation.id,
+    annotationId: annotation.id,
+    annotationSubtype: annotation.motivation,
+    comment: comment?.type === "TextualBody" ? comment.value : undefined,
+    author: annotation.creator?.name,
+  };
+
+  const svg = svgValue
+    ? new DOMParser().parseFromString(svgValue.value, "image/svg+xml")
+        .documentElement
+    : null;
+  const shapes = svg ? Array.from(svg.children) : [];
+
+  if (quote || position) {
+    let rects = shapes
+      .filter((element) => element.localName === "rect")
+      .map((element) => elementRect(element, pageNumber));
+
+    if (rects.length === 0) {
+      pageText ||= await getPageText(page);
+      const range = findTextRange(pageText, quote, position);
+      if (!range) return null;
+      rects = getTextRangeRects(pageText, range.start, range.end, viewport);
+    }
+    if (rects.length === 0) return null;
+
+    const styleClass = annotation.target.styleClass;
+    return {
+      ...base,
+      type: "text",
+      content: { text: quote?.exact },
+      position: {
+        boundingRect: viewportToScaled(getBoundingRect(rects), viewport),
+        rects: rects.map((rect) => viewportToScaled(rect, viewport)),
+      },
+      highlightColor: shapes[0] && cssColor(shapes[0], "fill", "fill-opacity"),
+      highlightStyle:
+        styleClass === "underline" || styleClass === "strikethrough"
+          ? styleClass
+          : "highlight",
+    };
+  }
+
+  const element = shapes[0];
+  if (!element) return null;
+
+  const toPosition = (rect: LTWHP) => ({
+    boundingRect: viewportToScaled(rect, viewport),
+    rects: [],
+  });
+  const toShapeHighlight = (
+    shape: ShapeData,
+    rect: LTWHP,
+  ): ImportedHighlight => ({
+    ...base,
+    type: "shape",
+    content: { shape },
+    position: toPosition(rect),
+    shapeType: shape.shapeType,
+    strokeColor: shape.strokeColor,
+    strokeWidth: shape.strokeWidth,
+  });
+  const imageBody = annotation.body?.find((body) => body.type === "Image");
+  const textBody = annotation.body?.find(
+    (body) => body.type === "TextualBody" && body.purpose === "describing",
+  );
+
+  switch (element.localName) {
+    case "ellipse": {
+      const cx = numberAttribute(element, "cx");
+      const cy = numberAttribute(element, "cy");
+      const rx = numberAttribute(element, "rx");
+      const ry = numberAttribute(element, "ry");
+      return toShapeHighlight(
+        { shapeType: "circle", ...elementShapeStyle(element) },
+        {
+          left: cx - rx,
+          top: cy - ry,
+          width: rx * 2,
+          height: ry * 2,
+          pageNumber,
+        },
+      );
+    }
+
+    case "rect": {
+      const rect = elementRect(element, pageNumber);
+
+      if (imageBody && "id" in imageBody) {
+        return {
+          ...base,
+          type: "image",
+          content: { image: imageBody.id },
+          position: toPosition(rect),
+        };
+      }
+
+      if (
+        element.getAttribute("data-shape-type") === "rectangle" ||
+        element.getAttribute("fill") === "none"
+      ) {
+        return toShapeHighlight(
+          { shapeType: "rectangle", ...elementShapeStyle(element) },
+          rect,
+        );
+      }
+
+      return {
+        ...base,
+        type: "area",
+        content: {},
+        position: toPosition(rect),
+        highlightColor: cssColor(element, "fill", "fill-opacity"),
+      };
+    }
+
+    case "svg": {
+      const rect = elementRect(element, pageNumber);
+      const children = Array.from(element.children);
+      const [, , localWidth, localHeight] = (
+        element.getAttribute("viewBox") || ""
+      )
+        .split(/[\s,]+/)
+        .map(Number);
+      // Shape points are relative to the bounding box (0-1)
+      const toFraction = ({ x, y }: { x: number; y: number }) => ({
+        x: localWidth ? x / localWidth : x,
+        y: localHeight ? y / localHeight : y,
+      });
+
+      // Lines without a shape type are arrows, as written by earlier versions
+      const shapeElement =
+        children.find((child) => child.hasAttribute("data-shape-type")) ??
+        children.find((child) => child.localName === "line");
+      if (shapeElement) {
+        const dataShapeType = shapeElement.getAttribute("data-shape-type");
+        const style = elementShapeStyle(shapeElement);
+
+        if (shapeElement.localName === "line") {
+          const shapeType = (
+            ["line", "arrow", "doubleArrow"] as const
+          ).find((type) => type === dataShapeType);
+          return toShapeHighlight(
+            {
+              shapeType: shapeType ?? "arrow",
+              ...style,
+              startPoint: toFraction({
+                x: numberAttribute(shapeElement, "x1"),
+                y: numberAttribute(shapeElement, "y1"),
+              }),
+              endPoint: toFraction({
+                x: numberAttribute(shapeElement, "x2"),
+                y: numberAttribute(shapeElement, "y2"),
+              }),
+            },
+            rect,
+          );
+        }
+
+        const vertices = parsePoints(shapeElement).map(toFraction);
+        if (shapeElement.localName === "polygon") {
+          return toShapeHighlight(
+            {
+              shapeType: dataShapeType === "cloud" ? "cloud" : "polygon",
+              ...style,
+              vertices,
+            },
+            rect,
+          );
+        }
+
+        if (dataShapeType === "callout") {
+          // The text box is the rectangle after the leader
+          const box = children.find((child) => child.localName === "rect");
+          const boxRect = box && elementRect(box, pageNumber);
+          const fillColor =
+            box && box.getAttribute("fill") !== "none"
+              ? cssColor(box, "fill", "fill-opacity")
+              : undefined;
+          const topLeft = boxRect && toFraction({ x: boxRect.left, y: boxRect.top });
+          const size =
+            boxRect && toFraction({ x: boxRect.width, y: boxRect.height });
+          return toShapeHighlight(
+            {
+              shapeType: "callout",
+              ...style,
+              ...(fillColor && { fillColor }),
+              vertices,
+              ...(topLeft &&
+                size && {
+                  textBox: {
+                    x: topLeft.x,
+                    y: topLeft.y,
+                    width: size.x,
+                    height: size.y,
+                  },
+                }),
+              text:
+                textBody?.type === "TextualBody" ? textBody.value : undefined,
+            },
+            rect,
+          );
+        }
+
+        if (dataShapeType === "polyline") {
+          return toShapeHighlight(
+            { shapeType: "polyline", ...style, vertices },
+            rect,
+          );
+        }
+      }
+
+      const polylines = children.filter((child) => child.localName === "polyline");
+      if (polylines.length > 0) {
+        // Scale strokes from the box's local units to the page viewport
+        const xRatio = localWidth ? rect.width / localWidth : 1;
+        const yRatio = localHeight ? rect.height / localHeight : 1;
+        const strokes: DrawingStroke[] = polylines.map((polyline) => ({
+          color: cssColor(polyline, "stroke", "stroke-opacity") || "#000000",
+          width: numberAttribute(polyline, "stroke-width") * xRatio || 1,
+          points: parsePoints(polyline).map(({ x, y }) => ({
+            x: x * xRatio,
+            y: y * yRatio,
+          })),
+        }));
+        return {
+          ...base,
+          type: "drawing",
+          content: {
+            strokes,
+            image: renderStrokesToImage(
+              strokes,
+              Math.ceil(rect.width),
+              Math.ceil(rect.height),
+            ),
+          },
+          position: toPosition(rect),
+        };
+      }
+
+      const background = children.find((child) => child.localName === "rect");
+      if (textBody && textBody.type === "TextualBody") {
+        return {
+          ...base,
+          type: "freetext",
+          content: { text: textBody.value },
+          position: toPosition(rect),
+          color: background?.getAttribute("data-color") || undefined,
+          backgroundColor:
+            (background && cssColor(background, "fill", "fill-opacity")) ??
+            "transparent",
+          fontSize: background?.getAttribute("data-font-size") || undefined,
+        };
+      }
+
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,364 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from "vitest";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { DrawingStroke, Scaled, ShapeData } from "../types";
+import { ExportableHighlight } from "./export-pdf";
+import { createFakePdfDocument } from "./fake-pdf-document";
+import { exportXfdf, importXfdf } from "./xfdf";
+
+// Scaled to a 600 by 800 viewport, which is that of the pages of the tests
+// turned by a quarter
+const boundingRect: Scaled = {
+  x1: 100,
+  y1: 200,
+  x2: 300,
+  y2: 350,
+  width: 600,
+  height: 800,
+  pageNumber: 1,
+};
+
+const shapeHighlight = (shape: ShapeData): ExportableHighlight => ({
+  id: shape.shapeType,
+  type: "shape",
+  content: { shape },
+  position: { boundingRect, rects: [] },
+});
+
+const red = "rgba(255, 0, 0, 1)";
+const blue = "rgba(0, 0, 255, 1)";
+const yellow = "rgba(255, 226, 143, 0.5)";
+const image = "data:image/png;base64,iVBORw0KGgo=";
+
+// Relative to the top-left of the bounding rect, which is 200 by 150
+const strokes: DrawingStroke[] = [
+  {
+    points: [
+      { x: 10, y: 10 },
+      { x: 100, y: 50 },
+    ],
+    color: red,
+    width: 2,
+  },
+  {
+    points: [
+      { x: 20, y: 140 },
+      { x: 190, y: 20 },
+      { x: 150, y: 100 },
+    ],
+    color: blue,
+    width: 4,
+  },
+];
+
+const highlights: Array<[string, ExportableHighlight, string[]]> = [
+  [
+    "text",
+    {
+      id: "text",
+      type: "text",
+      comment: "Important",
+      content: { text: "" },
+      position: {
+        boundingRect: { ...boundingRect, y2: 250 },
+        rects: [
+          { ...boundingRect, y2: 220 },
+          { ...boundingRect, y1: 230, x2: 200, y2: 250 },
+        ],
+      },
+      highlightColor: yellow,
+      highlightStyle: "highlight",
+    },
+    ["highlight"],
+  ],
+  [
+    "underlined text",
+    {
+      id: "underline",
+      type: "text",
+      position: { boundingRect, rects: [boundingRect] },
+      highlightColor: red,
+      highlightStyle: "underline",
+    },
+    ["underline"],
+  ],
+  [
+    "struck through text",
+    {
+      id: "strikethrough",
+      type: "text",
+      position: { boundingRect, rects: [boundingRect] },
+      highlightColor: red,
+      highlightStyle: "strikethrough",
+    },
+    ["strikeout"],
+  ],
+  [
+    "area",
+    {
+      id: "area",
+      type: "area",
+      comment: "Figure",
+      content: {},
+      position: { boundingRect, rects: [] },
+      highlightColor: yellow,
+    },
+    ["highlight"],
+  ],
+  [
+    "freetext",
+    {
+      id: "freetext",
+      type: "freetext",
+      content: { text: "A note\non two lines" },
+      position: { boundingRect, rects: [] },
+      color: "rgba(51, 51, 51, 1)",
+      backgroundColor: "rgba(255, 255, 200, 1)",
+      fontSize: "14px",
+    },
+    ["freetext"],
+  ],
+  [
+    "image",
+    {
+      id: "image",
+      type: "image",
+      comment: "Signed",
+      content: { image },
+      position: { boundingRect, rects: [] },
+    },
+    ["stamp"],
+  ],
+  [
+    "drawing",
+    {
+      id: "drawing",
+      type: "drawing",
+      comment: "Sketch",
+      content: { strokes },
+      position: { boundingRect, rects: [] },
+    },
+    // One per stroke color
+    ["ink", "ink"],
+  ],
+];
+
+const shapes: ShapeData[] = [
+  {
+    shapeType: "line",
+    strokeColor: red,
+    strokeWidth: 2,
+    startPoint: { x: 0.1, y: 0.2 },
+    endPoint: { x: 0.9, y: 0.8 },
+    dashPattern: [3, 2],
+  },
+  {
+    shapeType: "line",
+    strokeColor: red,
+    strokeWidth: 2,
+    startPoint: { x: 0, y: 0.5 },
+    endPoint: { x: 1, y: 0.5 },
+    startEnding: "circle",
+    endEnding: "diamond",
+  },
+  {
+    shapeType: "arrow",
+    strokeColor: red,
+    strokeWidth: 3,
+    startPoint: { x: 0.1, y: 0.9 },
+    endPoint: { x: 0.9, y: 0.1 },
+  },
+  {
+    shapeType: "doubleArrow",
+    strokeColor: red,
+    strokeWidth: 1,
+    startPoint: { x: 0.2, y: 0.5 },
+    endPoint: { x: 0.8, y: 0.5 },
+  },
+  {
+    shapeType: "polyline",
+    strokeColor: red,
+    strokeWidth: 2,
+    vertices: [
+      { x: 0.1, y: 0.1 },
+      { x: 0.5, y: 0.9 },
+      { x: 0.9, y: 0.2 },
+    ],
+    endEnding: "closedArrow",
+  },
+  {
+    shapeType: "polygon",
+    strokeColor: red,
+    strokeWidth: 2,
+    fillColor: blue,
+    vertices: [
+      { x: 0.1, y: 0.1 },
+      { x: 0.9, y: 0.1 },
+      { x: 0.5, y: 0.9 },
+    ],
+  },
+  {
+    shapeType: "cloud",
+    strokeColor: red,
+    strokeWidth: 2,
+    vertices: [
+      { x: 0.1, y: 0.1 },
+      { x: 0.9, y: 0.1 },
+      { x: 0.9, y: 0.9 },
+      { x: 0.1, y: 0.9 },
+    ],
+  },
+  {
+    shapeType: "callout",
+    strokeColor: red,
+    strokeWidth: 1,
+    fillColor: blue,
+    vertices: [
+      { x: 0.05, y: 0.9 },
+      { x: 0.4, y: 0.3 },
+    ],
+    textBox: { x: 0.4, y: 0.1, width: 0.5, height: 0.4 },
+    text: "Check this",
+  },
+];
+
+/** Round the numbers of a value, for comparing positions after a round-trip. */
+const rounded = <T>(value: T): T =>
+  JSON.parse(
+    JSON.stringify(value, (_, item) =>
+      typeof item === "number" ? Math.round(item * 100) / 100 : item,
+    ),
+  );
+
+// jsdom has no canvas to render the images of imported drawings with
+vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+
+/** The names of the annotation elements of an XFDF document. */
+const getElementNames = (xml: string) =>
+  Array.from(
+    new DOMParser()
+      .parseFromString(xml, "application/xml")
+      .getElementsByTagNameNS("*", "annots")[0].children,
+  ).map((element) => element.localName);
+
+describe.each([
+  [0, { width: 600, height: 800 }],
+  [90, { width: 800, height: 600 }],
+])("XFDF on a page rotated by %i°", (rotation, size) => {
+  const pdfDocument = createFakePdfDocument([{ ...size, rotation }]);
+
+  it.each(shapes.map((shape) => [shape.shapeType, shape] as const))(
+    "exports and imports a %s shape",
+    async (_, shape) => {
+      const xml = await exportXfdf([shapeHighlight(shape)], pdfDocument);
+      const [imported] = await importXfdf(xml, pdfDocument);
+
+      expect(imported.type).toBe("shape");
+      expect(rounded(imported.content.shape)).toEqual(rounded(shape));
+      expect(rounded(imported.position.boundingRect)).toEqual(
+        rounded(boundingRect),
+      );
+    },
+  );
+
+  it.each(highlights)(
+    "exports and imports a %s highlight",
+    async (_, highlight, elementNames) => {
+      const xml = await exportXfdf([highlight], pdfDocument);
+      const imported = await importXfdf(xml, pdfDocument, {
+        extractText: false,
+      });
+
+      expect(getElementNames(xml)).toEqual(elementNames);
+      expect(imported).toHaveLength(1);
+
+      const { id, type, comment, position, content, ...style } = highlight;
+      expect(imported[0]).toMatchObject({ id, type, comment, ...style });
+      expect(rounded(imported[0].position)).toEqual(rounded(position));
+      if (type === "drawing") {
+        expect(rounded(imported[0].content.strokes)).toEqual(strokes);
+      } else if (type !== "text") {
+        expect(imported[0].content).toEqual(content);
+      }
+    },
+  );
+
+  it("exports a drawing without strokes as its image", async () => {
+    const xml = await exportXfdf(
+      [
+        {
+          id: "signature",
+          type: "drawing",
+          content: { image },
+          position: { boundingRect, rects: [] },
+        },
+      ],
+      pdfDocument,
+    );
+    const [imported] = await importXfdf(xml, pdfDocument);
+
+    expect(getElementNames(xml)).toEqual(["stamp"]);
+    expect(imported).toMatchObject({
+      id: "signature",
+      type: "image",
+      content: { image },
+    });
+  });
+
+  it("writes lines, polylines and polygons as their XFDF elements", async () => {
+    const xml = await exportXfdf(shapes.map(shapeHighlight), pdfDocument);
+
+    expect(getElementNames(xml)).toEqual([
+      "line",
+      "line",
+      "line",
+      "line",
+      "polyline",
+      "polygon",
+      "polygon",
+      "freetext",
+    ]);
+  });
+});
+
+describe("importXfdf of text highlights", () => {
+  // "Hello world" in 10 point text, with every character 5 points wide
+  const textItem: TextItem = {
+    str: "Hello world",
+    dir: "ltr",
+    transform: [10, 0, 0, 10, 100, 600],
+    width: 55,
+    height: 10,
+    fontName: "Helvetica",
+    hasEOL: false,
+  };
+  const pdfDocument = createFakePdfDocument([
+    { width: 600, height: 800, textItems: [textItem] },
+  ]);
+
+  it("reads the text under the highlight", async () => {
+    // The top of the page is at y = 800, so the text is 190 to 200 down
+    const rect: Scaled = {
+      x1: 99,
+      y1: 189,
+      x2: 126,
+      y2: 201,
+      width: 600,
+      height: 800,
+      pageNumber: 1,
+    };
+    const xml = await exportXfdf(
+      [
+        {
+          id: "hello",
+          type: "text",
+          position: { boundingRect: rect, rects: [rect] },
+        },
+      ],
+      pdfDocument,
+    );
+    const [imported] = await importXfdf(xml, pdfDocument);
+
+    expect(imported.content.text).toBe("Hello");
+  });
+});
@@ -0,0 +1,924 @@
+import type { PDFDocumentProxy, PageViewport } from "pdfjs-dist";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { DrawingStroke, LTWHP, Scaled, ShapeData } from "../types";
+import { scaledToViewport, viewportToScaled } from "./coordinates";
+import {
+  ExportableHighlight,
+  getShapeData,
+  parseColor,
+} from "./export-pdf";
+import getBoundingRect from "./get-bounding-rect";
+import {
+  getTextInRects,
+  ImportedHighlight,
+  pdfRectToViewport,
+  toCssColor,
+} from "./import-annotations";
+import renderStrokesToImage from "./render-strokes";
+import {
+  CALLOUT_FONT_SIZE,
+  getCalloutBox,
+  getLineEndings,
+  getLineShape,
+  getShapePoints,
+  isClosedShape,
+  PDF_LINE_ENDINGS,
+  toLineEnding,
+} from "./shape-geometry";
+import { HIGHLIGHTER_OPACITY } from "./stroke-geometry";
+
+const XFDF_NAMESPACE = "http://ns.adobe.com/xfdf/";
+
+// Subjects used to tell area highlights apart from text highlights, since
+// both are written as <highlight> elements.
+const TEXT_HIGHLIGHT_SUBJECT = "Highlight";
+const AREA_HIGHLIGHT_SUBJECT = "Area Highlight";
+
+/**
+ * Options for XFDF export.
+ *
+ * @category Type
+ */
+export interface ExportXfdfOptions {
+  /** Author (`title`) written to each annotation */
+  author?: string;
+  /** Default color for text highlights. Default: "rgba(255, 226, 143, 0.5)" */
+  textHighlightColor?: string;
+  /** Default color for area highlights. Default: "rgba(255, 226, 143, 0.5)" */
+  areaHighlightColor?: string;
+  /** Default text color for freetext. Default: "#333333" */
+  defaultFreetextColor?: string;
+  /** Default background for freetext. Default: "#ffffc8" */
+  defaultFreetextBgColor?: string;
+  /** Default font size for freetext. Default: 14 */
+  defaultFreetextFontSize?: number;
+  /** Name of the PDF file the annotations belong to (`<f href>`) */
+  fileName?: string;
+}
+
+/**
+ * Options for XFDF import.
+ *
+ * @category Type
+ */
+export interface ImportXfdfOptions {
+  /** Extract the covered text of text markup annotations from the document. Default: true */
+  extractText?: boolean;
+  /** Prefix for ids of annotations without a `name`. Default: "xfdf-annotation-" */
+  idPrefix?: string;
+}
+
+/**
+ * Escape a string for use in XML text or attribute values.
+ */
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const formatNumbers = (values: number[]) => values.map(formatNumber).join(",");
+
+const toHexColor = (color: string): { hex: string; opacity: number } => {
+  const { r, g, b, a } = parseColor(color);
+  const toHex = (value: number) =>
+    Math.round(value * 255)
+      .toString(16)
+      .padStart(2, "0")
+      .toUpperCase();
+  return { hex: `#${toHex(r)}${toHex(g)}${toHex(b)}`, opacity: a };
+};
+
+const parseHexColor = (hex: string | null): number[] | null => {
+  const match = hex?.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  return match ? match.slice(1, 4).map((part) => parseInt(part, 16)) : null;
+};
+
+/**
+ * Format a date as a PDF date string (D:YYYYMMDDHHmmSS).
+ */
+const toPdfDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate(),
+  )}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(
+    date.getUTCSeconds(),
+  )}Z`;
+};
+
+/**
+ * Convert a scaled rectangle to a PDF user space rectangle [x1, y1, x2, y2].
+ */
+const scaledToPdfRect = (
+  scaled: Scaled,
+  viewport: PageViewport,
+  usePdfCoordinates?: boolean,
+): number[] => {
+  const { left, top, width, height } = scaledToViewport(
+    scaled,
+    viewport,
+    usePdfCoordinates,
+  );
+  const [x1, y1] = viewport.convertToPdfPoint(left, top);
+  const [x2, y2] = viewport.convertToPdfPoint(left + width, top + height);
+  return [
+    Math.min(x1, x2),
+    Math.min(y1, y2),
+    Math.max(x1, x2),
+    Math.max(y1, y2),
+  ];
+};
+
+/**
+ * QuadPoints of a PDF rectangle: top-left, top-right, bottom-left, bottom-right.
+ */
+const toCoords = ([x1, y1, x2, y2]: number[]) => [
+  x1,
+  y2,
+  x2,
+  y2,
+  x1,
+  y1,
+  x2,
+  y1,
+];
+
+const toAttributes = (attributes: Record<string, string | undefined>) =>
+  Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${escapeXml(value!)}"`)
+    .join(" ");
+
+/**
+ * Build the XFDF elements for a single highlight: one per annotation, as a
+ * drawing can need several.
+ */
+const highlightToXfdf = (
+  highlight: ExportableHighlight,
+  viewport: PageViewport,
+  options: ExportXfdfOptions,
+): string | null => {
+  const { boundingRect, rects, usePdfCoordinates } = highlight.position;
+  const rect = scaledToPdfRect(boundingRect, viewport, usePdfCoordinates);
+
+  const common = {
+    page: String(boundingRect.pageNumber - 1),
+    name: highlight.id,
+    title: options.author,
+    date: toPdfDate(new Date()),
+  };
+  const contents = highlight.comment
+    ? `<contents>${escapeXml(highlight.comment)}</contents>`
+    : "";
+  const toStamp = (image: string | undefined) =>
+    image
+      ? `<stamp ${toAttributes({
+          ...common,
+          rect: formatNumbers(rect),
+        })}>${contents}<imagedata>${escapeXml(image)}</imagedata></stamp>`
+      : null;
+
+  switch (highlight.type) {
+    case "text":
+    case "area":
+    case undefined: {
+      const isText = highlight.type === "text";
+      const pdfRects = (isText && rects.length > 0 ? rects : [boundingRect]).map(
+        (scaled) => scaledToPdfRect(scaled, viewport, usePdfCoordinates),
+      );
+      const { hex, opacity } = toHexColor(
+        highlight.highlightColor ||
+          (isText ? options.textHighlightColor : options.areaHighlightColor) ||
+          "rgba(255, 226, 143, 0.5)",
+      );
+      const element = !isText
+        ? "highlight"
+        : { highlight: "highlight", underline: "underline", strikethrough: "strikeout" }[
+            highlight.highlightStyle || "highlight"
+          ];
+
+      return `<${element} ${toAttributes({
+        ...common,
+        subject: isText ? TEXT_HIGHLIGHT_SUBJECT : AREA_HIGHLIGHT_SUBJECT,
+        rect: formatNumbers(rect),
+        color: hex,
+        opacity: formatNumber(opacity),
+        coords: formatNumbers(pdfRects.flatMap(toCoords)),
+      })}>${contents}</${element}>`;
+    }
+
+    case "shape": {
+      const shape = getShapeData(highlight);
+      const { shapeType, strokeWidth } = shape;
+      const { hex, opacity } = toHexColor(shape.strokeColor);
+      const viewportRect = scaledToViewport(
+        boundingRect,
+        viewport,
+        usePdfCoordinates,
+      );
+      // Points are relative to the bounding box
+      const points = getShapePoints(
+        shape,
+        viewportRect.width,
+        viewportRect.height,
+      ).map(({ x, y }) =>
+        formatNumbers(
+          viewport.convertToPdfPoint(viewportRect.left + x, viewportRect.top + y),
+        ),
+      );
+      const { start, end } = getLineEndings(shape);
+      const fill =
+        shape.fillColor && isClosedShape(shapeType)
+          ? toHexColor(shape.fillColor).hex
+          : undefined;
+      const attributes = {
+        ...common,
+        rect: formatNumbers(rect),
+        color: hex,
+        opacity: formatNumber(opacity),
+        width: formatNumber(strokeWidth),
+        ...(shape.dashPattern?.length && {
+          style: "dash",
+          dashes: formatNumbers(
+            shape.dashPattern.map((length) => length * strokeWidth),
+          ),
+        }),
+      };
+
+      switch (shapeType) {
+        case "line":
+        case "arrow":
+        case "doubleArrow":
+          return `<line ${toAttributes({
+            ...attributes,
+            start: points[0],
+            end: points[1],
+            head: PDF_LINE_ENDINGS[start],
+            tail: PDF_LINE_ENDINGS[end],
+          })}>${contents}</line>`;
+
+        case "polyline":
+          return `<polyline ${toAttributes({
+            ...attributes,
+            head: PDF_LINE_ENDINGS[start],
+            tail: PDF_LINE_ENDINGS[end],
+          })}>${contents}<vertices>${points.join(";")}</vertices></polyline>`;
+
+        case "polygon":
+        case "cloud":
+          return `<polygon ${toAttributes({
+            ...attributes,
+            "interior-color": fill,
+            ...(shapeType === "cloud" && { style: "cloudy", intensity: "1" }),
+          })}>${contents}<vertices>${points.join(";")}</vertices></polygon>`;
+
+        case "callout": {
+          // The text box, inset from the rectangle around the leader by the
+          // fringe. Like other free text, the background is in `color` and
+          // the color of the text and leader in the default appearance.
+          const box = getCalloutBox(
+            shape,
+            viewportRect.width,
+            viewportRect.height,
+          );
+          const [x1, y1] = viewport.convertToPdfPoint(
+            viewportRect.left + box.x,
+            viewportRect.top + box.y,
+          );
+          const [x2, y2] = viewport.convertToPdfPoint(
+            viewportRect.left + box.x + box.width,
+            viewportRect.top + box.y + box.height,
+          );
+          const fontSize =
+            CALLOUT_FONT_SIZE * (viewport.height / boundingRect.height);
+          const { r, g, b } = parseColor(shape.strokeColor);
+
+          return `<freetext ${toAttributes({
+            ...attributes,
+            color: shape.fillColor ? toHexColor(shape.fillColor).hex : undefined,
+            intent: "FreeTextCallout",
+            callout: points.join(","),
+            head: PDF_LINE_ENDINGS[start],
+            fringe: formatNumbers([
+              Math.min(x1, x2) - rect[0],
+              Math.min(y1, y2) - rect[1],
+              rect[2] - Math.max(x1, x2),
+              rect[3] - Math.max(y1, y2),
+            ]),
+          })}><contents>${escapeXml(
+            shape.text || "",
+          )}</contents><defaultappearance>${escapeXml(
+            `/Helv ${formatNumber(fontSize)} Tf ${formatNumbers([r, g, b]).replace(/,/g, " ")} rg`,
+          )}</defaultappearance></freetext>`;
+        }
+
+        default: {
+          const element = shapeType === "circle" ? "circle" : "square";
+          return `<${element} ${toAttributes({
+            ...attributes,
+            "interior-color": fill,
+          })}>${contents}</${element}>`;
+        }
+      }
+    }
+
+    case "drawing": {
+      const strokes = highlight.content?.strokes;
+      // Drawings saved without strokes are written as their image
+      if (!strokes || strokes.length === 0) {
+        return toStamp(highlight.content?.image);
+      }
+
+      const viewportRect = scaledToViewport(
+        boundingRect,
+        viewport,
+        usePdfCoordinates,
+      );
+      const xRatio = viewport.width / boundingRect.width;
+      const yRatio = viewport.height / boundingRect.height;
+
+      // An <ink> has one color and width, so strokes are grouped by color,
+      // width and tool
+      const groups = new Map<string, DrawingStroke[]>();
+      for (const stroke of strokes) {
+        const key = `${stroke.color}|${stroke.width}|${stroke.tool ?? "pen"}`;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(stroke);
+      }
+
+      return Array.from(groups.values())
+        .map((group, index) => {
+          const { hex, opacity } = toHexColor(group[0].color);
+
+          // Stroke points are relative to the top-left of the bounding box
+          const gestures = group
+            .map((stroke) => {
+              const points = stroke.points.map((point) =>
+                formatNumbers(
+                  viewport.convertToPdfPoint(
+                    viewportRect.left + point.x * xRatio,
+                    viewportRect.top + point.y * yRatio,
+                  ),
+                ),
+              );
+              return `<gesture>${points.join(";")}</gesture>`;
+            })
+            .join("");
+
+          return `<ink ${toAttributes({
+            ...common,
+            // Names are unique, so later groups get a suffix and only the
+            // first holds the comment
+            name: index === 0 ? highlight.id : `${highlight.id}-${index + 1}`,
+            rect: formatNumbers(rect),
+            color: hex,
+            opacity: formatNumber(
+              group[0].tool === "highlighter"
+                ? opacity * HIGHLIGHTER_OPACITY
+                : opacity,
+            ),
+            width: formatNumber(group[0].width * xRatio),
+          })}>${index === 0 ? contents : ""}<inklist>${gestures}</inklist></ink>`;
+        })
+        .join("\n    ");
+    }
+
+    case "freetext": {
+      const textColor = toHexColor(
+        highlight.color || options.defaultFreetextColor || "#333333",
+      );
+      const background =
+        highlight.backgroundColor || options.defaultFreetextBgColor || "#ffffc8";
+      const yRatio = viewport.height / boundingRect.height;
+      const fontSize =
+        (parseInt(highlight.fontSize || "") ||
+          options.defaultFreetextFontSize ||
+          14) * yRatio;
+      const { r, g, b } = parseColor(textColor.hex);
+
+      return `<freetext ${toAttributes({
+        ...common,
+        rect: formatNumbers(rect),
+        color:
+          background === "transparent" ? undefined : toHexColor(background).hex,
+        width: "0",
+      })}><contents>${escapeXml(
+        highlight.content?.text || "",
+      )}</contents><defaultappearance>${escapeXml(
+        `/Helv ${formatNumber(fontSize)} Tf ${formatNumbers([r, g, b]).replace(/,/g, " ")} rg`,
+      )}</defaultappearance><defaultstyle>${escapeXml(
+        `font: Helvetica ${formatNumber(fontSize)}pt; color: ${textColor.hex}`,
+      )}</defaultstyle></freetext>`;
+    }
+
+    case "image":
+      return toStamp(highlight.content?.image);
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Serialise highlights to an XFDF document that can be imported by Acrobat
+ * and other XFDF-aware PDF readers. Coordinates are converted from
+ * {@link Scaled} positions to PDF user space using each page's viewport.
+ *
+ * @param highlights - Highlights to serialise.
+ * @param pdfDocument - The PDF.js document the highlights belong to.
+ * @param options - Export options.
+ * @returns Promise<string> - The XFDF document.
+ *
+ * @category Function
+ */
+export async function exportXfdf(
+  highlights: ExportableHighlight[],
+  pdfDocument: PDFDocumentProxy,
+  options: ExportXfdfOptions = {},
+): Promise<string> {
+  const viewports = new Map<number, PageViewport>();
+  const annotations: string[] = [];
+
+  for (const highlight of highlights) {
+    const pageNumber = highlight.position.boundingRect.pageNumber;
+    if (pageNumber < 1 || pageNumber > pdfDocument.numPages) continue;
+
+    if (!viewports.has(pageNumber)) {
+      const page = await pdfDocument.getPage(pageNumber);
+      viewports.set(pageNumber, page.getViewport({ scale: 1 }));
+    }
+
+    const element = highlightToXfdf(
+      highlight,
+      viewports.get(pageNumber)!,
+      options,
+    );
+    if (element) annotations.push(`    ${element}`);
+  }
+
+  const file = options.fileName
+    ? `\n  <f href="${escapeXml(options.fileName)}"/>`
+    : "";
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xfdf xmlns="${XFDF_NAMESPACE}" xml:space="preserve">
+  <annots>
+${annotations.join("\n")}
+  </annots>${file}
+</xfdf>
+`;
+}
+
+const parseNumbers = (value: string | null): number[] =>
+  (value || "")
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter((n) => !Number.isNaN(n));
+
+const childText = (element: Element, tagName: string): string | undefined => {
+  const child = Array.from(element.children).find(
+    (node) => node.localName === tagName,
+  );
+  return child?.textContent ?? undefined;
+};
+
+/**
+ * Convert flat x/y pairs in PDF user space to points relative to a viewport
+ * rectangle (0-1).
+ */
+const toRelativePoints = (
+  values: number[],
+  rect: LTWHP,
+  viewport: PageViewport,
+): { x: number; y: number }[] => {
+  const points = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    const [x, y] = viewport.convertToViewportPoint(values[i], values[i + 1]);
+    points.push({
+      x: rect.width ? (x - rect.left) / rect.width : 0,
+      y: rect.height ? (y - rect.top) / rect.height : 0,
+    });
+  }
+  return points;
+};
+
+/**
+ * The fill and dash pattern of a shape element, which XFDF gives in
+ * `interior-color` and in points in `dashes`.
+ */
+const getShapeStyle = (
+  element: Element,
+  width: number,
+): Pick<ShapeData, "fillColor" | "dashPattern"> => {
+  const fill = parseHexColor(element.getAttribute("interior-color"));
+  const dashes = parseNumbers(element.getAttribute("dashes"));
+  return {
+    ...(fill && { fillColor: toCssColor(fill, "#ffffff") }),
+    ...(element.getAttribute("style") === "dash" &&
+      dashes.length > 0 && {
+        dashPattern: dashes.map((length) => length / (width || 1)),
+      }),
+  };
+};
+
+/**
+ * Split XFDF `coords` (8 numbers per quadrilateral) into viewport rectangles.
+ */
+const coordsToViewportRects = (
+  coords: number[],
+  viewport: PageViewport,
+  pageNumber: number,
+): LTWHP[] => {
+  const rects: LTWHP[] = [];
+  for (let i = 0; i + 7 < coords.length; i += 8) {
+    const xs = [coords[i], coords[i + 2], coords[i + 4], coords[i + 6]];
+    const ys = [coords[i + 1], coords[i + 3], coords[i + 5], coords[i + 7]];
+    rects.push(
+      pdfRectToViewport(
+        [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)],
+        viewport,
+        pageNumber,
+      ),
+    );
+  }
+  return rects;
+};
+
+/**
+ * Add the strokes of an `<ink>` to the drawing it was split from, see
+ * {@link highlightToXfdf}.
+ */
+const mergeInk = (drawing: ImportedHighlight, ink: ImportedHighlight) => {
+  const { x1, y1, x2, y2 } = drawing.position.boundingRect;
+  const dx = ink.position.boundingRect.x1 - x1;
+  const dy = ink.position.boundingRect.y1 - y1;
+
+  const strokes = [
+    ...(drawing.content.strokes ?? []),
+    ...(ink.content.strokes ?? []).map((stroke) => ({
+      ...stroke,
+      points: stroke.points.map((point) => ({
+        ...point,
+        x: point.x + dx,
+        y: point.y + dy,
+      })),
+    })),
+  ];
+
+  drawing.content = {
+    strokes,
+    image: renderStrokesToImage(
+      strokes,
+      Math.ceil(x2 - x1),
+      Math.ceil(y2 - y1),
+    ),
+  };
+};
+
+/**
+ * Convert a single XFDF annotation element into a highlight, or `null` if it
+ * is not supported.
+ */
+const xfdfToHighlight = async (
+  element: Element,
+  index: number,
+  viewport: PageViewport,
+  pageNumber: number,
+  getTextItems: () => Promise<TextItem[]>,
+  options: Required<ImportXfdfOptions>,
+): Promise<ImportedHighlight | null> => {
+  const tagName = element.localName;
+  const rectValues = parseNumbers(element.getAttribute("rect"));
+  if (rectValues.length !== 4) return null;
+
+  const boundingRect = pdfRectToViewport(rectValues, viewport, pageNumber);
+  const colorValues = parseHexColor(element.getAttribute("color"));
+  const opacity = Number(element.getAttribute("opacity") ?? 1);
+  const width = Number(element.getAttribute("width") ?? 1);
+  const color = toCssColor(colorValues, "#000000", opacity);
+
+  const base = {
+    id: element.getAttribute("name") || `${options.idPrefix}${index}`,
+    annotationId: element.getAttribute("name") || String(index),
+    annotationSubtype: tagName,
+    comment: childText(element, "contents") || undefined,
+    author: element.getAttribute("title") || undefined,
+  };
+  const position = {
+    boundingRect: viewportToScaled(boundingRect, viewport),
+    rects: [],
+  };
+
+  switch (tagName) {
+    case "highlight":
+    case "underline":
+    case "squiggly":
+    case "strikeout": {
+      const isArea =
+        element.getAttribute("subject") === AREA_HIGHLIGHT_SUBJECT;
+      const highlightColor = toCssColor(
+        colorValues,
+        "rgba(255, 226, 143, 1)",
+        opacity,
+      );
+
+      if (isArea) {
+        return { ...base, type: "area", content: {}, position, highlightColor };
+      }
+
+      const coords = parseNumbers(element.getAttribute("coords"));
+      const rects =
+        coords.length >= 8
+          ? coordsToViewportRects(coords, viewport, pageNumber)
+          : [boundingRect];
+      const text = options.extractText
+        ? getTextInRects(await getTextItems(), rects, viewport, pageNumber)
+        : undefined;
+
+      return {
+        ...base,
+        type: "text",
+        content: { text },
+        position: {
+          boundingRect: viewportToScaled(getBoundingRect(rects), viewport),
+          rects: rects.map((rect) => viewportToScaled(rect, viewport)),
+        },
+        highlightColor,
+        highlightStyle:
+          tagName === "strikeout"
+            ? "strikethrough"
+            : tagName === "highlight"
+              ? "highlight"
+              : "underline",
+      };
+    }
+
+    case "square":
+    case "circle":
+    case "line":
+    case "polyline":
+    case "polygon": {
+      const head = toLineEnding(element.getAttribute("head"));
+      const tail = toLineEnding(element.getAttribute("tail"));
+      const shape: ShapeData = {
+        ...(tagName === "square"
+          ? { shapeType: "rectangle" }
+          : tagName === "circle"
+            ? { shapeType: "circle" }
+            : tagName === "line"
+              ? getLineShape(head, tail)
+              : tagName === "polyline"
+                ? {
+                    shapeType: "polyline",
+                    ...(head !== "none" && { startEnding: head }),
+                    ...(tail !== "none" && { endEnding: tail }),
+                  }
+                : {
+                    shapeType:
+                      element.getAttribute("style") === "cloudy"
+                        ? "cloud"
+                        : "polygon",
+                  }),
+        ...getShapeStyle(element, width),
+        strokeColor: color,
+        strokeWidth: width,
+      };
+
+      if (tagName === "line") {
+        [shape.startPoint, shape.endPoint] = toRelativePoints(
+          [
+            ...parseNumbers(element.getAttribute("start")),
+            ...parseNumbers(element.getAttribute("end")),
+          ],
+          boundingRect,
+          viewport,
+        );
+      } else if (tagName === "polyline" || tagName === "polygon") {
+        shape.vertices = toRelativePoints(
+          parseNumbers(childText(element, "vertices") ?? null),
+          boundingRect,
+          viewport,
+        );
+      }
+
+      return {
+        ...base,
+        type: "shape",
+        content: { shape },
+        position,
+        shapeType: shape.shapeType,
+        strokeColor: shape.strokeColor,
+        strokeWidth: shape.strokeWidth,
+      };
+    }
+
+    case "ink": {
+      const gestures = Array.from(element.getElementsByTagNameNS("*", "gesture"));
+      const strokes: DrawingStroke[] = gestures.map((gesture) => {
+        const values = parseNumbers(gesture.textContent);
+        const points = [];
+        for (let i = 0; i + 1 < values.length; i += 2) {
+          const [x, y] = viewport.convertToViewportPoint(values[i], values[i + 1]);
+          points.push({ x: x - boundingRect.left, y: y - boundingRect.top });
+        }
+        return { points, color, width };
+      });
+
+      return {
+        ...base,
+        type: "drawing",
+        content: {
+          strokes,
+          image: renderStrokesToImage(
+            strokes,
+            Math.ceil(boundingRect.width),
+            Math.ceil(boundingRect.height),
+          ),
+        },
+        position,
+      };
+    }
+
+    case "freetext": {
+      const appearance = childText(element, "defaultappearance") || "";
+      const fontSize = appearance.match(/([\d.]+)\s+Tf/)?.[1];
+      const rgbColor = appearance
+        .match(/([\d.]+)\s+([\d.]+)\s+([\d.]+)\s+rg/)
+        ?.slice(1, 4)
+        .map((value) => Math.round(Number(value) * 255));
+
+      if (element.getAttribute("intent") === "FreeTextCallout") {
+        // The text box is the rectangle inset by the fringe
+        const [left, bottom, right, top] = parseNumbers(
+          element.getAttribute("fringe"),
+        );
+        const box = pdfRectToViewport(
+          [
+            rectValues[0] + (left || 0),
+            rectValues[1] + (bottom || 0),
+            rectValues[2] - (right || 0),
+            rectValues[3] - (top || 0),
+          ],
+          viewport,
+          pageNumber,
+        );
+        const head = toLineEnding(element.getAttribute("head"));
+        const shape: ShapeData = {
+          shapeType: "callout",
+          ...getShapeStyle(element, width),
+          strokeColor: toCssColor(rgbColor, "#000000", opacity),
+          strokeWidth: width,
+          ...(head !== "openArrow" && { startEnding: head }),
+          vertices: toRelativePoints(
+            parseNumbers(element.getAttribute("callout")),
+            boundingRect,
+            viewport,
+          ),
+          textBox: {
+            x: boundingRect.width
+              ? (box.left - boundingRect.left) / boundingRect.width
+              : 0,
+            y: boundingRect.height
+              ? (box.top - boundingRect.top) / boundingRect.height
+              : 0,
+            width: boundingRect.width ? box.width / boundingRect.width : 1,
+            height: boundingRect.height ? box.height / boundingRect.height : 1,
+          },
+          text: childText(element, "contents") || "",
+          fillColor: colorValues ? toCssColor(colorValues, "#ffffff") : undefined,
+        };
+
+        return {
+          ...base,
+          comment: undefined,
+          type: "shape",
+          content: { shape },
+          position,
+          shapeType: shape.shapeType,
+          strokeColor: shape.strokeColor,
+          strokeWidth: shape.strokeWidth,
+        };
+      }
+
+      return {
+        ...base,
+        comment: undefined,
+        type: "freetext",
+        content: { text: childText(element, "contents") || "" },
+        position,
+        color: toCssColor(rgbColor, "#000000"),
+        backgroundColor: colorValues
+          ? toCssColor(colorValues, "transparent")
+          : "transparent",
+        fontSize: `${Math.round(Number(fontSize) || 10)}px`,
+      };
+    }
+
+    case "stamp": {
+      const image = childText(element, "imagedata");
+      return {
+        ...base,
+        type: "image",
+        content: { image: image?.startsWith("data:") ? image : undefined },
+        position,
+      };
+    }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parse an XFDF document into highlights. Coordinates are converted from PDF
+ * user space to {@link Scaled} positions using each page's viewport, so
+ * highlights exported with {@link exportXfdf} round-trip to the same positions.
+ *
+ * @param xml - The XFDF document.
+ * @param pdfDocument - The PDF.js document the annotations belong to.
+ * @param options - Import options.
+ * @returns Promise<ImportedHighlight[]> - Highlights in document order.
+ *
+ * @category Function
+ */
+export async function importXfdf(
+  xml: string,
+  pdfDocument: PDFDocumentProxy,
+  options: ImportXfdfOptions = {},
+): Promise<ImportedHighlight[]> {
+  const resolvedOptions = {
+    extractText: options.extractText ?? true,
+    idPrefix: options.idPrefix ?? "xfdf-annotation-",
+  };
+
+  const xfdf = new DOMParser().parseFromString(xml, "application/xml");
+  const parserError = xfdf.getElementsByTagName("parsererror")[0];
+  if (parserError) {
+    throw new Error(`Invalid XFDF document: ${parserError.textContent}`);
+  }
+
+  const annots = xfdf.getElementsByTagNameNS("*", "annots")[0];
+  if (!annots) return [];
+
+  const pages = new Map<
+    number,
+    { viewport: PageViewport; getTextItems: () => Promise<TextItem[]> }
+  >();
+  const highlights: ImportedHighlight[] = [];
+
+  const elements = Array.from(annots.children);
+  for (const [index, element] of elements.entries()) {
+    const pageNumber = Number(element.getAttribute("page") ?? 0) + 1;
+    if (pageNumber < 1 || pageNumber > pdfDocument.numPages) continue;
+
+    if (!pages.has(pageNumber)) {
+      const page = await pdfDocument.getPage(pageNumber);
+      let textItemsPromise: Promise<TextItem[]> | null = null;
+      pages.set(pageNumber, {
+        viewport: page.getViewport({ scale: 1 }),
+        getTextItems: () => {
+          textItemsPromise ||= page
+            .getTextContent()
+            .then((textContent) =>
+              textContent.items.filter((item): item is TextItem => "str" in item),
+            );
+          return textItemsPromise;
+        },
+      });
+    }
+
+    const { viewport, getTextItems } = pages.get(pageNumber)!;
+    const highlight = await xfdfToHighlight(
+      element,
+      index,
+      viewport,
+      pageNumber,
+      getTextItems,
+      resolvedOptions,
+    );
+    if (!highlight) continue;
+
+    // Drawings of several colors are exported as an <ink> per color, the
+    // later ones named after the first with a suffix
+    const drawing =
+      highlight.type === "drawing" &&
+      highlights.find(
+        ({ id, type, position }) =>
+          type === "drawing" &&
+          id === highlight.id.replace(/-\d+$/, "") &&
+          id !== highlight.id &&
+          position.boundingRect.pageNumber === pageNumber,
+      );
+    if (drawing) {
+      mergeInk(drawing, highlight);
+    } else {
+      highlights.push(highlight);
+    }
+  }
+
+  return highlights;
+}
@@ -79,10 +79,26 @@ export type ScaledPosition = {
 export type DrawingPoint = {
   x: number;
   y: number;
+  /** Pen pressure from 0 to 1. Only recorded for pens that report it. */
+  pressure?: number;
+  /** Pen tilt in degrees from -90 to 90, along the x axis. */
+  tiltX?: number;
+  /** Pen tilt in degrees from -90 to 90, along the y axis. */
+  tiltY?: number;
 };
 
 /**
- * A stroke in a drawing, with its own color and width.
+ * A tool of the {@link DrawingCanvas}. The eraser removes the parts of
+ * strokes it passes over, splitting them if needed.
+ *
+ * @category Type
+ */
+export type DrawingTool = "pen" | "highlighter" | "eraser";
+
+/**
+ * A stroke in a drawing, with its own color and width. Strokes with pressure
+ * are drawn with a width that follows it, `width` being the width at half
+ * pressure.
  *
  * @category Type
  */
@@ -90,17 +106,59 @@ export type DrawingStroke = {
   points: DrawingPoint[];
   color: string;
   width: number;
+  /** Highlighter strokes are translucent and multiply with the page. Default: "pen" */
+  tool?: Exclude<DrawingTool, "eraser">;
 };
 
 /**
- * Shape types for shape annotations.
+ * Shape types for shape annotations. Lines and arrows are dragged;
+ * polylines, polygons and clouds are drawn click by click; callouts are a
+ * click on what they point at, then a dragged text box.
+ *
+ * @category Type
+ */
+export type ShapeType =
+  | "rectangle"
+  | "circle"
+  | "arrow"
+  | "line"
+  | "doubleArrow"
+  | "polyline"
+  | "polygon"
+  | "cloud"
+  | "callout";
+
+/**
+ * How an end of a line, arrow, polyline or callout leader is drawn, like
+ * the line endings of PDF annotations.
  *
  * @category Type
  */
-export type ShapeType = "rectangle" | "circle" | "arrow";
+export type LineEnding =
+  | "none"
+  | "openArrow"
+  | "closedArrow"
+  | "circle"
+  | "square"
+  | "diamond"
+  | "butt";
 
 /**
- * Shape data for shape highlights.
+ * How a shape shows its length: PDF points times `scale`, in `unit`.
+ * E.g. `{ scale: 1 / 72, unit: "in" }` for inches on paper.
+ *
+ * @category Type
+ */
+export type ShapeMeasure = {
+  scale: number;
+  unit: string;
+  /** Decimal places. Default: 2 */
+  precision?: number;
+};
+
+/**
+ * Shape data for shape highlights. Points and boxes are fractions of the
+ * bounding box (0-1).
  *
  * @category Type
  */
@@ -108,10 +166,29 @@ export type ShapeData = {
   shapeType: ShapeType;
   strokeColor: string;
   strokeWidth: number;
-  /** For arrows: start point as percentage of bounding box (0-1) */
+  /** For lines and arrows: start point as percentage of bounding box (0-1) */
   startPoint?: { x: number; y: number };
-  /** For arrows: end point as percentage of bounding box (0-1) */
+  /** For lines and arrows: end point as percentage of bounding box (0-1) */
   endPoint?: { x: number; y: number };
+  /**
+   * For polylines, polygons and clouds: their vertices. For callouts: the
+   * leader line, from its tip to the text box.
+   */
+  vertices?: { x: number; y: number }[];
+  /** Ending at the first point. Default: "openArrow" for double arrows and callouts, otherwise "none" */
+  startEnding?: LineEnding;
+  /** Ending at the last point. Default: "openArrow" for arrows and double arrows, otherwise "none" */
+  endEnding?: LineEnding;
+  /** Fill of rectangles, circles, polygons, clouds and callout boxes. Default: none */
+  fillColor?: string;
+  /** Dash and gap lengths in multiples of the stroke width, e.g. `[3, 2]`. Default or empty: solid */
+  dashPattern?: number[];
+  /** For lines, arrows and polylines: show their length. */
+  measure?: ShapeMeasure;
+  /** For callouts: the text box. */
+  textBox?: { x: number; y: number; width: number; height: number };
+  /** For callouts: the text in the box. */
+  text?: string;
 };
 
 /**
@@ -156,6 +233,11 @@ export interface Highlight {
    */
   content?: Content
   position: ScaledPosition;
+  /**
+   * The text a text highlight covers, to find it again in a revised document.
+   * See {@link createTextAnchor} and {@link reanchorHighlights}.
+   */
+  anchor?: TextAnchor;
 }
 
 /**
@@ -164,7 +246,8 @@ export interface Highlight {
  *
  * @category Type
  */
-export interface GhostHighlight extends Required<Omit<Highlight, "id">> {
+export interface GhostHighlight
+  extends Required<Omit<Highlight, "id" | "anchor">> {
   content: Content;
 }
 
@@ -237,6 +320,283 @@ export type PdfScaleValue =
   | "auto"
   | number;
 
+/**
+ * How the viewer lays out pages: in a vertical or horizontal strip, wrapped
+ * into rows, or one page (or spread) at a time.
+ *
+ * @category Type
+ */
+export type PdfScrollMode = "vertical" | "horizontal" | "wrapped" | "page";
+
+/**
+ * Whether the viewer shows two-page spreads, starting with an odd page (like
+ * a book with a single cover page) or an even page.
+ *
+ * @category Type
+ */
+export type PdfSpreadMode = "none" | "odd" | "even";
+
+/**
+ * Where a user is in a document and how they view it. It is plain JSON, so it
+ * can be stored per user and document and restored later.
+ *
+ * @category Type
+ */
+export interface PdfViewState {
+  /** Page at the top of the viewer (1-indexed). */
+  pageNumber: number;
+
+  /**
+   * Point of that page at the top-left corner of the viewer, in PDF points
+   * (like an XYZ destination). `null` to show the page from its top.
+   */
+  destination: { left: number; top: number } | null;
+
+  /** Zoom level, as a numeric scale or a preset such as `"page-width"`. */
+  scaleValue: PdfScaleValue;
+
+  /** Clockwise rotation of all pages, see `setViewRotation`. */
+  rotation: number;
+
+  /** Rotation of single pages on top of `rotation`, by page number. */
+  pageRotations?: { [pageNumber: number]: number };
+
+  /** Active tab of a {@link LeftPanel} sharing the viewer's event bus. */
+  leftPanelTab?: LeftPanelTab;
+}
+
+/**
+ * Minimum severity of messages a logger passes on. `"silent"` drops all.
+ *
+ * @category Type
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Receives log messages. `console` fits, as does a thin adapter around any
+ * logging library.
+ *
+ * @category Type
+ */
+export interface Logger {
+  debug(message: string, ...data: unknown[]): void;
+  info(message: string, ...data: unknown[]): void;
+  warn(message: string, ...data: unknown[]): void;
+  error(message: string, ...data: unknown[]): void;
+}
+
+/**
+ * Events emitted by {@link PdfHighlighter} and {@link exportPdf}, with their
+ * payloads.
+ *
+ * @category Type
+ */
+export interface PdfHighlighterEvents {
+  /** The pointer was pressed on a highlight. */
+  "highlight:click": { highlight: Highlight; event: PointerEvent };
+  /** The set of selected highlights changed. */
+  "highlights:select": { ids: string[] };
+  /** The user finished selecting text or an area. */
+  "selection:finished": { selection: PdfSelection };
+  /** Another page became the current page. */
+  "page:change": { pageNumber: number; previousPageNumber: number };
+  /** The zoom level changed. */
+  "zoom:change": { scale: number; scaleValue: PdfScaleValue };
+  /** The view rotation or the rotation of single pages changed. */
+  "rotation:change": { rotation: number; pageRotations: { [pageNumber: number]: number } };
+  /** The search state changed. */
+  "search:change": SearchState;
+  /** The view state changed, see `onViewStateChange`. */
+  "viewstate:change": PdfViewState;
+  /** A page of an export is done. */
+  "export:progress": { current: number; total: number };
+}
+
+/**
+ * Typed publish/subscribe for a map of event names to payloads.
+ *
+ * @category Type
+ */
+export interface EventEmitter<Events> {
+  /**
+   * Subscribe to an event.
+   *
+   * @returns - A function that unsubscribes the listener.
+   */
+  on<E extends keyof Events>(
+    event: E,
+    listener: (payload: Events[E]) => void,
+  ): () => void;
+
+  /** Unsubscribe a listener added with `on`. */
+  off<E extends keyof Events>(
+    event: E,
+    listener: (payload: Events[E]) => void,
+  ): void;
+
+  /** Call the listeners of an event with its payload. */
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void;
+}
+
+/**
+ * Describes the text a highlight covers independently of its position, so it
+ * can be found again in a revised document. See {@link reanchorHighlights}.
+ *
+ * @category Type
+ */
+export type TextAnchor = {
+  /** The highlighted text. */
+  exact: string;
+  /** Text directly before the highlighted text. */
+  prefix: string;
+  /** Text directly after the highlighted text. */
+  suffix: string;
+  /** 1-indexed page the text was on. Used as a hint when searching. */
+  pageNumber: number;
+  /** Character offset of the text in its page. Used as a hint when searching. */
+  start?: number;
+};
+
+/**
+ * Options for a search in the {@link PdfHighlighter}.
+ *
+ * @category Type
+ */
+export type SearchOptions = {
+  /** Match upper and lower case exactly. Default: `false` */
+  caseSensitive?: boolean;
+  /**
+   * Only match whole words. Words of a `RegExp` query without the `u` flag
+   * are made of ASCII letters, digits and `_`. Default: `false`
+   */
+  wholeWord?: boolean;
+  /**
+   * Treat the query as a regular expression, in which `^` and `$` match at
+   * line breaks. Default: `false`
+   */
+  regex?: boolean;
+};
+
+/**
+ * State of the current search in the {@link PdfHighlighter}.
+ *
+ * @category Type
+ */
+export type SearchState = {
+  /** The active query, or an empty string if there is no search. */
+  query: string;
+  /** Whether the document is still being searched. */
+  pending: boolean;
+  /** Total number of matches found so far. */
+  matchCount: number;
+  /** 1-indexed position of the selected match, or 0 if none is selected. */
+  currentMatch: number;
+  /** Why the query could not be searched, e.g. an invalid regular expression. */
+  error?: string;
+};
+
+/**
+ * Options for {@link PdfHighlighterUtils.setZoom}.
+ *
+ * @category Type
+ */
+export type ZoomOptions = {
+  /**
+   * Point that stays in place while zooming, in pixels from the top-left
+   * corner of the viewer container. Defaults to the center of the viewer.
+   * Only used for numeric scales.
+   */
+  anchor?: { x: number; y: number };
+};
+
+/**
+ * The author of a comment, or a user who can be mentioned.
+ *
+ * @category Type
+ */
+export type CommentAuthor = {
+  id: string;
+  name: string;
+  /** Image shown next to the author's comments. */
+  avatarUrl?: string;
+};
+
+/**
+ * A comment in a {@link CommentThreadData}.
+ *
+ * @category Type
+ */
+export type HighlightComment = {
+  id: string;
+  author: CommentAuthor;
+  body: string;
+  /** ISO 8601 timestamp. */
+  createdAt: string;
+  /** ISO 8601 timestamp of the last edit, if edited. */
+  updatedAt?: string;
+  /** IDs of the users mentioned with `@name` in the body. */
+  mentions?: string[];
+};
+
+/**
+ * A discussion attached to a highlight. The first comment opens the thread,
+ * the others are replies in the order they were made.
+ *
+ * @category Type
+ */
+export type CommentThreadData = {
+  id: string;
+  /** ID of the highlight the thread is about. */
+  highlightId: string;
+  comments: HighlightComment[];
+  resolved?: boolean;
+  /** ISO 8601 timestamp of when the thread was resolved. */
+  resolvedAt?: string;
+  resolvedBy?: CommentAuthor;
+};
+
+/**
+ * A pointer position on a page, as fractions of the unrotated page width
+ * and height, so it is independent of zoom and rotation.
+ *
+ * @category Type
+ */
+export type CollaboratorCursor = {
+  /** 1-indexed page number. */
+  pageNumber: number;
+  /** 0 (left edge) to 1 (right edge). */
+  x: number;
+  /** 0 (top edge) to 1 (bottom edge). */
+  y: number;
+};
+
+/**
+ * What a user is pointing at and selecting in the document.
+ *
+ * @category Type
+ */
+export type CollaboratorPresence = {
+  /** Pointer position, or `null` if the pointer is outside the pages. */
+  cursor: CollaboratorCursor | null;
+  /** Selection that has not become a highlight yet, if any. */
+  selection: ScaledPosition | null;
+};
+
+/**
+ * Another user viewing the same document, shown by the {@link PdfHighlighter}
+ * with their cursor, selection and name.
+ *
+ * @category Type
+ */
+export type Collaborator = CollaboratorPresence & {
+  /** Unique ID of the user's session. */
+  id: string;
+  /** Name shown next to the cursor. */
+  name: string;
+  /** CSS color of the cursor, selection and name label. */
+  color: string;
+};
+
 // ============================================
 // Left Panel Types
 // ============================================